@@ -3,15 +3,30 @@ import Fastify from 'fastify';
 import cors from '@fastify/cors';
 import mongoose from 'mongoose';
 import logger from '../src/utils/logger';
+import { runMigrations } from '../src/migrations';
+import { getMailTransport } from '../src/mail';
+import { getAllowedOrigins } from '../src/utils/frontendUrl';
 
 // Import plugins
 import cookiesPlugin from '../src/plugins/cookies';
 import authPlugin from '../src/plugins/auth';
 import rateLimitingPlugin from '../src/plugins/rateLimiting';
+import csrfPlugin from '../src/plugins/csrf';
 
 // Import routes
 import routes from '../src/routes';
 import authRoutes from '../src/routes/auth';
+import userRoutes from '../src/routes/users';
+import invitationRoutes from '../src/routes/invitations';
+import apiTokenRoutes from '../src/routes/apiTokens';
+import auditRoutes from '../src/routes/audit';
+import trashRoutes from '../src/routes/trash';
+import duplicateRoutes from '../src/routes/duplicates';
+import vaccinationRoutes from '../src/routes/vaccinations';
+import reportRoutes from '../src/routes/reports';
+import chartRoutes from '../src/routes/chart';
+import vitalsRoutes from '../src/routes/vitals';
+import cronRoutes from '../src/routes/cron';
 
 // Create Fastify instance for serverless
 const app = Fastify({
@@ -28,6 +43,7 @@ async function connectToDatabase() {
     try {
         const mongoUri = process.env.MONGODB_URI || 'mongodb://localhost:27017/clinica-medica';
         await mongoose.connect(mongoUri);
+        await runMigrations();
         isConnected = true;
         console.log('Connected to MongoDB');
     } catch (error) {
@@ -38,21 +54,37 @@ async function connectToDatabase() {
 
 async function setupApp() {
     try {
+        // Fail fast on a missing mail configuration instead of on the first reset email
+        getMailTransport();
+
         // Register CORS
         await app.register(cors, {
-            origin: process.env.FRONTEND_URL || true,
+            origin: getAllowedOrigins(),
             credentials: true,
             methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-            allowedHeaders: ['Content-Type', 'Authorization', 'Cookie']
+            allowedHeaders: ['Content-Type', 'Authorization', 'Cookie', 'X-Session-Passive', 'If-Match'],
+            exposedHeaders: ['ETag']
         });
 
         // Register plugins
         await app.register(rateLimitingPlugin);
         await app.register(cookiesPlugin);
+        await app.register(csrfPlugin);
         await app.register(authPlugin);
 
         // Register routes
         await app.register(authRoutes, { prefix: '/auth' });
+        await app.register(apiTokenRoutes, { prefix: '/auth/tokens' });
+        await app.register(userRoutes, { prefix: '/users' });
+        await app.register(invitationRoutes, { prefix: '/invitations' });
+        await app.register(auditRoutes, { prefix: '/audit' });
+        await app.register(trashRoutes, { prefix: '/trash' });
+        await app.register(duplicateRoutes, { prefix: '/duplicates' });
+        await app.register(vaccinationRoutes, { prefix: '/patients' });
+        await app.register(reportRoutes, { prefix: '/reports' });
+        await app.register(chartRoutes, { prefix: '/patients' });
+        await app.register(vitalsRoutes, { prefix: '/patients' });
+        await app.register(cronRoutes, { prefix: '/cron' });
         await app.register(routes);
 
         // Health check
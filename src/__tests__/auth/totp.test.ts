@@ -0,0 +1,59 @@
+import {
+    base32Encode,
+    base32Decode,
+    generateHotp,
+    generateTotp,
+    verifyTotp,
+    buildOtpauthUrl,
+    generateRecoveryCodes
+} from '../../auth/totp';
+
+describe('TOTP', () => {
+    // RFC 6238 appendix B reference secret ("12345678901234567890")
+    const secret = base32Encode(Buffer.from('12345678901234567890'));
+
+    it('should round-trip base32', () => {
+        expect(secret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+        expect(base32Decode(secret).toString()).toBe('12345678901234567890');
+    });
+
+    it('should match the RFC 4226 HOTP test vectors', () => {
+        expect(generateHotp(secret, 0)).toBe('755224');
+        expect(generateHotp(secret, 1)).toBe('287082');
+        expect(generateHotp(secret, 9)).toBe('520489');
+    });
+
+    it('should match the RFC 6238 SHA1 test vectors (6 digits)', () => {
+        expect(generateTotp(secret, 59 * 1000)).toBe('287082');
+        expect(generateTotp(secret, 1111111109 * 1000)).toBe('081804');
+        expect(generateTotp(secret, 1234567890 * 1000)).toBe('005924');
+        expect(generateTotp(secret, 2000000000 * 1000)).toBe('279037');
+    });
+
+    it('should accept codes within the drift window only', () => {
+        const time = 1234567890 * 1000;
+        const previousStep = generateTotp(secret, time - 30 * 1000);
+        const farStep = generateTotp(secret, time - 90 * 1000);
+
+        expect(verifyTotp(secret, '005924', { time })).toBe(Math.floor(1234567890 / 30));
+        expect(verifyTotp(secret, previousStep, { time })).not.toBeNull();
+        expect(verifyTotp(secret, farStep, { time })).toBeNull();
+        expect(verifyTotp(secret, 'abcdef', { time })).toBeNull();
+    });
+
+    it('should build a provisioning URI for authenticator apps', () => {
+        const url = buildOtpauthUrl(secret, 'doctora@clinica.test', 'Clínica');
+
+        expect(url.startsWith('otpauth://totp/Cl%C3%ADnica%3Adoctora%40clinica.test?')).toBe(true);
+        expect(url).toContain(`secret=${secret}`);
+        expect(url).toContain('period=30');
+    });
+
+    it('should generate unique recovery codes', () => {
+        const codes = generateRecoveryCodes();
+
+        expect(codes).toHaveLength(10);
+        expect(new Set(codes).size).toBe(10);
+        codes.forEach(code => expect(code).toMatch(/^[a-f0-9]{5}-[a-f0-9]{5}$/));
+    });
+});
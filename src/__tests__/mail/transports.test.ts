@@ -0,0 +1,78 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+    FileTransport,
+    ConsoleTransport,
+    SmtpTransport,
+    createMailTransportFromEnv
+} from '../../mail';
+
+describe('Mail transports', () => {
+    const message = {
+        to: 'staff@clinica.test',
+        subject: 'Prueba',
+        text: 'Contenido de prueba'
+    };
+
+    describe('FileTransport', () => {
+        let directory: string;
+
+        beforeEach(async () => {
+            directory = await fs.mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+        });
+
+        afterEach(async () => {
+            await fs.rm(directory, { recursive: true, force: true });
+        });
+
+        it('should write each message as a JSON file', async () => {
+            const transport = new FileTransport(directory, 'clinica@clinica.test');
+
+            await transport.send(message);
+
+            const files = await fs.readdir(directory);
+            expect(files).toHaveLength(1);
+            const stored = JSON.parse(await fs.readFile(path.join(directory, files[0]), 'utf8'));
+            expect(stored).toMatchObject({ ...message, from: 'clinica@clinica.test' });
+            expect(stored.sentAt).toBeDefined();
+        });
+    });
+
+    describe('createMailTransportFromEnv', () => {
+        const original = process.env.MAIL_TRANSPORT;
+        const originalNodeEnv = process.env.NODE_ENV;
+
+        afterEach(() => {
+            if (original === undefined) {
+                delete process.env.MAIL_TRANSPORT;
+            } else {
+                process.env.MAIL_TRANSPORT = original;
+            }
+            process.env.NODE_ENV = originalNodeEnv;
+        });
+
+        it('should default to the console transport', () => {
+            delete process.env.MAIL_TRANSPORT;
+            expect(createMailTransportFromEnv()).toBeInstanceOf(ConsoleTransport);
+        });
+
+        it('should build the configured transport', () => {
+            process.env.MAIL_TRANSPORT = 'file';
+            expect(createMailTransportFromEnv()).toBeInstanceOf(FileTransport);
+
+            process.env.MAIL_TRANSPORT = 'smtp';
+            expect(createMailTransportFromEnv()).toBeInstanceOf(SmtpTransport);
+        });
+
+        it('should refuse the console transport in production', () => {
+            process.env.NODE_ENV = 'production';
+
+            delete process.env.MAIL_TRANSPORT;
+            expect(() => createMailTransportFromEnv()).toThrow('MAIL_TRANSPORT');
+
+            process.env.MAIL_TRANSPORT = 'console';
+            expect(() => createMailTransportFromEnv()).toThrow('MAIL_TRANSPORT');
+        });
+    });
+});
@@ -0,0 +1,155 @@
+import { connectDB, closeDB, clearDB } from '../testUtils';
+import { Patient } from '../../models/Patient';
+import { Migration } from '../../models/Migration';
+import { User, Session } from '../../models/authModels';
+import { runMigrations, MigrationDefinition } from '../../migrations';
+import patientSearchKeys from '../../migrations/001-patient-search-keys';
+import patientPhones from '../../migrations/002-patient-phones';
+import patientVaccinations from '../../migrations/003-patient-vaccinations';
+import userEmails from '../../migrations/004-user-emails';
+import patientPhoneIndex from '../../migrations/005-patient-phone-index';
+import patientDpiIndex from '../../migrations/006-patient-dpi-index';
+import patientPhoneSearchKeys from '../../migrations/007-patient-phone-search-keys';
+import sessionPublicIds from '../../migrations/008-session-public-ids';
+
+describe('Migrations', () => {
+    beforeAll(async () => {
+        await connectDB();
+    });
+
+    beforeEach(async () => {
+        await clearDB();
+    });
+
+    afterAll(async () => {
+        await closeDB();
+    });
+
+    it('should run each migration once and record it', async () => {
+        const up = jest.fn().mockResolvedValue(undefined);
+        const migrations: MigrationDefinition[] = [{ id: '999-test', description: 'Test', up }];
+
+        expect(await runMigrations(migrations)).toEqual(['999-test']);
+        expect(await runMigrations(migrations)).toEqual([]);
+        expect(up).toHaveBeenCalledTimes(1);
+        expect(await Migration.findById('999-test')).not.toBeNull();
+    });
+
+    it('should backfill search keys of existing patients', async () => {
+        // Inserted directly, as patients created before search keys existed
+        const { insertedId } = await Patient.collection.insertOne({
+            firstName: 'José',
+            lastName: 'Pérez',
+            deletedAt: null,
+            mergedInto: null
+        });
+
+        await patientSearchKeys.up();
+
+        const patient = await Patient.findById(insertedId).lean();
+        expect(patient?.searchKeys).toEqual(expect.arrayContaining(['jose', 'perez']));
+    });
+
+    it('should move existing phones into the phones list', async () => {
+        const { insertedId } = await Patient.collection.insertOne({
+            firstName: 'José',
+            lastName: 'Pérez',
+            phone: '+502 5555-1234',
+            deletedAt: null,
+            mergedInto: null
+        });
+
+        await patientPhones.up();
+
+        const patient = await Patient.findById(insertedId).lean();
+        expect(patient?.phones).toEqual([{ label: 'mobile', number: '+502 5555-1234', e164: '+50255551234' }]);
+    });
+
+    it('should turn vaccination names into vaccination entries', async () => {
+        const { insertedId } = await Patient.collection.insertOne({
+            firstName: 'José',
+            lastName: 'Pérez',
+            vaccination: ['BCG (Tuberculosis)', 'MMR (Sarampión, Paperas, Rubéola)', 'Fiebre amarilla'],
+            deletedAt: null,
+            mergedInto: null
+        });
+
+        await patientVaccinations.up();
+
+        const patient = await Patient.findById(insertedId).lean();
+        expect(patient?.vaccination).toEqual(['BCG', 'SPR', 'Fiebre amarilla']);
+        expect(patient?.vaccinations?.map(entry => entry.vaccine)).toEqual(['BCG', 'SPR', 'Fiebre amarilla']);
+        expect(patient?.vaccinations?.[0].administeredAt).toBeUndefined();
+    });
+
+    it('should lowercase user emails and leave accounts that would collide', async () => {
+        // Inserted directly, as accounts created before emails were lowercased
+        await User.collection.insertMany([
+            { _id: 'u1', email: 'Ana.Lopez@Clinica.org', hashed_password: 'x' },
+            { _id: 'u2', email: 'Juan@clinica.org', hashed_password: 'x' },
+            { _id: 'u3', email: 'juan@clinica.org', hashed_password: 'x' }
+        ] as any[]);
+
+        await userEmails.up();
+
+        expect((await User.findById('u1').lean())?.email).toBe('ana.lopez@clinica.org');
+        expect((await User.findById('u2').lean())?.email).toBe('Juan@clinica.org');
+        expect((await User.findById('u3').lean())?.email).toBe('juan@clinica.org');
+    });
+
+    it('should drop the unique phone index so relatives can share a number', async () => {
+        await Patient.init();
+        await Patient.collection.createIndex({ phone: 1 }, { unique: true, sparse: true });
+
+        await patientPhoneIndex.up();
+        await patientPhoneIndex.up();
+
+        const indexes = await Patient.collection.indexes();
+        expect(indexes.map(index => index.name)).not.toContain('phone_1');
+    });
+
+    it('should replace the DPI index with one limited to active patients', async () => {
+        await Patient.collection.createIndex({ dpi: 1 }, { unique: true, sparse: true });
+
+        await patientDpiIndex.up();
+
+        const indexes = await Patient.collection.indexes();
+        expect(indexes.map(index => index.name)).not.toContain('dpi_1');
+        expect(indexes.find(index => index.name === 'dpi_active_unique')?.partialFilterExpression).toBeDefined();
+    });
+
+    it('should index the last digits of existing phones', async () => {
+        const { insertedId } = await Patient.collection.insertOne({
+            firstName: 'José',
+            lastName: 'Pérez',
+            phone: '+502 5555-1234',
+            phones: [{ label: 'mobile', number: '+502 5555-1234', e164: '+50255551234' }],
+            searchKeys: ['jo', 'jose', '#55551234'],
+            deletedAt: null,
+            mergedInto: null
+        });
+
+        await patientPhoneSearchKeys.up();
+
+        const patient = await Patient.findById(insertedId).lean();
+        expect(patient?.searchKeys).toEqual(expect.arrayContaining(['jose', '#1234', '#55551234']));
+    });
+
+    it('should give existing sessions a public id and index it', async () => {
+        // Sessions from before public ids kept the unique index from being built
+        await Session.collection.drop().catch(() => undefined);
+        const expires = Date.now() + 60_000;
+        await Session.collection.insertMany([
+            { _id: 's1', user_id: 'u1', active_expires: expires, idle_expires: expires },
+            { _id: 's2', user_id: 'u1', active_expires: expires, idle_expires: expires }
+        ] as any[]);
+
+        await sessionPublicIds.up();
+
+        const sessions = await Session.find().lean();
+        expect(sessions.every(session => /^[0-9a-f]{24}$/.test(session.public_id))).toBe(true);
+        expect(sessions[0].public_id).not.toBe(sessions[1].public_id);
+        const indexes = await Session.collection.indexes();
+        expect(indexes.find(index => index.name === 'public_id_1')?.unique).toBe(true);
+    });
+});
@@ -1,10 +1,11 @@
 import { FastifyInstance } from 'fastify';
 import { build } from '../testApp';
-import { connectDB, closeDB, clearDB } from '../testUtils';
+import { connectDB, closeDB, clearDB, createTestUser, ifMatch } from '../testUtils';
 import { Patient } from '../../models/Patient';
 
 describe('API Routes', () => {
     let app: FastifyInstance;
+    let doctor: Awaited<ReturnType<typeof createTestUser>>;
 
     beforeAll(async () => {
         await connectDB();
@@ -13,6 +14,7 @@ describe('API Routes', () => {
 
     beforeEach(async () => {
         await clearDB();
+        doctor = await createTestUser('doctor');
     });
 
     afterAll(async () => {
@@ -24,7 +26,8 @@ describe('API Routes', () => {
         it('should return empty stats when no patients exist', async () => {
             const response = await app.inject({
                 method: 'GET',
-                url: '/api/stats'
+                url: '/api/stats',
+                cookies: doctor.cookies
             });
 
             expect(response.statusCode).toBe(200);
@@ -79,7 +82,8 @@ describe('API Routes', () => {
 
             const response = await app.inject({
                 method: 'GET',
-                url: '/api/stats'
+                url: '/api/stats',
+                cookies: doctor.cookies
             });
 
             expect(response.statusCode).toBe(200);
@@ -125,7 +129,8 @@ describe('API Routes', () => {
         it('should return all patients', async () => {
             const response = await app.inject({
                 method: 'GET',
-                url: '/api/patients'
+                url: '/api/patients',
+                cookies: doctor.cookies
             });
 
             expect(response.statusCode).toBe(200);
@@ -139,7 +144,8 @@ describe('API Routes', () => {
         it('should filter by gender', async () => {
             const response = await app.inject({
                 method: 'GET',
-                url: '/api/patients?gender=female'
+                url: '/api/patients?gender=female',
+                cookies: doctor.cookies
             });
 
             expect(response.statusCode).toBe(200);
@@ -151,7 +157,8 @@ describe('API Routes', () => {
         it('should filter by age range', async () => {
             const response = await app.inject({
                 method: 'GET',
-                url: '/api/patients?ageMin=40&ageMax=50'
+                url: '/api/patients?ageMin=40&ageMax=50',
+                cookies: doctor.cookies
             });
 
             expect(response.statusCode).toBe(200);
@@ -163,7 +170,8 @@ describe('API Routes', () => {
         it('should support pagination', async () => {
             const response = await app.inject({
                 method: 'GET',
-                url: '/api/patients?limit=1&offset=1'
+                url: '/api/patients?limit=1&offset=1',
+                cookies: doctor.cookies
             });
 
             expect(response.statusCode).toBe(200);
@@ -172,6 +180,141 @@ describe('API Routes', () => {
             expect(data.limit).toBe(1);
             expect(data.offset).toBe(1);
         });
+
+        describe('cursor pagination', () => {
+            const page = async (query: string) => {
+                const response = await app.inject({ method: 'GET', url: `/api/patients?${query}`, cookies: doctor.cookies });
+                return { status: response.statusCode, data: JSON.parse(response.payload) };
+            };
+
+            it('should walk the list with nextCursor and no total by default', async () => {
+                const first = await page('cursor=&limit=1&sort=name');
+                expect(first.data.patients[0].firstName).toBe('Ana');
+                expect(first.data.total).toBeUndefined();
+                expect(first.data.offset).toBeUndefined();
+
+                const second = await page(`cursor=${first.data.nextCursor}&limit=1&sort=name`);
+                expect(second.data.patients[0].firstName).toBe('Carlos');
+                expect(second.data.nextCursor).toBeNull();
+            });
+
+            it('should not shift pages when patients are added meanwhile', async () => {
+                const first = await page('cursor=&limit=1');
+                await Patient.create({ firstName: 'Beatriz', lastName: 'López' });
+
+                const second = await page(`cursor=${first.data.nextCursor}&limit=1`);
+                expect(second.data.patients[0].id).not.toBe(first.data.patients[0].id);
+                expect(second.data.patients[0].firstName).not.toBe('Beatriz');
+            });
+
+            it('should count on request', async () => {
+                expect((await page('cursor=&total=exact')).data.total).toBe(2);
+                expect((await page('total=none')).data.total).toBeUndefined();
+
+                const estimated = await page('cursor=&total=estimate');
+                expect(estimated.data.total).toBe(2);
+                expect(estimated.data.totalEstimated).toBe(true);
+            });
+
+            it('should reject a cursor from another sort', async () => {
+                const first = await page('cursor=&limit=1&sort=name');
+                expect((await page(`cursor=${first.data.nextCursor}&sort=visitDate`)).status).toBe(400);
+            });
+        });
+
+        describe('search', () => {
+            const search = async (query: string, extra: string = '') => {
+                const response = await app.inject({
+                    method: 'GET',
+                    url: `/api/patients?query=${encodeURIComponent(query)}${extra}`,
+                    cookies: doctor.cookies
+                });
+                return JSON.parse(response.payload).patients.map((patient: any) => patient.firstName);
+            };
+
+            it('should ignore accents and case', async () => {
+                expect(await search('martinez')).toEqual(['Ana']);
+                expect(await search('RODRÍGUEZ')).toEqual(['Carlos']);
+            });
+
+            it('should match name prefixes', async () => {
+                expect(await search('Car')).toEqual(['Carlos']);
+                expect(await search('an mar')).toEqual(['Ana']);
+            });
+
+            it('should tolerate phonetic spellings and small typos', async () => {
+                expect(await search('Rodrigues')).toEqual(['Carlos']);
+                expect(await search('Martnez')).toEqual(['Ana']);
+            });
+
+            it('should require every word to match', async () => {
+                expect(await search('Ana Rodríguez')).toEqual([]);
+            });
+
+            it('should rank exact matches above partial ones', async () => {
+                await Patient.create({ firstName: 'Anabella', lastName: 'Martínez' });
+                expect(await search('Ana Martínez')).toEqual(['Ana', 'Anabella']);
+            });
+
+            it('should combine with other filters', async () => {
+                expect(await search('Martínez', '&gender=male')).toEqual([]);
+            });
+
+            it('should match the last digits of a phone number', async () => {
+                expect(await search('4444-4444')).toEqual(['Ana']);
+                expect(await search('5555')).toEqual(['Carlos']);
+                expect(await search('carlos 5555')).toEqual(['Carlos']);
+                expect(await search('carlos 4444')).toEqual([]);
+            });
+        });
+
+        describe('filters and sorting', () => {
+            const list = async (query: string) => {
+                const response = await app.inject({ method: 'GET', url: `/api/patients?${query}`, cookies: doctor.cookies });
+                return { status: response.statusCode, data: JSON.parse(response.payload) };
+            };
+            const names = (data: any) => data.patients.map((patient: any) => patient.firstName);
+
+            beforeEach(async () => {
+                await Patient.updateOne({ firstName: 'Ana' }, {
+                    visitDate: new Date('2024-03-15T15:00:00Z'),
+                    birthdate: new Date('1994-01-01'),
+                    vaccination: ['BCG', 'Hepatitis B']
+                });
+                await Patient.updateOne({ firstName: 'Carlos' }, {
+                    visitDate: new Date('2024-06-01T10:00:00Z'),
+                    birthdate: new Date('1979-01-01'),
+                    vaccination: ['BCG']
+                });
+            });
+
+            it('should filter by visit date range including the last day', async () => {
+                const { data } = await list('visitDateFrom=2024-03-01&visitDateTo=2024-03-15');
+                expect(names(data)).toEqual(['Ana']);
+            });
+
+            it('should filter by creation date', async () => {
+                expect((await list('createdAtFrom=2000-01-01')).data.total).toBe(2);
+                expect((await list('createdAtTo=2000-01-01')).data.total).toBe(0);
+            });
+
+            it('should filter by vaccination and occupation', async () => {
+                expect(names((await list('vaccination=BCG,Hepatitis%20B')).data)).toEqual(['Ana']);
+                expect(names((await list('occupation=conta')).data)).toEqual(['Carlos']);
+            });
+
+            it('should sort by the requested field and order', async () => {
+                expect(names((await list('sort=name')).data)).toEqual(['Ana', 'Carlos']);
+                expect(names((await list('sort=visitDate&order=desc')).data)).toEqual(['Carlos', 'Ana']);
+                expect(names((await list('sort=age&order=desc')).data)).toEqual(['Carlos', 'Ana']);
+            });
+
+            it('should reject unknown sorts and invalid dates', async () => {
+                expect((await list('sort=phone')).status).toBe(400);
+                expect((await list('order=up')).status).toBe(400);
+                expect((await list('visitDateFrom=yesterday')).status).toBe(400);
+            });
+        });
     });
 
     describe('GET /api/patients/:id', () => {
@@ -195,7 +338,8 @@ describe('API Routes', () => {
         it('should return patient by id', async () => {
             const response = await app.inject({
                 method: 'GET',
-                url: `/api/patients/${patientId}`
+                url: `/api/patients/${patientId}`,
+                cookies: doctor.cookies
             });
 
             expect(response.statusCode).toBe(200);
@@ -207,7 +351,8 @@ describe('API Routes', () => {
         it('should return 404 for non-existent patient', async () => {
             const response = await app.inject({
                 method: 'GET',
-                url: '/api/patients/507f1f77bcf86cd799439011'
+                url: '/api/patients/507f1f77bcf86cd799439011',
+                cookies: doctor.cookies
             });
 
             expect(response.statusCode).toBe(404);
@@ -235,6 +380,7 @@ describe('API Routes', () => {
             const response = await app.inject({
                 method: 'POST',
                 url: '/api/patients',
+                cookies: doctor.cookies,
                 payload: validPatientData
             });
 
@@ -254,6 +400,7 @@ describe('API Routes', () => {
             const response = await app.inject({
                 method: 'POST',
                 url: '/api/patients',
+                cookies: doctor.cookies,
                 payload: invalidData
             });
 
@@ -271,6 +418,7 @@ describe('API Routes', () => {
             const response = await app.inject({
                 method: 'POST',
                 url: '/api/patients',
+                cookies: doctor.cookies,
                 payload: incompleteData
             });
 
@@ -307,6 +455,8 @@ describe('API Routes', () => {
             const response = await app.inject({
                 method: 'PUT',
                 url: `/api/patients/${patientId}`,
+                cookies: doctor.cookies,
+                headers: await ifMatch(patientId),
                 payload: updateData
             });
 
@@ -316,10 +466,33 @@ describe('API Routes', () => {
             expect(patient.age).toBe(26);
         });
 
+        it('should ignore server-owned fields in the body', async () => {
+            const response = await app.inject({
+                method: 'PUT',
+                url: `/api/patients/${patientId}`,
+                cookies: doctor.cookies,
+                headers: await ifMatch(patientId),
+                payload: {
+                    occupation: 'Maestra',
+                    deletedAt: new Date().toISOString(),
+                    deletedBy: doctor.id,
+                    searchKeys: ['x']
+                }
+            });
+
+            expect(response.statusCode).toBe(200);
+            const patient = await Patient.findById(patientId).lean();
+            expect(patient!.occupation).toBe('Maestra');
+            expect(patient!.deletedAt).toBeNull();
+            expect(patient!.deletedBy).toBeUndefined();
+            expect(patient!.searchKeys).not.toEqual(['x']);
+        });
+
         it('should return 404 for non-existent patient', async () => {
             const response = await app.inject({
                 method: 'PUT',
                 url: '/api/patients/507f1f77bcf86cd799439011',
+                cookies: doctor.cookies,
                 payload: { firstName: 'Test' }
             });
 
@@ -348,22 +521,25 @@ describe('API Routes', () => {
         it('should delete patient', async () => {
             const response = await app.inject({
                 method: 'DELETE',
-                url: `/api/patients/${patientId}`
+                url: `/api/patients/${patientId}`,
+                cookies: doctor.cookies
             });
 
             expect(response.statusCode).toBe(200);
             const result = JSON.parse(response.payload);
             expect(result.message).toBe('Patient deleted successfully');
 
-            // Verify patient is deleted
+            // Verify patient is moved to the trash, not destroyed
             const patient = await Patient.findById(patientId);
-            expect(patient).toBeNull();
+            expect(patient?.deletedAt).toBeInstanceOf(Date);
+            expect(patient?.deletedBy).toBe(doctor.id);
         });
 
         it('should return 404 for non-existent patient', async () => {
             const response = await app.inject({
                 method: 'DELETE',
-                url: '/api/patients/507f1f77bcf86cd799439011'
+                url: '/api/patients/507f1f77bcf86cd799439011',
+                cookies: doctor.cookies
             });
 
             expect(response.statusCode).toBe(404);
@@ -397,6 +573,8 @@ describe('API Routes', () => {
             const response = await app.inject({
                 method: 'POST',
                 url: `/api/patients/${patientId}/notes`,
+                cookies: doctor.cookies,
+                headers: await ifMatch(patientId),
                 payload: noteData
             });
 
@@ -410,6 +588,7 @@ describe('API Routes', () => {
             const response = await app.inject({
                 method: 'POST',
                 url: `/api/patients/${patientId}/notes`,
+                cookies: doctor.cookies,
                 payload: { title: 'Test' } // Missing content
             });
 
@@ -422,6 +601,7 @@ describe('API Routes', () => {
             const response = await app.inject({
                 method: 'POST',
                 url: '/api/patients/507f1f77bcf86cd799439011/notes',
+                cookies: doctor.cookies,
                 payload: { title: 'Test', content: 'Test content' }
             });
 
@@ -444,22 +624,69 @@ describe('API Routes', () => {
             });
         });
 
-        it('should find patient by phone number', async () => {
+        it('should find patients by the last digits of their phone', async () => {
             const response = await app.inject({
                 method: 'GET',
-                url: '/api/patients/search/phone/1234'
+                url: '/api/patients/search/phone/5678',
+                cookies: doctor.cookies
             });
 
             expect(response.statusCode).toBe(200);
-            const patient = JSON.parse(response.payload);
-            expect(patient.firstName).toBe('Phone');
-            expect(patient.phone).toBe('+502 1234-5678');
+            const data = JSON.parse(response.payload);
+            expect(data.match).toBe('suffix');
+            expect(data.patients[0].firstName).toBe('Phone');
+            expect(data.patients[0].phone).toBe('+502 1234-5678');
+        });
+
+        it('should match a full number typed in any format', async () => {
+            for (const phone of ['12345678', '1234-5678', '+502 1234 5678', '(502) 1234-5678']) {
+                const response = await app.inject({
+                    method: 'GET',
+                    url: `/api/patients/search/phone/${encodeURIComponent(phone)}`,
+                    cookies: doctor.cookies
+                });
+
+                expect(response.statusCode).toBe(200);
+                expect(JSON.parse(response.payload).match).toBe('exact');
+            }
+        });
+
+        it('should return every patient sharing the number, including secondary phones', async () => {
+            await Patient.create({
+                firstName: 'Hija',
+                lastName: 'Search',
+                phones: [
+                    { label: 'mobile', number: '4444-0000' },
+                    { label: 'home', number: '1234 5678' }
+                ]
+            });
+
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/patients/search/phone/12345678',
+                cookies: doctor.cookies
+            });
+
+            const data = JSON.parse(response.payload);
+            expect(data.total).toBe(2);
+            expect(data.patients.map((patient: any) => patient.firstName).sort()).toEqual(['Hija', 'Phone']);
+        });
+
+        it('should require at least four digits', async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/patients/search/phone/12',
+                cookies: doctor.cookies
+            });
+
+            expect(response.statusCode).toBe(400);
         });
 
         it('should return 404 for non-existent phone', async () => {
             const response = await app.inject({
                 method: 'GET',
-                url: '/api/patients/search/phone/9999'
+                url: '/api/patients/search/phone/9999',
+                cookies: doctor.cookies
             });
 
             expect(response.statusCode).toBe(404);
@@ -467,4 +694,67 @@ describe('API Routes', () => {
             expect(error.error).toBe('Not Found');
         });
     });
+
+    describe('GET /api/patients/search/dpi/:dpi', () => {
+        beforeEach(async () => {
+            await Patient.create([
+                { firstName: 'Ana', lastName: 'Ruiz', dpi: '8765432120901' },
+                {
+                    firstName: 'Sofía',
+                    lastName: 'Ruiz',
+                    gender: 'child',
+                    guardian: { dpi: '8765432120901', name: 'Ana Ruiz', relationship: 'Madre' }
+                }
+            ]);
+        });
+
+        it('should find the patient and the minors they are guardian of', async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: `/api/patients/search/dpi/${encodeURIComponent('8765 43212 0901')}`,
+                cookies: doctor.cookies
+            });
+
+            expect(response.statusCode).toBe(200);
+            const data = JSON.parse(response.payload);
+            expect(data.patient.firstName).toBe('Ana');
+            expect(data.dependents.map((patient: any) => patient.firstName)).toEqual(['Sofía']);
+            expect(data.dependents[0].guardian).toMatchObject({ dpi: '8765432120901', relationship: 'Madre' });
+        });
+
+        it('should reject an invalid DPI', async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/patients/search/dpi/8765432130901',
+                cookies: doctor.cookies
+            });
+
+            expect(response.statusCode).toBe(400);
+            expect(JSON.parse(response.payload).message).toBe('DPI check digit is invalid');
+        });
+
+        it('should return 404 for an unknown DPI', async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/patients/search/dpi/1234567890101',
+                cookies: doctor.cookies
+            });
+
+            expect(response.statusCode).toBe(404);
+        });
+
+        it('should not create a second patient with the same DPI', async () => {
+            await Patient.init();
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/patients',
+                cookies: doctor.cookies,
+                payload: { firstName: 'Otra', lastName: 'Persona', dpi: '8765-43212-0901' }
+            });
+
+            expect(response.statusCode).toBe(409);
+            expect(JSON.parse(response.payload)).toMatchObject({ error: 'Conflict', field: 'dpi' });
+        });
+    });
 });
\ No newline at end of file
@@ -0,0 +1,199 @@
+import { FastifyInstance } from 'fastify';
+import { build } from '../testApp';
+import { connectDB, closeDB, clearDB, createTestUser } from '../testUtils';
+import { ApiToken, User } from '../../models/authModels';
+import { hashToken } from '../../auth/tokens';
+
+describe('API tokens', () => {
+    let app: FastifyInstance;
+    let doctor: Awaited<ReturnType<typeof createTestUser>>;
+
+    const mintToken = async (scopes: string[], user = doctor) => {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/api/auth/tokens',
+            cookies: user.cookies,
+            payload: { name: 'Importador de laboratorio', scopes }
+        });
+        return JSON.parse(response.payload);
+    };
+
+    beforeAll(async () => {
+        await connectDB();
+        app = await build();
+    });
+
+    beforeEach(async () => {
+        await clearDB();
+        doctor = await createTestUser('doctor');
+    });
+
+    afterAll(async () => {
+        await app.close();
+        await closeDB();
+    });
+
+    describe('POST /api/auth/tokens', () => {
+        it('should return the raw token once and store only its hash', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/auth/tokens',
+                cookies: doctor.cookies,
+                payload: { name: 'Reportes', scopes: ['patients:read'], expiresInDays: 30 }
+            });
+
+            expect(response.statusCode).toBe(201);
+            const data = JSON.parse(response.payload);
+            expect(data.token).toMatch(/^ccg_/);
+            expect(data.apiToken.scopes).toEqual(['patients:read']);
+            expect(data.token.startsWith(data.apiToken.prefix)).toBe(true);
+
+            const stored = await ApiToken.findById(data.apiToken.id);
+            expect(stored?.token_hash).toBe(hashToken(data.token));
+        });
+
+        it('should reject scopes beyond the user role', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/auth/tokens',
+                cookies: doctor.cookies,
+                payload: { name: 'Admin', scopes: ['users:manage'] }
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+
+        it('should reject unknown scopes', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/auth/tokens',
+                cookies: doctor.cookies,
+                payload: { name: 'Todo', scopes: ['everything'] }
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+
+        it('should not let a token mint another token', async () => {
+            const { token } = await mintToken(['patients:read']);
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/auth/tokens',
+                headers: { authorization: `Bearer ${token}` },
+                payload: { name: 'Otro', scopes: ['patients:read'] }
+            });
+
+            expect(response.statusCode).toBe(401);
+        });
+    });
+
+    describe('bearer authentication', () => {
+        it('should allow routes within the token scopes', async () => {
+            const { token } = await mintToken(['patients:read']);
+
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/patients',
+                headers: { authorization: `Bearer ${token}` }
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect((await ApiToken.findOne())?.last_used_at).not.toBeNull();
+        });
+
+        it('should reject routes outside the token scopes', async () => {
+            const { token } = await mintToken(['patients:read']);
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/patients',
+                headers: { authorization: `Bearer ${token}` },
+                payload: { firstName: 'Ana', lastName: 'López' }
+            });
+
+            expect(response.statusCode).toBe(403);
+        });
+
+        it('should follow role changes of the owner', async () => {
+            const { token } = await mintToken(['patients:delete']);
+            await User.findByIdAndUpdate(doctor.id, { role: 'nurse' });
+
+            const response = await app.inject({
+                method: 'DELETE',
+                url: '/api/patients/507f1f77bcf86cd799439011',
+                headers: { authorization: `Bearer ${token}` }
+            });
+
+            expect(response.statusCode).toBe(403);
+        });
+
+        it('should reject unknown, expired and revoked tokens', async () => {
+            const expired = await mintToken(['patients:read']);
+            await ApiToken.findByIdAndUpdate(expired.apiToken.id, { expires_at: new Date(Date.now() - 1000) });
+
+            const revoked = await mintToken(['patients:read']);
+            await app.inject({
+                method: 'DELETE',
+                url: `/api/auth/tokens/${revoked.apiToken.id}`,
+                cookies: doctor.cookies
+            });
+
+            for (const token of ['ccg_not-a-token', expired.token, revoked.token]) {
+                const response = await app.inject({
+                    method: 'GET',
+                    url: '/api/patients',
+                    headers: { authorization: `Bearer ${token}` }
+                });
+                expect(response.statusCode).toBe(401);
+            }
+        });
+
+        it('should reject tokens of disabled accounts', async () => {
+            const { token } = await mintToken(['patients:read']);
+            await User.findByIdAndUpdate(doctor.id, { active: false });
+
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/patients',
+                headers: { authorization: `Bearer ${token}` }
+            });
+
+            expect(response.statusCode).toBe(401);
+        });
+    });
+
+    describe('GET /api/auth/tokens', () => {
+        it('should list only the current user tokens without secrets', async () => {
+            await mintToken(['patients:read']);
+            const nurse = await createTestUser('nurse');
+            await mintToken(['patients:read'], nurse);
+
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/auth/tokens',
+                cookies: doctor.cookies
+            });
+
+            expect(response.statusCode).toBe(200);
+            const { tokens } = JSON.parse(response.payload);
+            expect(tokens).toHaveLength(1);
+            expect(tokens[0].token_hash).toBeUndefined();
+        });
+    });
+
+    describe('DELETE /api/auth/tokens/:id', () => {
+        it('should not revoke tokens of other users', async () => {
+            const nurse = await createTestUser('nurse');
+            const { apiToken } = await mintToken(['patients:read'], nurse);
+
+            const response = await app.inject({
+                method: 'DELETE',
+                url: `/api/auth/tokens/${apiToken.id}`,
+                cookies: doctor.cookies
+            });
+
+            expect(response.statusCode).toBe(404);
+        });
+    });
+});
@@ -0,0 +1,211 @@
+import { FastifyInstance } from 'fastify';
+import { build } from '../testApp';
+import { connectDB, closeDB, clearDB, createTestUser, ifMatch } from '../testUtils';
+import { Patient } from '../../models/Patient';
+import { AuditLog } from '../../models/AuditLog';
+import { diffFields } from '../../utils/audit';
+
+describe('Audit trail', () => {
+    let app: FastifyInstance;
+    let admin: Awaited<ReturnType<typeof createTestUser>>;
+    let doctor: Awaited<ReturnType<typeof createTestUser>>;
+    let patientId: string;
+
+    beforeAll(async () => {
+        await connectDB();
+        app = await build();
+    });
+
+    beforeEach(async () => {
+        await clearDB();
+        admin = await createTestUser('admin');
+        doctor = await createTestUser('doctor');
+
+        const patient = await Patient.create({
+            firstName: 'María',
+            lastName: 'García',
+            occupation: 'Maestra',
+            notes: [{ title: 'Consulta', content: 'Control de rutina', date: new Date() }]
+        });
+        patientId = patient._id.toString();
+    });
+
+    afterAll(async () => {
+        await app.close();
+        await closeDB();
+    });
+
+    describe('recording', () => {
+        it('should record who viewed a patient', async () => {
+            await app.inject({
+                method: 'GET',
+                url: `/api/patients/${patientId}`,
+                headers: { 'user-agent': 'Consultorio 2' },
+                cookies: doctor.cookies
+            });
+
+            const entry = await AuditLog.findOne({ action: 'patient.view' });
+            expect(entry?.actorId).toBe(doctor.id);
+            expect(entry?.actorEmail).toBe(doctor.email);
+            expect(entry?.patientId).toBe(patientId);
+            expect(entry?.userAgent).toBe('Consultorio 2');
+            expect(entry?.ip).toBeDefined();
+        });
+
+        it('should record the patients returned by a list', async () => {
+            await app.inject({
+                method: 'GET',
+                url: '/api/patients',
+                cookies: doctor.cookies
+            });
+
+            const entry = await AuditLog.findOne({ action: 'patient.list' });
+            expect(entry?.patientIds).toEqual([patientId]);
+        });
+
+        it('should record changed fields with before and after values', async () => {
+            await app.inject({
+                method: 'PUT',
+                url: `/api/patients/${patientId}`,
+                cookies: doctor.cookies,
+                headers: await ifMatch(patientId),
+                payload: { occupation: 'Directora', address: 'Zona 1, Ciudad de Guatemala' }
+            });
+
+            const entry = await AuditLog.findOne({ action: 'patient.update' });
+            expect(entry?.changes).toEqual(expect.arrayContaining([
+                { field: 'occupation', before: 'Maestra', after: 'Directora' },
+                { field: 'address', before: null, after: 'Zona 1, Ciudad de Guatemala' }
+            ]));
+        });
+
+        it('should not record fields that were sent unchanged', async () => {
+            await app.inject({
+                method: 'PUT',
+                url: `/api/patients/${patientId}`,
+                cookies: doctor.cookies,
+                headers: await ifMatch(patientId),
+                payload: { occupation: 'Maestra' }
+            });
+
+            const entry = await AuditLog.findOne({ action: 'patient.update' });
+            expect(entry?.changes).toEqual([]);
+        });
+
+        it('should record deleted notes with the reason', async () => {
+            const patient = await Patient.findById(patientId);
+            const noteId = (patient!.notes[0] as any)._id.toString();
+
+            await app.inject({
+                method: 'DELETE',
+                url: `/api/patients/${patientId}/notes/${noteId}`,
+                cookies: doctor.cookies,
+                headers: await ifMatch(patientId),
+                payload: { reason: 'Nota duplicada' }
+            });
+
+            const entry = await AuditLog.findOne({ action: 'note.delete' });
+            expect(entry?.noteId).toBe(noteId);
+            expect(entry?.changes).toEqual([
+                { field: 'deletionReason', before: null, after: 'Nota duplicada' }
+            ]);
+        });
+
+        it('should not record reads that were denied', async () => {
+            await app.inject({
+                method: 'GET',
+                url: `/api/patients/${patientId}`
+            });
+
+            expect(await AuditLog.countDocuments()).toBe(0);
+        });
+    });
+
+    describe('immutability', () => {
+        it('should reject updates and deletes through the model', async () => {
+            const entry = await AuditLog.create({
+                actorId: doctor.id,
+                actorEmail: doctor.email,
+                actorRole: 'doctor',
+                action: 'patient.view',
+                patientId
+            });
+
+            await expect(AuditLog.updateOne({ _id: entry._id }, { actorId: 'someone-else' })).rejects.toThrow('immutable');
+            await expect(AuditLog.deleteMany({})).rejects.toThrow('immutable');
+            await expect(entry.deleteOne()).rejects.toThrow('immutable');
+
+            entry.actorId = 'someone-else';
+            await expect(entry.save()).rejects.toThrow('immutable');
+
+            expect((await AuditLog.findById(entry._id))?.actorId).toBe(doctor.id);
+        });
+    });
+
+    describe('GET /api/audit', () => {
+        beforeEach(async () => {
+            await AuditLog.create([
+                { actorId: doctor.id, actorEmail: doctor.email, actorRole: 'doctor', action: 'patient.view', patientId, createdAt: new Date('2025-01-10') },
+                { actorId: admin.id, actorEmail: admin.email, actorRole: 'admin', action: 'patient.update', patientId, createdAt: new Date('2025-02-10') },
+                { actorId: doctor.id, actorEmail: doctor.email, actorRole: 'doctor', action: 'patient.list', patientIds: [patientId, 'other'], createdAt: new Date('2025-03-10') },
+                { actorId: doctor.id, actorEmail: doctor.email, actorRole: 'doctor', action: 'patient.view', patientId: 'other', createdAt: new Date('2025-03-11') }
+            ]);
+        });
+
+        it('should be admin-only', async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/audit',
+                cookies: doctor.cookies
+            });
+
+            expect(response.statusCode).toBe(403);
+        });
+
+        it('should filter by patient, including list reads', async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: `/api/audit?patientId=${patientId}`,
+                cookies: admin.cookies
+            });
+
+            expect(response.statusCode).toBe(200);
+            const data = JSON.parse(response.payload);
+            expect(data.total).toBe(3);
+            expect(data.entries[0].action).toBe('patient.list');
+        });
+
+        it('should filter by user and date range', async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: `/api/audit?userId=${doctor.id}&from=2025-01-01&to=2025-03-10T23:59:59Z`,
+                cookies: admin.cookies
+            });
+
+            const data = JSON.parse(response.payload);
+            expect(data.total).toBe(2);
+            data.entries.forEach((entry: any) => expect(entry.actorId).toBe(doctor.id));
+        });
+
+        it('should reject invalid dates', async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/audit?from=yesterday',
+                cookies: admin.cookies
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+    });
+
+    describe('diffFields', () => {
+        it('should compare nested values and ignore timestamps', () => {
+            const changes = diffFields(
+                { vaccination: ['BCG'], updatedAt: new Date('2025-01-01') },
+                { vaccination: ['BCG', 'Polio'], updatedAt: new Date('2025-02-01') }
+            );
+
+            expect(changes).toEqual([{ field: 'vaccination', before: ['BCG'], after: ['BCG', 'Polio'] }]);
+        });
+    });
+});
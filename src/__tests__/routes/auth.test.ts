@@ -0,0 +1,775 @@
+import { FastifyInstance } from 'fastify';
+import argon2 from 'argon2';
+import { build } from '../testApp';
+import { connectDB, closeDB, clearDB, createTestUser } from '../testUtils';
+import { User, Invitation, Session, PasswordReset, LoginAttempt, ApiToken } from '../../models/authModels';
+import { hashToken } from '../../auth/tokens';
+import { ApiTokenService } from '../../auth/apiTokens';
+import { AuthService } from '../../auth/lucia';
+import { setMailTransport, MailMessage } from '../../mail';
+import { generateTotp, generateTotpSecret } from '../../auth/totp';
+
+describe('Auth routes', () => {
+    let app: FastifyInstance;
+
+    beforeAll(async () => {
+        await connectDB();
+        app = await build();
+    });
+
+    beforeEach(async () => {
+        await clearDB();
+        delete process.env.ALLOW_BOOTSTRAP_SIGNUP;
+        delete process.env.TOTP_REQUIRED_ROLES;
+    });
+
+    afterAll(async () => {
+        await app.close();
+        await closeDB();
+    });
+
+    describe('POST /api/auth/signup', () => {
+        const createInvitation = async (overrides: Record<string, any> = {}) => {
+            const token = `token-${Math.random()}`;
+            await Invitation.create({
+                _id: `invite-${Math.random()}`,
+                email: 'nueva@clinica.test',
+                role: 'nurse',
+                token_hash: hashToken(token),
+                expires_at: new Date(Date.now() + 60 * 60 * 1000),
+                created_by: 'admin',
+                ...overrides
+            });
+            return token;
+        };
+
+        it('should reject signup without an invitation', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/auth/signup',
+                payload: { email: 'intruso@clinica.test', password: 'secret123', role: 'admin' }
+            });
+
+            expect(response.statusCode).toBe(403);
+            expect(await User.countDocuments()).toBe(0);
+        });
+
+        it('should create the user with the invited role', async () => {
+            const token = await createInvitation();
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/auth/signup',
+                payload: { email: 'nueva@clinica.test', password: 'secret123', token, role: 'admin' }
+            });
+
+            expect(response.statusCode).toBe(201);
+            const data = JSON.parse(response.payload);
+            expect(data.user.role).toBe('nurse');
+            expect(response.cookies.find(c => c.name === 'session')).toBeDefined();
+
+            const invitation = await Invitation.findOne({ token_hash: hashToken(token) });
+            expect(invitation?.used_at).toBeTruthy();
+            expect(invitation?.used_by).toBe(data.user.id);
+        });
+
+        it('should not accept an invitation twice', async () => {
+            const token = await createInvitation();
+
+            await app.inject({
+                method: 'POST',
+                url: '/api/auth/signup',
+                payload: { email: 'nueva@clinica.test', password: 'secret123', token }
+            });
+            await User.deleteMany({});
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/auth/signup',
+                payload: { email: 'nueva@clinica.test', password: 'secret123', token }
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+
+        it('should reject expired invitations', async () => {
+            const token = await createInvitation({ expires_at: new Date(Date.now() - 1000) });
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/auth/signup',
+                payload: { email: 'nueva@clinica.test', password: 'secret123', token }
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+
+        it('should reject invitations issued for another email', async () => {
+            const token = await createInvitation();
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/auth/signup',
+                payload: { email: 'otra@clinica.test', password: 'secret123', token }
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+
+        it('should bootstrap the first admin when enabled and no users exist', async () => {
+            process.env.ALLOW_BOOTSTRAP_SIGNUP = 'true';
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/auth/signup',
+                payload: { email: 'director@clinica.test', password: 'secret123' }
+            });
+
+            expect(response.statusCode).toBe(201);
+            expect(JSON.parse(response.payload).user.role).toBe('admin');
+        });
+
+        it('should not bootstrap once a user exists', async () => {
+            process.env.ALLOW_BOOTSTRAP_SIGNUP = 'true';
+            await createTestUser('admin');
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/auth/signup',
+                payload: { email: 'otro@clinica.test', password: 'secret123' }
+            });
+
+            expect(response.statusCode).toBe(403);
+        });
+    });
+
+    describe('POST /api/auth/login', () => {
+        beforeEach(async () => {
+            await User.create({
+                _id: 'login-user',
+                email: 'doctora@clinica.test',
+                hashed_password: await argon2.hash('secret123'),
+                role: 'doctor'
+            });
+        });
+
+        it('should log in with valid credentials', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/auth/login',
+                payload: { email: 'Doctora@Clinica.test', password: 'secret123' }
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(response.cookies.find(c => c.name === 'session')).toBeDefined();
+        });
+
+        it('should reject invalid passwords', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/auth/login',
+                payload: { email: 'doctora@clinica.test', password: 'wrong' }
+            });
+
+            expect(response.statusCode).toBe(401);
+        });
+
+        it('should reject disabled accounts', async () => {
+            await User.findByIdAndUpdate('login-user', { active: false });
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/auth/login',
+                payload: { email: 'doctora@clinica.test', password: 'secret123' }
+            });
+
+            expect(response.statusCode).toBe(403);
+        });
+    });
+
+    describe('password reset', () => {
+        let sent: MailMessage[];
+
+        beforeAll(() => {
+            setMailTransport({
+                send: async (message) => {
+                    sent.push(message);
+                }
+            });
+        });
+
+        afterAll(() => {
+            setMailTransport(null);
+        });
+
+        beforeEach(async () => {
+            sent = [];
+            await User.create({
+                _id: 'reset-user',
+                email: 'olvido@clinica.test',
+                hashed_password: await argon2.hash('old-password'),
+                role: 'nurse'
+            });
+        });
+
+        const requestReset = async () => {
+            await app.inject({
+                method: 'POST',
+                url: '/api/auth/forgot-password',
+                payload: { email: 'olvido@clinica.test' }
+            });
+            return sent[sent.length - 1].text.match(/token=([a-f0-9]+)/)![1];
+        };
+
+        it('should email a reset link with a hashed, expiring token', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/auth/forgot-password',
+                payload: { email: 'olvido@clinica.test' }
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(sent).toHaveLength(1);
+            expect(sent[0].to).toBe('olvido@clinica.test');
+
+            const token = sent[0].text.match(/token=([a-f0-9]+)/)![1];
+            const reset = await PasswordReset.findOne({ user_id: 'reset-user' });
+            expect(reset?.token_hash).toBe(hashToken(token));
+            expect(reset!.expires_at.getTime()).toBeGreaterThan(Date.now());
+        });
+
+        it('should answer the same way for unknown emails', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/auth/forgot-password',
+                payload: { email: 'nadie@clinica.test' }
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(sent).toHaveLength(0);
+        });
+
+        it('should reset the password and invalidate existing sessions and API tokens', async () => {
+            await Session.create({
+                _id: 'old-session',
+                user_id: 'reset-user',
+                active_expires: Date.now() + 60000,
+                idle_expires: Date.now() + 60000
+            });
+            const { apiToken } = await ApiTokenService.create((await User.findById('reset-user'))!, {
+                name: 'Importador de laboratorio',
+                scopes: ['patients:read']
+            });
+            const token = await requestReset();
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/auth/reset-password',
+                payload: { token, password: 'new-password' }
+            });
+
+            expect(response.statusCode).toBe(200);
+            const user = await User.findById('reset-user');
+            expect(await argon2.verify(user!.hashed_password, 'new-password')).toBe(true);
+            expect(await Session.countDocuments({ user_id: 'reset-user' })).toBe(0);
+            expect((await ApiToken.findById(apiToken._id))?.revoked_at).not.toBeNull();
+        });
+
+        it('should lift a lockout once the password is reset', async () => {
+            await User.findByIdAndUpdate('reset-user', {
+                failed_login_attempts: 5,
+                locked_until: new Date(Date.now() + 15 * 60 * 1000)
+            });
+            const token = await requestReset();
+
+            await app.inject({
+                method: 'POST',
+                url: '/api/auth/reset-password',
+                payload: { token, password: 'new-password' }
+            });
+
+            const login = await app.inject({
+                method: 'POST',
+                url: '/api/auth/login',
+                payload: { email: 'olvido@clinica.test', password: 'new-password' }
+            });
+            expect(login.statusCode).toBe(200);
+        });
+
+        it('should not accept a token twice', async () => {
+            const token = await requestReset();
+
+            await app.inject({
+                method: 'POST',
+                url: '/api/auth/reset-password',
+                payload: { token, password: 'new-password' }
+            });
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/auth/reset-password',
+                payload: { token, password: 'another-password' }
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+
+        it('should reject expired tokens', async () => {
+            const token = await requestReset();
+            await PasswordReset.updateMany({}, { expires_at: new Date(Date.now() - 1000) });
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/auth/reset-password',
+                payload: { token, password: 'new-password' }
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+
+        it('should invalidate earlier links when a new one is requested', async () => {
+            const first = await requestReset();
+            await requestReset();
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/auth/reset-password',
+                payload: { token: first, password: 'new-password' }
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+    });
+
+    describe('two-factor login', () => {
+        const secret = generateTotpSecret();
+
+        beforeEach(async () => {
+            await User.create({
+                _id: 'mfa-user',
+                email: 'medico@clinica.test',
+                hashed_password: await argon2.hash('secret123'),
+                role: 'doctor',
+                totp_enabled: true,
+                totp_secret: secret,
+                recovery_codes: [hashToken('aaaaa-bbbbb')]
+            });
+        });
+
+        const login = async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/auth/login',
+                payload: { email: 'medico@clinica.test', password: 'secret123' }
+            });
+            return response;
+        };
+
+        it('should not issue a session after the password step', async () => {
+            const response = await login();
+
+            expect(response.statusCode).toBe(200);
+            const data = JSON.parse(response.payload);
+            expect(data.mfaRequired).toBe(true);
+            expect(data.enrollmentRequired).toBe(false);
+            expect(data.challengeToken).toBeDefined();
+            expect(response.cookies.find(c => c.name === 'session')).toBeUndefined();
+            expect(await Session.countDocuments({ user_id: 'mfa-user' })).toBe(0);
+        });
+
+        it('should issue the session after a valid TOTP code', async () => {
+            const { challengeToken } = JSON.parse((await login()).payload);
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/auth/login/2fa',
+                payload: { challengeToken, code: generateTotp(secret) }
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(response.cookies.find(c => c.name === 'session')).toBeDefined();
+        });
+
+        it('should reject an invalid code and a reused code', async () => {
+            const first = JSON.parse((await login()).payload);
+            const code = generateTotp(secret);
+
+            const invalid = await app.inject({
+                method: 'POST',
+                url: '/api/auth/login/2fa',
+                payload: { challengeToken: first.challengeToken, code: code === '000000' ? '111111' : '000000' }
+            });
+            expect(invalid.statusCode).toBe(401);
+
+            await app.inject({
+                method: 'POST',
+                url: '/api/auth/login/2fa',
+                payload: { challengeToken: first.challengeToken, code }
+            });
+
+            const second = JSON.parse((await login()).payload);
+            const replay = await app.inject({
+                method: 'POST',
+                url: '/api/auth/login/2fa',
+                payload: { challengeToken: second.challengeToken, code }
+            });
+            expect(replay.statusCode).toBe(401);
+        });
+
+        it('should accept a recovery code only once', async () => {
+            const first = JSON.parse((await login()).payload);
+            const ok = await app.inject({
+                method: 'POST',
+                url: '/api/auth/login/2fa',
+                payload: { challengeToken: first.challengeToken, recoveryCode: 'AAAAA-BBBBB' }
+            });
+            expect(ok.statusCode).toBe(200);
+
+            const second = JSON.parse((await login()).payload);
+            const reused = await app.inject({
+                method: 'POST',
+                url: '/api/auth/login/2fa',
+                payload: { challengeToken: second.challengeToken, recoveryCode: 'aaaaa-bbbbb' }
+            });
+            expect(reused.statusCode).toBe(401);
+        });
+
+        it('should force enrollment for roles where 2FA is mandatory', async () => {
+            process.env.TOTP_REQUIRED_ROLES = 'admin,nurse';
+            await User.create({
+                _id: 'nurse-user',
+                email: 'enfermera@clinica.test',
+                hashed_password: await argon2.hash('secret123'),
+                role: 'nurse'
+            });
+
+            const loginResponse = await app.inject({
+                method: 'POST',
+                url: '/api/auth/login',
+                payload: { email: 'enfermera@clinica.test', password: 'secret123' }
+            });
+            const { challengeToken, enrollmentRequired } = JSON.parse(loginResponse.payload);
+            expect(enrollmentRequired).toBe(true);
+
+            const setup = await app.inject({
+                method: 'POST',
+                url: '/api/auth/login/2fa/setup',
+                payload: { challengeToken }
+            });
+            const { secret: enrolledSecret, otpauthUrl } = JSON.parse(setup.payload);
+            expect(otpauthUrl).toContain('otpauth://totp/');
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/auth/login/2fa',
+                payload: { challengeToken, code: generateTotp(enrolledSecret) }
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(JSON.parse(response.payload).recoveryCodes).toHaveLength(10);
+            expect((await User.findById('nurse-user'))?.totp_enabled).toBe(true);
+        });
+
+        it('should not let users disable 2FA when it is mandatory for their role', async () => {
+            process.env.TOTP_REQUIRED_ROLES = 'doctor';
+            const doctor = await createTestUser('doctor');
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/auth/2fa/disable',
+                cookies: doctor.cookies,
+                payload: { code: '123456' }
+            });
+
+            expect(response.statusCode).toBe(403);
+        });
+
+        it('should enroll an authenticated user', async () => {
+            const nurse = await createTestUser('nurse');
+
+            const setup = await app.inject({
+                method: 'POST',
+                url: '/api/auth/2fa/setup',
+                cookies: nurse.cookies
+            });
+            const { secret: enrolledSecret } = JSON.parse(setup.payload);
+
+            const enable = await app.inject({
+                method: 'POST',
+                url: '/api/auth/2fa/enable',
+                cookies: nurse.cookies,
+                payload: { code: generateTotp(enrolledSecret) }
+            });
+
+            expect(enable.statusCode).toBe(200);
+            expect(JSON.parse(enable.payload).recoveryCodes).toHaveLength(10);
+
+            const stored = await User.findById(nurse.id);
+            expect(stored?.totp_enabled).toBe(true);
+            expect(stored?.recovery_codes).toHaveLength(10);
+            expect(stored?.recovery_codes[0]).toMatch(/^[a-f0-9]{64}$/);
+        });
+    });
+
+    describe('account lockout', () => {
+        beforeEach(async () => {
+            await User.create({
+                _id: 'lock-user',
+                email: 'recepcion@clinica.test',
+                hashed_password: await argon2.hash('secret123'),
+                role: 'assistant'
+            });
+        });
+
+        const attempt = (password: string) => app.inject({
+            method: 'POST',
+            url: '/api/auth/login',
+            headers: { 'user-agent': 'jest-browser' },
+            payload: { email: 'recepcion@clinica.test', password }
+        });
+
+        // Skip the progressive delay between attempts so the counter can be driven quickly
+        const clearDelay = () => User.findByIdAndUpdate('lock-user', { locked_until: null });
+
+        it('should record every attempt with ip, user agent and result', async () => {
+            await attempt('wrong');
+            await clearDelay();
+            await attempt('secret123');
+
+            const attempts = await LoginAttempt.find({ user_id: 'lock-user' }).sort({ created_at: 1 });
+            expect(attempts.map(a => a.result)).toEqual(['invalid_password', 'success']);
+            expect(attempts[0].user_agent).toBe('jest-browser');
+            expect(attempts[0].ip).toBeDefined();
+            expect(attempts[1].success).toBe(true);
+        });
+
+        it('should delay further attempts progressively', async () => {
+            await attempt('wrong');
+            const second = await attempt('wrong');
+            expect(second.statusCode).toBe(401);
+
+            const delayed = await attempt('secret123');
+            expect(delayed.statusCode).toBe(429);
+            expect(delayed.headers['retry-after']).toBeDefined();
+        });
+
+        it('should check parallel attempts one at a time', async () => {
+            const responses = await Promise.all([attempt('wrong'), attempt('wrong'), attempt('secret123')]);
+
+            expect(responses.filter(response => response.statusCode === 429)).toHaveLength(2);
+            const user = await User.findById('lock-user');
+            expect(user?.failed_login_attempts).toBeLessThanOrEqual(1);
+        });
+
+        it('should lock the account after too many failures', async () => {
+            for (let i = 0; i < 5; i++) {
+                await clearDelay();
+                await attempt('wrong');
+            }
+
+            const response = await attempt('secret123');
+
+            expect(response.statusCode).toBe(423);
+            expect(JSON.parse(response.payload).retryAfter).toBeGreaterThan(60);
+        });
+
+        it('should start the count over once a lockout has run out', async () => {
+            await User.findByIdAndUpdate('lock-user', {
+                failed_login_attempts: 5,
+                locked_until: new Date(Date.now() - 1000)
+            });
+
+            const response = await attempt('wrong');
+
+            expect(response.statusCode).toBe(401);
+            const user = await User.findById('lock-user');
+            expect(user?.failed_login_attempts).toBe(1);
+            expect(user?.locked_until).toBeNull();
+        });
+
+        it('should reset the counter after a successful login', async () => {
+            await attempt('wrong');
+            await clearDelay();
+            await attempt('secret123');
+
+            const user = await User.findById('lock-user');
+            expect(user?.failed_login_attempts).toBe(0);
+            expect(user?.locked_until).toBeNull();
+        });
+
+        it('should record attempts against unknown emails', async () => {
+            await app.inject({
+                method: 'POST',
+                url: '/api/auth/login',
+                payload: { email: 'fantasma@clinica.test', password: 'x' }
+            });
+
+            const attempt = await LoginAttempt.findOne({ email: 'fantasma@clinica.test' });
+            expect(attempt?.result).toBe('unknown_user');
+            expect(attempt?.user_id).toBeNull();
+        });
+    });
+
+    describe('session management', () => {
+        it('should record where a session was opened', async () => {
+            await User.create({
+                _id: 'device-user',
+                email: 'caja@clinica.test',
+                hashed_password: await argon2.hash('secret123'),
+                role: 'assistant'
+            });
+
+            await app.inject({
+                method: 'POST',
+                url: '/api/auth/login',
+                headers: { 'user-agent': 'Recepcion PC' },
+                payload: { email: 'caja@clinica.test', password: 'secret123' }
+            });
+
+            const session = await Session.findOne({ user_id: 'device-user' });
+            expect(session?.user_agent).toBe('Recepcion PC');
+            expect(session?.ip).toBeDefined();
+            expect(session?.last_seen_at).toBeDefined();
+        });
+
+        it('should list sessions without exposing their secrets', async () => {
+            const nurse = await createTestUser('nurse');
+            await AuthService.createSession(nurse.id, { userAgent: 'Tablet', ip: '10.0.0.8' });
+
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/auth/sessions',
+                cookies: nurse.cookies
+            });
+
+            expect(response.statusCode).toBe(200);
+            const { sessions } = JSON.parse(response.payload);
+            expect(sessions).toHaveLength(2);
+            expect(sessions.filter((s: any) => s.current)).toHaveLength(1);
+            expect(sessions.map((s: any) => s.id)).not.toContain(nurse.cookies.session);
+            expect(sessions.find((s: any) => s.userAgent === 'Tablet').ip).toBe('10.0.0.8');
+        });
+
+        it('should revoke a single session', async () => {
+            const nurse = await createTestUser('nurse');
+            const other = await AuthService.createSession(nurse.id, { userAgent: 'Recepcion PC' });
+
+            const response = await app.inject({
+                method: 'DELETE',
+                url: `/api/auth/sessions/${other.publicId}`,
+                cookies: nurse.cookies
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(await Session.findById(other.id)).toBeNull();
+            expect(await Session.findById(nurse.cookies.session)).not.toBeNull();
+        });
+
+        it('should not revoke sessions of other users', async () => {
+            const nurse = await createTestUser('nurse');
+            const doctor = await createTestUser('doctor');
+            const doctorSession = await Session.findById(doctor.cookies.session);
+
+            const response = await app.inject({
+                method: 'DELETE',
+                url: `/api/auth/sessions/${doctorSession!.public_id}`,
+                cookies: nurse.cookies
+            });
+
+            expect(response.statusCode).toBe(404);
+            expect(await Session.findById(doctor.cookies.session)).not.toBeNull();
+        });
+
+        it('should log out everywhere else', async () => {
+            const nurse = await createTestUser('nurse');
+            await AuthService.createSession(nurse.id);
+            await AuthService.createSession(nurse.id);
+
+            const response = await app.inject({
+                method: 'DELETE',
+                url: '/api/auth/sessions',
+                cookies: nurse.cookies
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(JSON.parse(response.payload).revoked).toBe(2);
+            const remaining = await Session.find({ user_id: nurse.id });
+            expect(remaining.map(s => s._id)).toEqual([nurse.cookies.session]);
+        });
+    });
+
+    describe('idle timeout', () => {
+        const originalTimeout = process.env.SESSION_IDLE_TIMEOUT_MINUTES_NURSE;
+
+        afterEach(() => {
+            if (originalTimeout === undefined) {
+                delete process.env.SESSION_IDLE_TIMEOUT_MINUTES_NURSE;
+            } else {
+                process.env.SESSION_IDLE_TIMEOUT_MINUTES_NURSE = originalTimeout;
+            }
+        });
+
+        it('should expose the remaining idle time on /me', async () => {
+            process.env.SESSION_IDLE_TIMEOUT_MINUTES_NURSE = '15';
+            const nurse = await createTestUser('nurse');
+
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/auth/me',
+                cookies: nurse.cookies
+            });
+
+            expect(response.statusCode).toBe(200);
+            const { session } = JSON.parse(response.payload);
+            expect(session.idleTimeoutSeconds).toBe(15 * 60);
+            expect(session.idleRemainingSeconds).toBeGreaterThan(14 * 60);
+            expect(new Date(session.expiresAt).getTime()).toBeGreaterThan(new Date(session.idleExpiresAt).getTime());
+        });
+
+        it('should end sessions that have been idle too long', async () => {
+            const nurse = await createTestUser('nurse');
+            await Session.findByIdAndUpdate(nurse.cookies.session, { idle_expires: Date.now() - 1000 });
+
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/auth/me',
+                cookies: nurse.cookies
+            });
+
+            expect(response.statusCode).toBe(401);
+            expect(await Session.findById(nurse.cookies.session)).toBeNull();
+        });
+
+        it('should slide the idle deadline on activity but not the absolute lifetime', async () => {
+            const nurse = await createTestUser('nurse');
+            const before = await Session.findById(nurse.cookies.session);
+            await Session.findByIdAndUpdate(nurse.cookies.session, { idle_expires: Date.now() + 60 * 1000 });
+
+            await app.inject({
+                method: 'GET',
+                url: '/api/auth/me',
+                cookies: nurse.cookies
+            });
+
+            const after = await Session.findById(nurse.cookies.session);
+            expect(after!.idle_expires).toBeGreaterThan(Date.now() + 60 * 1000);
+            expect(after!.active_expires).toBe(before!.active_expires);
+        });
+
+        it('should not count passive requests as activity', async () => {
+            const nurse = await createTestUser('nurse');
+            const idleExpires = Date.now() + 60 * 1000;
+            await Session.findByIdAndUpdate(nurse.cookies.session, { idle_expires: idleExpires });
+
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/auth/me',
+                headers: { 'x-session-passive': '1' },
+                cookies: nurse.cookies
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(JSON.parse(response.payload).session.idleRemainingSeconds).toBeLessThanOrEqual(60);
+            expect((await Session.findById(nurse.cookies.session))!.idle_expires).toBe(idleExpires);
+        });
+    });
+});
@@ -0,0 +1,201 @@
+import { FastifyInstance } from 'fastify';
+import { build } from '../testApp';
+import { connectDB, closeDB, clearDB, createTestUser, ifMatch } from '../testUtils';
+import { Patient } from '../../models/Patient';
+import { AuditLog } from '../../models/AuditLog';
+
+describe('Patient chart lists', () => {
+    let app: FastifyInstance;
+    let doctor: Awaited<ReturnType<typeof createTestUser>>;
+    let patientId: string;
+
+    beforeAll(async () => {
+        await connectDB();
+        app = await build();
+    });
+
+    beforeEach(async () => {
+        await clearDB();
+        doctor = await createTestUser('doctor');
+
+        const patient = await Patient.create({
+            firstName: 'Marta',
+            lastName: 'Pérez',
+            gender: 'female'
+        });
+        patientId = patient._id.toString();
+    });
+
+    afterAll(async () => {
+        await app.close();
+        await closeDB();
+    });
+
+    const addEntry = async (list: string, payload: Record<string, any>) => app.inject({
+        method: 'POST',
+        url: `/api/patients/${patientId}/${list}`,
+        cookies: doctor.cookies,
+        headers: await ifMatch(patientId),
+        payload
+    });
+
+    it('should record an allergy and show it as a warning on the patient', async () => {
+        await addEntry('allergies', { substance: 'Látex', severity: 'mild' });
+        const response = await addEntry('allergies', {
+            substance: 'Penicilina',
+            category: 'medication',
+            reaction: 'Urticaria y dificultad para respirar',
+            severity: 'severe'
+        });
+
+        expect(response.statusCode).toBe(200);
+        const body = JSON.parse(response.payload);
+        expect(body.allergies[1]).toMatchObject({ substance: 'Penicilina', severity: 'severe', recordedBy: doctor.id });
+
+        const entries = await AuditLog.find({ action: 'allergy.create' }).sort({ createdAt: 1 });
+        expect(entries.map(entry => entry.entryId)).toEqual(body.allergies.map((allergy: any) => allergy.id));
+
+        const patient = await app.inject({
+            method: 'GET',
+            url: `/api/patients/${patientId}`,
+            cookies: doctor.cookies
+        });
+        expect(JSON.parse(patient.payload).allergyWarnings).toEqual([
+            { id: body.allergies[1].id, substance: 'Penicilina', severity: 'severe', reaction: 'Urticaria y dificultad para respirar' },
+            { id: body.allergies[0].id, substance: 'Látex', severity: 'mild' }
+        ]);
+    });
+
+    it('should reject invalid entries', async () => {
+        const allergy = await addEntry('allergies', { severity: 'terrible' });
+        expect(allergy.statusCode).toBe(400);
+        expect(JSON.parse(allergy.payload).details.map((detail: any) => detail.field).sort())
+            .toEqual(['severity', 'substance']);
+
+        const problem = await addEntry('problems', { condition: 'Diabetes', code: 'diabetes' });
+        expect(problem.statusCode).toBe(400);
+
+        const medication = await addEntry('medications', {
+            name: 'Metformina',
+            startDate: '2025-03-01',
+            endDate: '2025-02-01'
+        });
+        expect(medication.statusCode).toBe(400);
+    });
+
+    it('should update a problem and clear fields sent as null', async () => {
+        const added = JSON.parse((await addEntry('problems', {
+            condition: 'Diabetes mellitus tipo 2',
+            code: 'e11.9',
+            onset: '2019-06-01',
+            notes: 'Control trimestral'
+        })).payload);
+        expect(added.problems[0]).toMatchObject({ code: 'E11.9', status: 'active', onset: '2019-06-01T00:00:00.000Z' });
+
+        const response = await app.inject({
+            method: 'PUT',
+            url: `/api/patients/${patientId}/problems/${added.problems[0].id}`,
+            cookies: doctor.cookies,
+            headers: await ifMatch(patientId),
+            payload: { status: 'controlled', notes: null }
+        });
+
+        expect(response.statusCode).toBe(200);
+        const problem = JSON.parse(response.payload).problems[0];
+        expect(problem).toMatchObject({ condition: 'Diabetes mellitus tipo 2', status: 'controlled' });
+        expect(problem.notes).toBeUndefined();
+    });
+
+    it('should remove a medication and keep it in the history', async () => {
+        const added = JSON.parse((await addEntry('medications', {
+            name: 'Metformina',
+            dose: '850 mg',
+            frequency: 'Cada 12 horas'
+        })).payload);
+        const medicationId = added.medications[0].id;
+
+        const response = await app.inject({
+            method: 'DELETE',
+            url: `/api/patients/${patientId}/medications/${medicationId}`,
+            cookies: doctor.cookies,
+            headers: await ifMatch(patientId)
+        });
+
+        expect(response.statusCode).toBe(200);
+        expect(JSON.parse(response.payload).medications).toEqual([]);
+
+        const again = await app.inject({
+            method: 'DELETE',
+            url: `/api/patients/${patientId}/medications/${medicationId}`,
+            cookies: doctor.cookies,
+            headers: await ifMatch(patientId)
+        });
+        expect(again.statusCode).toBe(404);
+
+        const history = JSON.parse((await app.inject({
+            method: 'GET',
+            url: `/api/patients/${patientId}/history`,
+            cookies: doctor.cookies
+        })).payload);
+        expect(history.versions[0].action).toBe('chart');
+    });
+
+    it('should list the entries of one chart list', async () => {
+        await addEntry('medications', { name: 'Losartán', dose: '50 mg' });
+
+        const response = await app.inject({
+            method: 'GET',
+            url: `/api/patients/${patientId}/medications`,
+            cookies: doctor.cookies
+        });
+
+        expect(response.statusCode).toBe(200);
+        expect(JSON.parse(response.payload).medications).toEqual([
+            expect.objectContaining({ name: 'Losartán', dose: '50 mg', status: 'active' })
+        ]);
+    });
+
+    it('should not change chart lists through the patient update', async () => {
+        await addEntry('allergies', { substance: 'Penicilina' });
+
+        const response = await app.inject({
+            method: 'PUT',
+            url: `/api/patients/${patientId}`,
+            cookies: doctor.cookies,
+            headers: await ifMatch(patientId),
+            payload: { allergies: [] }
+        });
+
+        expect(JSON.parse(response.payload).allergies).toHaveLength(1);
+    });
+
+    it('should only keep demographic fields when creating a patient', async () => {
+        const assistant = await createTestUser('assistant');
+
+        const response = await app.inject({
+            method: 'POST',
+            url: '/api/patients',
+            cookies: assistant.cookies,
+            payload: {
+                firstName: 'Luis',
+                lastName: 'Gómez',
+                allergies: [{ substance: 'Penicilina', recordedBy: doctor.id }],
+                problems: [{ condition: 'Asma' }],
+                medications: [{ name: 'Salbutamol' }],
+                notes: [{ title: 'Consulta', content: 'Tos' }],
+                deletedAt: new Date().toISOString(),
+                mergedInto: patientId
+            }
+        });
+
+        expect(response.statusCode).toBe(201);
+        const patient = await Patient.findById(JSON.parse(response.payload).id).lean();
+        expect(patient!.firstName).toBe('Luis');
+        expect(patient!.allergies).toHaveLength(0);
+        expect(patient!.problems).toHaveLength(0);
+        expect(patient!.medications).toHaveLength(0);
+        expect(patient!.notes).toHaveLength(0);
+        expect(patient!.deletedAt).toBeNull();
+        expect(patient!.mergedInto).toBeNull();
+    });
+});
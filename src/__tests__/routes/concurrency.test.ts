@@ -0,0 +1,124 @@
+import { FastifyInstance } from 'fastify';
+import { build } from '../testApp';
+import { connectDB, closeDB, clearDB, createTestUser } from '../testUtils';
+import { Patient } from '../../models/Patient';
+
+describe('Optimistic concurrency', () => {
+    let app: FastifyInstance;
+    let doctor: Awaited<ReturnType<typeof createTestUser>>;
+    let patientId: string;
+    let noteId: string;
+
+    beforeAll(async () => {
+        await connectDB();
+        app = await build();
+    });
+
+    beforeEach(async () => {
+        await clearDB();
+        doctor = await createTestUser('doctor');
+
+        const patient = await Patient.create({
+            firstName: 'María',
+            lastName: 'García',
+            occupation: 'Maestra',
+            notes: [{ title: 'Consulta', content: 'Control de rutina', date: new Date() }]
+        });
+        patientId = patient._id.toString();
+        noteId = (patient.notes[0] as any)._id.toString();
+    });
+
+    afterAll(async () => {
+        await app.close();
+        await closeDB();
+    });
+
+    const update = (headers: Record<string, string>, payload: Record<string, any>) => app.inject({
+        method: 'PUT',
+        url: `/api/patients/${patientId}`,
+        cookies: doctor.cookies,
+        headers,
+        payload
+    });
+
+    it('should expose the version in the body and as an ETag', async () => {
+        const response = await app.inject({ method: 'GET', url: `/api/patients/${patientId}`, cookies: doctor.cookies });
+
+        expect(JSON.parse(response.payload).version).toBe(0);
+        expect(response.headers.etag).toBe('"0"');
+    });
+
+    it('should bump the version on every change', async () => {
+        const first = await update({ 'if-match': '"0"' }, { occupation: 'Directora' });
+        expect(first.statusCode).toBe(200);
+        expect(first.headers.etag).toBe('"1"');
+
+        const second = await update({ 'if-match': first.headers.etag as string }, { occupation: 'Jubilada' });
+        expect(JSON.parse(second.payload).version).toBe(2);
+    });
+
+    it('should require a version on updates', async () => {
+        const response = await update({}, { occupation: 'Directora' });
+
+        expect(response.statusCode).toBe(428);
+        expect((await Patient.findById(patientId))?.occupation).toBe('Maestra');
+    });
+
+    it('should return 412 with the current copy when If-Match is stale', async () => {
+        await update({ 'if-match': '"0"' }, { occupation: 'Directora' });
+
+        const response = await update({ 'if-match': '"0"' }, { occupation: 'Enfermera' });
+        const body = JSON.parse(response.payload);
+
+        expect(response.statusCode).toBe(412);
+        expect(body.error).toBe('Precondition Failed');
+        expect(body.current).toMatchObject({ occupation: 'Directora', version: 1 });
+        expect((await Patient.findById(patientId))?.occupation).toBe('Directora');
+    });
+
+    it('should return 409 when the version field is stale', async () => {
+        await update({}, { occupation: 'Directora', version: 0 });
+
+        const response = await update({}, { occupation: 'Enfermera', version: 0 });
+
+        expect(response.statusCode).toBe(409);
+        expect(JSON.parse(response.payload).current.occupation).toBe('Directora');
+    });
+
+    it('should accept weak ETags and the wildcard', async () => {
+        expect((await update({ 'if-match': 'W/"0"' }, { occupation: 'Directora' })).statusCode).toBe(200);
+        expect((await update({ 'if-match': '*' }, { occupation: 'Jubilada' })).statusCode).toBe(200);
+        expect((await update({ 'if-match': 'abc' }, { occupation: 'Enfermera' })).statusCode).toBe(400);
+    });
+
+    it('should reject a note edit based on an outdated copy', async () => {
+        await app.inject({
+            method: 'POST',
+            url: `/api/patients/${patientId}/notes`,
+            cookies: doctor.cookies,
+            headers: { 'if-match': '"0"' },
+            payload: { title: 'Urgencia', content: 'Fiebre' }
+        });
+
+        const response = await app.inject({
+            method: 'PUT',
+            url: `/api/patients/${patientId}/notes/${noteId}`,
+            cookies: doctor.cookies,
+            headers: { 'if-match': '"0"' },
+            payload: { title: 'Consulta', content: 'Control actualizado' }
+        });
+
+        expect(response.statusCode).toBe(412);
+        expect(JSON.parse(response.payload).current.notes).toHaveLength(2);
+    });
+
+    it('should require a version to delete a note', async () => {
+        const response = await app.inject({
+            method: 'DELETE',
+            url: `/api/patients/${patientId}/notes/${noteId}`,
+            cookies: doctor.cookies
+        });
+
+        expect(response.statusCode).toBe(428);
+    });
+});
@@ -0,0 +1,105 @@
+import { FastifyInstance } from 'fastify';
+import { build } from '../testApp';
+import { connectDB, closeDB, clearDB, createTestUser } from '../testUtils';
+import { Patient } from '../../models/Patient';
+import { AuthService } from '../../auth/lucia';
+
+describe('CSRF protection', () => {
+    let app: FastifyInstance;
+    let doctor: Awaited<ReturnType<typeof createTestUser>>;
+    const originalFrontendUrl = process.env.FRONTEND_URL;
+
+    beforeAll(async () => {
+        process.env.FRONTEND_URL = 'https://app.clinica.test,http://localhost:5173';
+        await connectDB();
+        app = await build();
+    });
+
+    beforeEach(async () => {
+        await clearDB();
+        doctor = await createTestUser('doctor');
+    });
+
+    afterAll(async () => {
+        if (originalFrontendUrl === undefined) {
+            delete process.env.FRONTEND_URL;
+        } else {
+            process.env.FRONTEND_URL = originalFrontendUrl;
+        }
+        await app.close();
+        await closeDB();
+    });
+
+    it('should block state-changing requests from other origins', async () => {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/api/patients',
+            headers: { origin: 'https://evil.example' },
+            cookies: doctor.cookies,
+            payload: { firstName: 'Ana', lastName: 'López' }
+        });
+
+        expect(response.statusCode).toBe(403);
+        expect(await Patient.countDocuments()).toBe(0);
+    });
+
+    it('should fall back to the Referer header', async () => {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/api/patients',
+            headers: { referer: 'https://evil.example/form.html' },
+            cookies: doctor.cookies,
+            payload: { firstName: 'Ana', lastName: 'López' }
+        });
+
+        expect(response.statusCode).toBe(403);
+    });
+
+    it('should block opaque origins', async () => {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/api/auth/logout',
+            headers: { origin: 'null' },
+            cookies: doctor.cookies
+        });
+
+        expect(response.statusCode).toBe(403);
+    });
+
+    it.each(['https://app.clinica.test', 'http://localhost:5173'])('should allow requests from %s', async (origin) => {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/api/patients',
+            headers: { origin },
+            cookies: doctor.cookies,
+            payload: { firstName: 'Ana', lastName: 'López' }
+        });
+
+        expect(response.statusCode).toBe(201);
+    });
+
+    it('should not check safe methods', async () => {
+        const response = await app.inject({
+            method: 'GET',
+            url: '/api/patients',
+            headers: { origin: 'https://evil.example' },
+            cookies: doctor.cookies
+        });
+
+        expect(response.statusCode).toBe(200);
+    });
+
+    describe('session cookie', () => {
+        it('should be SameSite=None and Secure over HTTPS', () => {
+            const { attributes } = AuthService.createSessionCookie('id', true);
+            expect(attributes.secure).toBe(true);
+            expect(attributes.sameSite).toBe('none');
+        });
+
+        it('should fall back to SameSite=Lax without HTTPS', () => {
+            const { attributes } = AuthService.createSessionCookie('id', false);
+            expect(attributes.secure).toBe(false);
+            expect(attributes.sameSite).toBe('lax');
+        });
+    });
+});
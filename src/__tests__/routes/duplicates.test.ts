@@ -0,0 +1,296 @@
+import { FastifyInstance } from 'fastify';
+import { build } from '../testApp';
+import { connectDB, closeDB, clearDB, createTestUser, ifMatch } from '../testUtils';
+import { Patient } from '../../models/Patient';
+import { DuplicateCandidate } from '../../models/DuplicateCandidate';
+import { PatientVersion } from '../../models/PatientVersion';
+import { AuditLog } from '../../models/AuditLog';
+
+describe('Duplicate detection and merge', () => {
+    let app: FastifyInstance;
+    let doctor: Awaited<ReturnType<typeof createTestUser>>;
+    let targetId: string;
+
+    beforeAll(async () => {
+        await connectDB();
+        app = await build();
+    });
+
+    beforeEach(async () => {
+        await clearDB();
+        doctor = await createTestUser('doctor');
+
+        const target = await Patient.create({
+            firstName: 'María',
+            lastName: 'García',
+            birthdate: new Date('1990-05-10'),
+            vaccination: ['BCG'],
+            notes: [{ title: 'Consulta', content: 'Control de rutina', date: new Date() }]
+        });
+        targetId = target._id.toString();
+    });
+
+    afterAll(async () => {
+        await app.close();
+        await closeDB();
+    });
+
+    const createDuplicate = async () => {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/api/patients',
+            cookies: doctor.cookies,
+            payload: {
+                firstName: 'Maria',
+                lastName: 'Garcia',
+                birthdate: '1990-05-10',
+                phone: '5555-1234',
+                vaccination: ['Polio'],
+                notes: [{ title: 'Urgencia', content: 'Fiebre' }]
+            }
+        });
+        return JSON.parse(response.payload);
+    };
+
+    describe('creating a patient', () => {
+        it('should warn about likely duplicates and still create the patient', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/patients',
+                cookies: doctor.cookies,
+                payload: { firstName: 'Maria', lastName: 'Garcia', birthdate: '1990-05-10' }
+            });
+
+            expect(response.statusCode).toBe(201);
+            const body = JSON.parse(response.payload);
+            expect(body.duplicateWarnings).toHaveLength(1);
+            expect(body.duplicateWarnings[0]).toMatchObject({ id: targetId, reasons: ['name', 'birthdate'] });
+        });
+
+        it('should queue the pair for review once', async () => {
+            await createDuplicate();
+
+            const response = await app.inject({ method: 'GET', url: '/api/duplicates', cookies: doctor.cookies });
+            const body = JSON.parse(response.payload);
+
+            expect(body.total).toBe(1);
+            expect(body.candidates[0].patients.map((patient: any) => patient.id)).toContain(targetId);
+
+            await app.inject({ method: 'POST', url: '/api/duplicates/scan', cookies: doctor.cookies });
+            expect(await DuplicateCandidate.countDocuments()).toBe(1);
+        });
+
+        it('should not warn about unrelated patients', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/patients',
+                cookies: doctor.cookies,
+                payload: { firstName: 'Pedro', lastName: 'López' }
+            });
+
+            expect(JSON.parse(response.payload).duplicateWarnings).toEqual([]);
+        });
+
+        it('should let relatives share a phone number', async () => {
+            await Patient.init();
+            await createDuplicate();
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/patients',
+                cookies: doctor.cookies,
+                payload: { firstName: 'Pedro', lastName: 'López', phones: [{ label: 'home', number: '+502 5555 1234' }] }
+            });
+
+            expect(response.statusCode).toBe(201);
+            expect(JSON.parse(response.payload).duplicateWarnings).toEqual([]);
+        });
+    });
+
+    describe('reviewing candidates', () => {
+        it('should not suggest a dismissed pair again', async () => {
+            await createDuplicate();
+            const candidate = await DuplicateCandidate.findOne();
+
+            const dismiss = await app.inject({
+                method: 'POST',
+                url: `/api/duplicates/${candidate!._id}/dismiss`,
+                cookies: doctor.cookies
+            });
+            expect(JSON.parse(dismiss.payload).status).toBe('dismissed');
+
+            await app.inject({ method: 'POST', url: '/api/duplicates/scan', cookies: doctor.cookies });
+
+            const pending = await app.inject({ method: 'GET', url: '/api/duplicates', cookies: doctor.cookies });
+            expect(JSON.parse(pending.payload).total).toBe(0);
+        });
+
+        it('should leave pairs with a deleted patient out of the queue', async () => {
+            const source = await createDuplicate();
+
+            const listed = await app.inject({ method: 'GET', url: '/api/duplicates', cookies: doctor.cookies });
+            expect(JSON.parse(listed.payload).candidates[0].patients).toHaveLength(2);
+            expect((await AuditLog.findOne({ action: 'patient.list' }))?.patientIds).toHaveLength(2);
+
+            await Patient.updateOne({ _id: source.id }, { deletedAt: new Date() });
+
+            const response = await app.inject({ method: 'GET', url: '/api/duplicates', cookies: doctor.cookies });
+            expect(JSON.parse(response.payload)).toMatchObject({ candidates: [], total: 0 });
+        });
+
+        it('should merge a candidate into the chosen survivor', async () => {
+            const source = await createDuplicate();
+            const candidate = await DuplicateCandidate.findOne();
+
+            const response = await app.inject({
+                method: 'POST',
+                url: `/api/duplicates/${candidate!._id}/merge`,
+                cookies: doctor.cookies,
+                headers: await ifMatch(targetId),
+                payload: { survivorId: targetId }
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(JSON.parse(response.payload).notes).toHaveLength(2);
+            expect((await Patient.findById(source.id))?.mergedInto).toBe(targetId);
+            expect((await DuplicateCandidate.findById(candidate!._id))?.status).toBe('merged');
+        });
+
+        it('should reject a survivor outside the pair', async () => {
+            await createDuplicate();
+            const candidate = await DuplicateCandidate.findOne();
+
+            const response = await app.inject({
+                method: 'POST',
+                url: `/api/duplicates/${candidate!._id}/merge`,
+                cookies: doctor.cookies,
+                headers: await ifMatch(targetId),
+                payload: { survivorId: 'someone-else' }
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+    });
+
+    describe('merging patients', () => {
+        let sourceId: string;
+
+        beforeEach(async () => {
+            sourceId = (await createDuplicate()).id;
+
+            await app.inject({
+                method: 'POST',
+                url: `/api/patients/${targetId}/merge`,
+                cookies: doctor.cookies,
+                headers: await ifMatch(targetId),
+                payload: { sourceId }
+            });
+        });
+
+        it('should combine notes, vaccinations and missing fields', async () => {
+            const target = await Patient.findById(targetId);
+
+            expect(target?.notes.map((note: any) => note.title).sort()).toEqual(['Consulta', 'Urgencia']);
+            expect(target?.vaccination).toEqual(['BCG', 'Polio']);
+            expect(target?.phone).toBe('5555-1234');
+        });
+
+        it('should redirect reads of the merged id to the surviving record', async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: `/api/patients/${sourceId}`,
+                cookies: doctor.cookies
+            });
+
+            expect(response.statusCode).toBe(301);
+            expect(response.headers.location).toBe(`/api/patients/${targetId}`);
+        });
+
+        it('should hide the merged record from listings', async () => {
+            const response = await app.inject({ method: 'GET', url: '/api/patients', cookies: doctor.cookies });
+            expect(JSON.parse(response.payload).total).toBe(1);
+        });
+
+        it('should include the history of the merged record', async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: `/api/patients/${targetId}/history`,
+                cookies: doctor.cookies
+            });
+            const { versions } = JSON.parse(response.payload);
+
+            expect(versions.some((version: any) => version.patientId === sourceId && version.action === 'create')).toBe(true);
+            expect(versions[0]).toMatchObject({ patientId: targetId, action: 'merge', mergedWith: sourceId });
+            expect(await PatientVersion.countDocuments({ patientId: sourceId, action: 'merge' })).toBe(1);
+        });
+
+        it('should record the merge in the audit trail', async () => {
+            const entry = await AuditLog.findOne({ action: 'patient.merge' });
+            expect(entry?.patientIds).toEqual([targetId, sourceId]);
+            expect(entry?.actorId).toBe(doctor.id);
+        });
+
+        it('should not merge a record that was already merged', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: `/api/patients/${targetId}/merge`,
+                cookies: doctor.cookies,
+                headers: await ifMatch(targetId),
+                payload: { sourceId }
+            });
+
+            expect(response.statusCode).toBe(404);
+        });
+    });
+
+    it('should not merge into a record changed since it was loaded', async () => {
+        const source = await createDuplicate();
+        const stale = await ifMatch(targetId);
+        await Patient.updateOne({ _id: targetId }, { occupation: 'Maestra', $inc: { __v: 1 } });
+
+        const response = await app.inject({
+            method: 'POST',
+            url: `/api/patients/${targetId}/merge`,
+            cookies: doctor.cookies,
+            headers: stale,
+            payload: { sourceId: source.id }
+        });
+
+        expect(response.statusCode).toBe(412);
+        expect((await Patient.findById(source.id))?.mergedInto).toBeNull();
+    });
+
+    it('should not let nurses merge patients', async () => {
+        const nurse = await createTestUser('nurse');
+        const source = await createDuplicate();
+
+        const response = await app.inject({
+            method: 'POST',
+            url: `/api/patients/${targetId}/merge`,
+            cookies: nurse.cookies,
+            headers: await ifMatch(targetId),
+            payload: { sourceId: source.id }
+        });
+
+        expect(response.statusCode).toBe(403);
+    });
+
+    it('should not let nurses mark a patient as merged through the update', async () => {
+        const nurse = await createTestUser('nurse');
+        const source = await createDuplicate();
+
+        const response = await app.inject({
+            method: 'PUT',
+            url: `/api/patients/${source.id}`,
+            cookies: nurse.cookies,
+            headers: await ifMatch(source.id),
+            payload: { occupation: 'Maestra', mergedInto: targetId, mergedAt: new Date().toISOString(), mergedBy: nurse.id }
+        });
+
+        expect(response.statusCode).toBe(200);
+        const patient = await Patient.findById(source.id).lean();
+        expect(patient!.mergedInto).toBeNull();
+        expect(patient!.mergedAt).toBeUndefined();
+        expect(patient!.mergedBy).toBeUndefined();
+    });
+});
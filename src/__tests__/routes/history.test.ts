@@ -0,0 +1,252 @@
+import { FastifyInstance } from 'fastify';
+import { build } from '../testApp';
+import { connectDB, closeDB, clearDB, createTestUser, ifMatch } from '../testUtils';
+import { Patient } from '../../models/Patient';
+import { PatientVersion } from '../../models/PatientVersion';
+
+describe('Patient version history', () => {
+    let app: FastifyInstance;
+    let doctor: Awaited<ReturnType<typeof createTestUser>>;
+    let assistant: Awaited<ReturnType<typeof createTestUser>>;
+
+    const createPatient = async () => {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/api/patients',
+            cookies: doctor.cookies,
+            payload: {
+                firstName: 'María',
+                lastName: 'García',
+                address: 'Zona 1, Ciudad de Guatemala',
+                phone: '5555-1234',
+                vaccination: ['BCG']
+            }
+        });
+        return JSON.parse(response.payload).id as string;
+    };
+
+    const updatePatient = async (id: string, payload: Record<string, any>) => app.inject({
+        method: 'PUT',
+        url: `/api/patients/${id}`,
+        cookies: doctor.cookies,
+        headers: await ifMatch(id),
+        payload
+    });
+
+    beforeAll(async () => {
+        await connectDB();
+        app = await build();
+    });
+
+    beforeEach(async () => {
+        await clearDB();
+        doctor = await createTestUser('doctor');
+        assistant = await createTestUser('assistant');
+    });
+
+    afterAll(async () => {
+        await app.close();
+        await closeDB();
+    });
+
+    describe('GET /api/patients/:id/history', () => {
+        it('should list every change newest first', async () => {
+            const id = await createPatient();
+            await updatePatient(id, { address: 'Zona 10, Ciudad de Guatemala' });
+            await app.inject({
+                method: 'POST',
+                url: `/api/patients/${id}/notes`,
+                cookies: doctor.cookies,
+                headers: await ifMatch(id),
+                payload: { title: 'Consulta', content: 'Control de rutina' }
+            });
+
+            const response = await app.inject({
+                method: 'GET',
+                url: `/api/patients/${id}/history`,
+                cookies: assistant.cookies
+            });
+
+            expect(response.statusCode).toBe(200);
+            const data = JSON.parse(response.payload);
+            expect(data.total).toBe(3);
+            expect(data.versions.map((v: any) => v.action)).toEqual(['note', 'update', 'create']);
+            expect(data.versions[1].changes).toEqual([
+                { field: 'address', before: 'Zona 1, Ciudad de Guatemala', after: 'Zona 10, Ciudad de Guatemala' }
+            ]);
+            expect(data.versions[1].changedBy.id).toBe(doctor.id);
+        });
+
+        it('should keep a baseline for patients created before versioning', async () => {
+            const patient = await Patient.create({ firstName: 'Ana', lastName: 'López', occupation: 'Maestra' });
+            await updatePatient(patient._id.toString(), { occupation: 'Directora' });
+
+            const versions = await PatientVersion.find({ patientId: patient._id.toString() }).sort({ version: 1 });
+            expect(versions.map(v => v.action)).toEqual(['baseline', 'update']);
+            expect(versions[0].snapshot.occupation).toBe('Maestra');
+        });
+
+        it('should return 404 for unknown patients', async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/patients/507f1f77bcf86cd799439011/history',
+                cookies: doctor.cookies
+            });
+
+            expect(response.statusCode).toBe(404);
+        });
+
+        it('should only show the history of trashed patients to admins', async () => {
+            const id = await createPatient();
+            await Patient.updateOne({ _id: id }, { deletedAt: new Date() });
+            const admin = await createTestUser('admin');
+
+            for (const url of [`/api/patients/${id}/history`, `/api/patients/${id}/history/1`]) {
+                const hidden = await app.inject({ method: 'GET', url, cookies: doctor.cookies });
+                expect(hidden.statusCode).toBe(404);
+
+                const shown = await app.inject({ method: 'GET', url, cookies: admin.cookies });
+                expect(shown.statusCode).toBe(200);
+            }
+        });
+    });
+
+    describe('GET /api/patients/:id/history/:version', () => {
+        it('should include the full snapshot', async () => {
+            const id = await createPatient();
+
+            const response = await app.inject({
+                method: 'GET',
+                url: `/api/patients/${id}/history/1`,
+                cookies: doctor.cookies
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(JSON.parse(response.payload).snapshot.phone).toBe('5555-1234');
+        });
+    });
+
+    describe('POST /api/patients/:id/history/:version/restore', () => {
+        it('should roll back overwritten fields and record the restore as a new version', async () => {
+            const id = await createPatient();
+            await updatePatient(id, { address: 'Dirección equivocada 123', phone: '4444-0000', vaccination: [] });
+
+            const response = await app.inject({
+                method: 'POST',
+                url: `/api/patients/${id}/history/1/restore`,
+                cookies: doctor.cookies
+            });
+
+            expect(response.statusCode).toBe(200);
+            const patient = await Patient.findById(id);
+            expect(patient?.address).toBe('Zona 1, Ciudad de Guatemala');
+            expect(patient?.phone).toBe('5555-1234');
+            expect(patient?.vaccination).toEqual(['BCG']);
+
+            const latest = await PatientVersion.findOne({ patientId: id }).sort({ version: -1 });
+            expect(latest?.version).toBe(3);
+            expect(latest?.action).toBe('restore');
+            expect(latest?.restoredFrom).toBe(1);
+        });
+
+        it('should clear fields that were empty in the restored version', async () => {
+            const id = await createPatient();
+            await updatePatient(id, { occupation: 'Agricultor' });
+
+            await app.inject({
+                method: 'POST',
+                url: `/api/patients/${id}/history/1/restore`,
+                cookies: doctor.cookies
+            });
+
+            expect((await Patient.findById(id))?.occupation).toBeUndefined();
+        });
+
+        it('should require the permissions of the sections a restore changes', async () => {
+            const id = await createPatient();
+            await app.inject({
+                method: 'POST',
+                url: `/api/patients/${id}/notes`,
+                cookies: doctor.cookies,
+                headers: await ifMatch(id),
+                payload: { title: 'Consulta', content: 'Control de rutina' }
+            });
+            await updatePatient(id, { occupation: 'Agricultor' });
+
+            const forbidden = await app.inject({
+                method: 'POST',
+                url: `/api/patients/${id}/history/1/restore`,
+                cookies: assistant.cookies
+            });
+
+            expect(forbidden.statusCode).toBe(403);
+            expect(JSON.parse(forbidden.payload).message).toContain('notes:write');
+            expect((await Patient.findById(id))?.notes).toHaveLength(1);
+
+            // Version 2 already had the note, so only the occupation is rolled back
+            const allowed = await app.inject({
+                method: 'POST',
+                url: `/api/patients/${id}/history/2/restore`,
+                cookies: assistant.cookies
+            });
+
+            expect(allowed.statusCode).toBe(200);
+            expect((await Patient.findById(id))?.occupation).toBeUndefined();
+        });
+
+        it('should move notes and void vaccinations the restored version did not have', async () => {
+            const nurse = await createTestUser('nurse');
+            const id = await createPatient();
+            await app.inject({
+                method: 'POST',
+                url: `/api/patients/${id}/notes`,
+                cookies: doctor.cookies,
+                headers: await ifMatch(id),
+                payload: { title: 'Consulta', content: 'Control de rutina' }
+            });
+            await app.inject({
+                method: 'POST',
+                url: `/api/patients/${id}/vaccinations`,
+                cookies: doctor.cookies,
+                headers: await ifMatch(id),
+                payload: { vaccine: 'Pentavalente', dose: 1 }
+            });
+
+            const forbidden = await app.inject({
+                method: 'POST',
+                url: `/api/patients/${id}/history/1/restore`,
+                cookies: nurse.cookies
+            });
+
+            expect(forbidden.statusCode).toBe(403);
+            expect(JSON.parse(forbidden.payload).message).toContain('notes:delete');
+
+            const response = await app.inject({
+                method: 'POST',
+                url: `/api/patients/${id}/history/1/restore`,
+                cookies: doctor.cookies
+            });
+
+            expect(response.statusCode).toBe(200);
+            const patient = await Patient.findById(id).lean();
+            expect(patient?.notes).toHaveLength(1);
+            expect(patient?.notes[0].deletedAt).toBeTruthy();
+            expect(patient?.notes[0].deletedBy).toBe(doctor.id);
+            expect(patient?.vaccinations).toHaveLength(2);
+            expect(patient?.vaccinations.find(entry => entry.vaccine !== 'BCG')?.voidedAt).toBeTruthy();
+            expect(patient?.vaccination).toEqual(['BCG']);
+        });
+
+        it('should return 404 for unknown versions', async () => {
+            const id = await createPatient();
+
+            const response = await app.inject({
+                method: 'POST',
+                url: `/api/patients/${id}/history/42/restore`,
+                cookies: doctor.cookies
+            });
+
+            expect(response.statusCode).toBe(404);
+        });
+    });
+});
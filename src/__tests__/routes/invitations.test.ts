@@ -0,0 +1,136 @@
+import { FastifyInstance } from 'fastify';
+import { build } from '../testApp';
+import { connectDB, closeDB, clearDB, createTestUser } from '../testUtils';
+import { Invitation } from '../../models/authModels';
+import { hashToken } from '../../auth/tokens';
+
+describe('Invitation routes', () => {
+    let app: FastifyInstance;
+    let admin: Awaited<ReturnType<typeof createTestUser>>;
+
+    beforeAll(async () => {
+        await connectDB();
+        app = await build();
+    });
+
+    beforeEach(async () => {
+        await clearDB();
+        admin = await createTestUser('admin');
+    });
+
+    afterAll(async () => {
+        await app.close();
+        await closeDB();
+    });
+
+    describe('POST /api/invitations', () => {
+        it('should create an invitation and store only the token hash', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/invitations',
+                cookies: admin.cookies,
+                payload: { email: 'Enfermera@Clinica.test', role: 'nurse' }
+            });
+
+            expect(response.statusCode).toBe(201);
+            const data = JSON.parse(response.payload);
+            expect(data.token).toBeDefined();
+            expect(data.invitation.email).toBe('enfermera@clinica.test');
+            expect(data.invitation.role).toBe('nurse');
+
+            const stored = await Invitation.findById(data.invitation.id);
+            expect(stored?.token_hash).toBe(hashToken(data.token));
+            expect(stored?.token_hash).not.toBe(data.token);
+        });
+
+        it('should reject invalid roles', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/invitations',
+                cookies: admin.cookies,
+                payload: { email: 'x@clinica.test', role: 'owner' }
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+
+        it('should reject emails that already have an account', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/invitations',
+                cookies: admin.cookies,
+                payload: { email: admin.email, role: 'nurse' }
+            });
+
+            expect(response.statusCode).toBe(409);
+        });
+
+        it('should be admin-only', async () => {
+            const doctor = await createTestUser('doctor');
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/invitations',
+                cookies: doctor.cookies,
+                payload: { email: 'x@clinica.test', role: 'admin' }
+            });
+
+            expect(response.statusCode).toBe(403);
+        });
+    });
+
+    describe('GET /api/invitations', () => {
+        it('should list pending invitations only by default', async () => {
+            await Invitation.create([
+                {
+                    _id: 'pending',
+                    email: 'pending@clinica.test',
+                    role: 'nurse',
+                    token_hash: hashToken('a'),
+                    expires_at: new Date(Date.now() + 60000),
+                    created_by: admin.id
+                },
+                {
+                    _id: 'expired',
+                    email: 'expired@clinica.test',
+                    role: 'nurse',
+                    token_hash: hashToken('b'),
+                    expires_at: new Date(Date.now() - 60000),
+                    created_by: admin.id
+                }
+            ]);
+
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/invitations',
+                cookies: admin.cookies
+            });
+
+            const data = JSON.parse(response.payload);
+            expect(data.invitations).toHaveLength(1);
+            expect(data.invitations[0].id).toBe('pending');
+        });
+    });
+
+    describe('DELETE /api/invitations/:id', () => {
+        it('should revoke a pending invitation', async () => {
+            await Invitation.create({
+                _id: 'revoke-me',
+                email: 'revoke@clinica.test',
+                role: 'assistant',
+                token_hash: hashToken('c'),
+                expires_at: new Date(Date.now() + 60000),
+                created_by: admin.id
+            });
+
+            const response = await app.inject({
+                method: 'DELETE',
+                url: '/api/invitations/revoke-me',
+                cookies: admin.cookies
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(await Invitation.findById('revoke-me')).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,180 @@
+import { FastifyInstance } from 'fastify';
+import { build } from '../testApp';
+import { connectDB, closeDB, clearDB, createTestUser, ifMatch } from '../testUtils';
+import { Patient } from '../../models/Patient';
+import { Permission, ROLE_PERMISSIONS, hasPermission } from '../../auth/permissions';
+import { USER_ROLES } from '../../shared/types';
+
+describe('Route permissions', () => {
+    let app: FastifyInstance;
+    let patientId: string;
+    let noteId: string;
+
+    const routes: {
+        method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+        url: () => string;
+        permission: Permission;
+        payload?: Record<string, any>;
+    }[] = [
+        { method: 'GET', url: () => '/api/stats', permission: 'stats:read' },
+        { method: 'GET', url: () => '/api/patients', permission: 'patients:read' },
+        { method: 'GET', url: () => '/api/patients/search/phone/1234', permission: 'patients:read' },
+        { method: 'GET', url: () => '/api/patients/search/dpi/1234567890101', permission: 'patients:read' },
+        { method: 'GET', url: () => `/api/patients/${patientId}`, permission: 'patients:read' },
+        {
+            method: 'POST',
+            url: () => '/api/patients',
+            permission: 'patients:write',
+            payload: { firstName: 'Nuevo', lastName: 'Paciente' }
+        },
+        {
+            method: 'PUT',
+            url: () => `/api/patients/${patientId}`,
+            permission: 'patients:write',
+            payload: { occupation: 'Maestra' }
+        },
+        { method: 'DELETE', url: () => `/api/patients/${patientId}`, permission: 'patients:delete' },
+        {
+            method: 'POST',
+            url: () => `/api/patients/${patientId}/notes`,
+            permission: 'notes:write',
+            payload: { title: 'Consulta', content: 'Control de rutina' }
+        },
+        {
+            method: 'PUT',
+            url: () => `/api/patients/${patientId}/notes/${noteId}`,
+            permission: 'notes:write',
+            payload: { title: 'Consulta', content: 'Control actualizado' }
+        },
+        { method: 'DELETE', url: () => `/api/patients/${patientId}/notes/${noteId}`, permission: 'notes:delete' },
+        {
+            method: 'POST',
+            url: () => `/api/patients/${patientId}/vaccinations`,
+            permission: 'vaccinations:write',
+            payload: { vaccine: 'BCG' }
+        },
+        { method: 'GET', url: () => `/api/patients/${patientId}/allergies`, permission: 'patients:read' },
+        {
+            method: 'POST',
+            url: () => `/api/patients/${patientId}/allergies`,
+            permission: 'chart:write',
+            payload: { substance: 'Penicilina' }
+        },
+        { method: 'GET', url: () => `/api/patients/${patientId}/vitals`, permission: 'patients:read' },
+        {
+            method: 'POST',
+            url: () => `/api/patients/${patientId}/vitals`,
+            permission: 'chart:write',
+            payload: { weight: 70 }
+        },
+        { method: 'GET', url: () => `/api/patients/${patientId}/history`, permission: 'patients:read' },
+        { method: 'POST', url: () => `/api/patients/${patientId}/history/1/restore`, permission: 'patients:write' },
+        { method: 'GET', url: () => '/api/trash/patients', permission: 'trash:manage' },
+        {
+            method: 'POST',
+            url: () => `/api/patients/${patientId}/merge`,
+            permission: 'patients:merge',
+            payload: { sourceId: patientId }
+        },
+        { method: 'GET', url: () => '/api/duplicates', permission: 'patients:merge' },
+        { method: 'GET', url: () => `/api/patients/${patientId}/immunizations`, permission: 'patients:read' },
+        { method: 'GET', url: () => '/api/reports/vaccines-due', permission: 'patients:read' }
+    ];
+
+    beforeAll(async () => {
+        await connectDB();
+        app = await build();
+    });
+
+    beforeEach(async () => {
+        await clearDB();
+
+        const patient = await Patient.create({
+            firstName: 'Permiso',
+            lastName: 'Prueba',
+            phone: '+502 1234-5678',
+            notes: [{ title: 'Inicial', content: 'Nota inicial', date: new Date() }]
+        });
+        patientId = patient._id.toString();
+        noteId = (patient.notes[0] as any)._id.toString();
+    });
+
+    afterAll(async () => {
+        await app.close();
+        await closeDB();
+    });
+
+    it('should only grant admins and doctors destructive permissions', () => {
+        expect(hasPermission('admin', 'patients:delete')).toBe(true);
+        expect(hasPermission('doctor', 'notes:delete')).toBe(true);
+        expect(hasPermission('nurse', 'patients:delete')).toBe(false);
+        expect(hasPermission('assistant', 'notes:write')).toBe(false);
+        expect(hasPermission('unknown', 'patients:read')).toBe(false);
+    });
+
+    it('should not let the patient update change notes', async () => {
+        const assistant = await createTestUser('assistant');
+
+        const response = await app.inject({
+            method: 'PUT',
+            url: `/api/patients/${patientId}`,
+            cookies: assistant.cookies,
+            headers: await ifMatch(patientId),
+            payload: { occupation: 'Maestra', notes: [] }
+        });
+
+        expect(response.statusCode).toBe(200);
+        const patient = await Patient.findById(patientId);
+        expect(patient!.notes).toHaveLength(1);
+        expect((patient!.notes[0] as any)._id.toString()).toBe(noteId);
+    });
+
+    it('should define permissions for every role', () => {
+        USER_ROLES.forEach(role => {
+            expect(ROLE_PERMISSIONS[role]).toBeDefined();
+        });
+    });
+
+    describe.each(routes)('$method $permission', (route) => {
+        it('should return 401 without a session', async () => {
+            const response = await app.inject({
+                method: route.method,
+                url: route.url(),
+                payload: route.payload
+            });
+
+            expect(response.statusCode).toBe(401);
+            expect(JSON.parse(response.payload).error).toBe('Unauthorized');
+        });
+
+        it('should return 401 with an unknown session', async () => {
+            const response = await app.inject({
+                method: route.method,
+                url: route.url(),
+                cookies: { session: 'does-not-exist' },
+                payload: route.payload
+            });
+
+            expect(response.statusCode).toBe(401);
+        });
+
+        it.each(USER_ROLES)('should enforce the matrix for %s', async (role) => {
+            const user = await createTestUser(role);
+
+            const response = await app.inject({
+                method: route.method,
+                url: route.url(),
+                cookies: user.cookies,
+                payload: route.payload
+            });
+
+            if (hasPermission(role, route.permission)) {
+                expect(response.statusCode).not.toBe(401);
+                expect(response.statusCode).not.toBe(403);
+            } else {
+                expect(response.statusCode).toBe(403);
+                expect(JSON.parse(response.payload).error).toBe('Forbidden');
+            }
+        });
+    });
+});
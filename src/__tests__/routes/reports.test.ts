@@ -0,0 +1,117 @@
+import { FastifyInstance } from 'fastify';
+import { build } from '../testApp';
+import { connectDB, closeDB, clearDB, createTestUser } from '../testUtils';
+import { Patient } from '../../models/Patient';
+import { addMonths } from '../../utils/immunizations';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('Immunization schedule and vaccines due report', () => {
+    let app: FastifyInstance;
+    let nurse: Awaited<ReturnType<typeof createTestUser>>;
+    let infantId: string;
+    let olderId: string;
+
+    beforeAll(async () => {
+        await connectDB();
+        app = await build();
+    });
+
+    beforeEach(async () => {
+        await clearDB();
+        nurse = await createTestUser('nurse');
+
+        // Two months and ten days old: the two-month doses are due
+        const infant = await Patient.create({
+            firstName: 'Sofía',
+            lastName: 'Ruiz',
+            gender: 'child',
+            birthdate: new Date(addMonths(new Date(), -2).getTime() - 10 * DAY),
+            phone: '5555-1234',
+            vaccinations: [{ vaccine: 'BCG', dose: 1 }]
+        });
+        infantId = infant._id.toString();
+
+        // Six months old without any vaccine: every dose so far is overdue
+        const older = await Patient.create({
+            firstName: 'Mateo',
+            lastName: 'López',
+            gender: 'child',
+            birthdate: new Date(addMonths(new Date(), -6).getTime() - 10 * DAY),
+            guardian: { dpi: '8765432120901', name: 'Ana López', relationship: 'Madre' }
+        });
+        olderId = older._id.toString();
+
+        await Patient.create({ firstName: 'Juan', lastName: 'Pérez', birthdate: new Date('1990-05-10') });
+    });
+
+    afterAll(async () => {
+        await app.close();
+        await closeDB();
+    });
+
+    it('should list the patients with doses to give, longest overdue first', async () => {
+        const response = await app.inject({ method: 'GET', url: '/api/reports/vaccines-due', cookies: nurse.cookies });
+
+        expect(response.statusCode).toBe(200);
+        const body = JSON.parse(response.payload);
+        expect(body.total).toBe(2);
+        expect(body.entries.map((entry: any) => entry.patient.id)).toEqual([olderId, infantId]);
+        expect(body.entries[0].patient.guardian).toMatchObject({ name: 'Ana López' });
+        expect(body.entries[1].patient.phones[0].e164).toBe('+50255551234');
+        expect(body.entries[1].doses.map((dose: any) => `${dose.vaccine}:${dose.status}`))
+            .toEqual(['Penta:due', 'Polio:due', 'Rotavirus:due', 'Neumococo:due']);
+    });
+
+    it('should filter by status and vaccine', async () => {
+        const overdue = await app.inject({
+            method: 'GET',
+            url: '/api/reports/vaccines-due?status=overdue',
+            cookies: nurse.cookies
+        });
+        expect(JSON.parse(overdue.payload).entries.map((entry: any) => entry.patient.id)).toEqual([olderId]);
+
+        const rotavirus = await app.inject({
+            method: 'GET',
+            url: '/api/reports/vaccines-due?vaccine=rotavirus',
+            cookies: nurse.cookies
+        });
+        const entries = JSON.parse(rotavirus.payload).entries;
+        expect(entries.every((entry: any) => entry.doses.every((dose: any) => dose.vaccine === 'Rotavirus'))).toBe(true);
+    });
+
+    it('should reject unknown statuses', async () => {
+        const response = await app.inject({
+            method: 'GET',
+            url: '/api/reports/vaccines-due?status=given',
+            cookies: nurse.cookies
+        });
+
+        expect(response.statusCode).toBe(400);
+    });
+
+    it('should show the schedule of a single patient', async () => {
+        const response = await app.inject({
+            method: 'GET',
+            url: `/api/patients/${infantId}/immunizations`,
+            cookies: nurse.cookies
+        });
+
+        expect(response.statusCode).toBe(200);
+        const body = JSON.parse(response.payload);
+        expect(body).toMatchObject({ patientId: infantId, due: 4, overdue: 0 });
+        expect(body.doses.find((dose: any) => dose.vaccine === 'BCG').status).toBe('given');
+    });
+
+    it('should need a birthdate to follow the schedule', async () => {
+        const patient = await Patient.create({ firstName: 'Ana', lastName: 'Ruiz' });
+
+        const response = await app.inject({
+            method: 'GET',
+            url: `/api/patients/${patient._id}/immunizations`,
+            cookies: nurse.cookies
+        });
+
+        expect(response.statusCode).toBe(400);
+    });
+});
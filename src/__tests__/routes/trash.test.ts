@@ -0,0 +1,241 @@
+import { FastifyInstance } from 'fastify';
+import { build } from '../testApp';
+import { connectDB, closeDB, clearDB, createTestUser, ifMatch } from '../testUtils';
+import { Patient } from '../../models/Patient';
+import { PatientVersion } from '../../models/PatientVersion';
+import { AuditLog } from '../../models/AuditLog';
+import { purgeExpiredTrash } from '../../utils/trash';
+
+describe('Soft delete and trash', () => {
+    let app: FastifyInstance;
+    let admin: Awaited<ReturnType<typeof createTestUser>>;
+    let doctor: Awaited<ReturnType<typeof createTestUser>>;
+    let patientId: string;
+    let noteId: string;
+
+    const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    beforeAll(async () => {
+        await connectDB();
+        app = await build();
+    });
+
+    beforeEach(async () => {
+        await clearDB();
+        admin = await createTestUser('admin');
+        doctor = await createTestUser('doctor');
+
+        const patient = await Patient.create({
+            firstName: 'María',
+            lastName: 'García',
+            phone: '5555-1234',
+            gender: 'female',
+            notes: [{ title: 'Consulta', content: 'Control de rutina', date: new Date() }]
+        });
+        patientId = patient._id.toString();
+        noteId = (patient.notes[0] as any)._id.toString();
+    });
+
+    afterAll(async () => {
+        await app.close();
+        await closeDB();
+    });
+
+    describe('deleting a patient', () => {
+        beforeEach(async () => {
+            await app.inject({
+                method: 'DELETE',
+                url: `/api/patients/${patientId}`,
+                cookies: doctor.cookies,
+                payload: { reason: 'Registro duplicado' }
+            });
+        });
+
+        it('should keep the record with who deleted it and why', async () => {
+            const patient = await Patient.findById(patientId);
+            expect(patient?.deletedAt).toBeInstanceOf(Date);
+            expect(patient?.deletedBy).toBe(doctor.id);
+            expect(patient?.deletionReason).toBe('Registro duplicado');
+        });
+
+        it('should hide the patient from reads, search and stats', async () => {
+            const get = await app.inject({ method: 'GET', url: `/api/patients/${patientId}`, cookies: doctor.cookies });
+            expect(get.statusCode).toBe(404);
+
+            const list = await app.inject({ method: 'GET', url: '/api/patients', cookies: doctor.cookies });
+            expect(JSON.parse(list.payload).total).toBe(0);
+
+            const phone = await app.inject({ method: 'GET', url: '/api/patients/search/phone/5555', cookies: doctor.cookies });
+            expect(phone.statusCode).toBe(404);
+
+            const stats = await app.inject({ method: 'GET', url: '/api/stats', cookies: doctor.cookies });
+            expect(JSON.parse(stats.payload).total).toBe(0);
+            expect((await Patient.getStats()).female).toBe(0);
+        });
+
+        it('should not be deleted twice', async () => {
+            const response = await app.inject({
+                method: 'DELETE',
+                url: `/api/patients/${patientId}`,
+                cookies: doctor.cookies
+            });
+
+            expect(response.statusCode).toBe(404);
+        });
+
+        it('should be listed in the trash and restorable by admins', async () => {
+            const trash = await app.inject({ method: 'GET', url: '/api/trash/patients', cookies: admin.cookies });
+            expect(trash.statusCode).toBe(200);
+            const data = JSON.parse(trash.payload);
+            expect(data.total).toBe(1);
+            expect(data.patients[0].deletionReason).toBe('Registro duplicado');
+            expect(data.patients[0].purgeAt).toBeDefined();
+            expect((await AuditLog.findOne({ action: 'trash.list' }))?.patientIds).toEqual([patientId]);
+
+            const restore = await app.inject({
+                method: 'POST',
+                url: `/api/trash/patients/${patientId}/restore`,
+                cookies: admin.cookies
+            });
+            expect(restore.statusCode).toBe(200);
+
+            const patient = await Patient.findById(patientId);
+            expect(patient?.deletedAt).toBeNull();
+            expect(patient?.deletedBy).toBeUndefined();
+        });
+
+        it('should keep the trash admin-only', async () => {
+            const response = await app.inject({ method: 'GET', url: '/api/trash/patients', cookies: doctor.cookies });
+            expect(response.statusCode).toBe(403);
+        });
+    });
+
+    describe('deleting a note', () => {
+        beforeEach(async () => {
+            await app.inject({
+                method: 'DELETE',
+                url: `/api/patients/${patientId}/notes/${noteId}`,
+                cookies: doctor.cookies,
+                headers: await ifMatch(patientId)
+            });
+        });
+
+        it('should hide the note but keep it on the record', async () => {
+            const response = await app.inject({ method: 'GET', url: `/api/patients/${patientId}`, cookies: doctor.cookies });
+            expect(JSON.parse(response.payload).notes).toHaveLength(0);
+
+            const patient = await Patient.findById(patientId);
+            expect((patient!.notes[0] as any).deletedAt).toBeInstanceOf(Date);
+        });
+
+        it('should not allow editing a deleted note', async () => {
+            const response = await app.inject({
+                method: 'PUT',
+                url: `/api/patients/${patientId}/notes/${noteId}`,
+                cookies: doctor.cookies,
+                headers: await ifMatch(patientId),
+                payload: { title: 'Editada', content: 'No debería' }
+            });
+
+            expect(response.statusCode).toBe(404);
+        });
+
+        it('should be listed in the trash and restorable', async () => {
+            const trash = await app.inject({ method: 'GET', url: '/api/trash/notes', cookies: admin.cookies });
+            const data = JSON.parse(trash.payload);
+            expect(data.total).toBe(1);
+            expect(data.notes[0]).toMatchObject({ id: noteId, patientId, title: 'Consulta' });
+            expect((await AuditLog.findOne({ action: 'trash.list' }))?.patientIds).toEqual([patientId]);
+
+            const restore = await app.inject({
+                method: 'POST',
+                url: `/api/trash/patients/${patientId}/notes/${noteId}/restore`,
+                cookies: admin.cookies
+            });
+            expect(restore.statusCode).toBe(200);
+            expect(JSON.parse(restore.payload).notes).toHaveLength(1);
+        });
+    });
+
+    describe('purging', () => {
+        const originalRetention = process.env.TRASH_RETENTION_DAYS;
+
+        afterEach(() => {
+            if (originalRetention === undefined) {
+                delete process.env.TRASH_RETENTION_DAYS;
+            } else {
+                process.env.TRASH_RETENTION_DAYS = originalRetention;
+            }
+        });
+
+        it('should only purge items past the retention period', async () => {
+            process.env.TRASH_RETENTION_DAYS = '10';
+            const recent = await Patient.create({ firstName: 'Ana', lastName: 'López', deletedAt: daysAgo(5) });
+            await Patient.findByIdAndUpdate(patientId, { deletedAt: daysAgo(11) });
+            await PatientVersion.create({ patientId, version: 1, action: 'create', snapshot: { firstName: 'María' } });
+
+            const result = await purgeExpiredTrash();
+
+            expect(result.patientIds).toEqual([patientId]);
+            expect(await Patient.findById(patientId)).toBeNull();
+            expect(await Patient.findById(recent._id)).not.toBeNull();
+            expect(await PatientVersion.countDocuments({ patientId })).toBe(0);
+        });
+
+        it('should purge expired notes from the record and its history', async () => {
+            await Patient.updateOne({ _id: patientId }, { 'notes.0.deletedAt': daysAgo(40) });
+            await PatientVersion.create({
+                patientId,
+                version: 1,
+                action: 'note',
+                snapshot: { notes: [{ _id: noteId, title: 'Consulta' }] },
+                changes: [
+                    { field: 'occupation', before: null, after: 'Maestra' },
+                    { field: 'notes', before: null, after: [{ _id: noteId, title: 'Consulta', content: 'Control de rutina' }] },
+                    { field: 'notes', before: [{ _id: noteId, title: 'Consulta' }], after: [] }
+                ]
+            });
+
+            const response = await app.inject({ method: 'POST', url: '/api/trash/purge', cookies: admin.cookies });
+
+            expect(response.statusCode).toBe(200);
+            expect(JSON.parse(response.payload).notes).toBe(1);
+            expect((await Patient.findById(patientId))?.notes).toHaveLength(0);
+            const version = await PatientVersion.findOne({ patientId }).lean();
+            expect(version?.snapshot.notes).toHaveLength(0);
+            expect(version?.changes).toEqual([
+                { field: 'occupation', before: null, after: 'Maestra' },
+                { field: 'notes', before: null, after: [] },
+                { field: 'notes', before: [], after: [] }
+            ]);
+        });
+
+        it('should let the cron job purge with the cron secret only', async () => {
+            const originalSecret = process.env.CRON_SECRET;
+            await Patient.findByIdAndUpdate(patientId, { deletedAt: daysAgo(40) });
+
+            try {
+                delete process.env.CRON_SECRET;
+                const disabled = await app.inject({ method: 'GET', url: '/api/cron/trash-purge', headers: { authorization: 'Bearer ' } });
+                expect(disabled.statusCode).toBe(401);
+
+                process.env.CRON_SECRET = 'cron-secret';
+                const wrong = await app.inject({ method: 'GET', url: '/api/cron/trash-purge', headers: { authorization: 'Bearer otro' } });
+                expect(wrong.statusCode).toBe(401);
+                expect(await Patient.findById(patientId)).not.toBeNull();
+
+                const response = await app.inject({ method: 'GET', url: '/api/cron/trash-purge', headers: { authorization: 'Bearer cron-secret' } });
+                expect(response.statusCode).toBe(200);
+                expect(JSON.parse(response.payload).patients).toBe(1);
+                expect(await Patient.findById(patientId)).toBeNull();
+                expect((await AuditLog.findOne({ action: 'trash.purge' }))?.actorRole).toBe('system');
+            } finally {
+                if (originalSecret === undefined) {
+                    delete process.env.CRON_SECRET;
+                } else {
+                    process.env.CRON_SECRET = originalSecret;
+                }
+            }
+        });
+    });
+});
@@ -0,0 +1,324 @@
+import { FastifyInstance } from 'fastify';
+import { build } from '../testApp';
+import { connectDB, closeDB, clearDB, createTestUser } from '../testUtils';
+import { User, Session, LoginAttempt, ApiToken } from '../../models/authModels';
+import { ApiTokenService } from '../../auth/apiTokens';
+
+describe('User management routes', () => {
+    let app: FastifyInstance;
+    let admin: Awaited<ReturnType<typeof createTestUser>>;
+    let nurse: Awaited<ReturnType<typeof createTestUser>>;
+
+    beforeAll(async () => {
+        await connectDB();
+        app = await build();
+    });
+
+    beforeEach(async () => {
+        await clearDB();
+        admin = await createTestUser('admin');
+        nurse = await createTestUser('nurse');
+    });
+
+    afterAll(async () => {
+        await app.close();
+        await closeDB();
+    });
+
+    describe('access control', () => {
+        it('should return 401 without a session', async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/users'
+            });
+
+            expect(response.statusCode).toBe(401);
+        });
+
+        it.each(['doctor', 'nurse', 'assistant'] as const)('should return 403 for %s', async (role) => {
+            const user = await createTestUser(role);
+
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/users',
+                cookies: user.cookies
+            });
+
+            expect(response.statusCode).toBe(403);
+        });
+    });
+
+    describe('GET /api/users', () => {
+        it('should list users without password hashes', async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/users',
+                cookies: admin.cookies
+            });
+
+            expect(response.statusCode).toBe(200);
+            const data = JSON.parse(response.payload);
+            expect(data.total).toBe(2);
+            expect(data.users).toHaveLength(2);
+            data.users.forEach((user: any) => {
+                expect(user.hashed_password).toBeUndefined();
+                expect(user.active).toBe(true);
+            });
+        });
+
+        it('should filter by role', async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/users?role=nurse',
+                cookies: admin.cookies
+            });
+
+            const data = JSON.parse(response.payload);
+            expect(data.users).toHaveLength(1);
+            expect(data.users[0].id).toBe(nurse.id);
+        });
+    });
+
+    describe('GET /api/users/:id', () => {
+        it('should return a single user', async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: `/api/users/${nurse.id}`,
+                cookies: admin.cookies
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(JSON.parse(response.payload).email).toBe(nurse.email);
+        });
+
+        it('should return 404 for unknown users', async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/users/unknown',
+                cookies: admin.cookies
+            });
+
+            expect(response.statusCode).toBe(404);
+        });
+    });
+
+    describe('PUT /api/users/:id/role', () => {
+        it('should change the role', async () => {
+            const response = await app.inject({
+                method: 'PUT',
+                url: `/api/users/${nurse.id}/role`,
+                cookies: admin.cookies,
+                payload: { role: 'doctor' }
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(JSON.parse(response.payload).role).toBe('doctor');
+            expect((await User.findById(nurse.id))?.role).toBe('doctor');
+        });
+
+        it('should reject unknown roles', async () => {
+            const response = await app.inject({
+                method: 'PUT',
+                url: `/api/users/${nurse.id}/role`,
+                cookies: admin.cookies,
+                payload: { role: 'superuser' }
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+
+        it('should not let admins change their own role', async () => {
+            const response = await app.inject({
+                method: 'PUT',
+                url: `/api/users/${admin.id}/role`,
+                cookies: admin.cookies,
+                payload: { role: 'nurse' }
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+
+        it('should let an admin demote another admin', async () => {
+            const otherAdmin = await createTestUser('admin');
+
+            const response = await app.inject({
+                method: 'PUT',
+                url: `/api/users/${otherAdmin.id}/role`,
+                cookies: admin.cookies,
+                payload: { role: 'doctor' }
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(JSON.parse(response.payload).role).toBe('doctor');
+        });
+    });
+
+    describe('POST /api/users/:id/disable and /enable', () => {
+        it('should disable an account and end its sessions', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: `/api/users/${nurse.id}/disable`,
+                cookies: admin.cookies
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(JSON.parse(response.payload).active).toBe(false);
+            expect(await Session.countDocuments({ user_id: nurse.id })).toBe(0);
+        });
+
+        it('should reject sessions of disabled accounts', async () => {
+            const user = await createTestUser('nurse');
+            await User.findByIdAndUpdate(user.id, { active: false });
+
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/patients',
+                cookies: user.cookies
+            });
+
+            expect(response.statusCode).toBe(401);
+        });
+
+        it('should re-enable an account', async () => {
+            await User.findByIdAndUpdate(nurse.id, { active: false });
+
+            const response = await app.inject({
+                method: 'POST',
+                url: `/api/users/${nurse.id}/enable`,
+                cookies: admin.cookies
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(JSON.parse(response.payload).active).toBe(true);
+        });
+
+        it('should not let admins disable themselves', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: `/api/users/${admin.id}/disable`,
+                cookies: admin.cookies
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+    });
+
+    const mintToken = async (userId: string) => {
+        const { apiToken } = await ApiTokenService.create((await User.findById(userId))!, {
+            name: 'Importador de laboratorio',
+            scopes: ['patients:read']
+        });
+        return apiToken._id;
+    };
+
+    describe('POST /api/users/:id/logout', () => {
+        it('should invalidate every session and API token of the user', async () => {
+            const tokenId = await mintToken(nurse.id);
+
+            const response = await app.inject({
+                method: 'POST',
+                url: `/api/users/${nurse.id}/logout`,
+                cookies: admin.cookies
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(await Session.countDocuments({ user_id: nurse.id })).toBe(0);
+            expect((await ApiToken.findById(tokenId))?.revoked_at).not.toBeNull();
+        });
+    });
+
+    describe('PUT /api/users/:id/password', () => {
+        it('should set a new password and end existing sessions and API tokens', async () => {
+            const tokenId = await mintToken(nurse.id);
+
+            const response = await app.inject({
+                method: 'PUT',
+                url: `/api/users/${nurse.id}/password`,
+                cookies: admin.cookies,
+                payload: { password: 'NuevaClave2025!' }
+            });
+
+            expect(response.statusCode).toBe(200);
+            const user = await User.findById(nurse.id);
+            expect(user?.hashed_password).not.toBe('not-a-real-hash');
+            expect(await Session.countDocuments({ user_id: nurse.id })).toBe(0);
+            expect((await ApiToken.findById(tokenId))?.revoked_at).not.toBeNull();
+        });
+
+        it('should require a password', async () => {
+            const response = await app.inject({
+                method: 'PUT',
+                url: `/api/users/${nurse.id}/password`,
+                cookies: admin.cookies,
+                payload: {}
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+    });
+
+    describe('DELETE /api/users/:id', () => {
+        it('should delete the user and their sessions', async () => {
+            const response = await app.inject({
+                method: 'DELETE',
+                url: `/api/users/${nurse.id}`,
+                cookies: admin.cookies
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(await User.findById(nurse.id)).toBeNull();
+            expect(await Session.countDocuments({ user_id: nurse.id })).toBe(0);
+        });
+
+        it('should not let admins delete themselves', async () => {
+            const response = await app.inject({
+                method: 'DELETE',
+                url: `/api/users/${admin.id}`,
+                cookies: admin.cookies
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+    });
+
+    describe('POST /api/users/:id/unlock', () => {
+        it('should clear the lockout', async () => {
+            await User.findByIdAndUpdate(nurse.id, {
+                failed_login_attempts: 5,
+                locked_until: new Date(Date.now() + 15 * 60 * 1000)
+            });
+
+            const response = await app.inject({
+                method: 'POST',
+                url: `/api/users/${nurse.id}/unlock`,
+                cookies: admin.cookies
+            });
+
+            expect(response.statusCode).toBe(200);
+            const data = JSON.parse(response.payload);
+            expect(data.failedLoginAttempts).toBe(0);
+            expect(data.lockedUntil).toBeUndefined();
+        });
+    });
+
+    describe('GET /api/users/:id/login-attempts', () => {
+        it('should list the sign-in history, newest first', async () => {
+            await LoginAttempt.create([
+                { user_id: nurse.id, email: nurse.email, ip: '10.0.0.5', success: false, result: 'invalid_password', created_at: new Date(Date.now() - 60000) },
+                { user_id: nurse.id, email: nurse.email, ip: '10.0.0.5', success: true, result: 'success' }
+            ]);
+
+            const response = await app.inject({
+                method: 'GET',
+                url: `/api/users/${nurse.id}/login-attempts`,
+                cookies: admin.cookies
+            });
+
+            expect(response.statusCode).toBe(200);
+            const data = JSON.parse(response.payload);
+            expect(data.total).toBe(2);
+            expect(data.attempts[0].result).toBe('success');
+            expect(data.attempts[1].ip).toBe('10.0.0.5');
+        });
+    });
+});
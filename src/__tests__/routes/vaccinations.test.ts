@@ -0,0 +1,176 @@
+import { FastifyInstance } from 'fastify';
+import { build } from '../testApp';
+import { connectDB, closeDB, clearDB, createTestUser, ifMatch } from '../testUtils';
+import { Patient } from '../../models/Patient';
+import { AuditLog } from '../../models/AuditLog';
+
+describe('Vaccination records', () => {
+    let app: FastifyInstance;
+    let nurse: Awaited<ReturnType<typeof createTestUser>>;
+    let patientId: string;
+
+    beforeAll(async () => {
+        await connectDB();
+        app = await build();
+    });
+
+    beforeEach(async () => {
+        await clearDB();
+        nurse = await createTestUser('nurse');
+
+        const patient = await Patient.create({
+            firstName: 'Sofía',
+            lastName: 'Ruiz',
+            gender: 'child',
+            vaccination: ['BCG']
+        });
+        patientId = patient._id.toString();
+    });
+
+    afterAll(async () => {
+        await app.close();
+        await closeDB();
+    });
+
+    const addVaccination = async (payload: Record<string, any>) => app.inject({
+        method: 'POST',
+        url: `/api/patients/${patientId}/vaccinations`,
+        cookies: nurse.cookies,
+        headers: await ifMatch(patientId),
+        payload
+    });
+
+    it('should chart a vaccination with its dose, date and lot', async () => {
+        const response = await addVaccination({
+            vaccine: 'Pentavalente',
+            dose: 1,
+            administeredAt: '2025-03-10',
+            lotNumber: 'L-2231',
+            site: 'left-thigh'
+        });
+
+        expect(response.statusCode).toBe(200);
+        const body = JSON.parse(response.payload);
+        expect(body.vaccination).toEqual(['BCG', 'Penta']);
+        expect(body.vaccinations[1]).toMatchObject({
+            vaccine: 'Penta',
+            dose: 1,
+            administeredAt: '2025-03-10T00:00:00.000Z',
+            lotNumber: 'L-2231',
+            site: 'left-thigh',
+            administeredBy: nurse.id
+        });
+        expect(body.vaccinations[1].id).toBeDefined();
+
+        const entry = await AuditLog.findOne({ action: 'vaccination.create' });
+        expect(entry?.vaccinationId).toBe(body.vaccinations[1].id);
+    });
+
+    it('should reject invalid vaccination data', async () => {
+        const response = await addVaccination({ vaccine: 'Penta', dose: 0, administeredAt: '2999-01-01' });
+
+        expect(response.statusCode).toBe(400);
+        expect(JSON.parse(response.payload).details.map((detail: any) => detail.field).sort())
+            .toEqual(['administeredAt', 'dose']);
+    });
+
+    it('should correct only the fields sent', async () => {
+        const added = JSON.parse((await addVaccination({ vaccine: 'Penta', dose: 1, lotNumber: 'L-2231' })).payload);
+        const vaccinationId = added.vaccinations[1].id;
+
+        const response = await app.inject({
+            method: 'PUT',
+            url: `/api/patients/${patientId}/vaccinations/${vaccinationId}`,
+            cookies: nurse.cookies,
+            headers: await ifMatch(patientId),
+            payload: { dose: 2, lotNumber: null }
+        });
+
+        expect(response.statusCode).toBe(200);
+        const vaccination = JSON.parse(response.payload).vaccinations[1];
+        expect(vaccination).toMatchObject({ vaccine: 'Penta', dose: 2 });
+        expect(vaccination.lotNumber).toBeUndefined();
+    });
+
+    it('should void a vaccination with a reason and keep it on the record', async () => {
+        const patient = await Patient.findById(patientId);
+        const vaccinationId = (patient!.vaccinations[0] as any)._id.toString();
+
+        const missingReason = await app.inject({
+            method: 'POST',
+            url: `/api/patients/${patientId}/vaccinations/${vaccinationId}/void`,
+            cookies: nurse.cookies,
+            headers: await ifMatch(patientId),
+            payload: {}
+        });
+        expect(missingReason.statusCode).toBe(400);
+
+        const response = await app.inject({
+            method: 'POST',
+            url: `/api/patients/${patientId}/vaccinations/${vaccinationId}/void`,
+            cookies: nurse.cookies,
+            headers: await ifMatch(patientId),
+            payload: { reason: 'Registrada en el paciente equivocado' }
+        });
+
+        expect(response.statusCode).toBe(200);
+        const body = JSON.parse(response.payload);
+        expect(body.vaccination).toEqual([]);
+        expect(body.vaccinations[0]).toMatchObject({ vaccine: 'BCG', voidedBy: nurse.id });
+
+        const correction = await app.inject({
+            method: 'PUT',
+            url: `/api/patients/${patientId}/vaccinations/${vaccinationId}`,
+            cookies: nurse.cookies,
+            headers: await ifMatch(patientId),
+            payload: { dose: 1 }
+        });
+        expect(correction.statusCode).toBe(404);
+    });
+
+    it('should require the patient version', async () => {
+        const response = await app.inject({
+            method: 'POST',
+            url: `/api/patients/${patientId}/vaccinations`,
+            cookies: nurse.cookies,
+            payload: { vaccine: 'Penta' }
+        });
+
+        expect(response.statusCode).toBe(428);
+    });
+
+    it('should keep the plain vaccination list working for older clients', async () => {
+        const response = await app.inject({
+            method: 'PUT',
+            url: `/api/patients/${patientId}`,
+            cookies: nurse.cookies,
+            headers: await ifMatch(patientId),
+            payload: { vaccination: ['Hepatitis B'] }
+        });
+
+        const body = JSON.parse(response.payload);
+        expect(body.vaccination).toEqual(['HepB']);
+        expect(body.vaccinations.map((entry: any) => [entry.vaccine, !!entry.voidedAt])).toEqual([['BCG', true], ['HepB', false]]);
+    });
+
+    it('should not chart vaccinations sent with a new patient', async () => {
+        const assistant = await createTestUser('assistant');
+
+        const response = await app.inject({
+            method: 'POST',
+            url: '/api/patients',
+            cookies: assistant.cookies,
+            payload: {
+                firstName: 'Mateo',
+                lastName: 'López',
+                vaccination: ['BCG'],
+                vaccinations: [{ vaccine: 'Pentavalente', dose: 1, administeredBy: nurse.id, voidedAt: null }]
+            }
+        });
+
+        expect(response.statusCode).toBe(201);
+        const body = JSON.parse(response.payload);
+        expect(body.vaccination).toEqual([]);
+        expect(body.vaccinations).toEqual([]);
+    });
+});
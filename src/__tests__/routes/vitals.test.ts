@@ -0,0 +1,183 @@
+import { FastifyInstance } from 'fastify';
+import { build } from '../testApp';
+import { connectDB, closeDB, clearDB, createTestUser, ifMatch } from '../testUtils';
+import { Patient } from '../../models/Patient';
+import { VitalSigns } from '../../models/VitalSigns';
+import { AuditLog } from '../../models/AuditLog';
+
+describe('Vital signs', () => {
+    let app: FastifyInstance;
+    let nurse: Awaited<ReturnType<typeof createTestUser>>;
+    let patientId: string;
+
+    beforeAll(async () => {
+        await connectDB();
+        app = await build();
+    });
+
+    beforeEach(async () => {
+        await clearDB();
+        nurse = await createTestUser('nurse');
+
+        const patient = await Patient.create({
+            firstName: 'Carlos',
+            lastName: 'Méndez',
+            gender: 'male',
+            birthdate: new Date('1980-04-12'),
+            notes: [{ title: 'Consulta', content: 'Control de presión' }]
+        });
+        patientId = patient._id.toString();
+    });
+
+    afterAll(async () => {
+        await app.close();
+        await closeDB();
+    });
+
+    const recordVitals = (payload: Record<string, any>) => app.inject({
+        method: 'POST',
+        url: `/api/patients/${patientId}/vitals`,
+        cookies: nurse.cookies,
+        payload
+    });
+
+    it('should record vital signs with a computed BMI', async () => {
+        const patient = await Patient.findById(patientId);
+        const noteId = (patient!.notes[0] as any)._id.toString();
+
+        const response = await recordVitals({
+            takenAt: '2025-05-02T15:00:00.000Z',
+            noteId,
+            weight: { value: 176, unit: 'lb' },
+            height: 175,
+            systolic: 135,
+            diastolic: 85,
+            temperature: 36.8,
+            heartRate: 76,
+            spo2: 97
+        });
+
+        expect(response.statusCode).toBe(201);
+        const body = JSON.parse(response.payload);
+        expect(body).toMatchObject({
+            patientId,
+            noteId,
+            takenAt: '2025-05-02T15:00:00.000Z',
+            weight: 79.832,
+            height: 175,
+            bmi: 26.1,
+            recordedBy: nurse.id
+        });
+
+        const entry = await AuditLog.findOne({ action: 'vitals.create' });
+        expect(entry?.entryId).toBe(body.id);
+    });
+
+    it('should use the last height for adults weighed without it', async () => {
+        await recordVitals({ takenAt: '2025-01-10', height: 180 });
+
+        const response = await recordVitals({ weight: 81 });
+
+        expect(JSON.parse(response.payload).bmi).toBe(25);
+    });
+
+    it('should reject implausible values and unknown units', async () => {
+        const implausible = await recordVitals({ weight: 700, systolic: 80, diastolic: 90, spo2: 101 });
+        expect(implausible.statusCode).toBe(400);
+        expect(JSON.parse(implausible.payload).details.map((detail: any) => detail.field).sort())
+            .toEqual(['diastolic', 'spo2', 'weight']);
+
+        const unit = await recordVitals({ temperature: { value: 37, unit: 'K' } });
+        expect(unit.statusCode).toBe(400);
+
+        const empty = await recordVitals({});
+        expect(empty.statusCode).toBe(400);
+
+        expect(await VitalSigns.countDocuments()).toBe(0);
+    });
+
+    it('should return series filtered by type and date range', async () => {
+        await recordVitals({ takenAt: '2025-01-10', weight: 80, heartRate: 70 });
+        await recordVitals({ takenAt: '2025-02-10', heartRate: 74 });
+        await recordVitals({ takenAt: '2025-03-10', weight: 78.5 });
+        await recordVitals({ takenAt: '2025-04-10', weight: 77 });
+
+        const response = await app.inject({
+            method: 'GET',
+            url: `/api/patients/${patientId}/vitals?type=weight&from=2025-01-01&to=2025-03-10`,
+            cookies: nurse.cookies
+        });
+
+        expect(response.statusCode).toBe(200);
+        const body = JSON.parse(response.payload);
+        expect(body.units.weight).toBe('kg');
+        expect(body.readings).toHaveLength(2);
+        expect(body.series.weight.map((point: any) => point.value)).toEqual([80, 78.5]);
+        expect(body.series.heartRate).toBeUndefined();
+
+        const invalid = await app.inject({
+            method: 'GET',
+            url: `/api/patients/${patientId}/vitals?type=glucose`,
+            cookies: nurse.cookies
+        });
+        expect(invalid.statusCode).toBe(400);
+    });
+
+    it('should delete a reading entered in error', async () => {
+        const recorded = JSON.parse((await recordVitals({ weight: 80 })).payload);
+
+        const response = await app.inject({
+            method: 'DELETE',
+            url: `/api/patients/${patientId}/vitals/${recorded.id}`,
+            cookies: nurse.cookies
+        });
+
+        expect(response.statusCode).toBe(200);
+        expect(await VitalSigns.countDocuments()).toBe(0);
+        expect(await AuditLog.countDocuments({ action: 'vitals.delete', entryId: recorded.id })).toBe(1);
+    });
+
+    it('should return WHO growth z-scores for children', async () => {
+        const child = await Patient.create({
+            firstName: 'Ana',
+            lastName: 'Xol',
+            gender: 'child',
+            sex: 'female',
+            birthdate: new Date('2023-03-01')
+        });
+
+        const response = await app.inject({
+            method: 'POST',
+            url: `/api/patients/${child._id}/vitals`,
+            cookies: nurse.cookies,
+            payload: { takenAt: '2026-03-01', weight: 10.2, height: 85, headCircumference: 47.5 }
+        });
+
+        expect(response.statusCode).toBe(201);
+        const { growth } = JSON.parse(response.payload);
+        expect(growth).toMatchObject({ ageMonths: 36, sex: 'female' });
+        expect(growth.heightForAge.status).toBe('stunted');
+        expect(growth.weightForAge.status).toBe('underweight');
+        expect(growth.weightForHeight.zScore).toBeLessThan(-1);
+
+        const adult = JSON.parse((await recordVitals({ weight: 80, height: 175 })).payload);
+        expect(adult.growth).toBeUndefined();
+    });
+
+    it('should move vital signs to the surviving record on merge', async () => {
+        await recordVitals({ weight: 80 });
+        const target = await Patient.create({ firstName: 'Carlos', lastName: 'Mendez', gender: 'male' });
+        const doctor = await createTestUser('doctor');
+
+        const response = await app.inject({
+            method: 'POST',
+            url: `/api/patients/${target._id}/merge`,
+            cookies: doctor.cookies,
+            headers: await ifMatch(target._id.toString()),
+            payload: { sourceId: patientId }
+        });
+
+        expect(response.statusCode).toBe(200);
+        expect(await VitalSigns.countDocuments({ patientId: target._id.toString() })).toBe(1);
+    });
+});
@@ -1,5 +1,20 @@
 import Fastify, { FastifyInstance } from 'fastify';
 import routes from '../routes';
+import authRoutes from '../routes/auth';
+import userRoutes from '../routes/users';
+import invitationRoutes from '../routes/invitations';
+import apiTokenRoutes from '../routes/apiTokens';
+import auditRoutes from '../routes/audit';
+import trashRoutes from '../routes/trash';
+import duplicateRoutes from '../routes/duplicates';
+import vaccinationRoutes from '../routes/vaccinations';
+import reportRoutes from '../routes/reports';
+import chartRoutes from '../routes/chart';
+import vitalsRoutes from '../routes/vitals';
+import cronRoutes from '../routes/cron';
+import cookiesPlugin from '../plugins/cookies';
+import authPlugin from '../plugins/auth';
+import csrfPlugin from '../plugins/csrf';
 
 export async function build(): Promise<FastifyInstance> {
     const app = Fastify({
@@ -11,8 +26,25 @@ export async function build(): Promise<FastifyInstance> {
         origin: true
     });
 
+    // Register session handling
+    await app.register(cookiesPlugin);
+    await app.register(csrfPlugin);
+    await app.register(authPlugin);
+
     // Register routes with /api prefix
+    await app.register(authRoutes, { prefix: '/api/auth' });
+    await app.register(apiTokenRoutes, { prefix: '/api/auth/tokens' });
     await app.register(routes, { prefix: '/api' });
+    await app.register(userRoutes, { prefix: '/api/users' });
+    await app.register(invitationRoutes, { prefix: '/api/invitations' });
+    await app.register(auditRoutes, { prefix: '/api/audit' });
+    await app.register(trashRoutes, { prefix: '/api/trash' });
+    await app.register(duplicateRoutes, { prefix: '/api/duplicates' });
+    await app.register(vaccinationRoutes, { prefix: '/api/patients' });
+    await app.register(reportRoutes, { prefix: '/api/reports' });
+    await app.register(chartRoutes, { prefix: '/api/patients' });
+    await app.register(vitalsRoutes, { prefix: '/api/patients' });
+    await app.register(cronRoutes, { prefix: '/api/cron' });
 
     return app;
-}
\ No newline at end of file
+}
@@ -1,5 +1,10 @@
 import mongoose from 'mongoose';
 import { MongoMemoryServer } from 'mongodb-memory-server';
+import { randomUUID } from 'crypto';
+import { User } from '../models/authModels';
+import { Patient } from '../models/Patient';
+import { AuthService } from '../auth/lucia';
+import { UserRole } from '../shared/types';
 
 let mongod: MongoMemoryServer;
 
@@ -22,4 +27,29 @@ export const clearDB = async () => {
         const collection = collections[key];
         await collection.deleteMany({});
     }
-};
\ No newline at end of file
+};
+export const createTestUser = async (role: UserRole, email: string = `${role}-${randomUUID()}@clinica.test`) => {
+    const userId = randomUUID();
+
+    await User.create({
+        _id: userId,
+        email,
+        hashed_password: 'not-a-real-hash',
+        role
+    });
+
+    const session = await AuthService.createSession(userId);
+
+    return {
+        id: userId,
+        email,
+        role,
+        cookies: { session: session.id }
+    };
+};
+
+// If-Match header for the current revision of a patient, required by PUT and note changes
+export const ifMatch = async (patientId: string) => {
+    const patient = await Patient.findById(patientId);
+    return { 'if-match': `"${patient?.__v ?? 0}"` };
+};
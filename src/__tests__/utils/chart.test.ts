@@ -0,0 +1,27 @@
+import { CHART_LISTS, chartEntryKey, toAllergyWarnings } from '../../utils/chart';
+
+describe('toAllergyWarnings', () => {
+    it('should list the most severe allergies first', () => {
+        const warnings = toAllergyWarnings([
+            { _id: 'a1', substance: 'Polen', severity: 'mild' },
+            { _id: 'a2', substance: 'Mariscos' },
+            { _id: 'a3', substance: 'Penicilina', severity: 'life-threatening', reaction: 'Anafilaxia' },
+            { _id: 'a4', substance: 'Ibuprofeno', severity: 'moderate' }
+        ] as any);
+
+        expect(warnings.map(warning => warning.substance)).toEqual(['Penicilina', 'Ibuprofeno', 'Mariscos', 'Polen']);
+        expect(warnings[0]).toEqual({ id: 'a3', substance: 'Penicilina', severity: 'life-threatening', reaction: 'Anafilaxia' });
+    });
+
+    it('should return no warnings without allergies', () => {
+        expect(toAllergyWarnings(undefined)).toEqual([]);
+    });
+});
+
+describe('chartEntryKey', () => {
+    it('should match entries regardless of accents, case and spacing', () => {
+        const medications = CHART_LISTS.find(list => list.path === 'medications')!;
+
+        expect(chartEntryKey(medications, { name: ' Losartán ' })).toBe(chartEntryKey(medications, { name: 'LOSARTAN' }));
+    });
+});
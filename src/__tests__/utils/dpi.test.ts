@@ -0,0 +1,39 @@
+import { dpiError, normalizeDpi } from '../../utils/dpi';
+
+describe('normalizeDpi', () => {
+    it('should strip the spaces and dashes printed on the card', () => {
+        expect(normalizeDpi('1234 56789 0101')).toBe('1234567890101');
+        expect(normalizeDpi('1234-56789-0101')).toBe('1234567890101');
+    });
+
+    it('should leave empty values unset', () => {
+        expect(normalizeDpi('')).toBeUndefined();
+        expect(normalizeDpi(' ')).toBeUndefined();
+        expect(normalizeDpi(null)).toBeUndefined();
+    });
+});
+
+describe('dpiError', () => {
+    it('should accept numbers with a valid check digit and place of registration', () => {
+        expect(dpiError('1234567890101')).toBeNull();
+        expect(dpiError('8765 43212 0901')).toBeNull();
+        expect(dpiError('2468135711301')).toBeNull();
+    });
+
+    it('should require 13 digits', () => {
+        expect(dpiError('123456789010')).toBe('DPI must have 13 digits');
+        expect(dpiError('12345678901AB')).toBe('DPI must have 13 digits');
+    });
+
+    it('should reject a wrong check digit', () => {
+        expect(dpiError('1234567880101')).toBe('DPI check digit is invalid');
+    });
+
+    it('should reject departments and municipalities that do not exist', () => {
+        expect(dpiError('1234567890001')).toBe('DPI department code is invalid');
+        expect(dpiError('1234567892301')).toBe('DPI department code is invalid');
+        expect(dpiError('1234567890100')).toBe('DPI municipality code is invalid for Guatemala');
+        expect(dpiError('1234567890118')).toBe('DPI municipality code is invalid for Guatemala');
+        expect(dpiError('1234567891806')).toBe('DPI municipality code is invalid for Izabal');
+    });
+});
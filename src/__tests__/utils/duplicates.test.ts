@@ -0,0 +1,63 @@
+import { normalizeText, similarity, accentInsensitivePattern, phoneDigits } from '../../utils/text';
+import { scoreDuplicate } from '../../utils/duplicates';
+
+describe('Text matching', () => {
+    it('should normalize accents, case and spacing', () => {
+        expect(normalizeText('  José  PÉREZ ')).toBe('jose perez');
+        expect(normalizeText('Íñiguez-Muñoz')).toBe('iniguez munoz');
+        expect(normalizeText(undefined)).toBe('');
+    });
+
+    it('should score similar names close to 1', () => {
+        expect(similarity('María García', 'maria garcia')).toBe(1);
+        expect(similarity('María García', 'Maria Garsia')).toBeGreaterThan(0.9);
+        expect(similarity('María García', 'Pedro López')).toBeLessThan(0.5);
+    });
+
+    it('should build a pattern that matches any accent variant', () => {
+        const pattern = new RegExp(`^${accentInsensitivePattern('José')}$`, 'i');
+        expect(pattern.test('José')).toBe(true);
+        expect(pattern.test('JOSE')).toBe(true);
+        expect(pattern.test('Josué')).toBe(false);
+    });
+
+    it('should compare phone numbers by their local digits', () => {
+        expect(phoneDigits('+502 5555-1234')).toBe('55551234');
+        expect(phoneDigits('5555 1234')).toBe('55551234');
+    });
+});
+
+describe('scoreDuplicate', () => {
+    const maria = { firstName: 'María', lastName: 'García', birthdate: '1990-05-10', phone: '5555-1234' };
+
+    it('should match the same person typed without accents', () => {
+        const result = scoreDuplicate(maria, { firstName: 'Maria', lastName: 'Garcia', birthdate: '1990-05-10' });
+        expect(result?.reasons).toEqual(['name', 'birthdate']);
+        expect(result!.score).toBeGreaterThan(0.7);
+    });
+
+    it('should match swapped name fields', () => {
+        expect(scoreDuplicate(maria, { firstName: 'García', lastName: 'María' })?.reasons).toContain('name');
+    });
+
+    it('should not match similar names with different birthdates', () => {
+        expect(scoreDuplicate(maria, { firstName: 'María', lastName: 'García', birthdate: '1962-01-01' })).toBeNull();
+    });
+
+    it('should not match relatives sharing a phone', () => {
+        expect(scoreDuplicate(maria, { firstName: 'Pedro', lastName: 'López', phone: '+502 5555 1234' })).toBeNull();
+    });
+
+    it('should match a shared phone with a close name', () => {
+        const result = scoreDuplicate(maria, { firstName: 'Marí', lastName: 'Garcia de León', phone: '+502 5555 1234' });
+        expect(result?.reasons).toContain('phone');
+    });
+
+    it('should match on any number of the phone list', () => {
+        const result = scoreDuplicate(
+            { ...maria, phones: [{ number: '2222-0000', e164: '+50222220000' }, { number: '5555-1234', e164: '+50255551234' }] },
+            { firstName: 'Marí', lastName: 'Garcia de León', phones: [{ number: '+502 5555 1234', e164: '+50255551234' }] }
+        );
+        expect(result?.reasons).toContain('phone');
+    });
+});
@@ -0,0 +1,34 @@
+import { getAllowedOrigins, getFrontendUrl, getFrontendUrls } from '../../utils/frontendUrl';
+
+describe('FRONTEND_URL', () => {
+    const original = process.env.FRONTEND_URL;
+
+    afterEach(() => {
+        if (original === undefined) {
+            delete process.env.FRONTEND_URL;
+        } else {
+            process.env.FRONTEND_URL = original;
+        }
+    });
+
+    it('should split the comma-separated list and skip invalid entries', () => {
+        process.env.FRONTEND_URL = 'https://app.clinica.test/, http://localhost:5173 ,not a url,';
+
+        expect(getFrontendUrls()).toEqual(['https://app.clinica.test', 'http://localhost:5173']);
+        expect(getAllowedOrigins()).toEqual(['https://app.clinica.test', 'http://localhost:5173']);
+    });
+
+    it('should build links from the first frontend only', () => {
+        process.env.FRONTEND_URL = 'https://app.clinica.test/portal,http://localhost:5173';
+
+        expect(getFrontendUrl()).toBe('https://app.clinica.test/portal');
+        expect(getAllowedOrigins()[0]).toBe('https://app.clinica.test');
+    });
+
+    it('should allow no origin when unset', () => {
+        delete process.env.FRONTEND_URL;
+
+        expect(getAllowedOrigins()).toEqual([]);
+        expect(getFrontendUrl()).toBe('');
+    });
+});
@@ -0,0 +1,73 @@
+import { assessGrowth, growthSex, lmsAt, lmsZScore } from '../../utils/growth';
+
+const birthdate = new Date('2023-01-01');
+const monthsLater = (months: number) => new Date(birthdate.getTime() + months * 30.4375 * 24 * 60 * 60 * 1000);
+
+describe('lmsZScore', () => {
+    it('should match the standard deviation lines of the WHO tables', () => {
+        // Boys at birth: -2 SD 2.5 kg, median 3.3 kg, +2 SD 4.4 kg, rounded in the printed tables
+        const lms = lmsAt('weightForAge', 'male', 0)!;
+
+        expect(lmsZScore(3.3464, lms, true)).toBeCloseTo(0, 3);
+        expect(lmsZScore(2.5, lms, true)).toBeCloseTo(-1.9, 1);
+        expect(lmsZScore(4.4, lms, true)).toBeCloseTo(2, 1);
+    });
+
+    it('should measure weights beyond 3 SD by the 2nd-to-3rd SD gap', () => {
+        const lms = lmsAt('weightForAge', 'male', 0)!;
+
+        // Table lines: -3 SD 2.1 kg, -2 SD 2.5 kg
+        expect(lmsZScore(1.7, lms, true)).toBeCloseTo(-4, 1);
+    });
+});
+
+describe('lmsAt', () => {
+    it('should interpolate between rows and stop at the ends of the table', () => {
+        const [, m0] = lmsAt('weightForLength', 'female', 50)!;
+        const [, m1] = lmsAt('weightForLength', 'female', 50.5)!;
+
+        expect(lmsAt('weightForLength', 'female', 50.25)![1]).toBeCloseTo((m0 + m1) / 2, 6);
+        expect(lmsAt('weightForLength', 'female', 44)).toBeNull();
+    });
+});
+
+describe('assessGrowth', () => {
+    it('should score a well-nourished toddler as normal', () => {
+        const growth = assessGrowth({ weight: 12.2, height: 86 }, birthdate, 'male', monthsLater(24));
+
+        expect(growth).toMatchObject({ ageMonths: 24, sex: 'male' });
+        expect(growth!.weightForAge!.status).toBe('normal');
+        expect(growth!.heightForAge!.status).toBe('normal');
+        expect(growth!.weightForHeight!.status).toBe('normal');
+        expect(growth!.bmiForAge!.zScore).toBeGreaterThan(-1);
+    });
+
+    it('should flag stunting and acute malnutrition', () => {
+        const growth = assessGrowth({ weight: 8.5, height: 80 }, birthdate, 'female', monthsLater(36));
+
+        expect(growth!.heightForAge!.status).toBe('severely-stunted');
+        expect(growth!.weightForAge!.status).toBe('severely-underweight');
+        expect(['wasted', 'severely-wasted']).toContain(growth!.weightForHeight!.status);
+        expect(growth!.weightForHeight!.percentile).toBeLessThan(3);
+    });
+
+    it('should use the 2007 BMI cut-offs from 5 years and leave out weight-for-height', () => {
+        const growth = assessGrowth({ weight: 46, height: 140 }, birthdate, 'male', monthsLater(120));
+
+        expect(growth!.weightForAge).toBeUndefined();
+        expect(growth!.weightForHeight).toBeUndefined();
+        expect(growth!.bmiForAge!.status).toBe('obese');
+    });
+
+    it('should not assess adults', () => {
+        expect(assessGrowth({ weight: 70, height: 175 }, new Date('1990-01-01'), 'male', new Date('2025-01-01'))).toBeUndefined();
+    });
+});
+
+describe('growthSex', () => {
+    it('should use the recorded sex and fall back to a male/female gender', () => {
+        expect(growthSex({ gender: 'child', sex: 'female' })).toBe('female');
+        expect(growthSex({ gender: 'male' })).toBe('male');
+        expect(growthSex({ gender: 'child' })).toBeUndefined();
+    });
+});
@@ -0,0 +1,52 @@
+import { addMonths, computeImmunizations, PNI_SCHEDULE } from '../../utils/immunizations';
+
+describe('computeImmunizations', () => {
+    const birthdate = new Date('2025-01-15T00:00:00.000Z');
+    const statusOf = (doses: ReturnType<typeof computeImmunizations>, vaccine: string, dose: number) =>
+        doses.find(entry => entry.vaccine === vaccine && entry.dose === dose)?.status;
+
+    it('should date each dose from the birthdate', () => {
+        const doses = computeImmunizations(birthdate, [], PNI_SCHEDULE, new Date('2025-01-20'));
+
+        expect(doses.find(dose => dose.vaccine === 'Penta' && dose.dose === 1)?.dueDate).toBe('2025-03-15T00:00:00.000Z');
+        expect(addMonths(birthdate, 18).toISOString()).toBe('2026-07-15T00:00:00.000Z');
+    });
+
+    it('should tell due, overdue, upcoming and scheduled doses apart', () => {
+        const doses = computeImmunizations(birthdate, [], PNI_SCHEDULE, new Date('2025-05-20'));
+
+        expect(statusOf(doses, 'Penta', 1)).toBe('overdue');
+        expect(statusOf(doses, 'Penta', 2)).toBe('due');
+        expect(statusOf(doses, 'Penta', 3)).toBe('scheduled');
+        expect(statusOf(doses, 'HepB', 1)).toBe('missed');
+
+        const later = computeImmunizations(birthdate, [], PNI_SCHEDULE, new Date('2025-06-20'));
+        expect(statusOf(later, 'Penta', 3)).toBe('upcoming');
+    });
+
+    it('should count recorded doses and ignore voided ones', () => {
+        const doses = computeImmunizations(birthdate, [
+            { vaccine: 'Penta', dose: 1, administeredAt: new Date('2025-03-16') },
+            { vaccine: 'Penta', dose: 2, administeredAt: new Date('2025-05-16'), voidedAt: new Date() },
+            { vaccine: 'BCG' }
+        ], PNI_SCHEDULE, new Date('2025-05-20'));
+
+        expect(doses.find(dose => dose.vaccine === 'Penta' && dose.dose === 1)).toMatchObject({
+            status: 'given',
+            administeredAt: '2025-03-16T00:00:00.000Z'
+        });
+        expect(statusOf(doses, 'Penta', 2)).toBe('due');
+        expect(statusOf(doses, 'BCG', 1)).toBe('given');
+    });
+
+    it('should only count vaccinations without a dose number towards later doses', () => {
+        const doses = computeImmunizations(birthdate, [
+            { vaccine: 'Penta', dose: 3, administeredAt: new Date('2025-07-16') },
+            { vaccine: 'Penta', dose: 3, administeredAt: new Date('2025-07-17') }
+        ], PNI_SCHEDULE, new Date('2025-07-20'));
+
+        expect(statusOf(doses, 'Penta', 1)).not.toBe('given');
+        expect(statusOf(doses, 'Penta', 2)).not.toBe('given');
+        expect(statusOf(doses, 'Penta', 3)).toBe('given');
+    });
+});
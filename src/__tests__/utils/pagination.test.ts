@@ -0,0 +1,39 @@
+import { Types } from 'mongoose';
+import { encodeCursor, decodeCursor, keysetFilter } from '../../utils/pagination';
+
+describe('Cursor pagination', () => {
+    const sort = { visitDate: -1 as const, _id: -1 as const };
+    const id = new Types.ObjectId();
+    const visitDate = new Date('2024-06-01T10:00:00Z');
+
+    it('should round-trip dates and ids', () => {
+        const cursor = encodeCursor(sort, { visitDate, _id: id, firstName: 'Ana' });
+        const values = decodeCursor(cursor, sort);
+
+        expect(values?.[0]).toEqual(visitDate);
+        expect(values?.[1]).toEqual(id);
+    });
+
+    it('should reject cursors issued for another sort or tampered with', () => {
+        const cursor = encodeCursor(sort, { visitDate, _id: id });
+
+        expect(decodeCursor(cursor, { createdAt: -1, _id: -1 })).toBeNull();
+        expect(decodeCursor('not-a-cursor', sort)).toBeNull();
+    });
+
+    it('should continue after the last item in sort order', () => {
+        expect(keysetFilter(sort, [visitDate, id])).toEqual({
+            $or: [
+                { $and: [{ $or: [{ visitDate: { $lt: visitDate } }, { visitDate: null }] }] },
+                { $and: [{ visitDate }, { $or: [{ _id: { $lt: id } }, { _id: null }] }] }
+            ]
+        });
+    });
+
+    it('should place missing values first in ascending order', () => {
+        const filter = keysetFilter({ birthdate: 1, _id: 1 }, [null, id]);
+
+        expect(filter.$or[0]).toEqual({ $and: [{ birthdate: { $ne: null } }] });
+        expect(filter.$or[1]).toEqual({ $and: [{ birthdate: null }, { _id: { $gt: id } }] });
+    });
+});
@@ -0,0 +1,22 @@
+import { toE164 } from '../../utils/phone';
+
+describe('toE164', () => {
+    it('should add the Guatemalan country code to local numbers', () => {
+        expect(toE164('5555-1234')).toBe('+50255551234');
+        expect(toE164('5555 1234')).toBe('+50255551234');
+    });
+
+    it('should keep numbers that already have a country code', () => {
+        expect(toE164('+502 5555-1234')).toBe('+50255551234');
+        expect(toE164('(502) 5555-1234')).toBe('+50255551234');
+        expect(toE164('+1 (212) 555-0100')).toBe('+12125550100');
+        expect(toE164('00 52 55 1234 5678')).toBe('+525512345678');
+    });
+
+    it('should reject numbers that cannot be complete', () => {
+        expect(toE164('1234')).toBeNull();
+        expect(toE164('212 555 0100')).toBeNull();
+        expect(toE164('+1234567890123456')).toBeNull();
+        expect(toE164('')).toBeNull();
+    });
+});
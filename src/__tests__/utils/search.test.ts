@@ -0,0 +1,45 @@
+import { phoneticKey } from '../../utils/text';
+import { buildPatientSearchKeys, queryKeys } from '../../utils/searchKeys';
+
+describe('phoneticKey', () => {
+    it('should give the same key to names that sound alike', () => {
+        expect(phoneticKey('González')).toBe(phoneticKey('Gonsales'));
+        expect(phoneticKey('Rodríguez')).toBe(phoneticKey('Rodrigues'));
+        expect(phoneticKey('Hernández')).toBe(phoneticKey('Ernandes'));
+        expect(phoneticKey('Valle')).toBe(phoneticKey('Baye'));
+        expect(phoneticKey('Quiñónez')).toBe(phoneticKey('Kinones'));
+    });
+
+    it('should keep different names apart', () => {
+        expect(phoneticKey('García')).not.toBe(phoneticKey('Garza'));
+        expect(phoneticKey('Chávez')).not.toBe(phoneticKey('Cabes'));
+    });
+});
+
+describe('buildPatientSearchKeys', () => {
+    const keys = buildPatientSearchKeys({
+        firstName: 'María José',
+        lastName: 'González',
+        address: 'Zona 1, Mixco',
+        phone: '+502 5555-1234'
+    });
+
+    it('should index every name prefix without accents', () => {
+        expect(keys).toEqual(expect.arrayContaining(['ma', 'mar', 'maria', 'jo', 'jose', 'go', 'gonzalez']));
+        expect(keys).not.toContain('m');
+    });
+
+    it('should index phonetic keys, address words and phone digits', () => {
+        expect(keys).toEqual(expect.arrayContaining([`~${phoneticKey('gonzalez')}`, '@mixco', '#55551234']));
+    });
+
+    it('should index the endings of phone numbers from four digits', () => {
+        expect(keys).toEqual(expect.arrayContaining(['#1234', '#51234', '#551234', '#5551234']));
+        expect(keys).not.toContain('#234');
+    });
+
+    it('should look up loose keys for longer query words', () => {
+        expect(queryKeys('gonzlez')).toContain('gon');
+        expect(queryKeys('55551234')).toContain('#55551234');
+    });
+});
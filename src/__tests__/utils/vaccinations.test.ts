@@ -0,0 +1,26 @@
+import { activeVaccineCodes, vaccineCode } from '../../utils/vaccinations';
+
+describe('vaccineCode', () => {
+    it('should map codes, labels and common names to the catalog code', () => {
+        expect(vaccineCode('BCG')).toBe('BCG');
+        expect(vaccineCode('BCG (Tuberculosis)')).toBe('BCG');
+        expect(vaccineCode('hepatitis b')).toBe('HepB');
+        expect(vaccineCode('MMR (Sarampión, Paperas, Rubéola)')).toBe('SPR');
+        expect(vaccineCode(' covid-19 ')).toBe('COVID-19');
+    });
+
+    it('should keep vaccines outside the catalog as typed', () => {
+        expect(vaccineCode(' Fiebre amarilla ')).toBe('Fiebre amarilla');
+    });
+});
+
+describe('activeVaccineCodes', () => {
+    it('should list each vaccine once and leave out voided entries', () => {
+        expect(activeVaccineCodes([
+            { vaccine: 'Penta', dose: 1 },
+            { vaccine: 'BCG', voidedAt: new Date() },
+            { vaccine: 'Penta', dose: 2 },
+            { vaccine: 'Polio', dose: 1 }
+        ])).toEqual(['Penta', 'Polio']);
+    });
+});
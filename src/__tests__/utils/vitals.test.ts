@@ -0,0 +1,53 @@
+import { computeBmi, parseVitals, toVitalSeries } from '../../utils/vitals';
+
+describe('parseVitals', () => {
+    it('should keep plain numbers in the stored units', () => {
+        expect(parseVitals({ weight: 70.5, height: 172, systolic: 120, diastolic: 80 })).toEqual({
+            values: { weight: 70.5, height: 172, systolic: 120, diastolic: 80 },
+            errors: []
+        });
+    });
+
+    it('should convert other units', () => {
+        const { values } = parseVitals({
+            weight: { value: 154, unit: 'lb' },
+            height: { value: 1.65, unit: 'm' },
+            temperature: { value: 100.4, unit: '°F' }
+        });
+
+        expect(values).toEqual({ weight: 69.853, height: 165, temperature: 38 });
+    });
+
+    it('should report unknown units and values that are not numbers', () => {
+        const { errors } = parseVitals({ weight: { value: 10, unit: 'stone' }, heartRate: '80' as any });
+
+        expect(errors).toEqual([
+            { field: 'weight', message: 'weight unit must be one of: kg, g, lb' },
+            { field: 'heartRate', message: 'heartRate must be a number' }
+        ]);
+    });
+});
+
+describe('computeBmi', () => {
+    it('should compute the body mass index to one decimal', () => {
+        expect(computeBmi(70, 175)).toBe(22.9);
+        expect(computeBmi(70, undefined)).toBeUndefined();
+    });
+});
+
+describe('toVitalSeries', () => {
+    it('should skip readings without the value', () => {
+        const readings = [
+            { _id: 'v1', takenAt: new Date('2025-01-10'), weight: 60 },
+            { _id: 'v2', takenAt: new Date('2025-02-10'), heartRate: 72 },
+            { _id: 'v3', takenAt: new Date('2025-03-10'), weight: 61.2, heartRate: 70 }
+        ];
+
+        expect(toVitalSeries(readings, ['weight'])).toEqual({
+            weight: [
+                { takenAt: '2025-01-10T00:00:00.000Z', value: 60, vitalsId: 'v1' },
+                { takenAt: '2025-03-10T00:00:00.000Z', value: 61.2, vitalsId: 'v3' }
+            ]
+        });
+    });
+});
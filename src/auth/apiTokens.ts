@@ -0,0 +1,101 @@
+import { randomUUID } from 'crypto';
+import { ApiToken, IApiToken, User, IUser } from '../models/authModels';
+import { generateToken, hashToken } from './tokens';
+import { Permission, PERMISSIONS, hasPermission } from './permissions';
+
+export interface ApiTokenAuth {
+    token: IApiToken;
+    user: IUser;
+}
+
+export class ApiTokenService {
+    // Recognizable prefix so leaked tokens are easy to spot in logs and secret scanners
+    static readonly TOKEN_PREFIX = 'ccg_';
+    private static readonly DEFAULT_TTL_DAYS = 90;
+    private static readonly MAX_TTL_DAYS = 365;
+    private static readonly LAST_USED_RESOLUTION = 1000 * 60; // avoid a write on every request
+
+    static get defaultTtlDays(): number {
+        return parseInt(process.env.API_TOKEN_TTL_DAYS || '') || this.DEFAULT_TTL_DAYS;
+    }
+
+    // Scopes that are unknown or exceed what the user's role may do
+    static invalidScopes(role: string, scopes: string[]): string[] {
+        return scopes.filter(scope =>
+            !PERMISSIONS.includes(scope as Permission) || !hasPermission(role, scope as Permission)
+        );
+    }
+
+    static async create(
+        user: IUser,
+        input: { name: string; scopes: Permission[]; expiresInDays?: number }
+    ): Promise<{ apiToken: IApiToken; token: string }> {
+        const days = Math.min(Number(input.expiresInDays) || this.defaultTtlDays, this.MAX_TTL_DAYS);
+        const token = `${this.TOKEN_PREFIX}${generateToken()}`;
+
+        const apiToken = await ApiToken.create({
+            _id: randomUUID(),
+            user_id: user._id,
+            name: input.name,
+            token_hash: hashToken(token),
+            prefix: token.slice(0, this.TOKEN_PREFIX.length + 6),
+            scopes: Array.from(new Set(input.scopes)),
+            expires_at: new Date(Date.now() + days * 24 * 60 * 60 * 1000)
+        });
+
+        return { apiToken, token };
+    }
+
+    /**
+     * Resolves a raw bearer token to its owner. Revoked or expired tokens and
+     * tokens of disabled accounts are rejected.
+     */
+    static async authenticate(token: string, context: { ip?: string } = {}): Promise<ApiTokenAuth | null> {
+        if (!token || !token.startsWith(this.TOKEN_PREFIX)) {
+            return null;
+        }
+
+        const apiToken = await ApiToken.findOne({
+            token_hash: hashToken(token),
+            revoked_at: null,
+            expires_at: { $gt: new Date() }
+        });
+
+        if (!apiToken) {
+            return null;
+        }
+
+        const user = await User.findById(apiToken.user_id);
+        if (!user || user.active === false) {
+            return null;
+        }
+
+        const now = Date.now();
+        if (!apiToken.last_used_at || now - apiToken.last_used_at.getTime() > this.LAST_USED_RESOLUTION) {
+            await ApiToken.findByIdAndUpdate(apiToken._id, {
+                last_used_at: new Date(now),
+                last_used_ip: context.ip
+            });
+        }
+
+        return { token: apiToken, user };
+    }
+
+    static async list(userId: string): Promise<IApiToken[]> {
+        return ApiToken.find({ user_id: userId }).sort({ created_at: -1 });
+    }
+
+    static async revoke(userId: string, tokenId: string): Promise<IApiToken | null> {
+        return ApiToken.findOneAndUpdate(
+            { _id: tokenId, user_id: userId, revoked_at: null },
+            { revoked_at: new Date() },
+            { new: true }
+        );
+    }
+
+    // After a password reset or forced logout, so a leaked token does not outlive the credentials
+    static async revokeAll(userId: string): Promise<number> {
+        const result = await ApiToken.updateMany({ user_id: userId, revoked_at: null }, { revoked_at: new Date() });
+        return result.modifiedCount;
+    }
+}
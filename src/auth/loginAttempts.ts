@@ -0,0 +1,159 @@
+import { User, IUser, LoginAttempt, LoginAttemptResult } from '../models/authModels';
+
+export interface LoginContext {
+    ip?: string;
+    userAgent?: string;
+}
+
+export interface LockStatus {
+    locked: boolean;
+    // Hard lockout after too many failures, as opposed to the short progressive delay
+    lockedOut: boolean;
+    retryAfterSeconds: number;
+}
+
+export class LoginAttemptService {
+    private static readonly DEFAULT_LOCKOUT_THRESHOLD = 5;
+    private static readonly DEFAULT_LOCKOUT_MINUTES = 15;
+    private static readonly PROGRESSIVE_DELAY_AFTER = 2; // failures before delays start
+    private static readonly MAX_PROGRESSIVE_DELAY_SECONDS = 30;
+    private static readonly ATTEMPT_SLOT_SECONDS = 10; // longest a password or code check may hold the account
+
+    static get lockoutThreshold(): number {
+        return parseInt(process.env.LOCKOUT_THRESHOLD || '') || this.DEFAULT_LOCKOUT_THRESHOLD;
+    }
+
+    static get lockoutDuration(): number {
+        const minutes = parseInt(process.env.LOCKOUT_DURATION_MINUTES || '') || this.DEFAULT_LOCKOUT_MINUTES;
+        return minutes * 60 * 1000;
+    }
+
+    static getLockStatus(user: IUser): LockStatus {
+        const remaining = user.locked_until ? user.locked_until.getTime() - Date.now() : 0;
+
+        if (remaining <= 0) {
+            return { locked: false, lockedOut: false, retryAfterSeconds: 0 };
+        }
+
+        return {
+            locked: true,
+            lockedOut: user.failed_login_attempts >= this.lockoutThreshold,
+            retryAfterSeconds: Math.ceil(remaining / 1000)
+        };
+    }
+
+    /**
+     * Holds the account for the attempt about to be checked, taken in the same update
+     * that checks the lock so parallel tries can't all get through before the first
+     * failure is counted. The slot is replaced by recordFailure's wait, cleared by
+     * recordSuccess or endAttempt, or runs out by itself if the request dies.
+     */
+    static async beginAttempt(user: IUser): Promise<LockStatus> {
+        const now = new Date();
+        const claimed = await User.findOneAndUpdate(
+            { _id: user._id, $or: [{ locked_until: null }, { locked_until: { $lte: now } }] },
+            { locked_until: new Date(now.getTime() + this.ATTEMPT_SLOT_SECONDS * 1000) }
+        );
+
+        if (claimed) {
+            return { locked: false, lockedOut: false, retryAfterSeconds: 0 };
+        }
+
+        const current = await User.findById(user._id);
+        return current ? this.getLockStatus(current) : { locked: true, lockedOut: false, retryAfterSeconds: 1 };
+    }
+
+    // Releases the slot of an attempt that neither failed nor logged in (e.g. a second factor is still due)
+    static async endAttempt(user: IUser): Promise<void> {
+        await User.findOneAndUpdate({ _id: user._id, locked_until: { $gt: new Date() } }, { locked_until: null });
+    }
+
+    static async record(
+        context: LoginContext,
+        entry: { userId?: string | null; email: string; result: LoginAttemptResult }
+    ): Promise<void> {
+        await LoginAttempt.create({
+            user_id: entry.userId || null,
+            email: entry.email,
+            ip: context.ip,
+            user_agent: context.userAgent,
+            success: entry.result === 'success',
+            result: entry.result
+        });
+    }
+
+    /**
+     * Counts a failed password or second-factor check made under beginAttempt. Each
+     * failure past the first few doubles the wait before the next try; reaching the
+     * threshold locks the account. Once a lockout has run out the count starts over,
+     * so one typo does not lock it again.
+     */
+    static async recordFailure(user: IUser, context: LoginContext, result: LoginAttemptResult): Promise<LockStatus> {
+        // beginAttempt only lets an attempt through a full count once its lockout has run out
+        const updated = await User.findOneAndUpdate(
+            { _id: user._id, failed_login_attempts: { $gte: this.lockoutThreshold } },
+            { failed_login_attempts: 1 },
+            { new: true }
+        ) ?? await User.findByIdAndUpdate(
+            user._id,
+            { $inc: { failed_login_attempts: 1 } },
+            { new: true }
+        );
+        const failures = updated?.failed_login_attempts || 1;
+
+        let lockMs = 0;
+        if (failures >= this.lockoutThreshold) {
+            lockMs = this.lockoutDuration;
+        } else if (failures >= this.PROGRESSIVE_DELAY_AFTER) {
+            const delaySeconds = Math.min(
+                2 ** (failures - this.PROGRESSIVE_DELAY_AFTER),
+                this.MAX_PROGRESSIVE_DELAY_SECONDS
+            );
+            lockMs = delaySeconds * 1000;
+        }
+
+        // Replaces the attempt slot
+        await User.findByIdAndUpdate(user._id, { locked_until: lockMs > 0 ? new Date(Date.now() + lockMs) : null });
+
+        await this.record(context, { userId: user._id, email: user.email, result });
+
+        return {
+            locked: lockMs > 0,
+            lockedOut: failures >= this.lockoutThreshold,
+            retryAfterSeconds: Math.ceil(lockMs / 1000)
+        };
+    }
+
+    static async recordSuccess(user: IUser, context: LoginContext): Promise<void> {
+        await this.unlock(user._id);
+        await this.record(context, { userId: user._id, email: user.email, result: 'success' });
+    }
+
+    static async unlock(userId: string): Promise<void> {
+        await User.findByIdAndUpdate(userId, { failed_login_attempts: 0, locked_until: null });
+    }
+
+    static async history(userId: string, limit: number = 50, offset: number = 0) {
+        const [attempts, total] = await Promise.all([
+            LoginAttempt.find({ user_id: userId })
+                .sort({ created_at: -1 })
+                .skip(offset)
+                .limit(limit)
+                .lean(),
+            LoginAttempt.countDocuments({ user_id: userId })
+        ]);
+
+        return {
+            attempts: attempts.map((attempt: any) => ({
+                id: attempt._id.toString(),
+                email: attempt.email,
+                ip: attempt.ip,
+                userAgent: attempt.user_agent,
+                success: attempt.success,
+                result: attempt.result,
+                createdAt: attempt.created_at.toISOString()
+            })),
+            total
+        };
+    }
+}
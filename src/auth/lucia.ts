@@ -1,54 +1,109 @@
 import { randomBytes } from 'crypto';
 import { User, Session } from '../models/authModels';
+import { UserRole } from '../shared/types';
 
 export interface SessionUser {
     id: string;
     email: string;
-    role: 'admin' | 'doctor' | 'nurse' | 'assistant';
+    role: UserRole;
 }
 
 export interface SessionData {
     id: string;
+    publicId: string;
     userId: string;
-    expiresAt: Date;
+    expiresAt: Date; // absolute lifetime, never extended
+    idleExpiresAt: Date;
+    idleTimeout: number; // ms of inactivity allowed for the user's role
+}
+
+// Where a session was opened from
+export interface SessionContext {
+    userAgent?: string;
+    ip?: string;
+}
+
+export interface SessionInfo {
+    id: string; // public id, never the session secret
+    userAgent?: string;
+    ip?: string;
+    createdAt: string;
+    lastSeenAt: string;
+    expiresAt: string;
+    current: boolean;
 }
 
 export class AuthService {
     private static readonly SESSION_DURATION = 1000 * 60 * 60 * 24 * 7; // 7 days
+    private static readonly LAST_SEEN_RESOLUTION = 1000 * 60; // avoid a write on every request
+    private static readonly DEFAULT_IDLE_TIMEOUT_MINUTES = 30;
 
     static generateSessionId(): string {
         return randomBytes(32).toString('hex');
     }
 
-    static async createSession(userId: string): Promise<SessionData> {
+    /**
+     * Idle timeout for a role: SESSION_IDLE_TIMEOUT_MINUTES_<ROLE> (e.g. ..._NURSE=15),
+     * falling back to SESSION_IDLE_TIMEOUT_MINUTES and then to 30 minutes.
+     */
+    static getIdleTimeout(role?: UserRole): number {
+        const roleMinutes = role && parseInt(process.env[`SESSION_IDLE_TIMEOUT_MINUTES_${role.toUpperCase()}`] || '');
+        const minutes = roleMinutes || parseInt(process.env.SESSION_IDLE_TIMEOUT_MINUTES || '') || this.DEFAULT_IDLE_TIMEOUT_MINUTES;
+        return minutes * 60 * 1000;
+    }
+
+    static async createSession(userId: string, context: SessionContext = {}): Promise<SessionData> {
         const sessionId = this.generateSessionId();
-        const expiresAt = new Date(Date.now() + this.SESSION_DURATION);
+        const now = Date.now();
+        const expiresAt = new Date(now + this.SESSION_DURATION);
+
+        const user = await User.findById(userId);
+        const idleTimeout = this.getIdleTimeout(user?.role);
+        const idleExpiresAt = new Date(Math.min(now + idleTimeout, expiresAt.getTime()));
 
         const session = new Session({
             _id: sessionId,
             user_id: userId,
             active_expires: expiresAt.getTime(),
-            idle_expires: expiresAt.getTime()
+            idle_expires: idleExpiresAt.getTime(),
+            user_agent: context.userAgent,
+            ip: context.ip,
+            last_seen_at: new Date(now)
         });
 
         await session.save();
 
         return {
             id: sessionId,
+            publicId: session.public_id,
             userId,
-            expiresAt
+            expiresAt,
+            idleExpiresAt,
+            idleTimeout
         };
     }
 
-    static async validateSession(sessionId: string): Promise<{ session: SessionData | null; user: SessionUser | null }> {
+    /**
+     * Sessions end at `active_expires` (absolute lifetime) or after `idle_expires`
+     * passes without activity. Each request slides the idle deadline forward unless
+     * `touch` is false, which lets the UI poll the remaining time without resetting it.
+     */
+    static async validateSession(
+        sessionId: string,
+        context: SessionContext = {},
+        options: { touch?: boolean } = {}
+    ): Promise<{ session: SessionData | null; user: SessionUser | null }> {
         if (!sessionId) {
             return { session: null, user: null };
         }
 
+        const { touch = true } = options;
+
         try {
             const session = await Session.findById(sessionId);
+            const now = Date.now();
 
-            if (!session || session.active_expires < Date.now()) {
+            if (!session || session.active_expires < now || session.idle_expires < now) {
                 if (session) {
                     await Session.findByIdAndDelete(sessionId);
                 }
@@ -57,26 +112,42 @@ export class AuthService {
 
             const user = await User.findById(session.user_id);
 
-            if (!user) {
+            if (!user || user.active === false) {
                 await Session.findByIdAndDelete(sessionId);
                 return { session: null, user: null };
             }
 
-            // Extend session if it's close to expiring
-            const timeUntilExpiry = session.active_expires - Date.now();
-            if (timeUntilExpiry < this.SESSION_DURATION / 2) {
-                const newExpiresAt = Date.now() + this.SESSION_DURATION;
-                await Session.findByIdAndUpdate(sessionId, {
-                    active_expires: newExpiresAt,
-                    idle_expires: newExpiresAt
-                });
+            const idleTimeout = this.getIdleTimeout(user.role);
+            let idleExpires = session.idle_expires;
+
+            if (touch) {
+                const updates: Record<string, any> = {};
+                const slidIdleExpires = Math.min(now + idleTimeout, session.active_expires);
+
+                // Writes are batched to LAST_SEEN_RESOLUTION to avoid one per request
+                if (slidIdleExpires - session.idle_expires > this.LAST_SEEN_RESOLUTION) {
+                    updates.idle_expires = slidIdleExpires;
+                    idleExpires = slidIdleExpires;
+                }
+
+                if (!session.last_seen_at || now - session.last_seen_at.getTime() > this.LAST_SEEN_RESOLUTION) {
+                    updates.last_seen_at = new Date(now);
+                    if (context.ip) updates.ip = context.ip;
+                }
+
+                if (Object.keys(updates).length > 0) {
+                    await Session.findByIdAndUpdate(sessionId, updates);
+                }
             }
 
             return {
                 session: {
                     id: session._id,
+                    publicId: session.public_id,
                     userId: session.user_id,
-                    expiresAt: new Date(session.active_expires)
+                    expiresAt: new Date(session.active_expires),
+                    idleExpiresAt: new Date(idleExpires),
+                    idleTimeout
                 },
                 user: {
                     id: user._id,
@@ -97,14 +168,48 @@ export class AuthService {
         await Session.deleteMany({ user_id: userId });
     }
 
+    static async invalidateOtherUserSessions(userId: string, currentSessionId: string): Promise<number> {
+        const result = await Session.deleteMany({ user_id: userId, _id: { $ne: currentSessionId } });
+        return result.deletedCount;
+    }
+
+    // Revokes one of the user's sessions by its public id; false if it is not theirs
+    static async invalidateUserSession(userId: string, publicId: string): Promise<boolean> {
+        const session = await Session.findOneAndDelete({ user_id: userId, public_id: publicId });
+        return !!session;
+    }
+
+    static async listUserSessions(userId: string, currentSessionId?: string): Promise<SessionInfo[]> {
+        const sessions = await Session.find({
+            user_id: userId,
+            active_expires: { $gt: Date.now() },
+            idle_expires: { $gt: Date.now() }
+        }).sort({ last_seen_at: -1 });
+
+        return sessions.map(session => ({
+            id: session.public_id,
+            userAgent: session.user_agent,
+            ip: session.ip,
+            createdAt: (session.created_at || session.last_seen_at).toISOString(),
+            lastSeenAt: session.last_seen_at.toISOString(),
+            expiresAt: new Date(session.active_expires).toISOString(),
+            current: session._id === currentSessionId
+        }));
+    }
+
+    /**
+     * Cross-site cookies (the frontend lives on another domain) need SameSite=None,
+     * which browsers only accept together with Secure. Without HTTPS (local
+     * development) the cookie falls back to Lax.
+     */
     static createSessionCookie(sessionId: string, secure: boolean = false) {
         return {
             name: 'session',
             value: sessionId,
             attributes: {
                 httpOnly: true,
-                secure: true,
-                sameSite: 'None',
+                secure,
+                sameSite: secure ? 'none' as const : 'lax' as const,
                 path: '/',
                 maxAge: this.SESSION_DURATION / 1000 // Convert to seconds
             }
@@ -0,0 +1,77 @@
+import { UserRole } from '../shared/types';
+
+export type Permission =
+    | 'stats:read'
+    | 'patients:read'
+    | 'patients:write'
+    | 'patients:delete'
+    | 'patients:merge'
+    | 'notes:write'
+    | 'notes:delete'
+    | 'vaccinations:write'
+    | 'chart:write'
+    | 'users:manage'
+    | 'audit:read'
+    | 'trash:manage';
+
+export const PERMISSIONS: readonly Permission[] = [
+    'stats:read',
+    'patients:read',
+    'patients:write',
+    'patients:delete',
+    'patients:merge',
+    'notes:write',
+    'notes:delete',
+    'vaccinations:write',
+    'chart:write',
+    'users:manage',
+    'audit:read',
+    'trash:manage'
+];
+
+// Permission matrix - single source of truth for what each role may do
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+    admin: [
+        'stats:read',
+        'patients:read',
+        'patients:write',
+        'patients:delete',
+        'patients:merge',
+        'notes:write',
+        'notes:delete',
+        'vaccinations:write',
+        'chart:write',
+        'users:manage',
+        'audit:read',
+        'trash:manage'
+    ],
+    doctor: [
+        'stats:read',
+        'patients:read',
+        'patients:write',
+        'patients:delete',
+        'patients:merge',
+        'notes:write',
+        'notes:delete',
+        'vaccinations:write',
+        'chart:write'
+    ],
+    nurse: [
+        'stats:read',
+        'patients:read',
+        'patients:write',
+        'notes:write',
+        'vaccinations:write',
+        'chart:write'
+    ],
+    assistant: [
+        'stats:read',
+        'patients:read',
+        'patients:write'
+    ]
+};
+
+export function hasPermission(role: string, permission: Permission): boolean {
+    const permissions = ROLE_PERMISSIONS[role as UserRole];
+    return !!permissions && permissions.includes(permission);
+}
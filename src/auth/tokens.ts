@@ -0,0 +1,10 @@
+import { randomBytes, createHash } from 'crypto';
+
+// Opaque single-use tokens (invitations, password resets, ...) are only ever stored hashed
+export function generateToken(bytes: number = 32): string {
+    return randomBytes(bytes).toString('hex');
+}
+
+export function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
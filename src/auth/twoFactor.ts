@@ -0,0 +1,177 @@
+import { randomUUID } from 'crypto';
+import { User, IUser, LoginChallenge, ILoginChallenge } from '../models/authModels';
+import { UserRole } from '../shared/types';
+import { generateToken, hashToken } from './tokens';
+import {
+    generateTotpSecret,
+    verifyTotp,
+    buildOtpauthUrl,
+    generateRecoveryCodes
+} from './totp';
+
+export interface TotpEnrollment {
+    secret: string;
+    otpauthUrl: string;
+}
+
+export class TwoFactorService {
+    private static readonly CHALLENGE_DURATION = 1000 * 60 * 5; // 5 minutes
+    static readonly MAX_CHALLENGE_ATTEMPTS = 5;
+
+    // TOTP_REQUIRED_ROLES=admin,doctor makes the second factor mandatory for those roles
+    static isRequiredForRole(role: UserRole): boolean {
+        return (process.env.TOTP_REQUIRED_ROLES || '')
+            .split(',')
+            .map(r => r.trim())
+            .includes(role);
+    }
+
+    static needsSecondFactor(user: IUser): boolean {
+        return user.totp_enabled || this.isRequiredForRole(user.role);
+    }
+
+    static async createLoginChallenge(userId: string): Promise<string> {
+        const token = generateToken();
+
+        await LoginChallenge.create({
+            _id: randomUUID(),
+            user_id: userId,
+            token_hash: hashToken(token),
+            expires_at: new Date(Date.now() + this.CHALLENGE_DURATION)
+        });
+
+        return token;
+    }
+
+    static async findLoginChallenge(token: string): Promise<{ challenge: ILoginChallenge | null; user: IUser | null }> {
+        if (!token) {
+            return { challenge: null, user: null };
+        }
+
+        const challenge = await LoginChallenge.findOne({
+            token_hash: hashToken(String(token)),
+            expires_at: { $gt: new Date() }
+        });
+
+        if (!challenge) {
+            return { challenge: null, user: null };
+        }
+
+        const user = await User.findById(challenge.user_id);
+
+        if (!user || user.active === false) {
+            await LoginChallenge.findByIdAndDelete(challenge._id);
+            return { challenge: null, user: null };
+        }
+
+        return { challenge, user };
+    }
+
+    // Counts a failed attempt; the challenge is discarded once the limit is reached
+    static async recordFailedChallenge(challenge: ILoginChallenge): Promise<void> {
+        const updated = await LoginChallenge.findByIdAndUpdate(
+            challenge._id,
+            { $inc: { attempts: 1 } },
+            { new: true }
+        );
+
+        if (updated && updated.attempts >= this.MAX_CHALLENGE_ATTEMPTS) {
+            await LoginChallenge.findByIdAndDelete(challenge._id);
+        }
+    }
+
+    static async completeLoginChallenge(challenge: ILoginChallenge): Promise<void> {
+        await LoginChallenge.findByIdAndDelete(challenge._id);
+    }
+
+    static async beginEnrollment(user: IUser): Promise<TotpEnrollment> {
+        const secret = generateTotpSecret();
+        const issuer = process.env.TOTP_ISSUER || 'Clínica Cuyún Gaitán';
+
+        user.totp_pending_secret = secret;
+        await user.save();
+
+        return {
+            secret,
+            otpauthUrl: buildOtpauthUrl(secret, user.email, issuer)
+        };
+    }
+
+    // Activates the pending secret once the user proves their authenticator works
+    static async completeEnrollment(user: IUser, code: string): Promise<string[] | null> {
+        if (!user.totp_pending_secret) {
+            return null;
+        }
+
+        const counter = verifyTotp(user.totp_pending_secret, code);
+        if (counter === null) {
+            return null;
+        }
+
+        const recoveryCodes = generateRecoveryCodes();
+
+        user.totp_secret = user.totp_pending_secret;
+        user.totp_pending_secret = null;
+        user.totp_enabled = true;
+        user.totp_last_counter = counter;
+        user.recovery_codes = recoveryCodes.map(hashToken);
+        await user.save();
+
+        return recoveryCodes;
+    }
+
+    /**
+     * Checks a TOTP code or a single-use recovery code against an enrolled user.
+     * Codes from an already used time step are rejected to prevent replay.
+     */
+    static async verify(user: IUser, input: { code?: string; recoveryCode?: string }): Promise<boolean> {
+        if (!user.totp_enabled || !user.totp_secret) {
+            return false;
+        }
+
+        if (input.code) {
+            const counter = verifyTotp(user.totp_secret, input.code);
+            if (counter === null || (user.totp_last_counter !== null && counter <= user.totp_last_counter)) {
+                return false;
+            }
+
+            const updated = await User.findOneAndUpdate(
+                {
+                    _id: user._id,
+                    $or: [{ totp_last_counter: null }, { totp_last_counter: { $lt: counter } }]
+                },
+                { totp_last_counter: counter },
+                { new: true }
+            );
+            return !!updated;
+        }
+
+        if (input.recoveryCode) {
+            const hash = hashToken(String(input.recoveryCode).trim().toLowerCase());
+            const updated = await User.findOneAndUpdate(
+                { _id: user._id, recovery_codes: hash },
+                { $pull: { recovery_codes: hash } },
+                { new: true }
+            );
+            return !!updated;
+        }
+
+        return false;
+    }
+
+    static async regenerateRecoveryCodes(user: IUser): Promise<string[]> {
+        const recoveryCodes = generateRecoveryCodes();
+        user.recovery_codes = recoveryCodes.map(hashToken);
+        await user.save();
+        return recoveryCodes;
+    }
+
+    static async disable(user: IUser): Promise<void> {
+        user.totp_enabled = false;
+        user.totp_secret = null;
+        user.totp_pending_secret = null;
+        user.totp_last_counter = null;
+        user.recovery_codes = [];
+        await user.save();
+    }
+}
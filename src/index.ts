@@ -3,15 +3,31 @@ import cors from '@fastify/cors';
 import mongoose from 'mongoose';
 import dotenv from 'dotenv';
 import logger from './utils/logger';
+import { scheduleTrashPurge } from './utils/trash';
+import { runMigrations } from './migrations';
+import { getMailTransport } from './mail';
+import { getAllowedOrigins } from './utils/frontendUrl';
 
 // Import plugins
 import cookiesPlugin from './plugins/cookies';
 import authPlugin from './plugins/auth';
 import rateLimitingPlugin from './plugins/rateLimiting';
+import csrfPlugin from './plugins/csrf';
 
 // Import routes
 import routes from './routes';
 import authRoutes from './routes/auth';
+import userRoutes from './routes/users';
+import invitationRoutes from './routes/invitations';
+import apiTokenRoutes from './routes/apiTokens';
+import auditRoutes from './routes/audit';
+import trashRoutes from './routes/trash';
+import duplicateRoutes from './routes/duplicates';
+import vaccinationRoutes from './routes/vaccinations';
+import reportRoutes from './routes/reports';
+import chartRoutes from './routes/chart';
+import vitalsRoutes from './routes/vitals';
+import cronRoutes from './routes/cron';
 
 // Load environment variables
 dotenv.config();
@@ -22,26 +38,44 @@ const app = Fastify({
 
 async function start() {
     try {
+        // Fail fast on a missing mail configuration instead of on the first reset email
+        getMailTransport();
+
         // Register CORS
         await app.register(cors, {
-            origin: process.env.FRONTEND_URL,
+            origin: getAllowedOrigins(),
             credentials: true,
             methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-            allowedHeaders: ['Content-Type', 'Authorization', 'Cookie']
+            allowedHeaders: ['Content-Type', 'Authorization', 'Cookie', 'X-Session-Passive', 'If-Match'],
+            exposedHeaders: ['ETag']
         });
 
         // Register plugins
         await app.register(rateLimitingPlugin);
         await app.register(cookiesPlugin);
+        await app.register(csrfPlugin);
         await app.register(authPlugin);
 
         // Connect to MongoDB
         const mongoUri = process.env.MONGODB_URI || 'mongodb://localhost:27017/clinica-medica';
         await mongoose.connect(mongoUri);
         logger.database('Conectado a MongoDB');
+        await runMigrations();
+        scheduleTrashPurge();
 
         // Register routes
         await app.register(authRoutes, { prefix: '/api/auth' });
+        await app.register(apiTokenRoutes, { prefix: '/api/auth/tokens' });
+        await app.register(userRoutes, { prefix: '/api/users' });
+        await app.register(invitationRoutes, { prefix: '/api/invitations' });
+        await app.register(auditRoutes, { prefix: '/api/audit' });
+        await app.register(trashRoutes, { prefix: '/api/trash' });
+        await app.register(duplicateRoutes, { prefix: '/api/duplicates' });
+        await app.register(vaccinationRoutes, { prefix: '/api/patients' });
+        await app.register(reportRoutes, { prefix: '/api/reports' });
+        await app.register(chartRoutes, { prefix: '/api/patients' });
+        await app.register(vitalsRoutes, { prefix: '/api/patients' });
+        await app.register(cronRoutes, { prefix: '/api/cron' });
         await app.register(routes, { prefix: '/api' });
 
         // Health check
@@ -0,0 +1,10 @@
+import logger from '../utils/logger';
+import { MailMessage, MailTransport } from './transport';
+
+// Development stand-in: prints messages instead of delivering them
+export class ConsoleTransport implements MailTransport {
+    async send(message: MailMessage): Promise<void> {
+        logger.info(`Correo para ${message.to}: ${message.subject}`);
+        console.log(message.text);
+    }
+}
@@ -0,0 +1,23 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { MailMessage, MailTransport, DEFAULT_MAIL_FROM } from './transport';
+
+// Development stand-in: every message is written as a JSON file into an outbox directory
+export class FileTransport implements MailTransport {
+    constructor(
+        private readonly directory: string,
+        private readonly from: string = DEFAULT_MAIL_FROM
+    ) { }
+
+    async send(message: MailMessage): Promise<void> {
+        await fs.mkdir(this.directory, { recursive: true });
+
+        const sentAt = new Date();
+        const fileName = `${sentAt.getTime()}-${Math.random().toString(36).slice(2, 8)}.json`;
+
+        await fs.writeFile(
+            path.join(this.directory, fileName),
+            JSON.stringify({ from: this.from, ...message, sentAt: sentAt.toISOString() }, null, 2)
+        );
+    }
+}
@@ -0,0 +1,50 @@
+import { MailMessage, MailTransport } from './transport';
+import { SmtpTransport } from './smtpTransport';
+import { FileTransport } from './fileTransport';
+import { ConsoleTransport } from './consoleTransport';
+
+export { MailMessage, MailTransport } from './transport';
+export { SmtpTransport } from './smtpTransport';
+export { FileTransport } from './fileTransport';
+export { ConsoleTransport } from './consoleTransport';
+
+let transport: MailTransport | null = null;
+
+// MAIL_TRANSPORT selects the implementation: smtp | file | console (default outside
+// production). The console one prints reset links to the logs, so production must pick another
+export function createMailTransportFromEnv(): MailTransport {
+    switch (process.env.MAIL_TRANSPORT) {
+        case 'smtp':
+            return new SmtpTransport({
+                host: process.env.SMTP_HOST || 'localhost',
+                port: parseInt(process.env.SMTP_PORT || '587'),
+                secure: process.env.SMTP_SECURE === 'true',
+                user: process.env.SMTP_USER,
+                pass: process.env.SMTP_PASS,
+                from: process.env.MAIL_FROM
+            });
+        case 'file':
+            return new FileTransport(process.env.MAIL_OUTBOX_DIR || 'tmp/mail', process.env.MAIL_FROM);
+        default:
+            if (process.env.NODE_ENV === 'production') {
+                throw new Error('MAIL_TRANSPORT must be smtp or file in production');
+            }
+            return new ConsoleTransport();
+    }
+}
+
+export function getMailTransport(): MailTransport {
+    if (!transport) {
+        transport = createMailTransportFromEnv();
+    }
+    return transport;
+}
+
+// Replace the active transport (tests, custom integrations); pass null to go back to env config
+export function setMailTransport(custom: MailTransport | null): void {
+    transport = custom;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+    await getMailTransport().send(message);
+}
@@ -0,0 +1,36 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { MailMessage, MailTransport, DEFAULT_MAIL_FROM } from './transport';
+
+export interface SmtpTransportOptions {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    pass?: string;
+    from?: string;
+}
+
+export class SmtpTransport implements MailTransport {
+    private readonly transporter: Transporter;
+    private readonly from: string;
+
+    constructor(options: SmtpTransportOptions) {
+        this.transporter = nodemailer.createTransport({
+            host: options.host,
+            port: options.port,
+            secure: options.secure,
+            ...(options.user && { auth: { user: options.user, pass: options.pass } })
+        });
+        this.from = options.from || DEFAULT_MAIL_FROM;
+    }
+
+    async send(message: MailMessage): Promise<void> {
+        await this.transporter.sendMail({
+            from: this.from,
+            to: message.to,
+            subject: message.subject,
+            text: message.text,
+            ...(message.html && { html: message.html })
+        });
+    }
+}
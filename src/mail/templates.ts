@@ -0,0 +1,22 @@
+import { MailMessage } from './transport';
+
+export function passwordResetEmail(to: string, resetUrl: string, ttlMinutes: number): MailMessage {
+    return {
+        to,
+        subject: 'Restablecer contraseña',
+        text: [
+            'Recibimos una solicitud para restablecer la contraseña de su cuenta.',
+            '',
+            `Para elegir una nueva contraseña ingrese a: ${resetUrl}`,
+            '',
+            `El enlace vence en ${ttlMinutes} minutos y solo puede usarse una vez.`,
+            'Si usted no hizo esta solicitud puede ignorar este mensaje.'
+        ].join('\n'),
+        html: [
+            '<p>Recibimos una solicitud para restablecer la contraseña de su cuenta.</p>',
+            `<p><a href="${resetUrl}">Elegir una nueva contraseña</a></p>`,
+            `<p>El enlace vence en ${ttlMinutes} minutos y solo puede usarse una vez.</p>`,
+            '<p>Si usted no hizo esta solicitud puede ignorar este mensaje.</p>'
+        ].join('\n')
+    };
+}
@@ -0,0 +1,13 @@
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+}
+
+// Anything able to deliver a message (SMTP, a file outbox, the console, ...)
+export interface MailTransport {
+    send(message: MailMessage): Promise<void>;
+}
+
+export const DEFAULT_MAIL_FROM = 'Clínica Cuyún Gaitán <no-reply@clinica.local>';
@@ -1,4 +1,5 @@
 import { FastifyRequest, FastifyReply, preHandlerHookHandler } from 'fastify';
+import { Permission, hasPermission } from '../auth/permissions';
 
 export function requireAuth(roles?: string[]): preHandlerHookHandler {
     return async (request: FastifyRequest, reply: FastifyReply) => {
@@ -19,9 +20,10 @@ export function requireAuth(roles?: string[]): preHandlerHookHandler {
     };
 }
 
+// For account security routes (2FA, sessions, API tokens) that API tokens must not reach
 export function requireSession() {
     return async (request: FastifyRequest, reply: FastifyReply) => {
-        if (!request.cookies.session) {
+        if (!request.user || !request.session) {
             return reply.code(401).send({
                 error: 'Unauthorized',
                 message: 'Session required'
@@ -37,3 +39,35 @@ export function requireRole(role: string) {
 export function requireAnyRole(roles: string[]) {
     return requireAuth(roles);
 }
+
+// Whether the caller may use `permission`, taking the scopes of an API token into account
+export function requestHasPermission(request: FastifyRequest, permission: Permission): boolean {
+    return !!request.user && hasPermission(request.user.role, permission)
+        && (!request.apiToken || request.apiToken.scopes.includes(permission));
+}
+
+export function requirePermission(permission: Permission): preHandlerHookHandler {
+    return async (request: FastifyRequest, reply: FastifyReply) => {
+        if (!request.user) {
+            return reply.code(401).send({
+                error: 'Unauthorized',
+                message: 'Authentication required'
+            });
+        }
+
+        if (!hasPermission(request.user.role, permission)) {
+            return reply.code(403).send({
+                error: 'Forbidden',
+                message: 'Insufficient permissions'
+            });
+        }
+
+        // API tokens are further limited to the scopes they were minted with
+        if (request.apiToken && !request.apiToken.scopes.includes(permission)) {
+            return reply.code(403).send({
+                error: 'Forbidden',
+                message: `API token is missing the ${permission} scope`
+            });
+        }
+    };
+}
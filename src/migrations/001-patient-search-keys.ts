@@ -0,0 +1,45 @@
+import { Patient } from '../models/Patient';
+import { buildPatientSearchKeys } from '../utils/searchKeys';
+import type { MigrationDefinition } from './index';
+
+const BATCH_SIZE = 500;
+
+// Fills the search keys of patients created before they existed and drops the
+// word-only text index they replace
+const migration: MigrationDefinition = {
+    id: '001-patient-search-keys',
+    description: 'Backfill patient search keys and drop patient_text_index',
+    async up() {
+        const cursor = Patient.find({ searchKeys: { $exists: false } })
+            .select('firstName lastName address phone')
+            .lean()
+            .cursor();
+
+        let batch: any[] = [];
+        for await (const patient of cursor) {
+            batch.push({
+                updateOne: {
+                    filter: { _id: patient._id },
+                    update: { $set: { searchKeys: buildPatientSearchKeys(patient as any) } }
+                }
+            });
+
+            if (batch.length === BATCH_SIZE) {
+                await Patient.bulkWrite(batch);
+                batch = [];
+            }
+        }
+
+        if (batch.length > 0) {
+            await Patient.bulkWrite(batch);
+        }
+
+        // The collection may not exist yet on a fresh database
+        const indexes = await Patient.collection.indexes().catch(() => []);
+        if (indexes.some(index => index.name === 'patient_text_index')) {
+            await Patient.collection.dropIndex('patient_text_index');
+        }
+    }
+};
+
+export default migration;
@@ -0,0 +1,42 @@
+import { Patient } from '../models/Patient';
+import { toE164, cleanPhoneNumber } from '../utils/phone';
+import type { MigrationDefinition } from './index';
+
+const BATCH_SIZE = 500;
+
+// Copies the single phone of existing patients into the phones list with its
+// E.164 form; numbers that cannot be normalized are kept for display only
+const migration: MigrationDefinition = {
+    id: '002-patient-phones',
+    description: 'Move patient phones into the phones list with E.164 numbers',
+    async up() {
+        const cursor = Patient.find({ phone: { $nin: [null, ''] }, phones: { $exists: false } })
+            .select('phone')
+            .lean()
+            .cursor();
+
+        let batch: any[] = [];
+        for await (const patient of cursor) {
+            const number = cleanPhoneNumber(patient.phone!);
+            const e164 = toE164(number);
+
+            batch.push({
+                updateOne: {
+                    filter: { _id: patient._id },
+                    update: { $set: { phones: [{ label: 'mobile', number, ...(e164 && { e164 }) }] } }
+                }
+            });
+
+            if (batch.length === BATCH_SIZE) {
+                await Patient.bulkWrite(batch);
+                batch = [];
+            }
+        }
+
+        if (batch.length > 0) {
+            await Patient.bulkWrite(batch);
+        }
+    }
+};
+
+export default migration;
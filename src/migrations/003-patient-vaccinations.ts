@@ -0,0 +1,51 @@
+import { Types } from 'mongoose';
+import { Patient } from '../models/Patient';
+import { vaccineCode } from '../utils/vaccinations';
+import type { MigrationDefinition } from './index';
+
+const BATCH_SIZE = 500;
+
+// Turns each name of the old vaccination list into an undated entry and keeps
+// the list itself as the vaccine codes, as the Patient model now maintains it
+const migration: MigrationDefinition = {
+    id: '003-patient-vaccinations',
+    description: 'Convert patient vaccination names into vaccination entries',
+    async up() {
+        const cursor = Patient.find({ 'vaccination.0': { $exists: true }, vaccinations: { $exists: false } })
+            .select('vaccination')
+            .lean()
+            .cursor();
+
+        let batch: any[] = [];
+        for await (const patient of cursor) {
+            const codes = Array.from(new Set(
+                (patient.vaccination || [])
+                    .filter(name => typeof name === 'string' && name.trim())
+                    .map(vaccineCode)
+            ));
+
+            batch.push({
+                updateOne: {
+                    filter: { _id: patient._id },
+                    update: {
+                        $set: {
+                            vaccination: codes,
+                            vaccinations: codes.map(vaccine => ({ _id: new Types.ObjectId(), vaccine, voidedAt: null }))
+                        }
+                    }
+                }
+            });
+
+            if (batch.length === BATCH_SIZE) {
+                await Patient.bulkWrite(batch);
+                batch = [];
+            }
+        }
+
+        if (batch.length > 0) {
+            await Patient.bulkWrite(batch);
+        }
+    }
+};
+
+export default migration;
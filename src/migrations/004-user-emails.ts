@@ -0,0 +1,38 @@
+import { User, Invitation } from '../models/authModels';
+import logger from '../utils/logger';
+import type { MigrationDefinition } from './index';
+
+const NORMALIZED_EMAIL = { $toLower: { $trim: { input: '$email' } } };
+
+// Emails are now stored and looked up in lowercase; accounts created before that
+// could not log in. Accounts whose emails only differ in case are left as they
+// are and reported, since one of them has to be renamed or removed by hand.
+const migration: MigrationDefinition = {
+    id: '004-user-emails',
+    description: 'Lowercase user and invitation emails',
+    async up() {
+        const collisions = await User.aggregate<{ _id: string; emails: string[] }>([
+            { $group: { _id: NORMALIZED_EMAIL, emails: { $push: '$email' }, count: { $sum: 1 } } },
+            { $match: { count: { $gt: 1 } } }
+        ]);
+
+        for (const collision of collisions) {
+            logger.warning(`Usuarios con el mismo correo sin distinguir mayúsculas, revisar a mano: ${collision.emails.join(', ')}`);
+        }
+
+        await User.collection.updateMany(
+            {
+                email: { $nin: collisions.flatMap(collision => collision.emails) },
+                $expr: { $ne: ['$email', NORMALIZED_EMAIL] }
+            },
+            [{ $set: { email: NORMALIZED_EMAIL } }]
+        );
+
+        await Invitation.collection.updateMany(
+            { $expr: { $ne: ['$email', NORMALIZED_EMAIL] } },
+            [{ $set: { email: NORMALIZED_EMAIL } }]
+        );
+    }
+};
+
+export default migration;
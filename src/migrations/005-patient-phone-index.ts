@@ -0,0 +1,19 @@
+import { Patient } from '../models/Patient';
+import type { MigrationDefinition } from './index';
+
+// Relatives often share a phone number, so the unique index on the display phone
+// rejected real patients; lookups already go through the phones.e164 index
+const migration: MigrationDefinition = {
+    id: '005-patient-phone-index',
+    description: 'Drop the unique index on the patient phone',
+    async up() {
+        // The collection may not exist yet on a fresh database
+        const indexes = await Patient.collection.indexes().catch(() => []);
+
+        if (indexes.some(index => index.name === 'phone_1')) {
+            await Patient.collection.dropIndex('phone_1');
+        }
+    }
+};
+
+export default migration;
@@ -0,0 +1,21 @@
+import { Patient } from '../models/Patient';
+import type { MigrationDefinition } from './index';
+
+// The DPI index used to count deleted and merged patients, so their DPI could not
+// be given to a new record; it is replaced by one limited to active patients
+const migration: MigrationDefinition = {
+    id: '006-patient-dpi-index',
+    description: 'Limit the unique patient DPI index to active patients',
+    async up() {
+        // The collection may not exist yet on a fresh database
+        const indexes = await Patient.collection.indexes().catch(() => []);
+
+        if (indexes.some(index => index.name === 'dpi_1')) {
+            await Patient.collection.dropIndex('dpi_1');
+        }
+
+        await Patient.createIndexes();
+    }
+};
+
+export default migration;
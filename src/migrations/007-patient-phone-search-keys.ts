@@ -0,0 +1,39 @@
+import { Patient } from '../models/Patient';
+import { buildPatientSearchKeys } from '../utils/searchKeys';
+import type { MigrationDefinition } from './index';
+
+const BATCH_SIZE = 500;
+
+// Search keys now hold every ending of each phone number rather than the whole
+// number only, so searching the last digits finds patients saved before
+const migration: MigrationDefinition = {
+    id: '007-patient-phone-search-keys',
+    description: 'Index the last digits of patient phones for search',
+    async up() {
+        const cursor = Patient.find({ $or: [{ phone: { $exists: true } }, { 'phones.0': { $exists: true } }] })
+            .select('firstName lastName address phone phones')
+            .lean()
+            .cursor();
+
+        let batch: any[] = [];
+        for await (const patient of cursor) {
+            batch.push({
+                updateOne: {
+                    filter: { _id: patient._id },
+                    update: { $set: { searchKeys: buildPatientSearchKeys(patient as any) } }
+                }
+            });
+
+            if (batch.length === BATCH_SIZE) {
+                await Patient.bulkWrite(batch);
+                batch = [];
+            }
+        }
+
+        if (batch.length > 0) {
+            await Patient.bulkWrite(batch);
+        }
+    }
+};
+
+export default migration;
@@ -0,0 +1,38 @@
+import { randomBytes } from 'crypto';
+import { Session } from '../models/authModels';
+import type { MigrationDefinition } from './index';
+
+const BATCH_SIZE = 500;
+
+// Sessions opened before they had a public id showed up without one in the
+// device list and kept the unique public_id index from being built
+const migration: MigrationDefinition = {
+    id: '008-session-public-ids',
+    description: 'Give existing sessions a public id',
+    async up() {
+        const cursor = Session.collection.find({ public_id: { $exists: false } }, { projection: { _id: 1 } });
+
+        let batch: any[] = [];
+        for await (const session of cursor) {
+            batch.push({
+                updateOne: {
+                    filter: { _id: session._id },
+                    update: { $set: { public_id: randomBytes(12).toString('hex') } }
+                }
+            });
+
+            if (batch.length === BATCH_SIZE) {
+                await Session.collection.bulkWrite(batch);
+                batch = [];
+            }
+        }
+
+        if (batch.length > 0) {
+            await Session.collection.bulkWrite(batch);
+        }
+
+        await Session.createIndexes();
+    }
+};
+
+export default migration;
@@ -0,0 +1,51 @@
+import { Migration } from '../models/Migration';
+import logger from '../utils/logger';
+import patientSearchKeys from './001-patient-search-keys';
+import patientPhones from './002-patient-phones';
+import patientVaccinations from './003-patient-vaccinations';
+import userEmails from './004-user-emails';
+import patientPhoneIndex from './005-patient-phone-index';
+import patientDpiIndex from './006-patient-dpi-index';
+import patientPhoneSearchKeys from './007-patient-phone-search-keys';
+import sessionPublicIds from './008-session-public-ids';
+
+export interface MigrationDefinition {
+    id: string;
+    description: string;
+    // Must be safe to run again: a crash before the migration is recorded re-runs it
+    up(): Promise<void>;
+}
+
+// Applied in this order; append new migrations at the end
+const MIGRATIONS: MigrationDefinition[] = [
+    patientSearchKeys,
+    patientPhones,
+    patientVaccinations,
+    userEmails,
+    patientPhoneIndex,
+    patientDpiIndex,
+    patientPhoneSearchKeys,
+    sessionPublicIds
+];
+
+/**
+ * Applies the migrations that have not run on this database yet and records
+ * them. Called on startup once MongoDB is connected.
+ */
+export async function runMigrations(migrations: MigrationDefinition[] = MIGRATIONS): Promise<string[]> {
+    const applied = new Set((await Migration.find().select('_id').lean()).map(migration => String(migration._id)));
+    const ran: string[] = [];
+
+    for (const migration of migrations) {
+        if (applied.has(migration.id)) {
+            continue;
+        }
+
+        await migration.up();
+        await Migration.create({ _id: migration.id, description: migration.description, appliedAt: new Date() });
+        logger.database(`Migración aplicada: ${migration.id}`);
+        ran.push(migration.id);
+    }
+
+    return ran;
+}
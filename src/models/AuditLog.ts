@@ -0,0 +1,111 @@
+import { Schema, model, Document } from 'mongoose';
+
+export type AuditAction =
+    | 'patient.list'
+    | 'patient.view'
+    | 'patient.create'
+    | 'patient.update'
+    | 'patient.delete'
+    | 'patient.history'
+    | 'patient.restore'
+    | 'patient.undelete'
+    | 'patient.merge'
+    | 'duplicate.dismiss'
+    | 'note.create'
+    | 'note.update'
+    | 'note.delete'
+    | 'note.undelete'
+    | 'vaccination.create'
+    | 'vaccination.update'
+    | 'vaccination.void'
+    | 'allergy.create'
+    | 'allergy.update'
+    | 'allergy.delete'
+    | 'problem.create'
+    | 'problem.update'
+    | 'problem.delete'
+    | 'medication.create'
+    | 'medication.update'
+    | 'medication.delete'
+    | 'vitals.create'
+    | 'vitals.delete'
+    | 'trash.list'
+    | 'trash.purge';
+
+export interface AuditChange {
+    field: string;
+    before?: unknown;
+    after?: unknown;
+}
+
+export interface IAuditLog extends Document {
+    actorId: string;
+    actorEmail: string;
+    actorRole: string;
+    apiTokenId?: string;
+    action: AuditAction;
+    patientId?: string;
+    // Records returned by list/search reads
+    patientIds?: string[];
+    noteId?: string;
+    vaccinationId?: string;
+    // Allergy, problem, medication or vital signs the action applied to
+    entryId?: string;
+    changes: AuditChange[];
+    ip?: string;
+    userAgent?: string;
+    createdAt: Date;
+}
+
+const changeSchema = new Schema<AuditChange>({
+    field: { type: String, required: true },
+    before: { type: Schema.Types.Mixed },
+    after: { type: Schema.Types.Mixed }
+}, {
+    _id: false
+});
+
+const auditLogSchema = new Schema<IAuditLog>({
+    actorId: { type: String, required: true },
+    actorEmail: { type: String, required: true },
+    actorRole: { type: String, required: true },
+    apiTokenId: { type: String },
+    action: { type: String, required: true },
+    patientId: { type: String },
+    patientIds: { type: [String], default: undefined },
+    noteId: { type: String },
+    vaccinationId: { type: String },
+    entryId: { type: String },
+    changes: { type: [changeSchema], default: [] },
+    ip: { type: String },
+    userAgent: { type: String }
+}, {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'audit_logs'
+});
+
+auditLogSchema.index({ patientId: 1, createdAt: -1 });
+auditLogSchema.index({ patientIds: 1, createdAt: -1 });
+auditLogSchema.index({ actorId: 1, createdAt: -1 });
+auditLogSchema.index({ createdAt: -1 });
+
+// Append-only: entries can be created but never modified or removed through the model
+function rejectMutation(next: (error?: Error) => void) {
+    next(new Error('Audit log entries are immutable'));
+}
+
+auditLogSchema.pre('save', function (next) {
+    if (!this.isNew) {
+        return rejectMutation(next);
+    }
+    next();
+});
+
+auditLogSchema.pre(['updateOne', 'deleteOne'], { document: true, query: true }, rejectMutation);
+auditLogSchema.pre(
+    ['updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace', 'deleteMany', 'findOneAndDelete'],
+    rejectMutation
+);
+
+export const AuditLog = model<IAuditLog>('AuditLog', auditLogSchema);
+export default AuditLog;
@@ -0,0 +1,48 @@
+import { Schema, model, Document } from 'mongoose';
+
+export type DuplicateReason = 'name' | 'birthdate' | 'phone';
+export type DuplicateStatus = 'pending' | 'dismissed' | 'merged';
+
+// A pair of patients that may be the same person, waiting for staff review
+export interface IDuplicateCandidate extends Document {
+    // Sorted so each pair is stored once regardless of which record was found first
+    patientIds: [string, string];
+    pairKey: string; // "<id>:<id>" of the sorted pair
+    score: number;
+    reasons: DuplicateReason[];
+    status: DuplicateStatus;
+    reviewedBy?: string;
+    reviewedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const duplicateCandidateSchema = new Schema<IDuplicateCandidate>({
+    patientIds: {
+        type: [String],
+        required: true,
+        validate: {
+            validator: (ids: string[]) => ids.length === 2 && ids[0] !== ids[1],
+            message: 'A duplicate candidate must reference two different patients'
+        }
+    },
+    pairKey: { type: String, required: true, unique: true },
+    score: { type: Number, required: true, min: 0, max: 1 },
+    reasons: { type: [String], default: [] },
+    status: {
+        type: String,
+        enum: ['pending', 'dismissed', 'merged'],
+        default: 'pending'
+    },
+    reviewedBy: { type: String },
+    reviewedAt: { type: Date }
+}, {
+    timestamps: true,
+    collection: 'duplicate_candidates'
+});
+
+duplicateCandidateSchema.index({ status: 1, score: -1 });
+duplicateCandidateSchema.index({ patientIds: 1 });
+
+export const DuplicateCandidate = model<IDuplicateCandidate>('DuplicateCandidate', duplicateCandidateSchema);
+export default DuplicateCandidate;
@@ -0,0 +1,19 @@
+import { Schema, model, Document } from 'mongoose';
+
+// Data migrations already applied to this database, see src/migrations
+export interface IMigration extends Document {
+    _id: string; // migration id, e.g. "001-patient-search-keys"
+    description: string;
+    appliedAt: Date;
+}
+
+const migrationSchema = new Schema<IMigration>({
+    _id: { type: String, required: true },
+    description: { type: String, required: true },
+    appliedAt: { type: Date, required: true }
+}, {
+    collection: 'migrations'
+});
+
+export const Migration = model<IMigration>('Migration', migrationSchema);
+export default Migration;
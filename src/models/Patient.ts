@@ -1,5 +1,28 @@
 import { Schema, model, Document, Model } from 'mongoose';
-import { IPatient, PatientNote, PATIENT_VALIDATION } from '../shared/types';
+import {
+    IPatient,
+    PatientNote,
+    PatientPhone,
+    PatientGuardian,
+    PatientVaccination,
+    PatientAllergy,
+    PatientProblem,
+    PatientMedication,
+    PATIENT_VALIDATION,
+    PHONE_LABELS,
+    VACCINATION_SITE_LABELS,
+    ALLERGY_SEVERITY_LABELS,
+    ALLERGY_CATEGORY_LABELS,
+    PROBLEM_STATUS_LABELS,
+    MEDICATION_STATUS_LABELS
+} from '../shared/types';
+import { buildPatientSearchKeys } from '../utils/searchKeys';
+import { cleanPhoneNumber, toE164 } from '../utils/phone';
+import { dpiError, normalizeDpi } from '../utils/dpi';
+import { activeVaccineCodes, vaccineCode } from '../utils/vaccinations';
+
+// Age of majority in Guatemala; younger patients may be identified by a guardian's DPI
+const ADULT_AGE = 18;
 
 // Extend the shared interface with Mongoose Document
 export interface IPatientDocument extends Omit<IPatient, 'id'>, Document {
@@ -7,6 +30,7 @@ export interface IPatientDocument extends Omit<IPatient, 'id'>, Document {
     createdAt: Date;
     updatedAt: Date;
     fullName: string;
+    searchKeys: string[];
     addNote(title: string, content: string): Promise<IPatientDocument>;
     getRecentNotes(limit?: number): PatientNote[];
 }
@@ -14,6 +38,7 @@ export interface IPatientDocument extends Omit<IPatient, 'id'>, Document {
 // Static methods interface
 export interface IPatientModel extends Model<IPatientDocument> {
     findByPhone(phone: string): Promise<IPatientDocument | null>;
+    findByDpi(dpi: string): Promise<IPatientDocument | null>;
     findByName(firstName: string, lastName: string): Promise<IPatientDocument[]>;
     getStats(): Promise<{
         total: number;
@@ -25,6 +50,192 @@ export interface IPatientModel extends Model<IPatientDocument> {
     }>;
 }
 
+// Phone schema for embedded documents; the first entry is the primary phone
+const phoneSchema = new Schema<PatientPhone>({
+    label: {
+        type: String,
+        enum: {
+            values: Object.keys(PHONE_LABELS),
+            message: `Phone label must be one of: ${Object.keys(PHONE_LABELS).join(', ')}`
+        },
+        default: 'mobile'
+    },
+    number: {
+        type: String,
+        required: [true, 'Phone number is required'],
+        trim: true,
+        maxlength: [PATIENT_VALIDATION.phone.maxLength, `Phone cannot exceed ${PATIENT_VALIDATION.phone.maxLength} characters`],
+        match: [PATIENT_VALIDATION.phone.pattern, 'Phone number format is invalid']
+    },
+    e164: {
+        type: String
+    }
+}, {
+    _id: false
+});
+
+const dpiValidator = {
+    validator: (value: string) => !value || dpiError(value) === null,
+    message: (props: { value: string }) => dpiError(props.value) ?? 'DPI is invalid'
+};
+
+// Guardian schema for minors without a DPI of their own
+const guardianSchema = new Schema<PatientGuardian>({
+    dpi: {
+        type: String,
+        required: [true, 'Guardian DPI is required'],
+        set: normalizeDpi,
+        validate: dpiValidator
+    },
+    name: {
+        type: String,
+        trim: true,
+        maxlength: [100, 'Guardian name cannot exceed 100 characters']
+    },
+    relationship: {
+        type: String,
+        trim: true,
+        maxlength: [50, 'Guardian relationship cannot exceed 50 characters']
+    }
+}, {
+    _id: false
+});
+
+// Vaccination schema for embedded documents; entries are voided, never removed
+const vaccinationSchema = new Schema<PatientVaccination>({
+    vaccine: {
+        type: String,
+        required: [true, 'Vaccine is required'],
+        trim: true,
+        maxlength: [100, 'Vaccine cannot exceed 100 characters'],
+        set: vaccineCode
+    },
+    dose: {
+        type: Number,
+        min: [1, 'Dose number must be at least 1'],
+        max: [20, 'Dose number cannot exceed 20'],
+        validate: {
+            validator: (value: number) => value == null || Number.isInteger(value),
+            message: 'Dose number must be a whole number'
+        }
+    },
+    administeredAt: {
+        type: Date,
+        validate: {
+            validator: (value: Date) => !value || value <= new Date(),
+            message: 'Administration date cannot be in the future'
+        }
+    },
+    lotNumber: {
+        type: String,
+        trim: true,
+        maxlength: [50, 'Lot number cannot exceed 50 characters']
+    },
+    site: {
+        type: String,
+        enum: {
+            values: Object.keys(VACCINATION_SITE_LABELS),
+            message: `Vaccination site must be one of: ${Object.keys(VACCINATION_SITE_LABELS).join(', ')}`
+        }
+    },
+    administeredBy: { type: String },
+    notes: {
+        type: String,
+        trim: true,
+        maxlength: [500, 'Vaccination notes cannot exceed 500 characters']
+    },
+    voidedAt: { type: Date, default: null },
+    voidedBy: { type: String },
+    voidReason: { type: String, trim: true, maxlength: [500, 'Void reason cannot exceed 500 characters'] }
+}, {
+    _id: true,
+    timestamps: false
+});
+
+function enumOf(labels: Record<string, string>, name: string) {
+    return {
+        values: Object.keys(labels),
+        message: `${name} must be one of: ${Object.keys(labels).join(', ')}`
+    };
+}
+
+// Chart list schemas for embedded documents; who recorded each entry and when is kept
+const allergySchema = new Schema<PatientAllergy>({
+    substance: {
+        type: String,
+        required: [true, 'Allergy substance is required'],
+        trim: true,
+        maxlength: [100, 'Allergy substance cannot exceed 100 characters']
+    },
+    category: { type: String, enum: enumOf(ALLERGY_CATEGORY_LABELS, 'Allergy category') },
+    reaction: { type: String, trim: true, maxlength: [200, 'Allergy reaction cannot exceed 200 characters'] },
+    severity: { type: String, enum: enumOf(ALLERGY_SEVERITY_LABELS, 'Allergy severity') },
+    notes: { type: String, trim: true, maxlength: [500, 'Allergy notes cannot exceed 500 characters'] },
+    recordedAt: { type: Date, default: Date.now },
+    recordedBy: { type: String }
+}, {
+    _id: true,
+    timestamps: false
+});
+
+const problemSchema = new Schema<PatientProblem>({
+    condition: {
+        type: String,
+        required: [true, 'Condition is required'],
+        trim: true,
+        maxlength: [200, 'Condition cannot exceed 200 characters']
+    },
+    code: {
+        type: String,
+        trim: true,
+        uppercase: true,
+        match: [/^[A-Z]\d{2}(\.\d{1,4})?$/, 'Condition code must be an ICD-10 code such as E11 or E11.9']
+    },
+    onset: {
+        type: Date,
+        validate: {
+            validator: (value: Date) => !value || value <= new Date(),
+            message: 'Onset date cannot be in the future'
+        }
+    },
+    status: { type: String, enum: enumOf(PROBLEM_STATUS_LABELS, 'Problem status'), default: 'active' },
+    notes: { type: String, trim: true, maxlength: [500, 'Problem notes cannot exceed 500 characters'] },
+    recordedAt: { type: Date, default: Date.now },
+    recordedBy: { type: String }
+}, {
+    _id: true,
+    timestamps: false
+});
+
+const medicationSchema = new Schema<PatientMedication>({
+    name: {
+        type: String,
+        required: [true, 'Medication name is required'],
+        trim: true,
+        maxlength: [100, 'Medication name cannot exceed 100 characters']
+    },
+    dose: { type: String, trim: true, maxlength: [50, 'Medication dose cannot exceed 50 characters'] },
+    frequency: { type: String, trim: true, maxlength: [100, 'Medication frequency cannot exceed 100 characters'] },
+    route: { type: String, trim: true, maxlength: [50, 'Medication route cannot exceed 50 characters'] },
+    startDate: { type: Date },
+    endDate: {
+        type: Date,
+        validate: {
+            validator: function (this: PatientMedication, value: Date) {
+                return !value || !this.startDate || value >= new Date(this.startDate);
+            },
+            message: 'Medication end date cannot be before its start date'
+        }
+    },
+    status: { type: String, enum: enumOf(MEDICATION_STATUS_LABELS, 'Medication status'), default: 'active' },
+    notes: { type: String, trim: true, maxlength: [500, 'Medication notes cannot exceed 500 characters'] },
+    recordedAt: { type: Date, default: Date.now },
+    recordedBy: { type: String }
+}, {
+    _id: true,
+    timestamps: false
+});
+
 // Note schema for embedded documents
 const noteSchema = new Schema<PatientNote>({
     title: {
@@ -43,12 +254,19 @@ const noteSchema = new Schema<PatientNote>({
         type: Date,
         default: Date.now,
         required: true
-    }
+    },
+    // Soft delete - the note stays in the trash until purged
+    deletedAt: { type: Date, default: null },
+    deletedBy: { type: String },
+    deletionReason: { type: String, trim: true, maxlength: [500, 'Deletion reason cannot exceed 500 characters'] }
 }, {
     _id: true, // Generate _id for each note
     timestamps: false // Don't add timestamps to subdocuments
 });
 
+// Patients that are neither in the trash nor merged into another record
+export const ACTIVE_PATIENT = { deletedAt: null, mergedInto: null } as const;
+
 // Main Patient schema
 const patientSchema = new Schema<IPatientDocument>({
     firstName: {
@@ -67,6 +285,17 @@ const patientSchema = new Schema<IPatientDocument>({
         maxlength: [PATIENT_VALIDATION.lastName.maxLength, `Last name cannot exceed ${PATIENT_VALIDATION.lastName.maxLength} characters`],
         match: [PATIENT_VALIDATION.lastName.pattern, 'Last name contains invalid characters']
     },
+    // CUI of the patient's own DPI; unset rather than null so the unique index skips it
+    dpi: {
+        type: String,
+        required: false,
+        set: normalizeDpi,
+        validate: dpiValidator
+    },
+    guardian: {
+        type: guardianSchema,
+        required: false
+    },
     address: {
         type: String,
         required: false,
@@ -96,6 +325,14 @@ const patientSchema = new Schema<IPatientDocument>({
             message: 'Gender must be one of: male, female, child'
         }
     },
+    sex: {
+        type: String,
+        required: false,
+        enum: {
+            values: ['female', 'male'],
+            message: 'Sex must be one of: female, male'
+        }
+    },
     maritalStatus: {
         type: String,
         required: false,
@@ -116,6 +353,10 @@ const patientSchema = new Schema<IPatientDocument>({
         maxlength: [PATIENT_VALIDATION.phone.maxLength, `Phone cannot exceed ${PATIENT_VALIDATION.phone.maxLength} characters`],
         match: [PATIENT_VALIDATION.phone.pattern, 'Phone number format is invalid']
     },
+    phones: {
+        type: [phoneSchema],
+        default: []
+    },
     vaccination: {
         type: [String],
         default: [],
@@ -126,6 +367,22 @@ const patientSchema = new Schema<IPatientDocument>({
             message: 'All vaccinations must be non-empty strings'
         }
     },
+    vaccinations: {
+        type: [vaccinationSchema],
+        default: []
+    },
+    allergies: {
+        type: [allergySchema],
+        default: []
+    },
+    problems: {
+        type: [problemSchema],
+        default: []
+    },
+    medications: {
+        type: [medicationSchema],
+        default: []
+    },
     visitDate: {
         type: Date,
         required: false,
@@ -137,20 +394,51 @@ const patientSchema = new Schema<IPatientDocument>({
         default: [],
         validate: {
             validator: function (notes: PatientNote[]) {
-                return notes.length <= 50; // Limit number of notes
+                return notes.filter(note => !note.deletedAt).length <= 50; // Limit number of notes
             },
             message: 'Cannot have more than 50 notes per patient'
         }
+    },
+    // Soft delete - the patient stays in the trash until purged
+    deletedAt: {
+        type: Date,
+        default: null
+    },
+    deletedBy: {
+        type: String
+    },
+    deletionReason: {
+        type: String,
+        trim: true,
+        maxlength: [500, 'Deletion reason cannot exceed 500 characters']
+    },
+    // Set when this record was merged into another one; kept so old ids still resolve
+    mergedInto: {
+        type: String,
+        default: null
+    },
+    mergedAt: {
+        type: Date
+    },
+    mergedBy: {
+        type: String
+    },
+    // Normalized name prefixes and phonetic keys for search, see utils/searchKeys
+    searchKeys: {
+        type: [String],
+        default: undefined
     }
 }, {
     timestamps: true, // Adds createdAt and updatedAt
     collection: 'patients',
+    optimisticConcurrency: true, // Every save bumps __v, which clients send back as If-Match
     toJSON: {
         transform: function (doc, ret: any) {
             // Transform _id to id for API responses
             ret.id = ret._id;
             delete ret._id;
             delete ret.__v;
+            delete ret.searchKeys;
             return ret;
         }
     },
@@ -159,6 +447,7 @@ const patientSchema = new Schema<IPatientDocument>({
             ret.id = ret._id;
             delete ret._id;
             delete ret.__v;
+            delete ret.searchKeys;
             return ret;
         }
     }
@@ -166,27 +455,22 @@ const patientSchema = new Schema<IPatientDocument>({
 
 // Indexes for better query performance
 patientSchema.index({ firstName: 1, lastName: 1 }); // Compound index for name searches
-patientSchema.index({ phone: 1 }, { unique: true, sparse: true }); // Unique index for phone (sparse allows nulls)
+// Not unique: relatives often share a number, which duplicate detection takes into account
+patientSchema.index({ 'phones.e164': 1 }); // Index for exact phone lookups; endings go through searchKeys
+// One active patient per DPI; deleted and merged records give theirs up and most patients have none on file
+patientSchema.index({ dpi: 1 }, {
+    name: 'dpi_active_unique',
+    unique: true,
+    partialFilterExpression: { dpi: { $type: 'string' }, deletedAt: { $type: 'null' }, mergedInto: { $type: 'null' } }
+});
+patientSchema.index({ 'guardian.dpi': 1 }, { sparse: true }); // Index for finding a guardian's dependents
 patientSchema.index({ visitDate: -1 }); // Descending index for recent visits
 patientSchema.index({ gender: 1 }); // Index for gender filtering
 patientSchema.index({ birthdate: 1 }); // Index for birthdate filtering
 patientSchema.index({ createdAt: -1 }); // Index for recent patients
-
-// Text index for search functionality
-patientSchema.index({
-    firstName: 'text',
-    lastName: 'text',
-    phone: 'text',
-    address: 'text'
-}, {
-    weights: {
-        firstName: 10,
-        lastName: 10,
-        phone: 5,
-        address: 1
-    },
-    name: 'patient_text_index'
-});
+patientSchema.index({ deletedAt: 1 }); // Index for trash listing and purging
+patientSchema.index({ mergedInto: 1 }, { sparse: true }); // Index for merge redirects
+patientSchema.index({ searchKeys: 1 }); // Multikey index for accent- and typo-tolerant search
 
 // Virtual for full name
 patientSchema.virtual('fullName').get(function () {
@@ -210,12 +494,21 @@ patientSchema.methods.getRecentNotes = function (limit: number = 5) {
 };
 
 // Static methods
-patientSchema.statics.findByPhone = function (phone: string) {
-    return this.findOne({ phone: phone.trim() });
+patientSchema.statics.findByPhone = async function (phone: string) {
+    const e164 = toE164(phone);
+    if (!e164) {
+        return null;
+    }
+    return this.findOne({ 'phones.e164': e164, ...ACTIVE_PATIENT });
+};
+
+patientSchema.statics.findByDpi = function (dpi: string) {
+    return this.findOne({ dpi: normalizeDpi(dpi), ...ACTIVE_PATIENT });
 };
 
 patientSchema.statics.findByName = function (firstName: string, lastName: string) {
     return this.find({
+        ...ACTIVE_PATIENT,
         firstName: new RegExp(firstName.trim(), 'i'),
         lastName: new RegExp(lastName.trim(), 'i')
     });
@@ -223,6 +516,7 @@ patientSchema.statics.findByName = function (firstName: string, lastName: string
 
 patientSchema.statics.getStats = async function () {
     const stats = await this.aggregate([
+        { $match: ACTIVE_PATIENT },
         {
             $addFields: {
                 age: {
@@ -254,6 +548,7 @@ patientSchema.statics.getStats = async function () {
     ]);
 
     const recentVisits = await this.countDocuments({
+        ...ACTIVE_PATIENT,
         visitDate: { $gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000) }
     });
 
@@ -267,13 +562,120 @@ patientSchema.statics.getStats = async function () {
     };
 };
 
-// Pre-save middleware
-patientSchema.pre('save', function (next) {
-    // Ensure phone number is properly formatted
+/**
+ * Keeps `phone` equal to the first entry of `phones` and fills in the E.164
+ * form of each number. Whichever of the two the client changed wins; clearing
+ * `phone` promotes the next number to primary.
+ */
+patientSchema.pre('validate', function (next) {
+    const phonesChanged = this.isNew ? this.phones?.length > 0 : this.isModified('phones');
+    const phoneChanged = this.isNew || this.isModified('phone');
+
+    if (phonesChanged && this.phones.length > 0) {
+        this.phone = this.phones[0].number;
+    } else if (phonesChanged && !phoneChanged) {
+        this.phone = undefined;
+    } else if (phoneChanged && this.phone) {
+        if (this.phones.length > 0) {
+            this.phones[0].number = this.phone;
+        } else {
+            this.phones = [{ label: 'mobile', number: this.phone }] as any;
+        }
+    } else if (phoneChanged && this.phones.length > 0) {
+        this.phones.shift();
+        this.phone = this.phones[0]?.number;
+    }
+
     if (this.phone) {
-        this.phone = this.phone.replace(/\s+/g, ' ').trim();
+        this.phone = cleanPhoneNumber(this.phone);
     }
 
+    this.phones.forEach((entry, index) => {
+        if (!entry.number) return;
+
+        entry.number = cleanPhoneNumber(entry.number);
+        entry.e164 = toE164(entry.number) ?? undefined;
+
+        // Numbers stored before E.164 was enforced don't block unrelated edits
+        if (!entry.e164 && (phonesChanged || phoneChanged)) {
+            this.invalidate(`phones.${index}.number`, 'Phone number format is invalid', entry.number);
+        }
+    });
+
+    next();
+});
+
+// Under the age of majority; without a birthdate only patients registered as children count
+export function isMinor(patient: IPatientDocument): boolean {
+    if (!patient.birthdate) {
+        return patient.gender === 'child';
+    }
+
+    const adulthood = new Date(patient.birthdate);
+    adulthood.setFullYear(adulthood.getFullYear() + ADULT_AGE);
+    return adulthood > new Date();
+}
+
+/**
+ * Keeps `vaccination`, the vaccine codes used for filtering, equal to those of
+ * the vaccinations that are not voided. Clients that still send the plain list
+ * get an undated entry for each new vaccine and the entries of removed ones voided.
+ */
+patientSchema.pre('validate', function (next) {
+    const entriesChanged = this.isNew ? this.vaccinations?.length > 0 : this.isModified('vaccinations');
+    const listChanged = this.isNew || this.isModified('vaccination');
+
+    if (!entriesChanged && !listChanged) {
+        return next();
+    }
+
+    if (listChanged && !(entriesChanged && this.vaccinations.length > 0)) {
+        // Blank names are left for the vaccination validator to report
+        if (!this.vaccination.every(name => typeof name === 'string' && name.trim().length > 0)) {
+            return next();
+        }
+
+        const codes = this.vaccination.map(vaccineCode);
+        const active = activeVaccineCodes(this.vaccinations);
+
+        for (const entry of this.vaccinations) {
+            if (!entry.voidedAt && !codes.includes(entry.vaccine)) {
+                entry.voidedAt = new Date();
+                entry.voidReason = 'Removed from the vaccination list';
+            }
+        }
+
+        for (const code of new Set(codes.filter(code => !active.includes(code)))) {
+            this.vaccinations.push({ vaccine: code });
+        }
+    }
+
+    this.vaccination = activeVaccineCodes(this.vaccinations);
+
+    next();
+});
+
+/**
+ * A guardian's DPI only identifies minors who have no DPI of their own. Checked
+ * when either DPI changes, so records of patients who have since come of age
+ * can still be edited.
+ */
+patientSchema.pre('validate', function (next) {
+    if (!this.guardian?.dpi || !(this.isNew || this.isModified('guardian') || this.isModified('dpi'))) {
+        return next();
+    }
+
+    if (this.dpi) {
+        this.invalidate('guardian', 'A guardian DPI is only for patients without their own DPI');
+    } else if (!isMinor(this)) {
+        this.invalidate('guardian', `A guardian DPI is only for patients under ${ADULT_AGE}`);
+    }
+
+    next();
+});
+
+// Pre-save middleware
+patientSchema.pre('save', function (next) {
     // Ensure names are properly capitalized
     if (this.firstName) {
         this.firstName = this.firstName.trim().replace(/\b\w/g, l => l.toUpperCase());
@@ -282,6 +684,11 @@ patientSchema.pre('save', function (next) {
         this.lastName = this.lastName.trim().replace(/\b\w/g, l => l.toUpperCase());
     }
 
+    if (this.isNew || !this.searchKeys || this.isModified('firstName') || this.isModified('lastName')
+        || this.isModified('address') || this.isModified('phones')) {
+        this.searchKeys = buildPatientSearchKeys(this);
+    }
+
     next();
 });
 
@@ -0,0 +1,51 @@
+import { Schema, model, Document } from 'mongoose';
+import { AuditChange } from './AuditLog';
+
+export type PatientVersionAction = 'baseline' | 'create' | 'update' | 'note' | 'vaccination' | 'chart' | 'restore' | 'merge';
+
+// Full copy of a patient after each change, so any earlier state can be restored
+export interface IPatientVersion extends Document {
+    patientId: string;
+    version: number;
+    action: PatientVersionAction;
+    snapshot: Record<string, any>;
+    changes: AuditChange[];
+    changedBy?: {
+        id: string;
+        email: string;
+    };
+    restoredFrom?: number;
+    // For 'merge' versions: the other record involved in the merge
+    mergedWith?: string;
+    createdAt: Date;
+}
+
+const patientVersionSchema = new Schema<IPatientVersion>({
+    patientId: { type: String, required: true },
+    version: { type: Number, required: true },
+    action: { type: String, required: true },
+    snapshot: { type: Schema.Types.Mixed, required: true },
+    changes: {
+        type: [new Schema({
+            field: { type: String, required: true },
+            before: { type: Schema.Types.Mixed },
+            after: { type: Schema.Types.Mixed }
+        }, { _id: false })],
+        default: []
+    },
+    changedBy: {
+        id: { type: String },
+        email: { type: String }
+    },
+    restoredFrom: { type: Number },
+    mergedWith: { type: String }
+}, {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'patient_versions',
+    minimize: false
+});
+
+patientVersionSchema.index({ patientId: 1, version: -1 }, { unique: true });
+
+export const PatientVersion = model<IPatientVersion>('PatientVersion', patientVersionSchema);
+export default PatientVersion;
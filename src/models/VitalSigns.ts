@@ -0,0 +1,74 @@
+import { Schema, model, Document } from 'mongoose';
+import { MeasuredVital, VITAL_LABELS, VITAL_RANGES, VITAL_UNITS } from '../shared/types';
+
+// Vital signs taken together, usually at the start of a visit; values are in VITAL_UNITS
+export interface IVitalSigns extends Document {
+    patientId: string;
+    noteId?: string;
+    takenAt: Date;
+    weight?: number;
+    height?: number;
+    headCircumference?: number;
+    bmi?: number;
+    systolic?: number;
+    diastolic?: number;
+    temperature?: number;
+    heartRate?: number;
+    spo2?: number;
+    recordedBy?: string;
+    createdAt: Date;
+}
+
+function measurement(type: MeasuredVital) {
+    const { min, max } = VITAL_RANGES[type];
+    const range = `${VITAL_LABELS[type]} must be between ${min} and ${max} ${VITAL_UNITS[type]}`;
+    return { type: Number, min: [min, range] as [number, string], max: [max, range] as [number, string] };
+}
+
+const vitalSignsSchema = new Schema<IVitalSigns>({
+    patientId: { type: String, required: true },
+    noteId: { type: String },
+    takenAt: {
+        type: Date,
+        required: true,
+        default: Date.now,
+        validate: {
+            validator: (value: Date) => value <= new Date(),
+            message: 'Vital signs cannot be taken in the future'
+        }
+    },
+    weight: measurement('weight'),
+    height: measurement('height'),
+    headCircumference: measurement('headCircumference'),
+    bmi: { type: Number },
+    systolic: measurement('systolic'),
+    diastolic: {
+        ...measurement('diastolic'),
+        validate: {
+            validator: function (this: IVitalSigns, value: number) {
+                return value === undefined || this.systolic === undefined || value < this.systolic;
+            },
+            message: 'Diastolic pressure must be lower than systolic pressure'
+        }
+    },
+    temperature: measurement('temperature'),
+    heartRate: measurement('heartRate'),
+    spo2: measurement('spo2'),
+    recordedBy: { type: String }
+}, {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'vital_signs'
+});
+
+vitalSignsSchema.index({ patientId: 1, takenAt: -1 });
+
+vitalSignsSchema.pre('validate', function (next) {
+    const measured = (Object.keys(VITAL_RANGES) as MeasuredVital[]).some(type => this.get(type) !== undefined);
+    if (!measured) {
+        this.invalidate('vitals', 'Record at least one vital sign');
+    }
+    next();
+});
+
+export const VitalSigns = model<IVitalSigns>('VitalSigns', vitalSignsSchema);
+export default VitalSigns;
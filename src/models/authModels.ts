@@ -1,33 +1,212 @@
 import { Schema, model, Document } from 'mongoose';
+import { randomBytes } from 'crypto';
+import { UserRole, USER_ROLES } from '../shared/types';
+import type { Permission } from '../auth/permissions';
 
 export interface IUser extends Document {
     _id: string;        // Lucia expects string ids
     email: string;
     hashed_password: string;
-    role: 'admin' | 'doctor' | 'nurse' | 'assistant';
+    role: UserRole;
+    active: boolean;
+    totp_enabled: boolean;
+    totp_secret: string | null;
+    totp_pending_secret: string | null;
+    totp_last_counter: number | null;
+    recovery_codes: string[];
+    failed_login_attempts: number;
+    locked_until: Date | null;
+    created_at: Date;
+    updated_at: Date;
 }
 
 const userSchema = new Schema<IUser>({
     _id: { type: String, required: true },
-    email: { type: String, unique: true, required: true },
+    email: { type: String, unique: true, required: true, lowercase: true, trim: true },
     hashed_password: { type: String, required: true },
-    role: { type: String, default: 'assistant' }
+    role: { type: String, enum: USER_ROLES, default: 'assistant' },
+    active: { type: Boolean, default: true },
+    totp_enabled: { type: Boolean, default: false },
+    totp_secret: { type: String, default: null },
+    totp_pending_secret: { type: String, default: null },
+    totp_last_counter: { type: Number, default: null },
+    recovery_codes: { type: [String], default: [] }, // sha256 hashes
+    failed_login_attempts: { type: Number, default: 0 },
+    locked_until: { type: Date, default: null }
+}, {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
 });
 
 export const User = model<IUser>('User', userSchema);
 
 export interface ISession extends Document {
     _id: string;
+    // Shown to clients instead of the secret session id
+    public_id: string;
     user_id: string;
     active_expires: number;
     idle_expires: number;
+    user_agent?: string;
+    ip?: string;
+    last_seen_at: Date;
+    created_at: Date;
 }
 
 const sessionSchema = new Schema<ISession>({
     _id: { type: String, required: true },
-    user_id: { type: String, required: true },
+    public_id: { type: String, required: true, unique: true, default: () => randomBytes(12).toString('hex') },
+    user_id: { type: String, required: true, index: true },
     active_expires: { type: Number, required: true },
-    idle_expires: { type: Number, required: true }
+    idle_expires: { type: Number, required: true },
+    user_agent: { type: String },
+    ip: { type: String },
+    last_seen_at: { type: Date, default: Date.now }
+}, {
+    timestamps: { createdAt: 'created_at', updatedAt: false }
+});
+
+export const Session = model<ISession>('Session', sessionSchema);
+
+export interface IInvitation extends Document {
+    _id: string;
+    email: string;
+    role: UserRole;
+    token_hash: string;
+    expires_at: Date;
+    created_by: string;
+    used_at: Date | null;
+    used_by: string | null;
+    created_at: Date;
+}
+
+const invitationSchema = new Schema<IInvitation>({
+    _id: { type: String, required: true },
+    email: { type: String, required: true, lowercase: true, trim: true },
+    role: { type: String, enum: USER_ROLES, required: true },
+    token_hash: { type: String, required: true, unique: true },
+    expires_at: { type: Date, required: true },
+    created_by: { type: String, required: true },
+    used_at: { type: Date, default: null },
+    used_by: { type: String, default: null }
+}, {
+    timestamps: { createdAt: 'created_at', updatedAt: false }
+});
+
+invitationSchema.index({ email: 1 });
+
+export const Invitation = model<IInvitation>('Invitation', invitationSchema);
+
+export interface IPasswordReset extends Document {
+    _id: string;
+    user_id: string;
+    token_hash: string;
+    expires_at: Date;
+    used_at: Date | null;
+    requested_ip?: string;
+    created_at: Date;
+}
+
+const passwordResetSchema = new Schema<IPasswordReset>({
+    _id: { type: String, required: true },
+    user_id: { type: String, required: true, index: true },
+    token_hash: { type: String, required: true, unique: true },
+    expires_at: { type: Date, required: true },
+    used_at: { type: Date, default: null },
+    requested_ip: { type: String }
+}, {
+    timestamps: { createdAt: 'created_at', updatedAt: false }
+});
+
+export const PasswordReset = model<IPasswordReset>('PasswordReset', passwordResetSchema);
+
+// Pending two-step login: password verified, waiting for the second factor
+export interface ILoginChallenge extends Document {
+    _id: string;
+    user_id: string;
+    token_hash: string;
+    expires_at: Date;
+    attempts: number;
+    created_at: Date;
+}
+
+const loginChallengeSchema = new Schema<ILoginChallenge>({
+    _id: { type: String, required: true },
+    user_id: { type: String, required: true },
+    token_hash: { type: String, required: true, unique: true },
+    expires_at: { type: Date, required: true },
+    attempts: { type: Number, default: 0 }
+}, {
+    timestamps: { createdAt: 'created_at', updatedAt: false }
+});
+
+loginChallengeSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+
+export const LoginChallenge = model<ILoginChallenge>('LoginChallenge', loginChallengeSchema);
+
+export type LoginAttemptResult =
+    | 'success'
+    | 'second_factor_required'
+    | 'unknown_user'
+    | 'invalid_password'
+    | 'invalid_second_factor'
+    | 'locked'
+    | 'disabled';
+
+export interface ILoginAttempt extends Document {
+    user_id: string | null;
+    email: string;
+    ip?: string;
+    user_agent?: string;
+    success: boolean;
+    result: LoginAttemptResult;
+    created_at: Date;
+}
+
+const loginAttemptSchema = new Schema<ILoginAttempt>({
+    user_id: { type: String, default: null },
+    email: { type: String, required: true, lowercase: true, trim: true },
+    ip: { type: String },
+    user_agent: { type: String },
+    success: { type: Boolean, required: true },
+    result: { type: String, required: true }
+}, {
+    timestamps: { createdAt: 'created_at', updatedAt: false }
+});
+
+loginAttemptSchema.index({ user_id: 1, created_at: -1 });
+loginAttemptSchema.index({ email: 1, created_at: -1 });
+
+export const LoginAttempt = model<ILoginAttempt>('LoginAttempt', loginAttemptSchema);
+
+// Personal bearer token for scripts and integrations, limited to a set of scopes
+export interface IApiToken extends Document {
+    _id: string;
+    user_id: string;
+    name: string;
+    token_hash: string;
+    // First characters of the raw token so users can tell their tokens apart
+    prefix: string;
+    scopes: Permission[];
+    expires_at: Date;
+    last_used_at: Date | null;
+    last_used_ip?: string;
+    revoked_at: Date | null;
+    created_at: Date;
+}
+
+const apiTokenSchema = new Schema<IApiToken>({
+    _id: { type: String, required: true },
+    user_id: { type: String, required: true, index: true },
+    name: { type: String, required: true, trim: true },
+    token_hash: { type: String, required: true, unique: true },
+    prefix: { type: String, required: true },
+    scopes: { type: [String], required: true },
+    expires_at: { type: Date, required: true },
+    last_used_at: { type: Date, default: null },
+    last_used_ip: { type: String },
+    revoked_at: { type: Date, default: null }
+}, {
+    timestamps: { createdAt: 'created_at', updatedAt: false }
 });
 
-export const Session = model<ISession>('Session', sessionSchema);
\ No newline at end of file
+export const ApiToken = model<IApiToken>('ApiToken', apiTokenSchema);
@@ -1,5 +1,10 @@
 // Models index - exports all model definitions
 export { Patient, IPatientDocument } from './Patient';
+export { AuditLog, IAuditLog, AuditAction, AuditChange } from './AuditLog';
+export { PatientVersion, IPatientVersion, PatientVersionAction } from './PatientVersion';
+export { VitalSigns, IVitalSigns } from './VitalSigns';
+export { DuplicateCandidate, IDuplicateCandidate, DuplicateReason, DuplicateStatus } from './DuplicateCandidate';
+export { Migration, IMigration } from './Migration';
 import { Patient } from './Patient';
 
 // Re-export for convenience
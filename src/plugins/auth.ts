@@ -1,11 +1,26 @@
 import fp from 'fastify-plugin';
 import { auth, SessionUser, SessionData } from '../auth/lucia';
+import { ApiTokenService } from '../auth/apiTokens';
+import { Permission } from '../auth/permissions';
 
 export default fp(async (app) => {
   app.decorate('auth', auth);
 
   app.addHook('preHandler', async (request, reply) => {
     try {
+      request.apiToken = null;
+
+      // Scripts and integrations authenticate with a personal API token instead of a cookie
+      const authorization = request.headers.authorization || '';
+      if (authorization.startsWith('Bearer ')) {
+        const result = await ApiTokenService.authenticate(authorization.slice(7).trim(), { ip: request.ip });
+
+        request.user = result && { id: result.user._id, email: result.user.email, role: result.user.role };
+        request.session = null;
+        request.apiToken = result && { id: result.token._id, scopes: result.token.scopes };
+        return;
+      }
+
       const sessionId = request.cookies?.session || '';
 
       if (!sessionId) {
@@ -15,7 +30,9 @@ export default fp(async (app) => {
         return;
       }
 
-      const { session, user } = await auth.validateSession(sessionId);
+      // Passive requests (e.g. the UI polling the idle countdown) don't count as activity
+      const passive = request.headers['x-session-passive'] === '1';
+      const { session, user } = await auth.validateSession(sessionId, { ip: request.ip }, { touch: !passive });
 
       request.user = user;
       request.session = session;
@@ -23,6 +40,7 @@ export default fp(async (app) => {
       console.error('Auth preHandler error:', error);
       request.user = null;
       request.session = null;
+      request.apiToken = null;
     }
   });
 });
@@ -34,6 +52,7 @@ declare module 'fastify' {
   interface FastifyRequest {
     user: SessionUser | null;
     session: SessionData | null;
+    apiToken: { id: string; scopes: Permission[] } | null;
     cookies: { [key: string]: string };
   }
 }
\ No newline at end of file
@@ -0,0 +1,54 @@
+import fp from 'fastify-plugin';
+import { FastifyRequest } from 'fastify';
+import { getAllowedOrigins, toOrigin } from '../utils/frontendUrl';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Origin of the page that issued the request, falling back to Referer
+function requestOrigin(request: FastifyRequest): string | null | undefined {
+    const origin = request.headers.origin;
+    if (origin) {
+        return origin === 'null' ? null : toOrigin(origin);
+    }
+
+    const referer = request.headers.referer;
+    if (referer) {
+        return toOrigin(referer);
+    }
+
+    return undefined;
+}
+
+/**
+ * Origin verification against FRONTEND_URL for every state-changing request.
+ * Browsers always send Origin on cross-site POST/PUT/DELETE, so requests that
+ * carry neither Origin nor Referer come from non-browser clients and pass.
+ */
+export default fp(async (app) => {
+    app.addHook('onRequest', async (request, reply) => {
+        if (SAFE_METHODS.includes(request.method)) {
+            return;
+        }
+
+        // Bearer tokens are never attached by the browser on its own
+        if (request.headers.authorization?.startsWith('Bearer ')) {
+            return;
+        }
+
+        const origin = requestOrigin(request);
+        if (origin === undefined) {
+            return;
+        }
+
+        const sameOrigin = `${request.protocol}://${request.host}`;
+        if (origin && (origin === sameOrigin || getAllowedOrigins().includes(origin))) {
+            return;
+        }
+
+        request.log.warn(`Blocked cross-site ${request.method} ${request.url} from ${origin}`);
+        return reply.code(403).send({
+            error: 'Forbidden',
+            message: 'Cross-site request blocked'
+        });
+    });
+});
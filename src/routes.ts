@@ -1,13 +1,133 @@
-import { FastifyPluginAsync } from 'fastify';
-import { Patient } from './models/Patient';
-import { requireSession } from './middleware/requireAuth';
+import { FastifyPluginAsync, FastifyRequest } from 'fastify';
+import { Patient, ACTIVE_PATIENT } from './models/Patient';
+import { requirePermission, requestHasPermission } from './middleware/requireAuth';
+import { Permission } from './auth/permissions';
+import { recordAudit, diffFields } from './utils/audit';
+import { recordPatientVersion, toPatientSnapshot, versionedFields } from './utils/patientVersions';
+import { PatientVersion, IPatientVersion } from './models/PatientVersion';
+import {
+    PatientVersionResponse,
+    PatientSearchParams,
+    PatientSortField,
+    PatientPhoneSearchResponse,
+    PatientDpiSearchResponse
+} from './shared/types';
+import { toPatientResponse, uniqueFieldConflict } from './utils/patientResponse';
+import { findDuplicateCandidates, queueDuplicateCandidates, toDuplicateSummary } from './utils/duplicates';
+import { mergePatients } from './utils/patientMerge';
+import { checkPatientVersion, latestVersionConflict, toEtag } from './utils/concurrency';
+import { accentInsensitivePattern, phoneDigits } from './utils/text';
+import { rankPatientSearch } from './utils/patientSearch';
+import { SortSpec, decodeCursor, encodeCursor, keysetFilter } from './utils/pagination';
+import { toE164 } from './utils/phone';
+import { dpiError, normalizeDpi } from './utils/dpi';
+import { vaccineCode } from './utils/vaccinations';
+import { parseDateRange } from './utils/dateRange';
+import { toAllergyWarnings } from './utils/chart';
+
+const MIN_PHONE_SEARCH_DIGITS = 4;
+
+// Fields clients may set when creating or updating a patient; the rest are kept by
+// the server or changed through their own routes, each with its own permission
+const EDITABLE_FIELDS = [
+    'firstName', 'lastName', 'dpi', 'guardian', 'address', 'birthdate', 'gender', 'sex',
+    'maritalStatus', 'occupation', 'phone', 'phones', 'visitDate'
+] as const;
+
+function pickEditableFields(request: FastifyRequest, body: Record<string, any>): Record<string, any> {
+    const data: Record<string, any> = Object.fromEntries(
+        EDITABLE_FIELDS.filter(field => body[field] !== undefined).map(field => [field, body[field]])
+    );
+
+    // The plain vaccination list charts and voids entries, so it takes the same permission
+    if (body.vaccination !== undefined && requestHasPermission(request, 'vaccinations:write')) {
+        data.vaccination = body.vaccination;
+    }
+
+    return data;
+}
+
+// Sections a restore only rolls back when the caller could also change them through their own routes
+const RESTORE_PERMISSIONS: Record<string, Permission> = {
+    notes: 'notes:write',
+    vaccination: 'vaccinations:write',
+    vaccinations: 'vaccinations:write',
+    allergies: 'chart:write',
+    problems: 'chart:write',
+    medications: 'chart:write'
+};
+
+const RESTORE_REASON = 'Not in the restored version';
+
+// Entries of `current` that `snapshot` does not have, matched by _id
+function droppedEntries(current: Record<string, any>, snapshot: Record<string, any>, field: string): any[] {
+    const kept = new Set((snapshot[field] || []).map((entry: any) => String(entry._id)));
+    return (current[field] || []).filter((entry: any) => !kept.has(String(entry._id)));
+}
+
+// Active notes of `current` that restoring `snapshot` would take away
+function notesDeletedByRestore(current: Record<string, any>, snapshot: Record<string, any>): boolean {
+    const restored = new Map<string, any>((snapshot.notes || []).map((note: any) => [String(note._id), note]));
+    return (current.notes || []).some((note: any) => {
+        const restoredNote = restored.get(String(note._id));
+        return !note.deletedAt && (!restoredNote || restoredNote.deletedAt);
+    });
+}
+
+// Permissions missing to restore `snapshot` over `current`; empty sections compare equal to absent ones
+function missingRestorePermissions(
+    request: FastifyRequest,
+    current: Record<string, any>,
+    snapshot: Record<string, any>
+): Permission[] {
+    const missing = Object.entries(RESTORE_PERMISSIONS)
+        .filter(([field]) => JSON.stringify(current[field] ?? []) !== JSON.stringify(snapshot[field] ?? []))
+        .map(([, permission]) => permission);
+
+    if (notesDeletedByRestore(current, snapshot)) {
+        missing.push('notes:delete');
+    }
+
+    return [...new Set(missing)].filter(permission => !requestHasPermission(request, permission));
+}
+
+// History of patients in the trash or merged away is only shown to those who manage the trash
+async function canReadHistory(request: FastifyRequest, id: string): Promise<boolean> {
+    if (await Patient.exists({ _id: id, ...ACTIVE_PATIENT })) {
+        return true;
+    }
+    return requestHasPermission(request, 'trash:manage') && !!(await Patient.exists({ _id: id }));
+}
+
+// Sort keys for each `sort` value, in ascending order; each one follows an existing index
+const PATIENT_SORTS: Record<PatientSortField, Record<string, 1 | -1>> = {
+    name: { firstName: 1, lastName: 1 },
+    visitDate: { visitDate: 1 },
+    createdAt: { createdAt: 1 },
+    age: { birthdate: -1 } // older patients have earlier birthdates
+};
+
+function toPatientVersionResponse(version: IPatientVersion, includeSnapshot: boolean = false): PatientVersionResponse {
+    return {
+        patientId: version.patientId,
+        version: version.version,
+        action: version.action,
+        changes: version.changes,
+        ...(version.changedBy?.id && { changedBy: { id: version.changedBy.id, email: version.changedBy.email } }),
+        ...(version.restoredFrom && { restoredFrom: version.restoredFrom }),
+        ...(version.mergedWith && { mergedWith: version.mergedWith }),
+        createdAt: version.createdAt.toISOString(),
+        ...(includeSnapshot && { snapshot: version.snapshot })
+    };
+}
 
 const routes: FastifyPluginAsync = async (app) => {
     // GET /api/stats - Get patient statistics
-    app.get('/stats', async (request, reply) => {
+    app.get('/stats', { preHandler: requirePermission('stats:read') }, async (request, reply) => {
         try {
             // Get basic stats using aggregation
             const stats = await Patient.aggregate([
+                { $match: ACTIVE_PATIENT },
                 {
                     $addFields: {
                         age: {
@@ -39,6 +159,7 @@ const routes: FastifyPluginAsync = async (app) => {
             ]);
 
             const recentVisits = await Patient.countDocuments({
+                ...ACTIVE_PATIENT,
                 visitDate: { $gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000) }
             });
 
@@ -62,35 +183,71 @@ const routes: FastifyPluginAsync = async (app) => {
     });
 
     // GET /api/patients - List patients with search and pagination
-    app.get('/patients', async (request, reply) => {
+    app.get('/patients', { preHandler: requirePermission('patients:read') }, async (request, reply) => {
         try {
-            const query = request.query as {
-                query?: string;
-                gender?: string;
-                ageMin?: string;
-                ageMax?: string;
-                limit?: string;
-                offset?: string;
-            };
+            const query = request.query as { [K in keyof PatientSearchParams]?: string };
 
             const {
                 query: searchQuery = '',
                 gender,
                 ageMin,
                 ageMax,
+                visitDateFrom,
+                visitDateTo,
+                createdAtFrom,
+                createdAtTo,
+                vaccination,
+                occupation,
+                sort,
+                order,
+                cursor,
+                total: totalParam,
                 limit = '10',
                 offset = '0'
             } = query;
 
+            if (totalParam && !['exact', 'estimate', 'none'].includes(totalParam)) {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: 'total must be exact, estimate or none'
+                });
+            }
+
+            if (sort && !Object.keys(PATIENT_SORTS).includes(sort)) {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: `sort must be one of: ${Object.keys(PATIENT_SORTS).join(', ')}`
+                });
+            }
+
+            if (order && !['asc', 'desc'].includes(order)) {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: 'order must be asc or desc'
+                });
+            }
+
+            const visitDateRange = parseDateRange(visitDateFrom, visitDateTo);
+            const createdAtRange = parseDateRange(createdAtFrom, createdAtTo);
+
+            if (visitDateRange === null || createdAtRange === null) {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: 'Date range filters must be valid dates'
+                });
+            }
+
             const limitNum = Math.min(parseInt(String(limit)) || 10, 100);
             const offsetNum = parseInt(String(offset)) || 0;
 
-            // Build search filter
-            const filter: Record<string, any> = {};
+            // Build search filter, leaving out patients in the trash
+            const filter: Record<string, any> = { ...ACTIVE_PATIENT };
 
-            // Text search
+            // Accent- and typo-tolerant search, ranked by relevance unless another sort is requested
+            let rankedIds: any[] | null = null;
             if (searchQuery && String(searchQuery).trim()) {
-                filter.$text = { $search: String(searchQuery).trim() };
+                rankedIds = await rankPatientSearch(String(searchQuery));
+                filter._id = { $in: rankedIds };
             }
 
             // Gender filter
@@ -98,6 +255,24 @@ const routes: FastifyPluginAsync = async (app) => {
                 filter.gender = gender;
             }
 
+            if (visitDateRange) {
+                filter.visitDate = visitDateRange;
+            }
+
+            if (createdAtRange) {
+                filter.createdAt = createdAtRange;
+            }
+
+            // Comma-separated vaccine codes or names; patients must have received all of them
+            const vaccines = String(vaccination || '').split(',').map(vaccineCode).filter(Boolean);
+            if (vaccines.length > 0) {
+                filter.vaccination = { $all: vaccines };
+            }
+
+            if (occupation && String(occupation).trim()) {
+                filter.occupation = { $regex: accentInsensitivePattern(String(occupation)), $options: 'i' };
+            }
+
             // Age range filter - we'll need to use aggregation for this
             let pipeline: any[] = [];
 
@@ -136,51 +311,70 @@ const routes: FastifyPluginAsync = async (app) => {
                 });
             }
 
-            // Add sorting and pagination
-            pipeline.push(
-                { $sort: { createdAt: -1 } },
-                { $skip: offsetNum },
-                { $limit: limitNum }
+            // Newest first unless another order is requested; _id keeps pages stable on ties
+            const direction = order === 'asc' ? 1 : order === 'desc' ? -1 : (sort ? 1 : -1);
+            const sortKeys = Object.fromEntries(
+                Object.entries(PATIENT_SORTS[(sort as PatientSortField) || 'createdAt'])
+                    .map(([field, value]) => [field, value * direction])
             );
 
-            // Execute query with pagination
-            let patients, total;
-
-            if (pipeline.length > 0) {
-                // Use aggregation pipeline for age filtering
-                const [patientsResult, totalResult] = await Promise.all([
-                    Patient.aggregate(pipeline),
-                    Patient.aggregate([
-                        ...pipeline.slice(0, -2), // Remove skip and limit for count
-                        { $count: "total" }
-                    ])
-                ]);
-                patients = patientsResult;
-                total = totalResult[0]?.total || 0;
-            } else {
-                // Use simple find for non-age filtering
-                [patients, total] = await Promise.all([
-                    Patient.find(filter)
-                        .sort({ createdAt: -1 })
-                        .limit(limitNum)
-                        .skip(offsetNum)
-                        .lean(),
-                    Patient.countDocuments(filter)
-                ]);
+            if (rankedIds && !sort) {
+                pipeline.push({ $addFields: { searchRank: { $indexOfArray: [rankedIds, '$_id'] } } });
             }
 
+            const sortStage: SortSpec = rankedIds && !sort ? { searchRank: 1, _id: 1 } : { ...sortKeys, _id: direction };
+            const countPipeline = [...pipeline, { $count: 'total' }];
+
+            // Cursor mode pages with a keyset on the sort values, so rows added meanwhile don't shift pages
+            const cursorMode = cursor !== undefined;
+            if (cursorMode && cursor) {
+                const values = decodeCursor(String(cursor), sortStage);
+
+                if (!values) {
+                    return reply.status(400).send({
+                        error: 'Validation Error',
+                        message: 'Invalid cursor for this sort'
+                    });
+                }
+
+                pipeline.push({ $match: keysetFilter(sortStage, values) });
+            }
+
+            // Add sorting and pagination; cursor mode reads one extra row to know if there is a next page
+            pipeline.push(
+                { $sort: sortStage },
+                ...(cursorMode ? [] : [{ $skip: offsetNum }]),
+                { $limit: cursorMode ? limitNum + 1 : limitNum }
+            );
+
+            // Exact by default in offset mode; cursor mode skips counting unless asked
+            const totalMode = totalParam || (cursorMode ? 'none' : 'exact');
+            const unfiltered = !(ageMin || ageMax) && Object.keys(filter).length === Object.keys(ACTIVE_PATIENT).length;
+
+            const [results, total] = await Promise.all([
+                Patient.aggregate(pipeline),
+                totalMode === 'none' ? undefined
+                    : totalMode === 'estimate' && unfiltered ? Patient.estimatedDocumentCount()
+                        : Patient.aggregate(countPipeline).then(result => result[0]?.total || 0)
+            ]);
+
+            const hasMore = cursorMode && results.length > limitNum;
+            const patients = hasMore ? results.slice(0, limitNum) : results;
+
+            await recordAudit(request, {
+                action: 'patient.list',
+                patientIds: patients.map((patient: any) => patient._id.toString())
+            });
+
             // Transform response
             const response = {
-                patients: patients.map((patient: any) => ({
-                    ...patient,
-                    id: patient._id.toString(),
-                    createdAt: patient.createdAt.toISOString(),
-                    updatedAt: patient.updatedAt.toISOString(),
-                    visitDate: new Date(patient.visitDate).toISOString()
-                })),
-                total,
+                patients: patients.map(({ searchRank, ...patient }: any) => toPatientResponse(patient)),
+                ...(total !== undefined && { total }),
+                ...(totalMode === 'estimate' && unfiltered && { totalEstimated: true }),
                 limit: limitNum,
-                offset: offsetNum
+                ...(cursorMode
+                    ? { nextCursor: hasMore ? encodeCursor(sortStage, patients[patients.length - 1]) : null }
+                    : { offset: offsetNum })
             };
 
             return reply.send(response);
@@ -193,35 +387,48 @@ const routes: FastifyPluginAsync = async (app) => {
         }
     });
 
-    // GET /api/patients/search/phone/:phone - Search patient by phone
-    app.get('/patients/search/phone/:phone', async (request, reply) => {
+    // GET /api/patients/search/phone/:phone - Find every patient with a phone matching a full number or its last digits
+    app.get('/patients/search/phone/:phone', { preHandler: requirePermission('patients:read') }, async (request, reply) => {
         try {
             const { phone } = request.params as { phone: string };
+            const digits = phone.replace(/\D/g, '');
 
-            const patient = await Patient.findOne({
-                phone: { $regex: phone.replace(/\D/g, ''), $options: 'i' }
-            }).lean();
+            if (digits.length < MIN_PHONE_SEARCH_DIGITS) {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: `Enter at least ${MIN_PHONE_SEARCH_DIGITS} digits of the phone number`
+                });
+            }
 
-            if (!patient) {
+            // A complete number is looked up exactly, anything shorter by the indexed
+            // number endings in the search keys
+            const e164 = toE164(phone);
+            const match: PatientPhoneSearchResponse['match'] = e164 ? 'exact' : 'suffix';
+
+            const patients = await Patient.find({
+                ...ACTIVE_PATIENT,
+                ...(e164 ? { 'phones.e164': e164 } : { searchKeys: `#${phoneDigits(digits)}` })
+            })
+                .sort({ lastName: 1, firstName: 1 })
+                .limit(50)
+                .lean();
+
+            if (patients.length === 0) {
                 return reply.status(404).send({
                     error: 'Not Found',
                     message: 'Patient not found with this phone number'
                 });
             }
 
-            // Transform response
-            const response = {
-                ...patient,
-                id: (patient as any)._id.toString(),
-                createdAt: (patient as any).createdAt.toISOString(),
-                updatedAt: (patient as any).updatedAt.toISOString(),
-                visitDate: new Date((patient as any).visitDate).toISOString(),
-                ...((patient as any).birthdate && { birthdate: new Date((patient as any).birthdate).toISOString() }),
-                notes: (patient as any).notes?.map((note: any) => ({
-                    ...note.toObject(),
-                    id: note._id.toString(),
-                    date: new Date(note.date).toISOString()
-                })) || []
+            await recordAudit(request, {
+                action: 'patient.list',
+                patientIds: patients.map((patient: any) => patient._id.toString())
+            });
+
+            const response: PatientPhoneSearchResponse = {
+                patients: patients.map(patient => toPatientResponse(patient)),
+                total: patients.length,
+                match
             };
 
             return reply.send(response);
@@ -234,12 +441,61 @@ const routes: FastifyPluginAsync = async (app) => {
         }
     });
 
+    // GET /api/patients/search/dpi/:dpi - Find the patient with a DPI and the minors it identifies as guardian
+    app.get('/patients/search/dpi/:dpi', { preHandler: requirePermission('patients:read') }, async (request, reply) => {
+        try {
+            const { dpi } = request.params as { dpi: string };
+            const invalid = dpiError(dpi);
+
+            if (invalid) {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: invalid
+                });
+            }
+
+            const cui = normalizeDpi(dpi);
+            const [patient, dependents] = await Promise.all([
+                Patient.findOne({ ...ACTIVE_PATIENT, dpi: cui }).lean(),
+                Patient.find({ ...ACTIVE_PATIENT, 'guardian.dpi': cui })
+                    .sort({ lastName: 1, firstName: 1 })
+                    .limit(50)
+                    .lean()
+            ]);
+
+            if (!patient && dependents.length === 0) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'Patient not found with this DPI'
+                });
+            }
+
+            await recordAudit(request, {
+                action: 'patient.list',
+                patientIds: [patient, ...dependents].filter(Boolean).map((match: any) => match._id.toString())
+            });
+
+            const response: PatientDpiSearchResponse = {
+                patient: patient ? toPatientResponse(patient) : null,
+                dependents: dependents.map(dependent => toPatientResponse(dependent))
+            };
+
+            return reply.send(response);
+        } catch (error) {
+            request.log.error('Error searching by DPI:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to search by DPI'
+            });
+        }
+    });
+
     // GET /api/patients/:id - Get single patient
-    app.get('/patients/:id', async (request, reply) => {
+    app.get('/patients/:id', { preHandler: requirePermission('patients:read') }, async (request, reply) => {
         try {
             const { id } = request.params as { id: string };
 
-            const patient = await Patient.findById(id).lean();
+            const patient = await Patient.findOne({ _id: id, deletedAt: null }).lean();
 
             if (!patient) {
                 return reply.status(404).send({
@@ -248,21 +504,19 @@ const routes: FastifyPluginAsync = async (app) => {
                 });
             }
 
-            // Transform response
+            // Records merged into another one keep resolving to the surviving record
+            if (patient.mergedInto) {
+                return reply.redirect(request.url.replace(`/patients/${id}`, `/patients/${patient.mergedInto}`), 301);
+            }
+
+            await recordAudit(request, { action: 'patient.view', patientId: id });
+
             const response = {
-                ...patient,
-                id: (patient as any)._id.toString(),
-                createdAt: (patient as any).createdAt.toISOString(),
-                updatedAt: (patient as any).updatedAt.toISOString(),
-                visitDate: new Date((patient as any).visitDate).toISOString(),
-                notes: (patient as any).notes?.map((note: any) => ({
-                    ...note,
-                    id: note._id?.toString(),
-                    date: new Date(note.date).toISOString()
-                })) || []
+                ...toPatientResponse(patient),
+                allergyWarnings: toAllergyWarnings(patient.allergies)
             };
 
-            return reply.send(response);
+            return reply.header('ETag', toEtag(response.version)).send(response);
         } catch (error) {
             request.log.error('Error fetching patient:', error);
             return reply.status(500).send({
@@ -273,33 +527,49 @@ const routes: FastifyPluginAsync = async (app) => {
     });
 
     // POST /api/patients - Create new patient
-    app.post('/patients', async (request, reply) => {
+    app.post('/patients', { preHandler: requirePermission('patients:write') }, async (request, reply) => {
         try {
-            const patientData = request.body as any;
+            const body = (request.body || {}) as Record<string, any>;
+            // Vaccinations, chart lists and server-owned fields are added through their own routes
+            const patientData = pickEditableFields(request, body);
 
             // Create new patient
             const patient = new Patient({
                 ...patientData,
                 ...(patientData.birthdate && { birthdate: new Date(patientData.birthdate) }),
                 visitDate: new Date(patientData.visitDate),
-                notes: patientData.notes?.map((note: any) => ({
-                    ...note,
-                    date: new Date()
-                })) || []
+                notes: Array.isArray(body.notes) && requestHasPermission(request, 'notes:write')
+                    ? body.notes.map((note: any) => ({
+                        title: note?.title,
+                        content: note?.content,
+                        date: new Date()
+                    }))
+                    : []
             });
 
             await patient.save();
+            await recordPatientVersion(request, patient, { action: 'create' });
+
+            await recordAudit(request, {
+                action: 'patient.create',
+                patientId: patient._id.toString(),
+                changes: diffFields({}, patient.toObject())
+            });
+
+            // The patient is still created; likely duplicates are flagged for review
+            const duplicates = await findDuplicateCandidates(patient, { excludeId: patient._id.toString() });
+            await queueDuplicateCandidates(patient._id.toString(), duplicates);
 
-            // Transform response
             const response = {
-                ...patient.toObject(),
-                id: patient._id.toString(),
-                createdAt: patient.createdAt.toISOString(),
-                updatedAt: patient.updatedAt.toISOString(),
-                visitDate: new Date(patient.visitDate).toISOString()
+                ...toPatientResponse(patient),
+                duplicateWarnings: duplicates.map(match => ({
+                    ...toDuplicateSummary(match.patient),
+                    score: match.score,
+                    reasons: match.reasons
+                }))
             };
 
-            return reply.status(201).send(response);
+            return reply.status(201).header('ETag', toEtag(response.version)).send(response);
         } catch (error: any) {
             request.log.error('Error creating patient:', error);
 
@@ -316,6 +586,11 @@ const routes: FastifyPluginAsync = async (app) => {
                 });
             }
 
+            const duplicate = uniqueFieldConflict(error);
+            if (duplicate) {
+                return reply.status(409).send(duplicate);
+            }
+
             return reply.status(500).send({
                 error: 'Internal Server Error',
                 message: 'Failed to create patient'
@@ -324,13 +599,11 @@ const routes: FastifyPluginAsync = async (app) => {
     });
 
     // PUT /api/patients/:id - Update patient
-    app.put('/patients/:id', async (request, reply) => {
+    app.put('/patients/:id', { preHandler: requirePermission('patients:write') }, async (request, reply) => {
         try {
             const { id } = request.params as { id: string };
-            const updateData = request.body as any;
-
-            // Remove id from update data
-            delete updateData.id;
+            // Unknown and server-owned fields (deletedAt, searchKeys, notes...) are dropped
+            const updateData = pickEditableFields(request, (request.body || {}) as Record<string, any>);
 
             // Convert dates if provided
             if (updateData.visitDate) {
@@ -340,11 +613,8 @@ const routes: FastifyPluginAsync = async (app) => {
                 updateData.birthdate = new Date(updateData.birthdate);
             }
 
-            const patient = await Patient.findByIdAndUpdate(
-                id,
-                updateData,
-                { new: true, runValidators: true }
-            ).lean();
+            // Loaded and saved as a document so the audit entry can compare before and after
+            const patient = await Patient.findOne({ _id: id, ...ACTIVE_PATIENT });
 
             if (!patient) {
                 return reply.status(404).send({
@@ -353,19 +623,33 @@ const routes: FastifyPluginAsync = async (app) => {
                 });
             }
 
-            // Transform response
-            const response = {
-                ...patient,
-                id: (patient as any)._id.toString(),
-                createdAt: (patient as any).createdAt.toISOString(),
-                updatedAt: (patient as any).updatedAt.toISOString(),
-                visitDate: new Date((patient as any).visitDate).toISOString()
-            };
+            const conflict = checkPatientVersion(request, patient);
+            if (conflict) {
+                return reply.status(conflict.status).send(conflict.body);
+            }
 
-            return reply.send(response);
+            const before = toPatientSnapshot(patient);
+            patient.set(updateData);
+            await patient.save();
+            await recordPatientVersion(request, patient, { action: 'update', before });
+
+            await recordAudit(request, {
+                action: 'patient.update',
+                patientId: id,
+                changes: diffFields(before, toPatientSnapshot(patient), Object.keys(updateData))
+            });
+
+            const response = toPatientResponse(patient);
+
+            return reply.header('ETag', toEtag(response.version)).send(response);
         } catch (error: any) {
             request.log.error('Error updating patient:', error);
 
+            if (error.name === 'VersionError') {
+                const conflict = await latestVersionConflict(request);
+                return reply.status(conflict.status).send(conflict.body);
+            }
+
             // Handle validation errors
             if (error.name === 'ValidationError') {
                 const errors = Object.values(error.errors).map((err: any) => ({
@@ -379,6 +663,11 @@ const routes: FastifyPluginAsync = async (app) => {
                 });
             }
 
+            const duplicate = uniqueFieldConflict(error);
+            if (duplicate) {
+                return reply.status(409).send(duplicate);
+            }
+
             return reply.status(500).send({
                 error: 'Internal Server Error',
                 message: 'Failed to update patient'
@@ -386,12 +675,24 @@ const routes: FastifyPluginAsync = async (app) => {
         }
     });
 
-    // DELETE /api/patients/:id - Delete patient
-    app.delete('/patients/:id', async (request, reply) => {
+    // DELETE /api/patients/:id - Move patient to the trash
+    app.delete('/patients/:id', { preHandler: requirePermission('patients:delete') }, async (request, reply) => {
         try {
             const { id } = request.params as { id: string };
 
-            const patient = await Patient.findByIdAndDelete(id);
+            const { reason } = (request.body || {}) as { reason?: string };
+
+            // Soft delete: the record goes to the trash and can be restored until purged
+            const patient = await Patient.findOneAndUpdate(
+                { _id: id, ...ACTIVE_PATIENT },
+                {
+                    deletedAt: new Date(),
+                    deletedBy: request.user!.id,
+                    ...(reason && { deletionReason: String(reason).trim() }),
+                    $inc: { __v: 1 }
+                },
+                { new: true, runValidators: true }
+            );
 
             if (!patient) {
                 return reply.status(404).send({
@@ -400,6 +701,12 @@ const routes: FastifyPluginAsync = async (app) => {
                 });
             }
 
+            await recordAudit(request, {
+                action: 'patient.delete',
+                patientId: id,
+                changes: diffFields({}, { deletionReason: patient.deletionReason })
+            });
+
             return reply.send({
                 message: 'Patient deleted successfully',
                 id: patient._id.toString()
@@ -414,7 +721,7 @@ const routes: FastifyPluginAsync = async (app) => {
     });
 
     // POST /api/patients/:id/notes - Add note to patient
-    app.post('/patients/:id/notes', async (request, reply) => {
+    app.post('/patients/:id/notes', { preHandler: requirePermission('notes:write') }, async (request, reply) => {
         try {
             const { id } = request.params as { id: string };
             const { title, content } = request.body as { title: string; content: string };
@@ -426,7 +733,7 @@ const routes: FastifyPluginAsync = async (app) => {
                 });
             }
 
-            const patient = await Patient.findById(id);
+            const patient = await Patient.findOne({ _id: id, ...ACTIVE_PATIENT });
 
             if (!patient) {
                 return reply.status(404).send({
@@ -435,6 +742,11 @@ const routes: FastifyPluginAsync = async (app) => {
                 });
             }
 
+            const conflict = checkPatientVersion(request, patient);
+            if (conflict) {
+                return reply.status(conflict.status).send(conflict.body);
+            }
+
             // Add new note
             const newNote = {
                 title: title.trim(),
@@ -442,22 +754,30 @@ const routes: FastifyPluginAsync = async (app) => {
                 date: new Date()
             };
 
+            const before = toPatientSnapshot(patient);
             patient.notes.push(newNote);
             await patient.save();
+            await recordPatientVersion(request, patient, { action: 'note', before });
+
+            const savedNote: any = patient.notes[patient.notes.length - 1];
+            await recordAudit(request, {
+                action: 'note.create',
+                patientId: id,
+                noteId: savedNote._id?.toString(),
+                changes: diffFields({}, newNote, ['title', 'content'])
+            });
 
-            // Transform response
-            const response = {
-                ...patient.toObject(),
-                id: patient._id.toString(),
-                createdAt: patient.createdAt.toISOString(),
-                updatedAt: patient.updatedAt.toISOString(),
-                visitDate: new Date(patient.visitDate).toISOString(),
-                ...(patient.birthdate && { birthdate: new Date(patient.birthdate).toISOString() })
-            };
+            const response = toPatientResponse(patient);
 
-            return reply.send(response);
-        } catch (error) {
+            return reply.header('ETag', toEtag(response.version)).send(response);
+        } catch (error: any) {
             request.log.error('Error adding note:', error);
+
+            if (error.name === 'VersionError') {
+                const conflict = await latestVersionConflict(request);
+                return reply.status(conflict.status).send(conflict.body);
+            }
+
             return reply.status(500).send({
                 error: 'Internal Server Error',
                 message: 'Failed to add note'
@@ -465,12 +785,12 @@ const routes: FastifyPluginAsync = async (app) => {
         }
     });
 
-    // DELETE /api/patients/:id/notes/:noteId - Delete specific note from patient
-    app.delete('/patients/:id/notes/:noteId', async (request, reply) => {
+    // DELETE /api/patients/:id/notes/:noteId - Move a note to the trash
+    app.delete('/patients/:id/notes/:noteId', { preHandler: requirePermission('notes:delete') }, async (request, reply) => {
         try {
             const { id, noteId } = request.params as { id: string; noteId: string };
 
-            const patient = await Patient.findById(id);
+            const patient = await Patient.findOne({ _id: id, ...ACTIVE_PATIENT });
 
             if (!patient) {
                 return reply.status(404).send({
@@ -479,37 +799,48 @@ const routes: FastifyPluginAsync = async (app) => {
                 });
             }
 
-            // Find and remove the note using MongoDB's pull method
-            const originalNotesLength = patient.notes.length;
-            patient.notes = patient.notes.filter((note: any) => note._id?.toString() !== noteId);
+            const conflict = checkPatientVersion(request, patient);
+            if (conflict) {
+                return reply.status(conflict.status).send(conflict.body);
+            }
+
+            const { reason } = (request.body || {}) as { reason?: string };
+            const note: any = patient.notes.find((note: any) => note._id?.toString() === noteId && !note.deletedAt);
 
-            if (patient.notes.length === originalNotesLength) {
+            if (!note) {
                 return reply.status(404).send({
                     error: 'Not Found',
                     message: 'Note not found'
                 });
             }
 
+            // Soft delete: the note stays on the record, hidden, until purged
+            const before = toPatientSnapshot(patient);
+            note.deletedAt = new Date();
+            note.deletedBy = request.user!.id;
+            if (reason) note.deletionReason = String(reason).trim();
+
             await patient.save();
+            await recordPatientVersion(request, patient, { action: 'note', before });
 
-            // Transform response
-            const response = {
-                ...patient.toObject(),
-                id: patient._id.toString(),
-                createdAt: patient.createdAt.toISOString(),
-                updatedAt: patient.updatedAt.toISOString(),
-                visitDate: new Date(patient.visitDate).toISOString(),
-                ...(patient.birthdate && { birthdate: new Date(patient.birthdate).toISOString() }),
-                notes: patient.notes.map((note: any) => ({
-                    ...note.toObject(),
-                    id: note._id.toString(),
-                    date: new Date(note.date).toISOString()
-                }))
-            };
+            await recordAudit(request, {
+                action: 'note.delete',
+                patientId: id,
+                noteId,
+                changes: diffFields({}, { deletionReason: note.deletionReason })
+            });
 
-            return reply.send(response);
-        } catch (error) {
+            const response = toPatientResponse(patient);
+
+            return reply.header('ETag', toEtag(response.version)).send(response);
+        } catch (error: any) {
             request.log.error('Error deleting note:', error);
+
+            if (error.name === 'VersionError') {
+                const conflict = await latestVersionConflict(request);
+                return reply.status(conflict.status).send(conflict.body);
+            }
+
             return reply.status(500).send({
                 error: 'Internal Server Error',
                 message: 'Failed to delete note'
@@ -518,7 +849,7 @@ const routes: FastifyPluginAsync = async (app) => {
     });
 
     // PUT /api/patients/:id/notes/:noteId - Update specific note from patient
-    app.put('/patients/:id/notes/:noteId', async (request, reply) => {
+    app.put('/patients/:id/notes/:noteId', { preHandler: requirePermission('notes:write') }, async (request, reply) => {
         try {
             const { id, noteId } = request.params as { id: string; noteId: string };
             const { title, content } = request.body as { title: string; content: string };
@@ -530,7 +861,7 @@ const routes: FastifyPluginAsync = async (app) => {
                 });
             }
 
-            const patient = await Patient.findById(id);
+            const patient = await Patient.findOne({ _id: id, ...ACTIVE_PATIENT });
 
             if (!patient) {
                 return reply.status(404).send({
@@ -539,8 +870,13 @@ const routes: FastifyPluginAsync = async (app) => {
                 });
             }
 
+            const conflict = checkPatientVersion(request, patient);
+            if (conflict) {
+                return reply.status(conflict.status).send(conflict.body);
+            }
+
             // Find the note to update
-            const noteIndex = patient.notes.findIndex((note: any) => note._id?.toString() === noteId);
+            const noteIndex = patient.notes.findIndex((note: any) => note._id?.toString() === noteId && !note.deletedAt);
 
             if (noteIndex === -1) {
                 return reply.status(404).send({
@@ -549,37 +885,295 @@ const routes: FastifyPluginAsync = async (app) => {
                 });
             }
 
+            const snapshot = toPatientSnapshot(patient);
+            const before = { title: patient.notes[noteIndex].title, content: patient.notes[noteIndex].content };
+
             // Update the note
             patient.notes[noteIndex].title = title.trim();
             patient.notes[noteIndex].content = content.trim();
             patient.notes[noteIndex].date = new Date(); // Update the modification date
 
             await patient.save();
+            await recordPatientVersion(request, patient, { action: 'note', before: snapshot });
 
-            // Transform response
-            const response = {
-                ...patient.toObject(),
-                id: patient._id.toString(),
-                createdAt: patient.createdAt.toISOString(),
-                updatedAt: patient.updatedAt.toISOString(),
-                visitDate: new Date(patient.visitDate).toISOString(),
-                ...(patient.birthdate && { birthdate: new Date(patient.birthdate).toISOString() }),
-                notes: patient.notes.map((note: any) => ({
-                    ...note.toObject(),
-                    id: note._id.toString(),
-                    date: new Date(note.date).toISOString()
-                }))
-            };
+            await recordAudit(request, {
+                action: 'note.update',
+                patientId: id,
+                noteId,
+                changes: diffFields(before, { title: title.trim(), content: content.trim() })
+            });
 
-            return reply.send(response);
-        } catch (error) {
+            const response = toPatientResponse(patient);
+
+            return reply.header('ETag', toEtag(response.version)).send(response);
+        } catch (error: any) {
             request.log.error('Error updating note:', error);
+
+            if (error.name === 'VersionError') {
+                const conflict = await latestVersionConflict(request);
+                return reply.status(conflict.status).send(conflict.body);
+            }
+
             return reply.status(500).send({
                 error: 'Internal Server Error',
                 message: 'Failed to update note'
             });
         }
     });
+
+    // GET /api/patients/:id/history - List versions of a patient with the changes of each one
+    app.get('/patients/:id/history', { preHandler: requirePermission('patients:read') }, async (request, reply) => {
+        try {
+            const { id } = request.params as { id: string };
+            const { limit = '20', offset = '0' } = request.query as { limit?: string; offset?: string };
+
+            const limitNum = Math.min(parseInt(String(limit)) || 20, 100);
+            const offsetNum = parseInt(String(offset)) || 0;
+
+            if (!(await canReadHistory(request, id))) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'Patient not found'
+                });
+            }
+
+            // Include the history of records that were merged into this one
+            const merged = await Patient.find({ mergedInto: id }).select('_id').lean();
+            const filter = { patientId: { $in: [id, ...merged.map(patient => patient._id.toString())] } };
+
+            const [versions, total] = await Promise.all([
+                PatientVersion.find(filter)
+                    .sort({ createdAt: -1, version: -1 })
+                    .skip(offsetNum)
+                    .limit(limitNum),
+                PatientVersion.countDocuments(filter)
+            ]);
+
+            await recordAudit(request, { action: 'patient.history', patientId: id });
+
+            return reply.send({
+                versions: versions.map(version => toPatientVersionResponse(version)),
+                total,
+                limit: limitNum,
+                offset: offsetNum
+            });
+        } catch (error) {
+            request.log.error('Error fetching patient history:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to fetch patient history'
+            });
+        }
+    });
+
+    // GET /api/patients/:id/history/:version - Get a single version with its full snapshot
+    app.get('/patients/:id/history/:version', { preHandler: requirePermission('patients:read') }, async (request, reply) => {
+        try {
+            const { id, version } = request.params as { id: string; version: string };
+
+            if (!(await canReadHistory(request, id))) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'Patient not found'
+                });
+            }
+
+            const found = await PatientVersion.findOne({ patientId: id, version: parseInt(version) || 0 });
+
+            if (!found) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'Version not found'
+                });
+            }
+
+            await recordAudit(request, { action: 'patient.history', patientId: id });
+
+            return reply.send(toPatientVersionResponse(found, true));
+        } catch (error) {
+            request.log.error('Error fetching patient version:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to fetch patient version'
+            });
+        }
+    });
+
+    // POST /api/patients/:id/history/:version/restore - Roll a patient back to an earlier version
+    app.post('/patients/:id/history/:version/restore', { preHandler: requirePermission('patients:write') }, async (request, reply) => {
+        try {
+            const { id, version } = request.params as { id: string; version: string };
+
+            const patient = await Patient.findOne({ _id: id, ...ACTIVE_PATIENT });
+
+            if (!patient) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'Patient not found'
+                });
+            }
+
+            // Optional here: a restore replaces the whole record anyway
+            const conflict = checkPatientVersion(request, patient, { required: false });
+            if (conflict) {
+                return reply.status(conflict.status).send(conflict.body);
+            }
+
+            const target = await PatientVersion.findOne({ patientId: id, version: parseInt(version) || 0 });
+
+            if (!target) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'Version not found'
+                });
+            }
+
+            const before = toPatientSnapshot(patient);
+
+            const missing = missingRestorePermissions(request, before, target.snapshot);
+            if (missing.length > 0) {
+                return reply.status(403).send({
+                    error: 'Forbidden',
+                    message: `Restoring this version also requires: ${missing.join(', ')}`
+                });
+            }
+
+            // Fields absent from the snapshot were empty at that point and are cleared
+            for (const field of versionedFields(patient)) {
+                patient.set(field, target.snapshot[field]);
+            }
+
+            // Notes and vaccinations added since are never removed: notes go to the
+            // trash and vaccinations are voided, as their own routes would do
+            const now = new Date();
+            for (const note of droppedEntries(before, target.snapshot, 'notes')) {
+                patient.notes.push({
+                    ...note,
+                    ...(!note.deletedAt && { deletedAt: now, deletedBy: request.user!.id, deletionReason: RESTORE_REASON })
+                });
+            }
+            for (const entry of droppedEntries(before, target.snapshot, 'vaccinations')) {
+                patient.vaccinations.push({
+                    ...entry,
+                    ...(!entry.voidedAt && { voidedAt: now, voidedBy: request.user!.id, voidReason: RESTORE_REASON })
+                });
+            }
+
+            await patient.save();
+            const restored = await recordPatientVersion(request, patient, {
+                action: 'restore',
+                before,
+                restoredFrom: target.version
+            });
+
+            await recordAudit(request, {
+                action: 'patient.restore',
+                patientId: id,
+                changes: restored.changes
+            });
+
+            const response = toPatientResponse(patient);
+
+            return reply.header('ETag', toEtag(response.version)).send(response);
+        } catch (error: any) {
+            request.log.error('Error restoring patient version:', error);
+
+            if (error.name === 'VersionError') {
+                const conflict = await latestVersionConflict(request);
+                return reply.status(conflict.status).send(conflict.body);
+            }
+
+            if (error.name === 'ValidationError') {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: 'The selected version is no longer valid'
+                });
+            }
+
+            const duplicate = uniqueFieldConflict(error);
+            if (duplicate) {
+                return reply.status(409).send(duplicate);
+            }
+
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to restore patient version'
+            });
+        }
+    });
+
+    // POST /api/patients/:id/merge - Merge another record into this patient, leaving a redirect behind
+    app.post('/patients/:id/merge', { preHandler: requirePermission('patients:merge') }, async (request, reply) => {
+        try {
+            const { id } = request.params as { id: string };
+            const { sourceId } = (request.body || {}) as { sourceId?: string };
+
+            if (!sourceId || sourceId === id) {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: 'sourceId must be a different patient'
+                });
+            }
+
+            const [target, source] = await Promise.all([
+                Patient.findOne({ _id: id, ...ACTIVE_PATIENT }),
+                Patient.findOne({ _id: sourceId, ...ACTIVE_PATIENT })
+            ]);
+
+            if (!target || !source) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'Patient not found'
+                });
+            }
+
+            const conflict = checkPatientVersion(request, target);
+            if (conflict) {
+                return reply.status(conflict.status).send(conflict.body);
+            }
+
+            const changes = await mergePatients(request, target, source);
+
+            await recordAudit(request, {
+                action: 'patient.merge',
+                patientId: id,
+                patientIds: [id, sourceId],
+                changes
+            });
+
+            const response = toPatientResponse(target);
+
+            return reply.header('ETag', toEtag(response.version)).send(response);
+        } catch (error: any) {
+            request.log.error('Error merging patients:', error);
+
+            if (error.name === 'VersionError') {
+                const conflict = await latestVersionConflict(request);
+                return reply.status(conflict.status).send(conflict.body);
+            }
+
+            if (error.name === 'ValidationError') {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: 'The merged record would be invalid (for example, too many notes)',
+                    details: Object.values(error.errors).map((err: any) => ({
+                        field: err.path,
+                        message: err.message
+                    }))
+                });
+            }
+
+            const duplicate = uniqueFieldConflict(error);
+            if (duplicate) {
+                return reply.status(409).send(duplicate);
+            }
+
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to merge patients'
+            });
+        }
+    });
 };
 
 export default routes;
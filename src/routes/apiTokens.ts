@@ -0,0 +1,128 @@
+import { FastifyPluginAsync } from 'fastify';
+import { IApiToken, User } from '../models/authModels';
+import { ApiTokenService } from '../auth/apiTokens';
+import { Permission } from '../auth/permissions';
+import { requireSession } from '../middleware/requireAuth';
+import { ApiTokenResponse, CreateApiTokenRequest } from '../shared/types';
+import logger from '../utils/logger';
+
+function toApiTokenResponse(apiToken: IApiToken): ApiTokenResponse {
+    return {
+        id: apiToken._id,
+        name: apiToken.name,
+        prefix: apiToken.prefix,
+        scopes: apiToken.scopes,
+        expiresAt: apiToken.expires_at.toISOString(),
+        ...(apiToken.last_used_at && { lastUsedAt: apiToken.last_used_at.toISOString() }),
+        ...(apiToken.revoked_at && { revokedAt: apiToken.revoked_at.toISOString() }),
+        createdAt: apiToken.created_at.toISOString()
+    };
+}
+
+// Tokens can only be managed from a browser session, never with another token
+const apiTokenRoutes: FastifyPluginAsync = async (app) => {
+    app.addHook('preHandler', requireSession());
+
+    // GET /api/auth/tokens - List the current user's API tokens
+    app.get('/', async (request, reply) => {
+        try {
+            const tokens = await ApiTokenService.list(request.user!.id);
+
+            return reply.send({
+                tokens: tokens.map(toApiTokenResponse)
+            });
+        } catch (error) {
+            request.log.error('Error fetching API tokens:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to fetch API tokens'
+            });
+        }
+    });
+
+    // POST /api/auth/tokens - Mint a scoped, expiring API token
+    app.post('/', async (request, reply) => {
+        try {
+            const { name, scopes, expiresInDays } = request.body as CreateApiTokenRequest;
+
+            if (!name || !String(name).trim()) {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: 'Token name is required'
+                });
+            }
+
+            if (!Array.isArray(scopes) || scopes.length === 0) {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: 'At least one scope is required'
+                });
+            }
+
+            const invalid = ApiTokenService.invalidScopes(request.user!.role, scopes);
+            if (invalid.length > 0) {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: `Scopes not allowed for your role: ${invalid.join(', ')}`
+                });
+            }
+
+            const user = await User.findById(request.user!.id);
+            if (!user) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'User not found'
+                });
+            }
+
+            const { apiToken, token } = await ApiTokenService.create(user, {
+                name: String(name).trim(),
+                scopes: scopes as Permission[],
+                expiresInDays
+            });
+
+            logger.auth(`Token de API "${apiToken.name}" creado para ${user.email}`);
+
+            // The raw token is only ever returned here; we keep just its hash
+            return reply.status(201).send({
+                token,
+                apiToken: toApiTokenResponse(apiToken)
+            });
+        } catch (error) {
+            request.log.error('Error creating API token:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to create API token'
+            });
+        }
+    });
+
+    // DELETE /api/auth/tokens/:id - Revoke one of the current user's API tokens
+    app.delete('/:id', async (request, reply) => {
+        try {
+            const { id } = request.params as { id: string };
+
+            const apiToken = await ApiTokenService.revoke(request.user!.id, id);
+
+            if (!apiToken) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'Active API token not found'
+                });
+            }
+
+            return reply.send({
+                message: 'API token revoked successfully',
+                apiToken: toApiTokenResponse(apiToken)
+            });
+        } catch (error) {
+            request.log.error('Error revoking API token:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to revoke API token'
+            });
+        }
+    });
+};
+
+export default apiTokenRoutes;
@@ -0,0 +1,103 @@
+import { FastifyPluginAsync } from 'fastify';
+import { AuditLog, IAuditLog } from '../models/AuditLog';
+import { requirePermission } from '../middleware/requireAuth';
+import { AuditLogResponse, AuditLogSearchParams } from '../shared/types';
+
+function toAuditLogResponse(entry: IAuditLog): AuditLogResponse {
+    return {
+        id: entry._id.toString(),
+        actorId: entry.actorId,
+        actorEmail: entry.actorEmail,
+        actorRole: entry.actorRole,
+        ...(entry.apiTokenId && { apiTokenId: entry.apiTokenId }),
+        action: entry.action,
+        ...(entry.patientId && { patientId: entry.patientId }),
+        ...(entry.patientIds && { patientIds: entry.patientIds }),
+        ...(entry.noteId && { noteId: entry.noteId }),
+        ...(entry.vaccinationId && { vaccinationId: entry.vaccinationId }),
+        ...(entry.entryId && { entryId: entry.entryId }),
+        changes: entry.changes,
+        ip: entry.ip,
+        userAgent: entry.userAgent,
+        createdAt: entry.createdAt.toISOString()
+    };
+}
+
+function parseDate(value?: string): Date | null {
+    if (!value) return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+const auditRoutes: FastifyPluginAsync = async (app) => {
+    app.addHook('preHandler', requirePermission('audit:read'));
+
+    // GET /api/audit - Query the audit trail, newest first
+    app.get('/', async (request, reply) => {
+        try {
+            const {
+                patientId,
+                userId,
+                action,
+                from,
+                to,
+                limit = '50',
+                offset = '0'
+            } = request.query as { [K in keyof AuditLogSearchParams]?: string };
+
+            const fromDate = parseDate(from);
+            const toDate = parseDate(to);
+
+            if ((from && !fromDate) || (to && !toDate)) {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: 'from and to must be valid dates'
+                });
+            }
+
+            const limitNum = Math.min(parseInt(String(limit)) || 50, 200);
+            const offsetNum = parseInt(String(offset)) || 0;
+
+            const filter: Record<string, any> = {};
+            if (patientId) {
+                // Includes list reads in which the patient appeared
+                filter.$or = [{ patientId: String(patientId) }, { patientIds: String(patientId) }];
+            }
+            if (userId) {
+                filter.actorId = String(userId);
+            }
+            if (action) {
+                filter.action = String(action);
+            }
+            if (fromDate || toDate) {
+                filter.createdAt = {
+                    ...(fromDate && { $gte: fromDate }),
+                    ...(toDate && { $lte: toDate })
+                };
+            }
+
+            const [entries, total] = await Promise.all([
+                AuditLog.find(filter)
+                    .sort({ createdAt: -1 })
+                    .skip(offsetNum)
+                    .limit(limitNum),
+                AuditLog.countDocuments(filter)
+            ]);
+
+            return reply.send({
+                entries: entries.map(toAuditLogResponse),
+                total,
+                limit: limitNum,
+                offset: offsetNum
+            });
+        } catch (error) {
+            request.log.error('Error fetching audit log:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to fetch audit log'
+            });
+        }
+    });
+};
+
+export default auditRoutes;
@@ -1,25 +1,59 @@
-import { FastifyPluginAsync } from 'fastify';
+import { FastifyPluginAsync, FastifyRequest, FastifyReply } from 'fastify';
 import { auth } from '../auth/lucia';
-import { User } from '../models/authModels';
+import { User, Invitation, IInvitation, PasswordReset } from '../models/authModels';
+import { generateToken, hashToken } from '../auth/tokens';
+import { TwoFactorService } from '../auth/twoFactor';
+import { ApiTokenService } from '../auth/apiTokens';
+import { LoginAttemptService, LoginContext, LockStatus } from '../auth/loginAttempts';
+import { requireAuth, requireSession } from '../middleware/requireAuth';
+import { sendMail } from '../mail';
+import { passwordResetEmail } from '../mail/templates';
+import { UserRole } from '../shared/types';
 import { randomUUID } from 'crypto';
 import argon2 from 'argon2';
 import logger from '../utils/logger';
+import { getFrontendUrl } from '../utils/frontendUrl';
 
 // @fastify/cookie already provides setCookie and clearCookie methods
 
+const DEFAULT_RESET_TTL_MINUTES = 60;
+
+function loginContext(req: FastifyRequest): LoginContext {
+    return {
+        ip: req.ip,
+        userAgent: req.headers['user-agent']
+    };
+}
+
+function sendLocked(reply: FastifyReply, lock: LockStatus) {
+    reply.header('Retry-After', String(lock.retryAfterSeconds));
+
+    if (lock.lockedOut) {
+        return reply.code(423).send({
+            error: 'Locked',
+            message: `Account temporarily locked after too many failed attempts, retry in ${lock.retryAfterSeconds} seconds`,
+            retryAfter: lock.retryAfterSeconds
+        });
+    }
+
+    return reply.code(429).send({
+        error: 'Too Many Requests',
+        message: `Too many failed attempts, retry in ${lock.retryAfterSeconds} seconds`,
+        retryAfter: lock.retryAfterSeconds
+    });
+}
+
 const authRoutes: FastifyPluginAsync = async (app) => {
-    // Sign up
+    // Sign up - requires an invitation token, except for bootstrapping the first admin
     app.post('/signup', async (req, reply) => {
         logger.auth('Solicitud de registro recibida');
         try {
-            const { email, password, role } = req.body as {
+            const { email, password, token } = req.body as {
                 email: string;
                 password: string;
-                role?: 'admin' | 'doctor' | 'nurse' | 'assistant';
+                token?: string;
             };
 
-            logger.debug(`Registro: ${email}, rol: ${role || 'assistant'}`);
-
             if (!email || !password) {
                 return reply.code(400).send({
                     error: 'Validation Error',
@@ -27,8 +61,40 @@ const authRoutes: FastifyPluginAsync = async (app) => {
                 });
             }
 
+            const normalizedEmail = String(email).trim().toLowerCase();
+            let role: UserRole;
+            let invitation: IInvitation | null = null;
+
+            if (token) {
+                invitation = await Invitation.findOne({
+                    token_hash: hashToken(String(token)),
+                    used_at: null,
+                    expires_at: { $gt: new Date() }
+                });
+
+                if (!invitation || invitation.email !== normalizedEmail) {
+                    return reply.code(400).send({
+                        error: 'Validation Error',
+                        message: 'Invalid or expired invitation'
+                    });
+                }
+
+                role = invitation.role;
+            } else if (process.env.ALLOW_BOOTSTRAP_SIGNUP === 'true' && await User.countDocuments() === 0) {
+                // First-run bootstrap: the very first account becomes the clinic admin
+                role = 'admin';
+                logger.warning('Creando administrador inicial mediante registro abierto');
+            } else {
+                return reply.code(403).send({
+                    error: 'Forbidden',
+                    message: 'Signup requires a valid invitation'
+                });
+            }
+
+            logger.debug(`Registro: ${normalizedEmail}, rol: ${role}`);
+
             // Check if user already exists
-            const existing = await User.findOne({ email });
+            const existing = await User.findOne({ email: normalizedEmail });
             if (existing) {
                 return reply.code(409).send({
                     error: 'Conflict',
@@ -43,13 +109,33 @@ const authRoutes: FastifyPluginAsync = async (app) => {
             // Create user
             await User.create({
                 _id: userId,
-                email,
+                email: normalizedEmail,
                 hashed_password: hashed,
-                role: role || 'assistant'
+                role
             });
 
+            if (invitation) {
+                await Invitation.findByIdAndUpdate(invitation._id, {
+                    used_at: new Date(),
+                    used_by: userId
+                });
+            }
+
+            // Roles with mandatory 2FA enroll before their first session
+            if (TwoFactorService.isRequiredForRole(role)) {
+                const challengeToken = await TwoFactorService.createLoginChallenge(userId);
+
+                return reply.code(201).send({
+                    message: 'User created successfully',
+                    user: { id: userId, email: normalizedEmail, role },
+                    mfaRequired: true,
+                    enrollmentRequired: true,
+                    challengeToken
+                });
+            }
+
             // Create session
-            const session = await auth.createSession(userId);
+            const session = await auth.createSession(userId, loginContext(req));
             const cookie = auth.createSessionCookie(
                 session.id,
                 process.env.NODE_ENV === 'production'
@@ -59,7 +145,7 @@ const authRoutes: FastifyPluginAsync = async (app) => {
 
             return reply.code(201).send({
                 message: 'User created successfully',
-                user: { id: userId, email, role: role || 'assistant' }
+                user: { id: userId, email: normalizedEmail, role }
             });
         } catch (error) {
             logger.error('Error en registro de usuario');
@@ -83,26 +169,67 @@ const authRoutes: FastifyPluginAsync = async (app) => {
                 });
             }
 
+            const context = loginContext(req);
+            const normalizedEmail = String(email).trim().toLowerCase();
+
             // Find user
-            const user = await User.findOne({ email });
+            const user = await User.findOne({ email: normalizedEmail });
             if (!user) {
+                await LoginAttemptService.record(context, { email: normalizedEmail, result: 'unknown_user' });
                 return reply.code(401).send({
                     error: 'Unauthorized',
                     message: 'Invalid credentials'
                 });
             }
 
+            // Locked accounts are rejected before the password is even checked
+            const lock = await LoginAttemptService.beginAttempt(user);
+            if (lock.locked) {
+                await LoginAttemptService.record(context, { userId: user._id, email: user.email, result: 'locked' });
+                return sendLocked(reply, lock);
+            }
+
             // Verify password
             const isValidPassword = await argon2.verify(user.hashed_password, password);
             if (!isValidPassword) {
+                await LoginAttemptService.recordFailure(user, context, 'invalid_password');
                 return reply.code(401).send({
                     error: 'Unauthorized',
                     message: 'Invalid credentials'
                 });
             }
 
+            if (user.active === false) {
+                await LoginAttemptService.endAttempt(user);
+                await LoginAttemptService.record(context, { userId: user._id, email: user.email, result: 'disabled' });
+                return reply.code(403).send({
+                    error: 'Forbidden',
+                    message: 'Account is disabled'
+                });
+            }
+
+            // Second factor: no session until the TOTP (or enrollment) step succeeds
+            if (TwoFactorService.needsSecondFactor(user)) {
+                await LoginAttemptService.endAttempt(user);
+                await LoginAttemptService.record(context, {
+                    userId: user._id,
+                    email: user.email,
+                    result: 'second_factor_required'
+                });
+                const challengeToken = await TwoFactorService.createLoginChallenge(user._id);
+
+                return reply.send({
+                    message: 'Second factor required',
+                    mfaRequired: true,
+                    enrollmentRequired: !user.totp_enabled,
+                    challengeToken
+                });
+            }
+
+            await LoginAttemptService.recordSuccess(user, context);
+
             // Create session
-            const session = await auth.createSession(user._id);
+            const session = await auth.createSession(user._id, context);
             const cookie = auth.createSessionCookie(
                 session.id,
                 process.env.NODE_ENV === 'production'
@@ -123,6 +250,110 @@ const authRoutes: FastifyPluginAsync = async (app) => {
         }
     });
 
+    // Login step 2 (enrollment) - provisioning data for users who must set up TOTP before logging in
+    app.post('/login/2fa/setup', async (req, reply) => {
+        try {
+            const { challengeToken } = req.body as { challengeToken: string };
+
+            const { user } = await TwoFactorService.findLoginChallenge(challengeToken);
+
+            if (!user) {
+                return reply.code(401).send({
+                    error: 'Unauthorized',
+                    message: 'Invalid or expired login challenge'
+                });
+            }
+
+            if (user.totp_enabled) {
+                return reply.code(409).send({
+                    error: 'Conflict',
+                    message: 'Two-factor authentication is already enabled'
+                });
+            }
+
+            const enrollment = await TwoFactorService.beginEnrollment(user);
+
+            return reply.send(enrollment);
+        } catch (error) {
+            req.log.error('2FA login setup error:', error);
+            return reply.code(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to start two-factor enrollment'
+            });
+        }
+    });
+
+    // Login step 2 - verify the second factor and issue the session
+    app.post('/login/2fa', async (req, reply) => {
+        try {
+            const { challengeToken, code, recoveryCode } = req.body as {
+                challengeToken: string;
+                code?: string;
+                recoveryCode?: string;
+            };
+
+            const { challenge, user } = await TwoFactorService.findLoginChallenge(challengeToken);
+
+            if (!challenge || !user) {
+                return reply.code(401).send({
+                    error: 'Unauthorized',
+                    message: 'Invalid or expired login challenge'
+                });
+            }
+
+            const context = loginContext(req);
+            const lock = await LoginAttemptService.beginAttempt(user);
+            if (lock.locked) {
+                await LoginAttemptService.record(context, { userId: user._id, email: user.email, result: 'locked' });
+                return sendLocked(reply, lock);
+            }
+
+            let recoveryCodes: string[] | null = null;
+            let verified: boolean;
+
+            if (user.totp_enabled) {
+                verified = await TwoFactorService.verify(user, { code, recoveryCode });
+            } else {
+                // Mandatory enrollment completes with the first valid code
+                recoveryCodes = code ? await TwoFactorService.completeEnrollment(user, code) : null;
+                verified = !!recoveryCodes;
+            }
+
+            if (!verified) {
+                await TwoFactorService.recordFailedChallenge(challenge);
+                await LoginAttemptService.recordFailure(user, context, 'invalid_second_factor');
+                return reply.code(401).send({
+                    error: 'Unauthorized',
+                    message: 'Invalid verification code'
+                });
+            }
+
+            await TwoFactorService.completeLoginChallenge(challenge);
+            await LoginAttemptService.recordSuccess(user, context);
+
+            // Create session
+            const session = await auth.createSession(user._id, context);
+            const cookie = auth.createSessionCookie(
+                session.id,
+                process.env.NODE_ENV === 'production'
+            );
+
+            reply.setCookie(cookie.name, cookie.value, cookie.attributes);
+
+            return reply.send({
+                message: 'Logged in successfully',
+                user: { id: user._id, email: user.email, role: user.role },
+                ...(recoveryCodes && { recoveryCodes })
+            });
+        } catch (error) {
+            req.log.error('2FA login error:', error);
+            return reply.code(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to verify second factor'
+            });
+        }
+    });
+
     // Logout
     app.post('/logout', async (req, reply) => {
         try {
@@ -142,6 +373,325 @@ const authRoutes: FastifyPluginAsync = async (app) => {
         }
     });
 
+    // Forgot password - emails a single-use reset link
+    app.post('/forgot-password', async (req, reply) => {
+        try {
+            const { email } = req.body as { email: string };
+
+            if (!email) {
+                return reply.code(400).send({
+                    error: 'Validation Error',
+                    message: 'Email is required'
+                });
+            }
+
+            const user = await User.findOne({ email: String(email).trim().toLowerCase() });
+
+            // Only active accounts get a link, but the response never reveals whether the email exists
+            if (user && user.active !== false) {
+                const ttlMinutes = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '') || DEFAULT_RESET_TTL_MINUTES;
+                const token = generateToken();
+
+                // A new request supersedes any link sent before
+                await PasswordReset.deleteMany({ user_id: user._id, used_at: null });
+                await PasswordReset.create({
+                    _id: randomUUID(),
+                    user_id: user._id,
+                    token_hash: hashToken(token),
+                    expires_at: new Date(Date.now() + ttlMinutes * 60 * 1000),
+                    requested_ip: req.ip
+                });
+
+                const resetUrl = `${getFrontendUrl()}/reset-password?token=${token}`;
+
+                // Not awaited: a slower response for existing accounts would reveal them
+                sendMail(passwordResetEmail(user.email, resetUrl, ttlMinutes))
+                    .then(() => logger.auth(`Enlace de restablecimiento enviado a ${user.email}`))
+                    .catch(mailError => {
+                        logger.error('Error al enviar correo de restablecimiento');
+                        req.log.error('Password reset mail error:', mailError);
+                    });
+            }
+
+            return reply.send({
+                message: 'If the account exists, a password reset link has been sent'
+            });
+        } catch (error) {
+            req.log.error('Forgot password error:', error);
+            return reply.code(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to process password reset request'
+            });
+        }
+    });
+
+    // Reset password - consumes the token, sets the password and ends every session
+    app.post('/reset-password', async (req, reply) => {
+        try {
+            const { token, password } = req.body as { token: string; password: string };
+
+            if (!token || !password) {
+                return reply.code(400).send({
+                    error: 'Validation Error',
+                    message: 'Token and password are required'
+                });
+            }
+
+            // Claim the token atomically so it cannot be used twice
+            const reset = await PasswordReset.findOneAndUpdate(
+                {
+                    token_hash: hashToken(String(token)),
+                    used_at: null,
+                    expires_at: { $gt: new Date() }
+                },
+                { used_at: new Date() },
+                { new: true }
+            );
+
+            const user = reset && await User.findById(reset.user_id);
+
+            if (!user || user.active === false) {
+                return reply.code(400).send({
+                    error: 'Validation Error',
+                    message: 'Invalid or expired reset token'
+                });
+            }
+
+            user.hashed_password = await argon2.hash(password);
+            await user.save();
+            await auth.invalidateAllUserSessions(user._id);
+            await ApiTokenService.revokeAll(user._id);
+            // Proving control of the email also lifts a lockout from failed logins
+            await LoginAttemptService.unlock(user._id);
+            logger.auth(`Contraseña restablecida: ${user.email}`);
+
+            return reply.send({ message: 'Password reset successfully' });
+        } catch (error) {
+            req.log.error('Reset password error:', error);
+            return reply.code(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to reset password'
+            });
+        }
+    });
+
+    // Recent sign-in activity on the current account
+    app.get('/login-attempts', { preHandler: requireAuth() }, async (req, reply) => {
+        try {
+            const { limit = '20', offset = '0' } = req.query as { limit?: string; offset?: string };
+
+            const limitNum = Math.min(parseInt(String(limit)) || 20, 100);
+            const offsetNum = parseInt(String(offset)) || 0;
+
+            const history = await LoginAttemptService.history(req.user!.id, limitNum, offsetNum);
+
+            return reply.send({ ...history, limit: limitNum, offset: offsetNum });
+        } catch (error) {
+            req.log.error('Login attempts error:', error);
+            return reply.code(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to fetch login attempts'
+            });
+        }
+    });
+
+    // Two-factor status for the current user
+    app.get('/2fa', { preHandler: requireSession() }, async (req, reply) => {
+        const user = await User.findById(req.user!.id);
+
+        return reply.send({
+            enabled: !!user?.totp_enabled,
+            required: TwoFactorService.isRequiredForRole(req.user!.role),
+            recoveryCodesRemaining: user?.recovery_codes.length || 0
+        });
+    });
+
+    // Start (or restart) TOTP enrollment for the current user
+    app.post('/2fa/setup', { preHandler: requireSession() }, async (req, reply) => {
+        try {
+            const user = await User.findById(req.user!.id);
+
+            if (!user) {
+                return reply.code(401).send({
+                    error: 'Unauthorized',
+                    message: 'Not authenticated'
+                });
+            }
+
+            if (user.totp_enabled) {
+                return reply.code(409).send({
+                    error: 'Conflict',
+                    message: 'Two-factor authentication is already enabled'
+                });
+            }
+
+            const enrollment = await TwoFactorService.beginEnrollment(user);
+
+            return reply.send(enrollment);
+        } catch (error) {
+            req.log.error('2FA setup error:', error);
+            return reply.code(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to start two-factor enrollment'
+            });
+        }
+    });
+
+    // Confirm enrollment with a first code; returns the recovery codes once
+    app.post('/2fa/enable', { preHandler: requireSession() }, async (req, reply) => {
+        try {
+            const { code } = req.body as { code: string };
+            const user = await User.findById(req.user!.id);
+
+            const recoveryCodes = user && code ? await TwoFactorService.completeEnrollment(user, code) : null;
+
+            if (!recoveryCodes) {
+                return reply.code(400).send({
+                    error: 'Validation Error',
+                    message: 'Invalid verification code'
+                });
+            }
+
+            logger.auth(`2FA activado: ${user!.email}`);
+
+            return reply.send({
+                message: 'Two-factor authentication enabled',
+                recoveryCodes
+            });
+        } catch (error) {
+            req.log.error('2FA enable error:', error);
+            return reply.code(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to enable two-factor authentication'
+            });
+        }
+    });
+
+    // Turn 2FA off (not allowed for roles where it is mandatory)
+    app.post('/2fa/disable', { preHandler: requireSession() }, async (req, reply) => {
+        try {
+            const { code, recoveryCode } = req.body as { code?: string; recoveryCode?: string };
+
+            if (TwoFactorService.isRequiredForRole(req.user!.role)) {
+                return reply.code(403).send({
+                    error: 'Forbidden',
+                    message: 'Two-factor authentication is mandatory for your role'
+                });
+            }
+
+            const user = await User.findById(req.user!.id);
+
+            if (!user || !await TwoFactorService.verify(user, { code, recoveryCode })) {
+                return reply.code(400).send({
+                    error: 'Validation Error',
+                    message: 'Invalid verification code'
+                });
+            }
+
+            await TwoFactorService.disable(user);
+            logger.auth(`2FA desactivado: ${user.email}`);
+
+            return reply.send({ message: 'Two-factor authentication disabled' });
+        } catch (error) {
+            req.log.error('2FA disable error:', error);
+            return reply.code(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to disable two-factor authentication'
+            });
+        }
+    });
+
+    // Replace the recovery codes (the old ones stop working)
+    app.post('/2fa/recovery-codes', { preHandler: requireSession() }, async (req, reply) => {
+        try {
+            const { code } = req.body as { code: string };
+            const user = await User.findById(req.user!.id);
+
+            if (!user || !await TwoFactorService.verify(user, { code })) {
+                return reply.code(400).send({
+                    error: 'Validation Error',
+                    message: 'Invalid verification code'
+                });
+            }
+
+            const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(user);
+
+            return reply.send({ recoveryCodes });
+        } catch (error) {
+            req.log.error('2FA recovery codes error:', error);
+            return reply.code(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to regenerate recovery codes'
+            });
+        }
+    });
+
+    // Active sessions (devices) of the current user
+    app.get('/sessions', { preHandler: requireSession() }, async (req, reply) => {
+        try {
+            const sessions = await auth.listUserSessions(req.user!.id, req.session?.id);
+
+            return reply.send({ sessions });
+        } catch (error) {
+            req.log.error('List sessions error:', error);
+            return reply.code(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to fetch sessions'
+            });
+        }
+    });
+
+    // Log out everywhere else - revoke every session except the current one
+    app.delete('/sessions', { preHandler: requireSession() }, async (req, reply) => {
+        try {
+            const revoked = req.session
+                ? await auth.invalidateOtherUserSessions(req.user!.id, req.session.id)
+                : 0;
+
+            return reply.send({
+                message: 'Other sessions revoked successfully',
+                revoked
+            });
+        } catch (error) {
+            req.log.error('Revoke sessions error:', error);
+            return reply.code(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to revoke sessions'
+            });
+        }
+    });
+
+    // Revoke a single session, e.g. one left open on a shared reception PC
+    app.delete('/sessions/:id', { preHandler: requireSession() }, async (req, reply) => {
+        try {
+            const { id } = req.params as { id: string };
+
+            const revoked = await auth.invalidateUserSession(req.user!.id, id);
+
+            if (!revoked) {
+                return reply.code(404).send({
+                    error: 'Not Found',
+                    message: 'Session not found'
+                });
+            }
+
+            if (req.session?.publicId === id) {
+                reply.clearCookie('session', { path: '/' });
+            }
+
+            return reply.send({
+                message: 'Session revoked successfully',
+                id
+            });
+        } catch (error) {
+            req.log.error('Revoke session error:', error);
+            return reply.code(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to revoke session'
+            });
+        }
+    });
+
     // Test endpoint (no auth required)
     app.get('/test', async (req, reply) => {
         return reply.send({
@@ -164,8 +714,18 @@ const authRoutes: FastifyPluginAsync = async (app) => {
             });
         }
 
+        const session = req.session;
+
         return reply.send({
-            user: req.user
+            user: req.user,
+            ...(session && {
+                session: {
+                    expiresAt: session.expiresAt.toISOString(),
+                    idleExpiresAt: session.idleExpiresAt.toISOString(),
+                    idleTimeoutSeconds: Math.round(session.idleTimeout / 1000),
+                    idleRemainingSeconds: Math.max(0, Math.floor((session.idleExpiresAt.getTime() - Date.now()) / 1000))
+                }
+            })
         });
     });
 };
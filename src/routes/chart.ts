@@ -0,0 +1,251 @@
+import { FastifyPluginAsync, FastifyReply } from 'fastify';
+import { Patient, ACTIVE_PATIENT } from '../models/Patient';
+import { AuditAction } from '../models/AuditLog';
+import { requirePermission } from '../middleware/requireAuth';
+import { recordAudit, diffFields } from '../utils/audit';
+import { recordPatientVersion, toPatientSnapshot } from '../utils/patientVersions';
+import { toPatientResponse } from '../utils/patientResponse';
+import { checkPatientVersion, latestVersionConflict, toEtag } from '../utils/concurrency';
+import { CHART_LISTS, ChartList } from '../utils/chart';
+
+function sendValidationError(reply: FastifyReply, list: ChartList, error: any) {
+    return reply.status(400).send({
+        error: 'Validation Error',
+        message: `Invalid ${list.label.toLowerCase()} data`,
+        details: Object.values(error.errors).map((err: any) => ({
+            field: err.path,
+            message: err.message
+        }))
+    });
+}
+
+// Fields of the list present in the body; null clears an optional field
+function pickFields(list: ChartList, body: Record<string, any>): Record<string, any> {
+    return Object.fromEntries(
+        list.fields.filter(field => body[field] !== undefined).map(field => [field, body[field] ?? undefined])
+    );
+}
+
+function findEntry(entries: any[], entryId: string): any {
+    return entries.find(entry => entry._id?.toString() === entryId);
+}
+
+/**
+ * Allergies, the problem list and current medications. Every list gets the same
+ * routes under /api/patients/:id/<list>; entries are removed outright, the
+ * patient history keeps the earlier versions.
+ */
+const chartRoutes: FastifyPluginAsync = async (app) => {
+    for (const list of CHART_LISTS) {
+        const notFound = { error: 'Not Found', message: `${list.label} not found` };
+
+        // GET /api/patients/:id/<list> - Entries of one chart list
+        app.get(`/:id/${list.path}`, { preHandler: requirePermission('patients:read') }, async (request, reply) => {
+            try {
+                const { id } = request.params as { id: string };
+
+                const patient = await Patient.findOne({ _id: id, ...ACTIVE_PATIENT }).lean();
+
+                if (!patient) {
+                    return reply.status(404).send({
+                        error: 'Not Found',
+                        message: 'Patient not found'
+                    });
+                }
+
+                await recordAudit(request, { action: 'patient.view', patientId: id });
+
+                return reply.send({ [list.path]: toPatientResponse(patient)[list.path] });
+            } catch (error) {
+                request.log.error(`Error fetching ${list.path}:`, error);
+                return reply.status(500).send({
+                    error: 'Internal Server Error',
+                    message: `Failed to fetch ${list.path}`
+                });
+            }
+        });
+
+        // POST /api/patients/:id/<list> - Add an entry
+        app.post(`/:id/${list.path}`, { preHandler: requirePermission('chart:write') }, async (request, reply) => {
+            try {
+                const { id } = request.params as { id: string };
+
+                const patient = await Patient.findOne({ _id: id, ...ACTIVE_PATIENT });
+
+                if (!patient) {
+                    return reply.status(404).send({
+                        error: 'Not Found',
+                        message: 'Patient not found'
+                    });
+                }
+
+                const conflict = checkPatientVersion(request, patient);
+                if (conflict) {
+                    return reply.status(conflict.status).send(conflict.body);
+                }
+
+                const entries: any[] = patient.get(list.path);
+                const before = toPatientSnapshot(patient);
+                entries.push({ ...pickFields(list, (request.body || {}) as Record<string, any>), recordedBy: request.user!.id });
+                await patient.save();
+                await recordPatientVersion(request, patient, { action: 'chart', before });
+
+                const saved = entries[entries.length - 1];
+                await recordAudit(request, {
+                    action: `${list.entity}.create` as AuditAction,
+                    patientId: id,
+                    entryId: saved._id.toString(),
+                    changes: diffFields({}, saved.toObject(), [...list.fields])
+                });
+
+                const response = toPatientResponse(patient);
+
+                return reply.header('ETag', toEtag(response.version)).send(response);
+            } catch (error: any) {
+                request.log.error(`Error adding ${list.entity}:`, error);
+
+                if (error.name === 'VersionError') {
+                    const conflict = await latestVersionConflict(request);
+                    return reply.status(conflict.status).send(conflict.body);
+                }
+
+                if (error.name === 'ValidationError') {
+                    return sendValidationError(reply, list, error);
+                }
+
+                return reply.status(500).send({
+                    error: 'Internal Server Error',
+                    message: `Failed to add ${list.entity}`
+                });
+            }
+        });
+
+        // PUT /api/patients/:id/<list>/:entryId - Change the fields sent, e.g. a problem's status
+        app.put(`/:id/${list.path}/:entryId`, { preHandler: requirePermission('chart:write') }, async (request, reply) => {
+            try {
+                const { id, entryId } = request.params as { id: string; entryId: string };
+                const changes = pickFields(list, (request.body || {}) as Record<string, any>);
+
+                if (Object.keys(changes).length === 0) {
+                    return reply.status(400).send({
+                        error: 'Validation Error',
+                        message: `Send at least one of: ${list.fields.join(', ')}`
+                    });
+                }
+
+                const patient = await Patient.findOne({ _id: id, ...ACTIVE_PATIENT });
+
+                if (!patient) {
+                    return reply.status(404).send({
+                        error: 'Not Found',
+                        message: 'Patient not found'
+                    });
+                }
+
+                const conflict = checkPatientVersion(request, patient);
+                if (conflict) {
+                    return reply.status(conflict.status).send(conflict.body);
+                }
+
+                const entry = findEntry(patient.get(list.path), entryId);
+
+                if (!entry) {
+                    return reply.status(404).send(notFound);
+                }
+
+                const snapshot = toPatientSnapshot(patient);
+                const before = entry.toObject();
+                entry.set(changes);
+
+                await patient.save();
+                await recordPatientVersion(request, patient, { action: 'chart', before: snapshot });
+
+                await recordAudit(request, {
+                    action: `${list.entity}.update` as AuditAction,
+                    patientId: id,
+                    entryId,
+                    changes: diffFields(before, entry.toObject(), Object.keys(changes))
+                });
+
+                const response = toPatientResponse(patient);
+
+                return reply.header('ETag', toEtag(response.version)).send(response);
+            } catch (error: any) {
+                request.log.error(`Error updating ${list.entity}:`, error);
+
+                if (error.name === 'VersionError') {
+                    const conflict = await latestVersionConflict(request);
+                    return reply.status(conflict.status).send(conflict.body);
+                }
+
+                if (error.name === 'ValidationError') {
+                    return sendValidationError(reply, list, error);
+                }
+
+                return reply.status(500).send({
+                    error: 'Internal Server Error',
+                    message: `Failed to update ${list.entity}`
+                });
+            }
+        });
+
+        // DELETE /api/patients/:id/<list>/:entryId - Remove an entry recorded in error
+        app.delete(`/:id/${list.path}/:entryId`, { preHandler: requirePermission('chart:write') }, async (request, reply) => {
+            try {
+                const { id, entryId } = request.params as { id: string; entryId: string };
+
+                const patient = await Patient.findOne({ _id: id, ...ACTIVE_PATIENT });
+
+                if (!patient) {
+                    return reply.status(404).send({
+                        error: 'Not Found',
+                        message: 'Patient not found'
+                    });
+                }
+
+                const conflict = checkPatientVersion(request, patient);
+                if (conflict) {
+                    return reply.status(conflict.status).send(conflict.body);
+                }
+
+                const entry = findEntry(patient.get(list.path), entryId);
+
+                if (!entry) {
+                    return reply.status(404).send(notFound);
+                }
+
+                const before = toPatientSnapshot(patient);
+                const removed = entry.toObject();
+                entry.deleteOne();
+
+                await patient.save();
+                await recordPatientVersion(request, patient, { action: 'chart', before });
+
+                await recordAudit(request, {
+                    action: `${list.entity}.delete` as AuditAction,
+                    patientId: id,
+                    entryId,
+                    changes: diffFields(removed, {}, [...list.fields])
+                });
+
+                const response = toPatientResponse(patient);
+
+                return reply.header('ETag', toEtag(response.version)).send(response);
+            } catch (error: any) {
+                request.log.error(`Error deleting ${list.entity}:`, error);
+
+                if (error.name === 'VersionError') {
+                    const conflict = await latestVersionConflict(request);
+                    return reply.status(conflict.status).send(conflict.body);
+                }
+
+                return reply.status(500).send({
+                    error: 'Internal Server Error',
+                    message: `Failed to delete ${list.entity}`
+                });
+            }
+        });
+    }
+};
+
+export default chartRoutes;
@@ -0,0 +1,49 @@
+import { FastifyPluginAsync, FastifyRequest } from 'fastify';
+import { createHash, timingSafeEqual } from 'crypto';
+import { recordSystemAudit } from '../utils/audit';
+import { purgeExpiredTrash } from '../utils/trash';
+
+// Vercel Cron sends `Authorization: Bearer $CRON_SECRET`; without a secret the jobs are disabled
+function isCronRequest(request: FastifyRequest): boolean {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+        return false;
+    }
+
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(request.headers.authorization || ''), digest(`Bearer ${secret}`));
+}
+
+const cronRoutes: FastifyPluginAsync = async (app) => {
+    app.addHook('preHandler', async (request, reply) => {
+        if (!isCronRequest(request)) {
+            return reply.code(401).send({
+                error: 'Unauthorized',
+                message: 'Invalid cron secret'
+            });
+        }
+    });
+
+    // GET /api/cron/trash-purge - Scheduled purge of items past the retention period
+    app.get('/trash-purge', async (request, reply) => {
+        try {
+            const result = await purgeExpiredTrash();
+
+            await recordSystemAudit(request, { action: 'trash.purge', patientIds: result.patientIds });
+
+            return reply.send({
+                message: 'Trash purged successfully',
+                patients: result.patientIds.length,
+                notes: result.notes
+            });
+        } catch (error) {
+            request.log.error('Error purging trash:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to purge trash'
+            });
+        }
+    });
+};
+
+export default cronRoutes;
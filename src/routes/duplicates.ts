@@ -0,0 +1,252 @@
+import { FastifyPluginAsync } from 'fastify';
+import { Patient, ACTIVE_PATIENT } from '../models/Patient';
+import { DuplicateCandidate, IDuplicateCandidate } from '../models/DuplicateCandidate';
+import { requirePermission } from '../middleware/requireAuth';
+import { recordAudit } from '../utils/audit';
+import { findDuplicateCandidates, queueDuplicateCandidates, toDuplicateSummary } from '../utils/duplicates';
+import { mergePatients } from '../utils/patientMerge';
+import { toPatientResponse, uniqueFieldConflict } from '../utils/patientResponse';
+import { checkPatientVersion, latestVersionConflict, toEtag } from '../utils/concurrency';
+import { DuplicateCandidateResponse } from '../shared/types';
+
+function toDuplicateCandidateResponse(candidate: IDuplicateCandidate, patients: Map<string, any>): DuplicateCandidateResponse {
+    return {
+        id: candidate._id.toString(),
+        patients: candidate.patientIds
+            .filter(id => patients.has(id))
+            .map(id => toDuplicateSummary(patients.get(id))),
+        score: candidate.score,
+        reasons: candidate.reasons,
+        status: candidate.status,
+        ...(candidate.reviewedBy && { reviewedBy: candidate.reviewedBy }),
+        ...(candidate.reviewedAt && { reviewedAt: candidate.reviewedAt.toISOString() }),
+        createdAt: candidate.createdAt.toISOString()
+    };
+}
+
+const duplicateRoutes: FastifyPluginAsync = async (app) => {
+    app.addHook('preHandler', requirePermission('patients:merge'));
+
+    // GET /api/duplicates - Review queue of possible duplicate patients, most likely first
+    app.get('/', async (request, reply) => {
+        try {
+            const { status = 'pending', limit = '20', offset = '0' } = request.query as {
+                status?: string;
+                limit?: string;
+                offset?: string;
+            };
+
+            if (!['pending', 'dismissed', 'merged'].includes(status)) {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: 'status must be pending, dismissed or merged'
+                });
+            }
+
+            const limitNum = Math.min(parseInt(String(limit)) || 20, 100);
+            const offsetNum = parseInt(String(offset)) || 0;
+
+            // Pending pairs with a patient in the trash are left out until it is restored
+            const pipeline: any[] = [
+                { $match: { status } },
+                { $set: { patientObjectIds: { $map: { input: '$patientIds', in: { $toObjectId: '$$this' } } } } },
+                {
+                    $lookup: {
+                        from: Patient.collection.name,
+                        localField: 'patientObjectIds',
+                        foreignField: '_id',
+                        pipeline: [{ $match: ACTIVE_PATIENT }],
+                        as: 'patients'
+                    }
+                },
+                ...(status === 'pending' ? [{ $match: { patients: { $size: 2 } } }] : [])
+            ];
+
+            const [candidates, totalResult] = await Promise.all([
+                DuplicateCandidate.aggregate([
+                    ...pipeline,
+                    { $sort: { score: -1, createdAt: -1 } },
+                    { $skip: offsetNum },
+                    { $limit: limitNum }
+                ]),
+                DuplicateCandidate.aggregate([...pipeline, { $count: 'total' }])
+            ]);
+
+            const patients = candidates.flatMap((candidate: any) => candidate.patients);
+            const byId = new Map(patients.map((patient: any) => [patient._id.toString(), patient]));
+
+            await recordAudit(request, {
+                action: 'patient.list',
+                patientIds: [...byId.keys()]
+            });
+
+            return reply.send({
+                candidates: candidates.map((candidate: any) => toDuplicateCandidateResponse(candidate, byId)),
+                total: totalResult[0]?.total || 0,
+                limit: limitNum,
+                offset: offsetNum
+            });
+        } catch (error) {
+            request.log.error('Error fetching duplicate candidates:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to fetch duplicate candidates'
+            });
+        }
+    });
+
+    // POST /api/duplicates/scan - Look for duplicates among all active patients
+    app.post('/scan', async (request, reply) => {
+        try {
+            const cursor = Patient.find(ACTIVE_PATIENT).lean().cursor();
+            let scanned = 0;
+
+            for await (const patient of cursor) {
+                const matches = await findDuplicateCandidates(patient as any, { excludeId: patient._id.toString() });
+                await queueDuplicateCandidates(patient._id.toString(), matches);
+                scanned++;
+            }
+
+            const pending = await DuplicateCandidate.countDocuments({ status: 'pending' });
+
+            return reply.send({
+                message: 'Duplicate scan completed',
+                scanned,
+                pending
+            });
+        } catch (error) {
+            request.log.error('Error scanning for duplicates:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to scan for duplicates'
+            });
+        }
+    });
+
+    // POST /api/duplicates/:id/dismiss - Mark a pair as different people so it is not suggested again
+    app.post('/:id/dismiss', async (request, reply) => {
+        try {
+            const { id } = request.params as { id: string };
+
+            const candidate = await DuplicateCandidate.findOneAndUpdate(
+                { _id: id, status: 'pending' },
+                { status: 'dismissed', reviewedBy: request.user!.id, reviewedAt: new Date() },
+                { new: true }
+            );
+
+            if (!candidate) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'Pending duplicate candidate not found'
+                });
+            }
+
+            const patients = await Patient.find({ _id: { $in: candidate.patientIds }, ...ACTIVE_PATIENT }).lean();
+
+            await recordAudit(request, {
+                action: 'duplicate.dismiss',
+                patientIds: candidate.patientIds
+            });
+
+            return reply.send(toDuplicateCandidateResponse(
+                candidate,
+                new Map(patients.map((patient: any) => [patient._id.toString(), patient]))
+            ));
+        } catch (error) {
+            request.log.error('Error dismissing duplicate candidate:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to dismiss duplicate candidate'
+            });
+        }
+    });
+
+    // POST /api/duplicates/:id/merge - Merge the pair, keeping the record given as survivorId
+    app.post('/:id/merge', async (request, reply) => {
+        try {
+            const { id } = request.params as { id: string };
+            const { survivorId } = (request.body || {}) as { survivorId?: string };
+
+            const candidate = await DuplicateCandidate.findOne({ _id: id, status: 'pending' });
+
+            if (!candidate) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'Pending duplicate candidate not found'
+                });
+            }
+
+            if (!survivorId || !candidate.patientIds.includes(survivorId)) {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: 'survivorId must be one of the two patients of the candidate'
+                });
+            }
+
+            const sourceId = candidate.patientIds.find(patientId => patientId !== survivorId)!;
+
+            const [target, source] = await Promise.all([
+                Patient.findOne({ _id: survivorId, ...ACTIVE_PATIENT }),
+                Patient.findOne({ _id: sourceId, ...ACTIVE_PATIENT })
+            ]);
+
+            if (!target || !source) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'Patient not found'
+                });
+            }
+
+            // If-Match refers to the surviving record
+            const conflict = checkPatientVersion(request, target);
+            if (conflict) {
+                return reply.status(conflict.status).send(conflict.body);
+            }
+
+            const changes = await mergePatients(request, target, source);
+
+            await recordAudit(request, {
+                action: 'patient.merge',
+                patientId: survivorId,
+                patientIds: [survivorId, sourceId],
+                changes
+            });
+
+            const response = toPatientResponse(target);
+
+            return reply.header('ETag', toEtag(response.version)).send(response);
+        } catch (error: any) {
+            request.log.error('Error merging duplicate candidate:', error);
+
+            // :id is the candidate here, so the conflict reports the survivor
+            if (error.name === 'VersionError') {
+                const { survivorId } = (request.body || {}) as { survivorId?: string };
+                const conflict = await latestVersionConflict(request, survivorId);
+                return reply.status(conflict.status).send(conflict.body);
+            }
+
+            if (error.name === 'ValidationError') {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: 'The merged record would be invalid (for example, too many notes)',
+                    details: Object.values(error.errors).map((err: any) => ({
+                        field: err.path,
+                        message: err.message
+                    }))
+                });
+            }
+
+            const duplicate = uniqueFieldConflict(error);
+            if (duplicate) {
+                return reply.status(409).send(duplicate);
+            }
+
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to merge duplicate candidate'
+            });
+        }
+    });
+};
+
+export default duplicateRoutes;
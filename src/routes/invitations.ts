@@ -0,0 +1,141 @@
+import { FastifyPluginAsync } from 'fastify';
+import { randomUUID } from 'crypto';
+import { Invitation, IInvitation, User } from '../models/authModels';
+import { requirePermission } from '../middleware/requireAuth';
+import { generateToken, hashToken } from '../auth/tokens';
+import { CreateInvitationRequest, InvitationResponse, USER_ROLES } from '../shared/types';
+import logger from '../utils/logger';
+import { getFrontendUrl } from '../utils/frontendUrl';
+
+const DEFAULT_INVITATION_TTL_HOURS = 72;
+const MAX_INVITATION_TTL_HOURS = 24 * 30;
+
+function toInvitationResponse(invitation: IInvitation): InvitationResponse {
+    return {
+        id: invitation._id,
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expires_at.toISOString(),
+        createdBy: invitation.created_by,
+        ...(invitation.used_at && { usedAt: invitation.used_at.toISOString() }),
+        createdAt: invitation.created_at?.toISOString()
+    };
+}
+
+const invitationRoutes: FastifyPluginAsync = async (app) => {
+    app.addHook('preHandler', requirePermission('users:manage'));
+
+    // GET /api/invitations - List invitations (pending only unless ?all=true)
+    app.get('/', async (request, reply) => {
+        try {
+            const { all } = request.query as { all?: string };
+
+            const filter = all === 'true'
+                ? {}
+                : { used_at: null, expires_at: { $gt: new Date() } };
+
+            const invitations = await Invitation.find(filter).sort({ created_at: -1 });
+
+            return reply.send({
+                invitations: invitations.map(toInvitationResponse)
+            });
+        } catch (error) {
+            request.log.error('Error fetching invitations:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to fetch invitations'
+            });
+        }
+    });
+
+    // POST /api/invitations - Invite a new staff member with a fixed role
+    app.post('/', async (request, reply) => {
+        try {
+            const { email, role, expiresInHours } = request.body as CreateInvitationRequest;
+
+            if (!email || !role) {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: 'Email and role are required'
+                });
+            }
+
+            if (!USER_ROLES.includes(role)) {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: `Role must be one of: ${USER_ROLES.join(', ')}`
+                });
+            }
+
+            const normalizedEmail = String(email).trim().toLowerCase();
+
+            const existing = await User.findOne({ email: normalizedEmail });
+            if (existing) {
+                return reply.status(409).send({
+                    error: 'Conflict',
+                    message: 'A user with this email already exists'
+                });
+            }
+
+            const defaultTtl = parseInt(process.env.INVITATION_TTL_HOURS || '') || DEFAULT_INVITATION_TTL_HOURS;
+            const ttlHours = Math.min(Number(expiresInHours) || defaultTtl, MAX_INVITATION_TTL_HOURS);
+
+            const token = generateToken();
+            const invitation = await Invitation.create({
+                _id: randomUUID(),
+                email: normalizedEmail,
+                role,
+                token_hash: hashToken(token),
+                expires_at: new Date(Date.now() + ttlHours * 60 * 60 * 1000),
+                created_by: request.user!.id
+            });
+
+            logger.auth(`Invitación creada para ${normalizedEmail} (${role})`);
+
+            // The raw token is only ever returned here; we keep just its hash
+            const frontendUrl = getFrontendUrl();
+            return reply.status(201).send({
+                invitation: toInvitationResponse(invitation),
+                token,
+                ...(frontendUrl && {
+                    inviteUrl: `${frontendUrl}/signup?token=${token}`
+                })
+            });
+        } catch (error) {
+            request.log.error('Error creating invitation:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to create invitation'
+            });
+        }
+    });
+
+    // DELETE /api/invitations/:id - Revoke a pending invitation
+    app.delete('/:id', async (request, reply) => {
+        try {
+            const { id } = request.params as { id: string };
+
+            const invitation = await Invitation.findOneAndDelete({ _id: id, used_at: null });
+
+            if (!invitation) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'Pending invitation not found'
+                });
+            }
+
+            return reply.send({
+                message: 'Invitation revoked successfully',
+                id: invitation._id
+            });
+        } catch (error) {
+            request.log.error('Error revoking invitation:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to revoke invitation'
+            });
+        }
+    });
+};
+
+export default invitationRoutes;
@@ -0,0 +1,108 @@
+import { FastifyPluginAsync } from 'fastify';
+import { Patient, ACTIVE_PATIENT } from '../models/Patient';
+import { requirePermission } from '../middleware/requireAuth';
+import { recordAudit } from '../utils/audit';
+import { addMonths, computeImmunizations, getImmunizationSchedule, scheduleMaxAgeMonths } from '../utils/immunizations';
+import { vaccineCode } from '../utils/vaccinations';
+import {
+    ImmunizationDoseStatus,
+    VaccinesDueReportEntry,
+    VaccinesDueReportParams,
+    VaccinesDueReportResponse
+} from '../shared/types';
+
+const REPORTABLE_STATUSES: ImmunizationDoseStatus[] = ['overdue', 'due', 'upcoming'];
+
+const reportRoutes: FastifyPluginAsync = async (app) => {
+    app.addHook('preHandler', requirePermission('patients:read'));
+
+    // GET /api/reports/immunization-schedule - Schedule the due dates are computed from
+    app.get('/immunization-schedule', async (request, reply) => {
+        try {
+            return reply.send({ schedule: getImmunizationSchedule() });
+        } catch (error) {
+            request.log.error('Error loading immunization schedule:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to load immunization schedule'
+            });
+        }
+    });
+
+    // GET /api/reports/vaccines-due - Children with doses to give, longest overdue first, with phones to call
+    app.get('/vaccines-due', async (request, reply) => {
+        try {
+            const {
+                status = 'overdue,due',
+                vaccine,
+                limit = '50',
+                offset = '0'
+            } = request.query as { [K in keyof VaccinesDueReportParams]?: string };
+
+            const statuses = String(status).split(',').map(value => value.trim()).filter(Boolean);
+
+            if (statuses.length === 0 || statuses.some(value => !REPORTABLE_STATUSES.includes(value as ImmunizationDoseStatus))) {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: `status must be a comma-separated list of: ${REPORTABLE_STATUSES.join(', ')}`
+                });
+            }
+
+            const vaccines = String(vaccine || '').split(',').map(vaccineCode).filter(Boolean);
+            const limitNum = Math.min(parseInt(String(limit)) || 50, 200);
+            const offsetNum = parseInt(String(offset)) || 0;
+
+            // Patients older than the last catch-up age have nothing left to give
+            const schedule = getImmunizationSchedule();
+            const now = new Date();
+            const patients = await Patient.find({
+                ...ACTIVE_PATIENT,
+                birthdate: { $gte: addMonths(now, -(scheduleMaxAgeMonths(schedule) + 1)), $lte: now }
+            })
+                .select('firstName lastName birthdate phones guardian vaccinations')
+                .lean();
+
+            const entries: VaccinesDueReportEntry[] = patients
+                .map((patient: any) => ({
+                    patient: {
+                        id: patient._id.toString(),
+                        firstName: patient.firstName,
+                        lastName: patient.lastName,
+                        birthdate: new Date(patient.birthdate).toISOString(),
+                        phones: patient.phones || [],
+                        ...(patient.guardian && { guardian: patient.guardian })
+                    },
+                    doses: computeImmunizations(new Date(patient.birthdate), patient.vaccinations || [], schedule, now)
+                        .filter(dose => statuses.includes(dose.status))
+                        .filter(dose => vaccines.length === 0 || vaccines.includes(dose.vaccine))
+                }))
+                .filter(entry => entry.doses.length > 0)
+                .sort((a, b) => a.doses[0].dueDate.localeCompare(b.doses[0].dueDate)
+                    || a.patient.lastName.localeCompare(b.patient.lastName));
+
+            const page = entries.slice(offsetNum, offsetNum + limitNum);
+
+            await recordAudit(request, {
+                action: 'patient.list',
+                patientIds: page.map(entry => entry.patient.id)
+            });
+
+            const response: VaccinesDueReportResponse = {
+                entries: page,
+                total: entries.length,
+                limit: limitNum,
+                offset: offsetNum
+            };
+
+            return reply.send(response);
+        } catch (error) {
+            request.log.error('Error building vaccines due report:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to build vaccines due report'
+            });
+        }
+    });
+};
+
+export default reportRoutes;
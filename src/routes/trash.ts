@@ -0,0 +1,217 @@
+import { FastifyPluginAsync } from 'fastify';
+import { Patient, ACTIVE_PATIENT } from '../models/Patient';
+import { requirePermission } from '../middleware/requireAuth';
+import { recordAudit } from '../utils/audit';
+import { recordPatientVersion, toPatientSnapshot } from '../utils/patientVersions';
+import { toPatientResponse, uniqueFieldConflict } from '../utils/patientResponse';
+import { getPurgeDate, purgeExpiredTrash } from '../utils/trash';
+
+const trashRoutes: FastifyPluginAsync = async (app) => {
+    app.addHook('preHandler', requirePermission('trash:manage'));
+
+    // GET /api/trash/patients - List deleted patients, most recently deleted first
+    app.get('/patients', async (request, reply) => {
+        try {
+            const { limit = '20', offset = '0' } = request.query as { limit?: string; offset?: string };
+
+            const limitNum = Math.min(parseInt(String(limit)) || 20, 100);
+            const offsetNum = parseInt(String(offset)) || 0;
+            const filter = { deletedAt: { $ne: null } };
+
+            const [patients, total] = await Promise.all([
+                Patient.find(filter)
+                    .sort({ deletedAt: -1 })
+                    .skip(offsetNum)
+                    .limit(limitNum)
+                    .lean(),
+                Patient.countDocuments(filter)
+            ]);
+
+            await recordAudit(request, {
+                action: 'trash.list',
+                patientIds: patients.map((patient: any) => patient._id.toString())
+            });
+
+            return reply.send({
+                patients: patients.map((patient: any) => ({
+                    ...toPatientResponse(patient),
+                    purgeAt: getPurgeDate(patient.deletedAt).toISOString()
+                })),
+                total,
+                limit: limitNum,
+                offset: offsetNum
+            });
+        } catch (error) {
+            request.log.error('Error fetching deleted patients:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to fetch deleted patients'
+            });
+        }
+    });
+
+    // GET /api/trash/notes - List deleted notes of patients that are not themselves deleted
+    app.get('/notes', async (request, reply) => {
+        try {
+            const { limit = '20', offset = '0' } = request.query as { limit?: string; offset?: string };
+
+            const limitNum = Math.min(parseInt(String(limit)) || 20, 100);
+            const offsetNum = parseInt(String(offset)) || 0;
+
+            const pipeline: any[] = [
+                { $match: { ...ACTIVE_PATIENT, 'notes.deletedAt': { $ne: null } } },
+                { $unwind: '$notes' },
+                { $match: { 'notes.deletedAt': { $ne: null } } }
+            ];
+
+            const [notes, totalResult] = await Promise.all([
+                Patient.aggregate([
+                    ...pipeline,
+                    { $sort: { 'notes.deletedAt': -1 } },
+                    { $skip: offsetNum },
+                    { $limit: limitNum }
+                ]),
+                Patient.aggregate([...pipeline, { $count: 'total' }])
+            ]);
+
+            await recordAudit(request, {
+                action: 'trash.list',
+                patientIds: [...new Set(notes.map((result: any) => result._id.toString()))]
+            });
+
+            return reply.send({
+                notes: notes.map((result: any) => ({
+                    id: result.notes._id.toString(),
+                    patientId: result._id.toString(),
+                    patientName: `${result.firstName} ${result.lastName}`,
+                    title: result.notes.title,
+                    content: result.notes.content,
+                    date: new Date(result.notes.date).toISOString(),
+                    deletedAt: new Date(result.notes.deletedAt).toISOString(),
+                    deletedBy: result.notes.deletedBy,
+                    ...(result.notes.deletionReason && { deletionReason: result.notes.deletionReason }),
+                    purgeAt: getPurgeDate(new Date(result.notes.deletedAt)).toISOString()
+                })),
+                total: totalResult[0]?.total || 0,
+                limit: limitNum,
+                offset: offsetNum
+            });
+        } catch (error) {
+            request.log.error('Error fetching deleted notes:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to fetch deleted notes'
+            });
+        }
+    });
+
+    // POST /api/trash/patients/:id/restore - Bring a deleted patient back
+    app.post('/patients/:id/restore', async (request, reply) => {
+        try {
+            const { id } = request.params as { id: string };
+
+            const patient = await Patient.findOneAndUpdate(
+                { _id: id, deletedAt: { $ne: null } },
+                { deletedAt: null, $unset: { deletedBy: 1, deletionReason: 1 }, $inc: { __v: 1 } },
+                { new: true }
+            );
+
+            if (!patient) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'Deleted patient not found'
+                });
+            }
+
+            await recordAudit(request, { action: 'patient.undelete', patientId: id });
+
+            return reply.send(toPatientResponse(patient));
+        } catch (error: any) {
+            request.log.error('Error restoring patient:', error);
+
+            // Another active patient took the DPI while this one was in the trash
+            const duplicate = uniqueFieldConflict(error);
+            if (duplicate) {
+                return reply.status(409).send(duplicate);
+            }
+
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to restore patient'
+            });
+        }
+    });
+
+    // POST /api/trash/patients/:id/notes/:noteId/restore - Bring a deleted note back
+    app.post('/patients/:id/notes/:noteId/restore', async (request, reply) => {
+        try {
+            const { id, noteId } = request.params as { id: string; noteId: string };
+
+            const patient = await Patient.findOne({ _id: id, ...ACTIVE_PATIENT });
+
+            if (!patient) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'Patient not found'
+                });
+            }
+
+            const note: any = patient.notes.find((note: any) => note._id?.toString() === noteId && note.deletedAt);
+
+            if (!note) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'Deleted note not found'
+                });
+            }
+
+            const before = toPatientSnapshot(patient);
+            note.deletedAt = null;
+            note.deletedBy = undefined;
+            note.deletionReason = undefined;
+
+            await patient.save();
+            await recordPatientVersion(request, patient, { action: 'note', before });
+            await recordAudit(request, { action: 'note.undelete', patientId: id, noteId });
+
+            return reply.send(toPatientResponse(patient));
+        } catch (error: any) {
+            request.log.error('Error restoring note:', error);
+
+            if (error.name === 'ValidationError') {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: 'Cannot restore note: the patient already has the maximum number of notes'
+                });
+            }
+
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to restore note'
+            });
+        }
+    });
+
+    // POST /api/trash/purge - Permanently remove items past the retention period
+    app.post('/purge', async (request, reply) => {
+        try {
+            const result = await purgeExpiredTrash();
+
+            await recordAudit(request, { action: 'trash.purge', patientIds: result.patientIds });
+
+            return reply.send({
+                message: 'Trash purged successfully',
+                patients: result.patientIds.length,
+                notes: result.notes
+            });
+        } catch (error) {
+            request.log.error('Error purging trash:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to purge trash'
+            });
+        }
+    });
+};
+
+export default trashRoutes;
@@ -0,0 +1,440 @@
+import { FastifyPluginAsync } from 'fastify';
+import argon2 from 'argon2';
+import { auth } from '../auth/lucia';
+import { TwoFactorService } from '../auth/twoFactor';
+import { LoginAttemptService } from '../auth/loginAttempts';
+import { ApiTokenService } from '../auth/apiTokens';
+import { User, IUser, ApiToken } from '../models/authModels';
+import { requirePermission } from '../middleware/requireAuth';
+import { UserResponse, UserRole, USER_ROLES } from '../shared/types';
+import logger from '../utils/logger';
+
+function toUserResponse(user: IUser): UserResponse {
+    return {
+        id: user._id,
+        email: user.email,
+        role: user.role,
+        active: user.active !== false,
+        twoFactorEnabled: !!user.totp_enabled,
+        failedLoginAttempts: user.failed_login_attempts || 0,
+        ...(user.locked_until && user.locked_until > new Date() && {
+            lockedUntil: user.locked_until.toISOString()
+        }),
+        createdAt: user.created_at?.toISOString(),
+        updatedAt: user.updated_at?.toISOString()
+    };
+}
+
+// Whether removing admin rights from `user` would leave the clinic without an active admin
+async function isLastActiveAdmin(user: IUser): Promise<boolean> {
+    if (user.role !== 'admin' || user.active === false) {
+        return false;
+    }
+
+    const otherAdmins = await User.countDocuments({
+        _id: { $ne: user._id },
+        role: 'admin',
+        active: { $ne: false }
+    });
+
+    return otherAdmins === 0;
+}
+
+const userRoutes: FastifyPluginAsync = async (app) => {
+    // Every user-management route is admin-only
+    app.addHook('preHandler', requirePermission('users:manage'));
+
+    // GET /api/users - List users
+    app.get('/', async (request, reply) => {
+        try {
+            const { role, active, limit = '20', offset = '0' } = request.query as {
+                role?: string;
+                active?: string;
+                limit?: string;
+                offset?: string;
+            };
+
+            const limitNum = Math.min(parseInt(String(limit)) || 20, 100);
+            const offsetNum = parseInt(String(offset)) || 0;
+
+            const filter: Record<string, any> = {};
+            if (role && USER_ROLES.includes(role as UserRole)) {
+                filter.role = role;
+            }
+            if (active === 'true') {
+                filter.active = { $ne: false };
+            } else if (active === 'false') {
+                filter.active = false;
+            }
+
+            const [users, total] = await Promise.all([
+                User.find(filter)
+                    .sort({ email: 1 })
+                    .skip(offsetNum)
+                    .limit(limitNum),
+                User.countDocuments(filter)
+            ]);
+
+            return reply.send({
+                users: users.map(toUserResponse),
+                total,
+                limit: limitNum,
+                offset: offsetNum
+            });
+        } catch (error) {
+            request.log.error('Error fetching users:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to fetch users'
+            });
+        }
+    });
+
+    // GET /api/users/:id - Get single user
+    app.get('/:id', async (request, reply) => {
+        try {
+            const { id } = request.params as { id: string };
+
+            const user = await User.findById(id);
+
+            if (!user) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'User not found'
+                });
+            }
+
+            return reply.send(toUserResponse(user));
+        } catch (error) {
+            request.log.error('Error fetching user:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to fetch user'
+            });
+        }
+    });
+
+    // PUT /api/users/:id/role - Change a user's role
+    app.put('/:id/role', async (request, reply) => {
+        try {
+            const { id } = request.params as { id: string };
+            const { role } = request.body as { role: UserRole };
+
+            if (!role || !USER_ROLES.includes(role)) {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: `Role must be one of: ${USER_ROLES.join(', ')}`
+                });
+            }
+
+            if (id === request.user!.id) {
+                return reply.status(400).send({
+                    error: 'Bad Request',
+                    message: 'You cannot change your own role'
+                });
+            }
+
+            const user = await User.findById(id);
+
+            if (!user) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'User not found'
+                });
+            }
+
+            if (role !== 'admin' && await isLastActiveAdmin(user)) {
+                return reply.status(409).send({
+                    error: 'Conflict',
+                    message: 'Cannot remove the last active admin'
+                });
+            }
+
+            user.role = role;
+            await user.save();
+            logger.auth(`Rol de ${user.email} cambiado a ${role}`);
+
+            return reply.send(toUserResponse(user));
+        } catch (error) {
+            request.log.error('Error updating user role:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to update user role'
+            });
+        }
+    });
+
+    // POST /api/users/:id/disable - Deactivate an account
+    app.post('/:id/disable', async (request, reply) => {
+        try {
+            const { id } = request.params as { id: string };
+
+            if (id === request.user!.id) {
+                return reply.status(400).send({
+                    error: 'Bad Request',
+                    message: 'You cannot disable your own account'
+                });
+            }
+
+            const user = await User.findById(id);
+
+            if (!user) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'User not found'
+                });
+            }
+
+            if (await isLastActiveAdmin(user)) {
+                return reply.status(409).send({
+                    error: 'Conflict',
+                    message: 'Cannot disable the last active admin'
+                });
+            }
+
+            user.active = false;
+            await user.save();
+            await auth.invalidateAllUserSessions(user._id);
+            logger.auth(`Cuenta deshabilitada: ${user.email}`);
+
+            return reply.send(toUserResponse(user));
+        } catch (error) {
+            request.log.error('Error disabling user:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to disable user'
+            });
+        }
+    });
+
+    // POST /api/users/:id/enable - Reactivate an account
+    app.post('/:id/enable', async (request, reply) => {
+        try {
+            const { id } = request.params as { id: string };
+
+            const user = await User.findByIdAndUpdate(id, { active: true }, { new: true });
+
+            if (!user) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'User not found'
+                });
+            }
+
+            logger.auth(`Cuenta habilitada: ${user.email}`);
+
+            return reply.send(toUserResponse(user));
+        } catch (error) {
+            request.log.error('Error enabling user:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to enable user'
+            });
+        }
+    });
+
+    // POST /api/users/:id/logout - Invalidate every session and API token of a user
+    app.post('/:id/logout', async (request, reply) => {
+        try {
+            const { id } = request.params as { id: string };
+
+            const user = await User.findById(id);
+
+            if (!user) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'User not found'
+                });
+            }
+
+            await auth.invalidateAllUserSessions(user._id);
+            await ApiTokenService.revokeAll(user._id);
+
+            return reply.send({
+                message: 'All sessions and API tokens invalidated',
+                id: user._id
+            });
+        } catch (error) {
+            request.log.error('Error logging out user:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to log out user'
+            });
+        }
+    });
+
+    // PUT /api/users/:id/password - Set a new password on behalf of a user
+    app.put('/:id/password', async (request, reply) => {
+        try {
+            const { id } = request.params as { id: string };
+            const { password } = request.body as { password: string };
+
+            if (!password) {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: 'Password is required'
+                });
+            }
+
+            const user = await User.findById(id);
+
+            if (!user) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'User not found'
+                });
+            }
+
+            user.hashed_password = await argon2.hash(password);
+            await user.save();
+            await auth.invalidateAllUserSessions(user._id);
+            await ApiTokenService.revokeAll(user._id);
+            logger.auth(`Contraseña restablecida por administrador: ${user.email}`);
+
+            return reply.send({
+                message: 'Password updated successfully',
+                id: user._id
+            });
+        } catch (error) {
+            request.log.error('Error resetting user password:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to reset password'
+            });
+        }
+    });
+
+    // POST /api/users/:id/2fa/reset - Remove a user's second factor (lost device)
+    app.post('/:id/2fa/reset', async (request, reply) => {
+        try {
+            const { id } = request.params as { id: string };
+
+            const user = await User.findById(id);
+
+            if (!user) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'User not found'
+                });
+            }
+
+            await TwoFactorService.disable(user);
+            await auth.invalidateAllUserSessions(user._id);
+            logger.auth(`2FA restablecido por administrador: ${user.email}`);
+
+            return reply.send(toUserResponse(user));
+        } catch (error) {
+            request.log.error('Error resetting two-factor authentication:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to reset two-factor authentication'
+            });
+        }
+    });
+
+    // POST /api/users/:id/unlock - Clear a lockout and the failed-attempt counter
+    app.post('/:id/unlock', async (request, reply) => {
+        try {
+            const { id } = request.params as { id: string };
+
+            const user = await User.findById(id);
+
+            if (!user) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'User not found'
+                });
+            }
+
+            await LoginAttemptService.unlock(user._id);
+            logger.auth(`Cuenta desbloqueada: ${user.email}`);
+
+            const unlocked = await User.findById(id);
+            return reply.send(toUserResponse(unlocked!));
+        } catch (error) {
+            request.log.error('Error unlocking user:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to unlock user'
+            });
+        }
+    });
+
+    // GET /api/users/:id/login-attempts - Sign-in history of a user
+    app.get('/:id/login-attempts', async (request, reply) => {
+        try {
+            const { id } = request.params as { id: string };
+            const { limit = '50', offset = '0' } = request.query as { limit?: string; offset?: string };
+
+            const limitNum = Math.min(parseInt(String(limit)) || 50, 200);
+            const offsetNum = parseInt(String(offset)) || 0;
+
+            const user = await User.findById(id);
+
+            if (!user) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'User not found'
+                });
+            }
+
+            const history = await LoginAttemptService.history(user._id, limitNum, offsetNum);
+
+            return reply.send({ ...history, limit: limitNum, offset: offsetNum });
+        } catch (error) {
+            request.log.error('Error fetching login attempts:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to fetch login attempts'
+            });
+        }
+    });
+
+    // DELETE /api/users/:id - Delete a user
+    app.delete('/:id', async (request, reply) => {
+        try {
+            const { id } = request.params as { id: string };
+
+            if (id === request.user!.id) {
+                return reply.status(400).send({
+                    error: 'Bad Request',
+                    message: 'You cannot delete your own account'
+                });
+            }
+
+            const user = await User.findById(id);
+
+            if (!user) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'User not found'
+                });
+            }
+
+            if (await isLastActiveAdmin(user)) {
+                return reply.status(409).send({
+                    error: 'Conflict',
+                    message: 'Cannot delete the last active admin'
+                });
+            }
+
+            await auth.invalidateAllUserSessions(user._id);
+            await ApiToken.deleteMany({ user_id: user._id });
+            await User.findByIdAndDelete(user._id);
+            logger.auth(`Usuario eliminado: ${user.email}`);
+
+            return reply.send({
+                message: 'User deleted successfully',
+                id: user._id
+            });
+        } catch (error) {
+            request.log.error('Error deleting user:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to delete user'
+            });
+        }
+    });
+};
+
+export default userRoutes;
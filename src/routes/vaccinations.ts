@@ -0,0 +1,293 @@
+import { FastifyPluginAsync, FastifyReply } from 'fastify';
+import { Patient, ACTIVE_PATIENT } from '../models/Patient';
+import { requirePermission } from '../middleware/requireAuth';
+import { recordAudit, diffFields } from '../utils/audit';
+import { recordPatientVersion, toPatientSnapshot } from '../utils/patientVersions';
+import { toPatientResponse } from '../utils/patientResponse';
+import { checkPatientVersion, latestVersionConflict, toEtag } from '../utils/concurrency';
+import { computeImmunizations } from '../utils/immunizations';
+import { AddVaccinationRequest, VoidVaccinationRequest, PatientImmunizationResponse } from '../shared/types';
+
+// Fields of a vaccination that can be charted and later corrected
+const VACCINATION_FIELDS = ['vaccine', 'dose', 'administeredAt', 'lotNumber', 'site', 'administeredBy', 'notes'] as const;
+
+function sendValidationError(reply: FastifyReply, error: any) {
+    return reply.status(400).send({
+        error: 'Validation Error',
+        message: 'Invalid vaccination data',
+        details: Object.values(error.errors).map((err: any) => ({
+            field: err.path,
+            message: err.message
+        }))
+    });
+}
+
+const vaccinationRoutes: FastifyPluginAsync = async (app) => {
+    // GET /api/patients/:id/immunizations - Doses of the immunization schedule given, due and overdue
+    app.get('/:id/immunizations', { preHandler: requirePermission('patients:read') }, async (request, reply) => {
+        try {
+            const { id } = request.params as { id: string };
+
+            const patient = await Patient.findOne({ _id: id, ...ACTIVE_PATIENT }).lean();
+
+            if (!patient) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'Patient not found'
+                });
+            }
+
+            if (!patient.birthdate) {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: 'The patient needs a birthdate to follow the immunization schedule'
+                });
+            }
+
+            const doses = computeImmunizations(new Date(patient.birthdate), patient.vaccinations || []);
+
+            await recordAudit(request, { action: 'patient.view', patientId: id });
+
+            const response: PatientImmunizationResponse = {
+                patientId: id,
+                birthdate: new Date(patient.birthdate).toISOString(),
+                doses,
+                due: doses.filter(dose => dose.status === 'due').length,
+                overdue: doses.filter(dose => dose.status === 'overdue').length
+            };
+
+            return reply.send(response);
+        } catch (error) {
+            request.log.error('Error computing immunizations:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to compute immunizations'
+            });
+        }
+    });
+
+    // POST /api/patients/:id/vaccinations - Chart a vaccination; administered by the current user unless stated
+    app.post('/:id/vaccinations', { preHandler: requirePermission('vaccinations:write') }, async (request, reply) => {
+        try {
+            const { id } = request.params as { id: string };
+            const body = (request.body || {}) as AddVaccinationRequest;
+
+            if (!body.vaccine || !String(body.vaccine).trim()) {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: 'Vaccine is required'
+                });
+            }
+
+            const patient = await Patient.findOne({ _id: id, ...ACTIVE_PATIENT });
+
+            if (!patient) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'Patient not found'
+                });
+            }
+
+            const conflict = checkPatientVersion(request, patient);
+            if (conflict) {
+                return reply.status(conflict.status).send(conflict.body);
+            }
+
+            const entry: Record<string, any> = { administeredBy: request.user!.id };
+            for (const field of VACCINATION_FIELDS) {
+                if (body[field] !== undefined) {
+                    entry[field] = body[field] ?? undefined;
+                }
+            }
+
+            const before = toPatientSnapshot(patient);
+            patient.vaccinations.push(entry as any);
+            await patient.save();
+            await recordPatientVersion(request, patient, { action: 'vaccination', before });
+
+            const saved: any = patient.vaccinations[patient.vaccinations.length - 1];
+            await recordAudit(request, {
+                action: 'vaccination.create',
+                patientId: id,
+                vaccinationId: saved._id.toString(),
+                changes: diffFields({}, saved.toObject(), [...VACCINATION_FIELDS])
+            });
+
+            const response = toPatientResponse(patient);
+
+            return reply.header('ETag', toEtag(response.version)).send(response);
+        } catch (error: any) {
+            request.log.error('Error adding vaccination:', error);
+
+            if (error.name === 'VersionError') {
+                const conflict = await latestVersionConflict(request);
+                return reply.status(conflict.status).send(conflict.body);
+            }
+
+            if (error.name === 'ValidationError') {
+                return sendValidationError(reply, error);
+            }
+
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to add vaccination'
+            });
+        }
+    });
+
+    // PUT /api/patients/:id/vaccinations/:vaccinationId - Correct the fields sent; null clears one
+    app.put('/:id/vaccinations/:vaccinationId', { preHandler: requirePermission('vaccinations:write') }, async (request, reply) => {
+        try {
+            const { id, vaccinationId } = request.params as { id: string; vaccinationId: string };
+            const body = (request.body || {}) as Record<string, any>;
+            const fields = VACCINATION_FIELDS.filter(field => body[field] !== undefined);
+
+            if (fields.length === 0) {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: `Send at least one of: ${VACCINATION_FIELDS.join(', ')}`
+                });
+            }
+
+            const patient = await Patient.findOne({ _id: id, ...ACTIVE_PATIENT });
+
+            if (!patient) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'Patient not found'
+                });
+            }
+
+            const conflict = checkPatientVersion(request, patient);
+            if (conflict) {
+                return reply.status(conflict.status).send(conflict.body);
+            }
+
+            // Voided entries are final; chart a new vaccination instead
+            const vaccination: any = patient.vaccinations.find(
+                (entry: any) => entry._id?.toString() === vaccinationId && !entry.voidedAt
+            );
+
+            if (!vaccination) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'Vaccination not found'
+                });
+            }
+
+            const snapshot = toPatientSnapshot(patient);
+            const before = vaccination.toObject();
+
+            for (const field of fields) {
+                vaccination.set(field, body[field] ?? undefined);
+            }
+
+            await patient.save();
+            await recordPatientVersion(request, patient, { action: 'vaccination', before: snapshot });
+
+            await recordAudit(request, {
+                action: 'vaccination.update',
+                patientId: id,
+                vaccinationId,
+                changes: diffFields(before, vaccination.toObject(), fields)
+            });
+
+            const response = toPatientResponse(patient);
+
+            return reply.header('ETag', toEtag(response.version)).send(response);
+        } catch (error: any) {
+            request.log.error('Error updating vaccination:', error);
+
+            if (error.name === 'VersionError') {
+                const conflict = await latestVersionConflict(request);
+                return reply.status(conflict.status).send(conflict.body);
+            }
+
+            if (error.name === 'ValidationError') {
+                return sendValidationError(reply, error);
+            }
+
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to update vaccination'
+            });
+        }
+    });
+
+    // POST /api/patients/:id/vaccinations/:vaccinationId/void - Mark a vaccination as charted in error
+    app.post('/:id/vaccinations/:vaccinationId/void', { preHandler: requirePermission('vaccinations:write') }, async (request, reply) => {
+        try {
+            const { id, vaccinationId } = request.params as { id: string; vaccinationId: string };
+            const { reason } = (request.body || {}) as Partial<VoidVaccinationRequest>;
+
+            if (!reason || !String(reason).trim()) {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: 'A reason is required to void a vaccination'
+                });
+            }
+
+            const patient = await Patient.findOne({ _id: id, ...ACTIVE_PATIENT });
+
+            if (!patient) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'Patient not found'
+                });
+            }
+
+            const conflict = checkPatientVersion(request, patient);
+            if (conflict) {
+                return reply.status(conflict.status).send(conflict.body);
+            }
+
+            const vaccination: any = patient.vaccinations.find(
+                (entry: any) => entry._id?.toString() === vaccinationId && !entry.voidedAt
+            );
+
+            if (!vaccination) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'Vaccination not found'
+                });
+            }
+
+            const before = toPatientSnapshot(patient);
+            vaccination.voidedAt = new Date();
+            vaccination.voidedBy = request.user!.id;
+            vaccination.voidReason = String(reason).trim();
+
+            await patient.save();
+            await recordPatientVersion(request, patient, { action: 'vaccination', before });
+
+            await recordAudit(request, {
+                action: 'vaccination.void',
+                patientId: id,
+                vaccinationId,
+                changes: diffFields({}, { voidReason: vaccination.voidReason })
+            });
+
+            const response = toPatientResponse(patient);
+
+            return reply.header('ETag', toEtag(response.version)).send(response);
+        } catch (error: any) {
+            request.log.error('Error voiding vaccination:', error);
+
+            if (error.name === 'VersionError') {
+                const conflict = await latestVersionConflict(request);
+                return reply.status(conflict.status).send(conflict.body);
+            }
+
+            if (error.name === 'ValidationError') {
+                return sendValidationError(reply, error);
+            }
+
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to void vaccination'
+            });
+        }
+    });
+};
+
+export default vaccinationRoutes;
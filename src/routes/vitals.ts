@@ -0,0 +1,225 @@
+import { FastifyPluginAsync } from 'fastify';
+import { Patient, ACTIVE_PATIENT, isMinor } from '../models/Patient';
+import { VitalSigns, IVitalSigns } from '../models/VitalSigns';
+import { requirePermission } from '../middleware/requireAuth';
+import { recordAudit, diffFields } from '../utils/audit';
+import { parseDateRange } from '../utils/dateRange';
+import { MEASURED_VITALS, VITAL_TYPES, computeBmi, parseVitals, toVitalSeries } from '../utils/vitals';
+import { assessGrowth, growthSex } from '../utils/growth';
+import {
+    PatientVitalsParams,
+    PatientVitalsResponse,
+    RecordVitalsRequest,
+    VitalSignsResponse,
+    VitalType,
+    VITAL_UNITS
+} from '../shared/types';
+
+// Readings of children get their WHO growth z-scores at the age they were taken
+function toVitalSignsResponse(vitals: any, patient: any): VitalSignsResponse {
+    const sex = growthSex(patient);
+    const growth = patient.birthdate && sex
+        ? assessGrowth(vitals, new Date(patient.birthdate), sex, new Date(vitals.takenAt))
+        : undefined;
+
+    return {
+        id: vitals._id.toString(),
+        patientId: vitals.patientId,
+        ...(vitals.noteId && { noteId: vitals.noteId }),
+        takenAt: new Date(vitals.takenAt).toISOString(),
+        ...Object.fromEntries(VITAL_TYPES.filter(type => typeof vitals[type] === 'number').map(type => [type, vitals[type]])),
+        ...(vitals.recordedBy && { recordedBy: vitals.recordedBy }),
+        createdAt: new Date(vitals.createdAt).toISOString(),
+        ...(growth && { growth })
+    };
+}
+
+const vitalsRoutes: FastifyPluginAsync = async (app) => {
+    // GET /api/patients/:id/vitals - Readings with growth z-scores and one series per vital type, oldest first
+    app.get('/:id/vitals', { preHandler: requirePermission('patients:read') }, async (request, reply) => {
+        try {
+            const { id } = request.params as { id: string };
+            const { type, from, to } = request.query as { [K in keyof PatientVitalsParams]?: string };
+
+            const types = type
+                ? String(type).split(',').map(value => value.trim()).filter(Boolean) as VitalType[]
+                : VITAL_TYPES;
+
+            if (types.length === 0 || types.some(value => !VITAL_TYPES.includes(value))) {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: `type must be a comma-separated list of: ${VITAL_TYPES.join(', ')}`
+                });
+            }
+
+            const takenAtRange = parseDateRange(from, to);
+
+            if (takenAtRange === null) {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: 'from and to must be valid dates'
+                });
+            }
+
+            const patient = await Patient.findOne({ _id: id, ...ACTIVE_PATIENT }).select('birthdate gender sex').lean();
+
+            if (!patient) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'Patient not found'
+                });
+            }
+
+            const readings = await VitalSigns.find({
+                patientId: id,
+                ...(takenAtRange && { takenAt: takenAtRange }),
+                // Only readings with at least one of the requested values
+                $or: types.map(value => ({ [value]: { $exists: true } }))
+            })
+                .sort({ takenAt: 1 })
+                .lean();
+
+            await recordAudit(request, { action: 'patient.view', patientId: id });
+
+            const response: PatientVitalsResponse = {
+                patientId: id,
+                units: VITAL_UNITS,
+                readings: readings.map(reading => toVitalSignsResponse(reading, patient)),
+                series: toVitalSeries(readings, types)
+            };
+
+            return reply.send(response);
+        } catch (error) {
+            request.log.error('Error fetching vital signs:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to fetch vital signs'
+            });
+        }
+    });
+
+    // POST /api/patients/:id/vitals - Record vital signs; BMI is computed from weight and height
+    app.post('/:id/vitals', { preHandler: requirePermission('chart:write') }, async (request, reply) => {
+        try {
+            const { id } = request.params as { id: string };
+            const body = (request.body || {}) as RecordVitalsRequest;
+            const { values, errors } = parseVitals(body);
+
+            if (errors.length > 0) {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: 'Invalid vital signs data',
+                    details: errors
+                });
+            }
+
+            const patient = await Patient.findOne({ _id: id, ...ACTIVE_PATIENT });
+
+            if (!patient) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'Patient not found'
+                });
+            }
+
+            if (body.noteId && !patient.notes.some((note: any) => note._id?.toString() === body.noteId && !note.deletedAt)) {
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: 'Invalid vital signs data',
+                    details: [{ field: 'noteId', message: 'Note not found' }]
+                });
+            }
+
+            // Adults are not measured every visit, so their last height still gives a BMI
+            let height = values.height;
+            if (height === undefined && values.weight !== undefined && !isMinor(patient)) {
+                const last = await VitalSigns.findOne({ patientId: id, height: { $exists: true } })
+                    .sort({ takenAt: -1 })
+                    .select('height')
+                    .lean();
+                height = last?.height;
+            }
+
+            const vitals = new VitalSigns({
+                patientId: id,
+                ...(body.noteId && { noteId: body.noteId }),
+                ...(body.takenAt && { takenAt: new Date(body.takenAt) }),
+                ...values,
+                bmi: computeBmi(values.weight, height),
+                recordedBy: request.user!.id
+            });
+
+            await vitals.save();
+
+            await recordAudit(request, {
+                action: 'vitals.create',
+                patientId: id,
+                entryId: vitals._id.toString(),
+                changes: diffFields({}, vitals.toObject(), [...MEASURED_VITALS, 'bmi', 'takenAt'])
+            });
+
+            return reply.status(201).send(toVitalSignsResponse(vitals, patient));
+        } catch (error: any) {
+            request.log.error('Error recording vital signs:', error);
+
+            if (error.name === 'ValidationError') {
+                const errors = Object.values(error.errors).map((err: any) => ({
+                    field: err.path,
+                    message: err.message
+                }));
+                return reply.status(400).send({
+                    error: 'Validation Error',
+                    message: 'Invalid vital signs data',
+                    details: errors
+                });
+            }
+
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to record vital signs'
+            });
+        }
+    });
+
+    // DELETE /api/patients/:id/vitals/:vitalsId - Remove a reading entered in error
+    app.delete('/:id/vitals/:vitalsId', { preHandler: requirePermission('chart:write') }, async (request, reply) => {
+        try {
+            const { id, vitalsId } = request.params as { id: string; vitalsId: string };
+
+            const patient = await Patient.findOne({ _id: id, ...ACTIVE_PATIENT }).select('_id').lean();
+
+            if (!patient) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'Patient not found'
+                });
+            }
+
+            const vitals: IVitalSigns | null = await VitalSigns.findOneAndDelete({ _id: vitalsId, patientId: id });
+
+            if (!vitals) {
+                return reply.status(404).send({
+                    error: 'Not Found',
+                    message: 'Vital signs not found'
+                });
+            }
+
+            await recordAudit(request, {
+                action: 'vitals.delete',
+                patientId: id,
+                entryId: vitalsId,
+                changes: diffFields(vitals.toObject(), {}, [...MEASURED_VITALS, 'bmi', 'takenAt'])
+            });
+
+            return reply.send({ message: 'Vital signs deleted successfully' });
+        } catch (error) {
+            request.log.error('Error deleting vital signs:', error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to delete vital signs'
+            });
+        }
+    });
+};
+
+export default vitalsRoutes;
@@ -0,0 +1,43 @@
+// Shared TypeScript interfaces for the patient record audit trail
+// Used by both frontend (ui) and backend (server)
+
+export interface AuditChangeResponse {
+    field: string;
+    before?: unknown;
+    after?: unknown;
+}
+
+export interface AuditLogResponse {
+    id: string;
+    actorId: string;
+    actorEmail: string;
+    actorRole: string;
+    apiTokenId?: string;
+    action: string;
+    patientId?: string;
+    patientIds?: string[];
+    noteId?: string;
+    vaccinationId?: string;
+    entryId?: string; // allergy, problem, medication or vital signs
+    changes: AuditChangeResponse[];
+    ip?: string;
+    userAgent?: string;
+    createdAt: string;
+}
+
+export interface AuditLogSearchParams {
+    patientId?: string;
+    userId?: string;
+    action?: string;
+    from?: string; // ISO date string
+    to?: string; // ISO date string
+    limit?: number;
+    offset?: number;
+}
+
+export interface AuditLogListResponse {
+    entries: AuditLogResponse[];
+    total: number;
+    limit: number;
+    offset: number;
+}
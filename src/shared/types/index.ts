@@ -1,5 +1,8 @@
 // Shared types index - exports all type definitions
 export * from './patient';
+export * from './user';
+export * from './audit';
+export * from './vitals';
 
 // Re-export commonly used types for convenience
 export type {
@@ -11,11 +14,101 @@ export type {
     PatientResponse,
     PatientStats,
     PatientSearchParams,
-    PatientSearchResponse
+    PatientSortField,
+    PatientSearchResponse,
+    PatientPhoneSearchResponse,
+    PatientDpiSearchResponse,
+    PatientSex,
+    PhoneLabel,
+    PatientPhone,
+    PatientGuardian,
+    PatientVaccination,
+    VaccinationSite,
+    AddVaccinationRequest,
+    UpdateVaccinationRequest,
+    VoidVaccinationRequest,
+    AllergySeverity,
+    AllergyCategory,
+    PatientAllergy,
+    ProblemStatus,
+    PatientProblem,
+    MedicationStatus,
+    PatientMedication,
+    AllergyWarning,
+    ImmunizationScheduleEntry,
+    ImmunizationDoseStatus,
+    ImmunizationDose,
+    PatientImmunizationResponse,
+    VaccinesDueReportParams,
+    VaccinesDueReportEntry,
+    VaccinesDueReportResponse,
+    PatientFieldChange,
+    PatientVersionResponse,
+    PatientHistoryResponse,
+    PatientConflictResponse,
+    DuplicateReason,
+    DuplicatePatientSummary,
+    DuplicateWarning,
+    DuplicateCandidateResponse,
+    MergePatientsRequest
 } from './patient';
 
 export {
     PATIENT_VALIDATION,
     GENDER_LABELS,
+    SEX_LABELS,
+    PHONE_LABELS,
+    VACCINES,
+    VACCINATION_SITE_LABELS,
+    ALLERGY_SEVERITY_LABELS,
+    ALLERGY_CATEGORY_LABELS,
+    PROBLEM_STATUS_LABELS,
+    MEDICATION_STATUS_LABELS,
     COMMON_VACCINATIONS
-} from './patient';
\ No newline at end of file
+} from './patient';
+
+export type {
+    UserRole,
+    UserResponse,
+    UserListResponse,
+    LoginAttemptResponse,
+    CreateInvitationRequest,
+    InvitationResponse,
+    CreateApiTokenRequest,
+    ApiTokenResponse
+} from './user';
+
+export {
+    USER_ROLES,
+    ROLE_LABELS
+} from './user';
+
+export type {
+    AuditChangeResponse,
+    AuditLogResponse,
+    AuditLogSearchParams,
+    AuditLogListResponse
+} from './audit';
+
+export type {
+    MeasuredVital,
+    VitalType,
+    VitalMeasurementInput,
+    RecordVitalsRequest,
+    VitalSignsResponse,
+    VitalSeriesPoint,
+    PatientVitalsParams,
+    PatientVitalsResponse,
+    GrowthIndicator,
+    GrowthStatus,
+    GrowthScore,
+    GrowthAssessment,
+    GrowthIndicatorTable
+} from './vitals';
+
+export {
+    VITAL_UNITS,
+    VITAL_LABELS,
+    VITAL_RANGES,
+    GROWTH_STATUS_LABELS
+} from './vitals';
\ No newline at end of file
@@ -6,21 +6,125 @@ export interface PatientNote {
     title: string;
     content: string;
     date: Date | string;
+    deletedAt?: Date | string | null;
+    deletedBy?: string;
+    deletionReason?: string;
+}
+
+// Biological sex, needed for growth standards when gender is 'child'
+export type PatientSex = 'female' | 'male';
+
+export type PhoneLabel = 'mobile' | 'home' | 'work' | 'emergency' | 'other';
+
+export interface PatientPhone {
+    label: PhoneLabel;
+    number: string; // as entered, for display
+    e164?: string; // canonical form, e.g. +50255551234; set by the server
+}
+
+export type VaccinationSite = 'left-arm' | 'right-arm' | 'left-thigh' | 'right-thigh' | 'oral' | 'intranasal' | 'other';
+
+export interface PatientVaccination {
+    id?: string;
+    vaccine: string; // code from VACCINES, or the name as recorded for vaccines outside the catalog
+    dose?: number; // 1 for the first dose; boosters continue the count
+    administeredAt?: Date | string; // unknown for entries converted from the old vaccination list
+    lotNumber?: string;
+    site?: VaccinationSite;
+    administeredBy?: string; // user id; empty when given elsewhere
+    notes?: string;
+    // Voided entries stay on the record, so a correction never erases what was charted
+    voidedAt?: Date | string | null;
+    voidedBy?: string;
+    voidReason?: string;
+}
+
+// Chart lists: allergies, problem list and current medications
+export type AllergySeverity = 'mild' | 'moderate' | 'severe' | 'life-threatening';
+export type AllergyCategory = 'medication' | 'food' | 'environment' | 'other';
+
+export interface PatientAllergy {
+    id?: string;
+    substance: string; // e.g. "Penicilina"
+    category?: AllergyCategory;
+    reaction?: string;
+    severity?: AllergySeverity;
+    notes?: string;
+    recordedAt?: Date | string;
+    recordedBy?: string;
+}
+
+export type ProblemStatus = 'active' | 'controlled' | 'resolved';
+
+export interface PatientProblem {
+    id?: string;
+    condition: string; // e.g. "Diabetes mellitus tipo 2"
+    code?: string; // ICD-10, e.g. "E11"
+    onset?: Date | string;
+    status: ProblemStatus;
+    notes?: string;
+    recordedAt?: Date | string;
+    recordedBy?: string;
+}
+
+export type MedicationStatus = 'active' | 'stopped';
+
+export interface PatientMedication {
+    id?: string;
+    name: string;
+    dose?: string; // e.g. "500 mg"
+    frequency?: string; // e.g. "cada 8 horas"
+    route?: string; // e.g. "oral"
+    startDate?: Date | string;
+    endDate?: Date | string;
+    status: MedicationStatus;
+    notes?: string;
+    recordedAt?: Date | string;
+    recordedBy?: string;
+}
+
+// Active allergies, most severe first, shown before anything else on the chart
+export interface AllergyWarning {
+    id: string;
+    substance: string;
+    severity?: AllergySeverity;
+    reaction?: string;
+}
+
+// Identifies a minor without a DPI of their own through the adult responsible for them
+export interface PatientGuardian {
+    dpi: string;
+    name?: string;
+    relationship?: string; // e.g. "Madre"
 }
 
 export interface IPatient {
     id?: string;
     firstName: string;
     lastName: string;
+    dpi?: string; // CUI, 13 digits without spaces
+    guardian?: PatientGuardian | null;
     address?: string;
     birthdate?: Date | string;
     gender?: 'male' | 'female' | 'child';
+    sex?: PatientSex;
     maritalStatus?: string;
     occupation?: string;
-    phone?: string;
-    vaccination?: string[];
+    phone?: string; // primary number, always the first of phones
+    phones?: PatientPhone[];
+    vaccination?: string[]; // codes of the vaccinations that are not voided, kept in sync by the server
+    vaccinations?: PatientVaccination[];
+    allergies?: PatientAllergy[];
+    problems?: PatientProblem[];
+    medications?: PatientMedication[];
     visitDate?: Date | string;
     notes?: PatientNote[];
+    deletedAt?: Date | string | null;
+    deletedBy?: string;
+    deletionReason?: string;
+    mergedInto?: string | null;
+    mergedAt?: Date | string;
+    mergedBy?: string;
     createdAt?: Date | string;
     updatedAt?: Date | string;
 }
@@ -36,25 +140,161 @@ export interface IPatientDocument extends IPatient {
 export interface CreatePatientRequest {
     firstName: string;
     lastName: string;
+    dpi?: string; // spaces and dashes are accepted, e.g. "1234 56789 0101"
+    guardian?: PatientGuardian | null;
     address?: string;
     birthdate?: string; // ISO date string
     gender?: 'male' | 'female' | 'child';
+    sex?: PatientSex;
     maritalStatus?: string;
     occupation?: string;
     phone?: string;
-    vaccination?: string[];
+    phones?: Omit<PatientPhone, 'e164'>[]; // takes precedence over phone when both are sent
+    vaccination?: string[]; // vaccine names or codes; each new one is recorded without a date, needs vaccinations:write
     visitDate?: string; // ISO date string
-    notes?: Omit<PatientNote, 'id' | 'date'>[];
+    notes?: Pick<PatientNote, 'title' | 'content'>[]; // needs notes:write
 }
 
 export interface UpdatePatientRequest extends Partial<CreatePatientRequest> {
     id: string;
+    version?: number; // alternative to the If-Match header
 }
 
 export interface PatientResponse extends IPatient {
     id: string;
+    version: number; // also sent as the ETag header
     createdAt: string;
     updatedAt: string;
+    duplicateWarnings?: DuplicateWarning[]; // only when creating a patient
+    allergyWarnings?: AllergyWarning[]; // only when reading a single patient
+}
+
+// Returned with 409/412 when the patient changed since the client loaded it
+export interface PatientConflictResponse {
+    error: 'Conflict' | 'Precondition Failed';
+    message: string;
+    current: PatientResponse;
+}
+
+// Version history
+export interface PatientFieldChange {
+    field: string;
+    before?: unknown;
+    after?: unknown;
+}
+
+export interface PatientVersionResponse {
+    patientId: string; // differs from the requested id for records merged into it
+    version: number;
+    action: 'baseline' | 'create' | 'update' | 'note' | 'vaccination' | 'chart' | 'restore' | 'merge';
+    changes: PatientFieldChange[];
+    changedBy?: {
+        id: string;
+        email: string;
+    };
+    restoredFrom?: number;
+    mergedWith?: string;
+    createdAt: string;
+    snapshot?: Partial<IPatient>; // only when a single version is requested
+}
+
+export interface PatientHistoryResponse {
+    versions: PatientVersionResponse[];
+    total: number;
+    limit: number;
+    offset: number;
+}
+
+// Duplicate detection
+export type DuplicateReason = 'name' | 'birthdate' | 'phone';
+
+export interface DuplicatePatientSummary {
+    id: string;
+    firstName: string;
+    lastName: string;
+    birthdate?: string;
+    phone?: string;
+}
+
+export interface DuplicateWarning extends DuplicatePatientSummary {
+    score: number; // 0-1
+    reasons: DuplicateReason[];
+}
+
+export interface DuplicateCandidateResponse {
+    id: string;
+    patients: DuplicatePatientSummary[];
+    score: number;
+    reasons: DuplicateReason[];
+    status: 'pending' | 'dismissed' | 'merged';
+    reviewedBy?: string;
+    reviewedAt?: string;
+    createdAt: string;
+}
+
+// Vaccinations
+export type AddVaccinationRequest = Omit<PatientVaccination, 'id' | 'voidedAt' | 'voidedBy' | 'voidReason'>;
+
+// Only the fields sent are corrected; null clears an optional field
+export type UpdateVaccinationRequest = Partial<AddVaccinationRequest>;
+
+export interface VoidVaccinationRequest {
+    reason: string;
+}
+
+// Immunization schedule
+export interface ImmunizationScheduleEntry {
+    vaccine: string; // code from VACCINES
+    dose: number; // counted per vaccine, boosters included
+    ageMonths: number; // recommended age
+    maxAgeMonths?: number; // after this age the dose is no longer given
+}
+
+export type ImmunizationDoseStatus = 'given' | 'overdue' | 'due' | 'upcoming' | 'scheduled' | 'missed';
+
+export interface ImmunizationDose extends ImmunizationScheduleEntry {
+    dueDate: string; // birthdate plus ageMonths
+    status: ImmunizationDoseStatus;
+    administeredAt?: string; // given doses with a known date
+}
+
+export interface PatientImmunizationResponse {
+    patientId: string;
+    birthdate: string;
+    doses: ImmunizationDose[];
+    due: number;
+    overdue: number;
+}
+
+export interface VaccinesDueReportParams {
+    status?: string; // comma-separated overdue, due and/or upcoming; defaults to overdue,due
+    vaccine?: string; // comma-separated vaccine codes or names
+    limit?: number;
+    offset?: number;
+}
+
+export interface VaccinesDueReportEntry {
+    // Who to call: the patient's phones and, for minors, their guardian
+    patient: {
+        id: string;
+        firstName: string;
+        lastName: string;
+        birthdate: string;
+        phones: PatientPhone[];
+        guardian?: PatientGuardian;
+    };
+    doses: ImmunizationDose[]; // only the doses with a requested status
+}
+
+export interface VaccinesDueReportResponse {
+    entries: VaccinesDueReportEntry[];
+    total: number;
+    limit: number;
+    offset: number;
+}
+
+export interface MergePatientsRequest {
+    sourceId: string; // record merged into the one in the URL, then left as a redirect
 }
 
 // For statistics
@@ -68,22 +308,45 @@ export interface PatientStats {
 }
 
 // For search and filtering
+export type PatientSortField = 'name' | 'visitDate' | 'createdAt' | 'age';
+
 export interface PatientSearchParams {
     query?: string;
     gender?: 'male' | 'female' | 'child';
     ageMin?: number;
     ageMax?: number;
-    visitDateFrom?: string;
+    visitDateFrom?: string; // ISO date; a date without time in the *To fields includes the whole day
     visitDateTo?: string;
+    createdAtFrom?: string;
+    createdAtTo?: string;
+    vaccination?: string; // comma-separated, patients must have all of them
+    occupation?: string; // partial, accent-insensitive
+    sort?: PatientSortField; // defaults to newest createdAt first
+    order?: 'asc' | 'desc'; // defaults to asc when sort is given
     limit?: number;
     offset?: number;
+    cursor?: string; // enables cursor mode; empty for the first page, then the previous nextCursor
+    total?: 'exact' | 'estimate' | 'none'; // defaults to exact with offset, none with cursor
 }
 
-export interface PatientSearchResponse {
+export interface PatientPhoneSearchResponse {
     patients: PatientResponse[];
     total: number;
+    match: 'exact' | 'suffix'; // exact for a full number, suffix for its last digits
+}
+
+export interface PatientDpiSearchResponse {
+    patient: PatientResponse | null; // the patient with this DPI
+    dependents: PatientResponse[]; // minors identified through this DPI as their guardian
+}
+
+export interface PatientSearchResponse {
+    patients: PatientResponse[];
+    total?: number;
+    totalEstimated?: boolean; // total counts the whole collection, including trashed records
     limit: number;
-    offset: number;
+    offset?: number; // offset mode only
+    nextCursor?: string | null; // cursor mode only; null on the last page
 }
 
 // Validation schemas (for both frontend and backend)
@@ -125,7 +388,73 @@ export const GENDER_LABELS = {
     child: 'Niño/a'
 } as const;
 
-// Common vaccination options for Guatemala
+export const SEX_LABELS: Record<PatientSex, string> = {
+    female: 'Femenino',
+    male: 'Masculino'
+} as const;
+
+export const PHONE_LABELS: Record<PhoneLabel, string> = {
+    mobile: 'Celular',
+    home: 'Casa',
+    work: 'Trabajo',
+    emergency: 'Emergencia',
+    other: 'Otro'
+} as const;
+
+// Vaccine codes and labels, following the Guatemalan national immunization program (PNI)
+export const VACCINES: Record<string, string> = {
+    BCG: 'BCG (Tuberculosis)',
+    HepB: 'Hepatitis B',
+    Penta: 'Pentavalente (DPT, Hepatitis B, Hib)',
+    Polio: 'Polio (IPV/bOPV)',
+    Rotavirus: 'Rotavirus',
+    Neumococo: 'Neumococo',
+    SPR: 'SPR (Sarampión, Paperas, Rubéola)',
+    DPT: 'DPT (Difteria, Pertussis, Tétanos)',
+    Td: 'Td (Tétanos, Difteria)',
+    Influenza: 'Influenza',
+    'COVID-19': 'COVID-19',
+    HepA: 'Hepatitis A',
+    Varicela: 'Varicela',
+    VPH: 'VPH (Virus del Papiloma Humano)'
+} as const;
+
+export const ALLERGY_SEVERITY_LABELS: Record<AllergySeverity, string> = {
+    mild: 'Leve',
+    moderate: 'Moderada',
+    severe: 'Severa',
+    'life-threatening': 'Potencialmente mortal'
+} as const;
+
+export const ALLERGY_CATEGORY_LABELS: Record<AllergyCategory, string> = {
+    medication: 'Medicamento',
+    food: 'Alimento',
+    environment: 'Ambiental',
+    other: 'Otra'
+} as const;
+
+export const PROBLEM_STATUS_LABELS: Record<ProblemStatus, string> = {
+    active: 'Activo',
+    controlled: 'Controlado',
+    resolved: 'Resuelto'
+} as const;
+
+export const MEDICATION_STATUS_LABELS: Record<MedicationStatus, string> = {
+    active: 'Activo',
+    stopped: 'Suspendido'
+} as const;
+
+export const VACCINATION_SITE_LABELS: Record<VaccinationSite, string> = {
+    'left-arm': 'Brazo izquierdo',
+    'right-arm': 'Brazo derecho',
+    'left-thigh': 'Muslo izquierdo',
+    'right-thigh': 'Muslo derecho',
+    oral: 'Oral',
+    intranasal: 'Intranasal',
+    other: 'Otro'
+} as const;
+
+// Names offered by the old free-text vaccination list; see VACCINES for the codes
 export const COMMON_VACCINATIONS = [
     'COVID-19',
     'Influenza',
@@ -0,0 +1,77 @@
+// Shared TypeScript interfaces for staff user accounts
+// Used by both frontend (ui) and backend (server)
+
+export type UserRole = 'admin' | 'doctor' | 'nurse' | 'assistant';
+
+// For API requests/responses
+export interface UserResponse {
+    id: string;
+    email: string;
+    role: UserRole;
+    active: boolean;
+    twoFactorEnabled: boolean;
+    failedLoginAttempts: number;
+    lockedUntil?: string;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+export interface UserListResponse {
+    users: UserResponse[];
+    total: number;
+    limit: number;
+    offset: number;
+}
+
+export interface LoginAttemptResponse {
+    id: string;
+    email: string;
+    ip?: string;
+    userAgent?: string;
+    success: boolean;
+    result: string;
+    createdAt: string;
+}
+
+export interface CreateInvitationRequest {
+    email: string;
+    role: UserRole;
+    expiresInHours?: number;
+}
+
+export interface InvitationResponse {
+    id: string;
+    email: string;
+    role: UserRole;
+    expiresAt: string;
+    createdBy: string;
+    usedAt?: string;
+    createdAt?: string;
+}
+
+export interface CreateApiTokenRequest {
+    name: string;
+    scopes: string[];
+    expiresInDays?: number;
+}
+
+export interface ApiTokenResponse {
+    id: string;
+    name: string;
+    prefix: string;
+    scopes: string[];
+    expiresAt: string;
+    lastUsedAt?: string;
+    revokedAt?: string;
+    createdAt: string;
+}
+
+export const USER_ROLES: readonly UserRole[] = ['admin', 'doctor', 'nurse', 'assistant'] as const;
+
+// Role labels for UI
+export const ROLE_LABELS = {
+    admin: 'Administrador',
+    doctor: 'Doctor/a',
+    nurse: 'Enfermero/a',
+    assistant: 'Asistente'
+} as const;
@@ -0,0 +1,139 @@
+// Shared TypeScript interfaces for vital signs taken at visits
+// Used by both frontend (ui) and backend (server)
+
+import { PatientSex } from './patient';
+
+export type MeasuredVital =
+    | 'weight'
+    | 'height'
+    | 'headCircumference'
+    | 'systolic'
+    | 'diastolic'
+    | 'temperature'
+    | 'heartRate'
+    | 'spo2';
+
+// BMI is computed from weight and height, never entered
+export type VitalType = MeasuredVital | 'bmi';
+
+// A value in the stored unit, or in another unit that is converted on the way in
+export type VitalMeasurementInput = number | { value: number; unit: string };
+
+export interface RecordVitalsRequest extends Partial<Record<MeasuredVital, VitalMeasurementInput>> {
+    takenAt?: string; // ISO date string, defaults to now
+    noteId?: string; // visit note the signs were taken for
+}
+
+export interface VitalSignsResponse extends Partial<Record<VitalType, number>> {
+    id: string;
+    patientId: string;
+    noteId?: string;
+    takenAt: string;
+    recordedBy?: string;
+    createdAt: string;
+    // Children and adolescents under 19 with a birthdate and a known sex
+    growth?: GrowthAssessment;
+}
+
+export type GrowthIndicator = 'weightForAge' | 'heightForAge' | 'weightForHeight' | 'bmiForAge';
+
+export type GrowthStatus =
+    | 'severely-underweight'
+    | 'underweight'
+    | 'severely-stunted'
+    | 'stunted'
+    | 'severely-wasted'
+    | 'wasted'
+    | 'severely-thin'
+    | 'thin'
+    | 'normal'
+    | 'overweight-risk'
+    | 'overweight'
+    | 'obese';
+
+export interface GrowthScore {
+    zScore: number;
+    percentile: number;
+    status: GrowthStatus;
+}
+
+// WHO z-scores of one reading; indicators outside the age or size range of the tables are left out
+export interface GrowthAssessment extends Partial<Record<GrowthIndicator, GrowthScore>> {
+    ageMonths: number;
+    sex: PatientSex;
+}
+
+// LMS parameters by sex, as [x, L, M, S] rows where x is the age in months or the length/height in cm
+export type GrowthIndicatorTable = Record<PatientSex, [number, number, number, number][]>;
+
+export interface VitalSeriesPoint {
+    takenAt: string;
+    value: number;
+    vitalsId: string;
+}
+
+export interface PatientVitalsParams {
+    type?: string; // comma-separated VitalType values
+    from?: string; // ISO date string
+    to?: string; // ISO date string
+}
+
+export interface PatientVitalsResponse {
+    patientId: string;
+    units: Record<VitalType, string>;
+    // Oldest first, ready to plot
+    readings: VitalSignsResponse[];
+    series: Partial<Record<VitalType, VitalSeriesPoint[]>>;
+}
+
+// Units values are stored and returned in
+export const VITAL_UNITS: Record<VitalType, string> = {
+    weight: 'kg',
+    height: 'cm',
+    headCircumference: 'cm',
+    bmi: 'kg/m²',
+    systolic: 'mmHg',
+    diastolic: 'mmHg',
+    temperature: '°C',
+    heartRate: 'lpm',
+    spo2: '%'
+} as const;
+
+export const VITAL_LABELS: Record<VitalType, string> = {
+    weight: 'Peso',
+    height: 'Talla',
+    headCircumference: 'Perímetro cefálico',
+    bmi: 'IMC',
+    systolic: 'Presión sistólica',
+    diastolic: 'Presión diastólica',
+    temperature: 'Temperatura',
+    heartRate: 'Frecuencia cardiaca',
+    spo2: 'Saturación de oxígeno'
+} as const;
+
+// Plausible limits in the stored units, newborns included; anything outside is a typing error
+export const VITAL_RANGES: Record<MeasuredVital, { min: number; max: number }> = {
+    weight: { min: 0.3, max: 350 },
+    height: { min: 20, max: 250 },
+    headCircumference: { min: 20, max: 70 },
+    systolic: { min: 50, max: 260 },
+    diastolic: { min: 20, max: 160 },
+    temperature: { min: 30, max: 45 },
+    heartRate: { min: 20, max: 250 },
+    spo2: { min: 50, max: 100 }
+} as const;
+
+export const GROWTH_STATUS_LABELS: Record<GrowthStatus, string> = {
+    'severely-underweight': 'Bajo peso severo',
+    underweight: 'Bajo peso',
+    'severely-stunted': 'Retardo del crecimiento severo',
+    stunted: 'Retardo del crecimiento',
+    'severely-wasted': 'Desnutrición aguda severa',
+    wasted: 'Desnutrición aguda moderada',
+    'severely-thin': 'Delgadez severa',
+    thin: 'Delgadez',
+    normal: 'Normal',
+    'overweight-risk': 'Riesgo de sobrepeso',
+    overweight: 'Sobrepeso',
+    obese: 'Obesidad'
+} as const;
@@ -0,0 +1,67 @@
+import { FastifyRequest } from 'fastify';
+import { AuditLog, AuditAction, AuditChange } from '../models/AuditLog';
+
+// Fields that change on every save and say nothing about what the user did
+const IGNORED_FIELDS = ['updatedAt', 'createdAt', '__v'];
+
+function normalize(value: unknown): unknown {
+    if (value === undefined || value === null) {
+        return null;
+    }
+    return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Lists the top-level fields that differ between two plain snapshots of a
+ * record, with their values before and after.
+ */
+export function diffFields(
+    before: Record<string, any>,
+    after: Record<string, any>,
+    fields: string[] = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+): AuditChange[] {
+    return fields
+        .filter(field => !IGNORED_FIELDS.includes(field) && field !== '_id' && field !== 'id')
+        .map(field => ({ field, before: normalize(before[field]), after: normalize(after[field]) }))
+        .filter(change => JSON.stringify(change.before) !== JSON.stringify(change.after));
+}
+
+interface AuditEntry {
+    action: AuditAction;
+    patientId?: string;
+    patientIds?: string[];
+    noteId?: string;
+    vaccinationId?: string;
+    entryId?: string;
+    changes?: AuditChange[];
+}
+
+/**
+ * Appends an entry to the audit trail for the authenticated actor of the request.
+ * Errors propagate so a request is never served without its audit record.
+ */
+export async function recordAudit(request: FastifyRequest, entry: AuditEntry): Promise<void> {
+    const user = request.user!;
+
+    await AuditLog.create({
+        actorId: user.id,
+        actorEmail: user.email,
+        actorRole: user.role,
+        ...(request.apiToken && { apiTokenId: request.apiToken.id }),
+        ...entry,
+        ip: request.ip,
+        userAgent: request.headers['user-agent']
+    });
+}
+
+// Same as recordAudit for scheduled jobs, which run without a user
+export async function recordSystemAudit(request: FastifyRequest, entry: AuditEntry): Promise<void> {
+    await AuditLog.create({
+        actorId: 'system',
+        actorEmail: 'cron',
+        actorRole: 'system',
+        ...entry,
+        ip: request.ip,
+        userAgent: request.headers['user-agent']
+    });
+}
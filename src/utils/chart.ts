@@ -0,0 +1,61 @@
+import { AllergySeverity, AllergyWarning, PatientAllergy } from '../shared/types';
+import { normalizeText } from './text';
+
+export interface ChartList {
+    path: 'allergies' | 'problems' | 'medications';
+    entity: 'allergy' | 'problem' | 'medication'; // audit action prefix
+    label: string; // for messages
+    fields: readonly string[]; // what clients may set
+    key: string; // field that identifies the same entry on two records
+}
+
+// Structured lists on the patient chart, each with the same add/correct/remove routes
+export const CHART_LISTS: readonly ChartList[] = [
+    {
+        path: 'allergies',
+        entity: 'allergy',
+        label: 'Allergy',
+        fields: ['substance', 'category', 'reaction', 'severity', 'notes'],
+        key: 'substance'
+    },
+    {
+        path: 'problems',
+        entity: 'problem',
+        label: 'Problem',
+        fields: ['condition', 'code', 'onset', 'status', 'notes'],
+        key: 'condition'
+    },
+    {
+        path: 'medications',
+        entity: 'medication',
+        label: 'Medication',
+        fields: ['name', 'dose', 'frequency', 'route', 'startDate', 'endDate', 'status', 'notes'],
+        key: 'name'
+    }
+];
+
+// Same entry regardless of accents, case and spacing ("Penicilina" / "penicilina ")
+export function chartEntryKey(list: ChartList, entry: any): string {
+    return normalizeText(entry?.[list.key]);
+}
+
+const SEVERITY_RANK: Record<AllergySeverity, number> = {
+    'life-threatening': 4,
+    severe: 3,
+    moderate: 2,
+    mild: 1
+};
+
+// Allergies to show above the chart, most severe first; unknown severity ranks above mild
+export function toAllergyWarnings(allergies: PatientAllergy[] | undefined): AllergyWarning[] {
+    const rank = (allergy: PatientAllergy) => (allergy.severity ? SEVERITY_RANK[allergy.severity] : 1.5);
+
+    return [...(allergies || [])]
+        .sort((a, b) => rank(b) - rank(a))
+        .map((allergy: any) => ({
+            id: (allergy._id ?? allergy.id).toString(),
+            substance: allergy.substance,
+            ...(allergy.severity && { severity: allergy.severity }),
+            ...(allergy.reaction && { reaction: allergy.reaction })
+        }));
+}
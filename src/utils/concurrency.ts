@@ -0,0 +1,111 @@
+import { FastifyRequest } from 'fastify';
+import { Patient } from '../models/Patient';
+import { toPatientResponse } from './patientResponse';
+
+// Patient revisions are the document's __v, bumped on every save (optimisticConcurrency)
+export function patientVersionOf(patient: any): number {
+    return patient.__v ?? 0;
+}
+
+export function toEtag(version: number): string {
+    return `"${version}"`;
+}
+
+// Accepts "3", W/"3", a comma-separated list or *; returns null for anything else
+function parseIfMatch(header: string): number[] | '*' | null {
+    if (header.trim() === '*') return '*';
+
+    const versions = header
+        .split(',')
+        .map(tag => tag.trim().replace(/^W\//, '').replace(/^"(.*)"$/, '$1'))
+        .map(tag => (/^\d+$/.test(tag) ? parseInt(tag) : NaN));
+
+    return versions.some(Number.isNaN) ? null : versions;
+}
+
+export interface VersionConflict {
+    status: 400 | 409 | 412 | 428;
+    body: Record<string, any>;
+}
+
+/**
+ * Checks the revision the client edited (If-Match header, or a `version` field in
+ * the body) against the stored patient. Returns the response to send when the
+ * write must not go ahead; on a mismatch it includes the current server copy so
+ * the client can show what changed.
+ */
+export function checkPatientVersion(
+    request: FastifyRequest,
+    patient: any,
+    options: { required?: boolean } = {}
+): VersionConflict | null {
+    const { required = true } = options;
+    const header = request.headers['if-match'];
+    const bodyVersion = (request.body as any)?.version;
+    const current = patientVersionOf(patient);
+
+    if (header !== undefined) {
+        const expected = parseIfMatch(String(header));
+
+        if (expected === null) {
+            return {
+                status: 400,
+                body: { error: 'Validation Error', message: 'If-Match must be a patient ETag' }
+            };
+        }
+
+        if (expected !== '*' && !expected.includes(current)) {
+            return versionConflict(412, patient);
+        }
+
+        return null;
+    }
+
+    if (bodyVersion !== undefined && bodyVersion !== null) {
+        if (!Number.isInteger(Number(bodyVersion))) {
+            return {
+                status: 400,
+                body: { error: 'Validation Error', message: 'version must be an integer' }
+            };
+        }
+
+        return Number(bodyVersion) === current ? null : versionConflict(409, patient);
+    }
+
+    if (!required) {
+        return null;
+    }
+
+    return {
+        status: 428,
+        body: {
+            error: 'Precondition Required',
+            message: 'Send the patient version in an If-Match header or a version field'
+        }
+    };
+}
+
+// 412 when the client sent If-Match, 409 when it sent a version field
+export function versionConflict(status: 409 | 412, patient: any): VersionConflict {
+    return {
+        status,
+        body: {
+            error: status === 412 ? 'Precondition Failed' : 'Conflict',
+            message: 'The patient was modified by someone else',
+            current: toPatientResponse(patient)
+        }
+    };
+}
+
+/**
+ * Response for a save that failed with a VersionError, i.e. another write landed
+ * between loading the patient (:id unless given) and saving it.
+ */
+export async function latestVersionConflict(
+    request: FastifyRequest,
+    patientId: string = (request.params as { id: string }).id
+): Promise<VersionConflict> {
+    const patient = await Patient.findById(patientId);
+
+    return versionConflict(request.headers['if-match'] !== undefined ? 412 : 409, patient);
+}
@@ -0,0 +1,23 @@
+/**
+ * Mongo range for a pair of from/to query values, or null when either is not a
+ * valid date. A date without a time in `to` includes that whole day.
+ */
+export function parseDateRange(from?: string, to?: string): Record<string, Date> | null | undefined {
+    if (!from && !to) return undefined;
+
+    const fromDate = from ? new Date(from) : null;
+    const toDate = to ? new Date(to) : null;
+
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return null;
+    }
+
+    if (toDate && /^\d{4}-\d{2}-\d{2}$/.test(String(to))) {
+        toDate.setUTCHours(23, 59, 59, 999);
+    }
+
+    return {
+        ...(fromDate && { $gte: fromDate }),
+        ...(toDate && { $lte: toDate })
+    };
+}
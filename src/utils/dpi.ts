@@ -0,0 +1,66 @@
+// Guatemalan DPI (Documento Personal de Identificación) and its CUI number
+
+// Departments in RENAP code order (01-22) with their number of municipalities
+const DEPARTMENTS: { name: string; municipalities: number }[] = [
+    { name: 'Guatemala', municipalities: 17 },
+    { name: 'El Progreso', municipalities: 8 },
+    { name: 'Sacatepéquez', municipalities: 16 },
+    { name: 'Chimaltenango', municipalities: 16 },
+    { name: 'Escuintla', municipalities: 14 },
+    { name: 'Santa Rosa', municipalities: 14 },
+    { name: 'Sololá', municipalities: 19 },
+    { name: 'Totonicapán', municipalities: 8 },
+    { name: 'Quetzaltenango', municipalities: 24 },
+    { name: 'Suchitepéquez', municipalities: 21 },
+    { name: 'Retalhuleu', municipalities: 9 },
+    { name: 'San Marcos', municipalities: 30 },
+    { name: 'Huehuetenango', municipalities: 33 },
+    { name: 'Quiché', municipalities: 21 },
+    { name: 'Baja Verapaz', municipalities: 8 },
+    { name: 'Alta Verapaz', municipalities: 17 },
+    { name: 'Petén', municipalities: 14 },
+    { name: 'Izabal', municipalities: 5 },
+    { name: 'Zacapa', municipalities: 11 },
+    { name: 'Chiquimula', municipalities: 11 },
+    { name: 'Jalapa', municipalities: 7 },
+    { name: 'Jutiapa', municipalities: 17 }
+];
+
+// Digits only, as stored; spaces and dashes are how the number is printed on the card
+export function normalizeDpi(value: string | undefined | null): string | undefined {
+    const normalized = String(value ?? '').replace(/[\s-]/g, '');
+    return normalized || undefined;
+}
+
+/**
+ * Why `value` is not a valid CUI, or null when it is. The 13 digits are an
+ * 8-digit serial, a check digit (sum of the serial digits weighted 2-9, mod 11)
+ * and the department and municipality where the birth was registered.
+ */
+export function dpiError(value: string | undefined | null): string | null {
+    const cui = normalizeDpi(value) ?? '';
+
+    if (!/^\d{13}$/.test(cui)) {
+        return 'DPI must have 13 digits';
+    }
+
+    const digits = cui.split('').map(Number);
+    const checksum = digits.slice(0, 8).reduce((sum, digit, index) => sum + digit * (index + 2), 0) % 11;
+
+    if (checksum !== digits[8]) {
+        return 'DPI check digit is invalid';
+    }
+
+    const department = DEPARTMENTS[parseInt(cui.slice(9, 11)) - 1];
+    const municipality = parseInt(cui.slice(11, 13));
+
+    if (!department) {
+        return 'DPI department code is invalid';
+    }
+
+    if (municipality < 1 || municipality > department.municipalities) {
+        return `DPI municipality code is invalid for ${department.name}`;
+    }
+
+    return null;
+}
@@ -0,0 +1,143 @@
+import { Patient, ACTIVE_PATIENT } from '../models/Patient';
+import { DuplicateCandidate, DuplicateReason } from '../models/DuplicateCandidate';
+import { accentInsensitivePattern, normalizeText, similarity } from './text';
+import { toE164 } from './phone';
+
+export interface DuplicateInput {
+    firstName?: string;
+    lastName?: string;
+    birthdate?: Date | string | null;
+    phone?: string | null;
+    phones?: { number?: string; e164?: string | null }[];
+}
+
+export interface DuplicateMatch {
+    patient: any;
+    score: number;
+    reasons: DuplicateReason[];
+}
+
+const MAX_CANDIDATES = 200;
+const NAME_MATCH = 0.8;
+
+function sameDay(a?: Date | string | null, b?: Date | string | null): boolean {
+    if (!a || !b) return false;
+    return new Date(a).toISOString().slice(0, 10) === new Date(b).toISOString().slice(0, 10);
+}
+
+// E.164 form of every number on file; only the display phone when the list is missing
+function phoneNumbers(input: DuplicateInput): string[] {
+    const numbers = input.phones?.length
+        ? input.phones.map(entry => entry.e164 || toE164(entry.number))
+        : [toE164(input.phone)];
+    return numbers.filter((number): number is string => !!number);
+}
+
+function nameSimilarity(a: DuplicateInput, b: DuplicateInput): number {
+    const full = `${a.firstName || ''} ${a.lastName || ''}`;
+    return Math.max(
+        similarity(full, `${b.firstName || ''} ${b.lastName || ''}`),
+        // Reception sometimes swaps the name fields
+        similarity(full, `${b.lastName || ''} ${b.firstName || ''}`)
+    );
+}
+
+/**
+ * Scores how likely two patients are the same person from accent-insensitive
+ * name similarity, birthdate and any shared phone number. Returns null when unlikely.
+ */
+export function scoreDuplicate(a: DuplicateInput, b: DuplicateInput): { score: number; reasons: DuplicateReason[] } | null {
+    const names = nameSimilarity(a, b);
+    const birthdate = sameDay(a.birthdate, b.birthdate);
+    const phonesB = phoneNumbers(b);
+    const phone = phoneNumbers(a).some(number => phonesB.includes(number));
+    const differentBirthdates = !!a.birthdate && !!b.birthdate && !birthdate;
+
+    const likely = phone
+        ? names >= 0.5 // relatives often share a phone, so the name must still be close
+        : !differentBirthdates && (names >= 0.85 || (names >= 0.7 && birthdate));
+
+    if (!likely) {
+        return null;
+    }
+
+    const reasons: DuplicateReason[] = [];
+    if (names >= NAME_MATCH) reasons.push('name');
+    if (birthdate) reasons.push('birthdate');
+    if (phone) reasons.push('phone');
+
+    const score = 0.6 * names + (birthdate ? 0.2 : 0) + (phone ? 0.2 : 0);
+    return { score: Math.round(score * 100) / 100, reasons };
+}
+
+// Active patients that may be the same person as `input`, best match first
+export async function findDuplicateCandidates(
+    input: DuplicateInput,
+    options: { excludeId?: string; limit?: number } = {}
+): Promise<DuplicateMatch[]> {
+    const { excludeId, limit = 5 } = options;
+    const conditions: Record<string, any>[] = [];
+
+    for (const field of ['firstName', 'lastName'] as const) {
+        const prefix = normalizeText(input[field]).split(' ')[0]?.slice(0, 3);
+        if (prefix && prefix.length >= 2) {
+            conditions.push({ [field]: { $regex: `^${accentInsensitivePattern(prefix)}`, $options: 'i' } });
+        }
+    }
+
+    if (input.birthdate) {
+        const day = new Date(new Date(input.birthdate).toISOString().slice(0, 10));
+        conditions.push({ birthdate: { $gte: day, $lt: new Date(day.getTime() + 24 * 60 * 60 * 1000) } });
+    }
+
+    const phones = phoneNumbers(input);
+    if (phones.length > 0) {
+        conditions.push({ 'phones.e164': { $in: phones } });
+    }
+
+    if (conditions.length === 0) {
+        return [];
+    }
+
+    const candidates = await Patient.find({
+        ...ACTIVE_PATIENT,
+        ...(excludeId && { _id: { $ne: excludeId } }),
+        $or: conditions
+    })
+        .limit(MAX_CANDIDATES)
+        .lean();
+
+    return candidates
+        .map((patient: any) => ({ patient, result: scoreDuplicate(input, patient) }))
+        .filter(({ result }) => result !== null)
+        .map(({ patient, result }) => ({ patient, score: result!.score, reasons: result!.reasons }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+}
+
+// Adds the matches to the review queue without reopening pairs already reviewed
+export async function queueDuplicateCandidates(patientId: string, matches: DuplicateMatch[]): Promise<void> {
+    for (const match of matches) {
+        const patientIds = [patientId, match.patient._id.toString()].sort();
+
+        await DuplicateCandidate.updateOne(
+            { pairKey: patientIds.join(':') },
+            {
+                $set: { score: match.score, reasons: match.reasons },
+                $setOnInsert: { patientIds, status: 'pending' }
+            },
+            { upsert: true }
+        );
+    }
+}
+
+// Short description of a possible duplicate for warnings and the review queue
+export function toDuplicateSummary(patient: any) {
+    return {
+        id: patient._id.toString(),
+        firstName: patient.firstName,
+        lastName: patient.lastName,
+        ...(patient.birthdate && { birthdate: new Date(patient.birthdate).toISOString() }),
+        ...(patient.phone && { phone: patient.phone })
+    };
+}
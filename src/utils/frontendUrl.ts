@@ -0,0 +1,25 @@
+// FRONTEND_URL may list several frontends separated by commas; invalid entries are skipped
+export function getFrontendUrls(): string[] {
+    return (process.env.FRONTEND_URL || '')
+        .split(',')
+        .map(url => url.trim().replace(/\/+$/, ''))
+        .filter(url => toOrigin(url) !== null);
+}
+
+// Origins allowed by CORS and the cross-site check
+export function getAllowedOrigins(): string[] {
+    return getFrontendUrls().map(url => toOrigin(url)!);
+}
+
+// Base of the links sent by email or returned to admins: the first frontend listed
+export function getFrontendUrl(): string {
+    return getFrontendUrls()[0] || '';
+}
+
+export function toOrigin(url: string): string | null {
+    try {
+        return new URL(url).origin;
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,138 @@
+import { GrowthAssessment, GrowthIndicator, GrowthScore, GrowthStatus, PatientSex } from '../shared/types';
+import { WHO_GROWTH_TABLES, WhoGrowthTable } from './whoGrowthTables';
+import { computeBmi } from './vitals';
+
+// Average month length the WHO uses to convert ages in days
+const DAYS_PER_MONTH = 30.4375;
+const DAY = 24 * 60 * 60 * 1000;
+// Growth is assessed until the end of the 5-19 years reference
+const MAX_AGE_MONTHS = 228;
+// Below this age children are measured lying down (length), then standing (height)
+const STANDING_AGE_MONTHS = 24;
+const UNDER_FIVE_MONTHS = 60;
+
+// Sex for the growth standards: the recorded one, otherwise a male/female gender
+export function growthSex(patient: { sex?: PatientSex; gender?: string }): PatientSex | undefined {
+    if (patient.sex) return patient.sex;
+    return patient.gender === 'female' || patient.gender === 'male' ? patient.gender : undefined;
+}
+
+export function ageInMonths(birthdate: Date, date: Date): number {
+    return (date.getTime() - birthdate.getTime()) / DAY / DAYS_PER_MONTH;
+}
+
+// L, M and S at `x`, interpolated between the rows around it; null outside the table
+export function lmsAt(table: WhoGrowthTable, sex: PatientSex, x: number): [number, number, number] | null {
+    const rows = WHO_GROWTH_TABLES[table][sex];
+    if (x < rows[0][0] || x > rows[rows.length - 1][0]) return null;
+
+    const upper = rows.findIndex(row => row[0] >= x);
+    const [x1, ...high] = rows[upper];
+    if (x1 === x || upper === 0) return high as [number, number, number];
+
+    const [x0, ...low] = rows[upper - 1];
+    const t = (x - x0) / (x1 - x0);
+    return low.map((value, i) => value + (high[i] - value) * t) as [number, number, number];
+}
+
+// Measurement at z standard deviations from the median
+function valueAtZ([l, m, s]: [number, number, number], z: number): number {
+    return l === 0 ? m * Math.exp(s * z) : m * (1 + l * s * z) ** (1 / l);
+}
+
+/**
+ * WHO z-score of `value` from the LMS parameters. Weight-based indicators are
+ * skewed, so beyond ±3 SD the WHO measures the distance in units of the
+ * 2nd-to-3rd SD gap instead of extrapolating the curve.
+ */
+export function lmsZScore(value: number, lms: [number, number, number], weightBased: boolean): number {
+    const [l, m, s] = lms;
+    const z = l === 0 ? Math.log(value / m) / s : ((value / m) ** l - 1) / (l * s);
+
+    if (!weightBased || Math.abs(z) <= 3) return z;
+
+    const sign = Math.sign(z);
+    const sd3 = valueAtZ(lms, 3 * sign);
+    const sd2 = valueAtZ(lms, 2 * sign);
+    return sign * 3 + (value - sd3) / Math.abs(sd3 - sd2);
+}
+
+// Standard normal cumulative distribution (Abramowitz and Stegun 7.1.26)
+function normalCdf(z: number): number {
+    const x = Math.abs(z) / Math.SQRT2;
+    const t = 1 / (1 + 0.3275911 * x);
+    const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+        * Math.exp(-x * x);
+    return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// WHO cut-offs; BMI from 5 years uses the 2007 reference ones
+function growthStatus(indicator: GrowthIndicator, z: number, ageMonths: number): GrowthStatus {
+    switch (indicator) {
+        case 'weightForAge':
+            return z < -3 ? 'severely-underweight' : z < -2 ? 'underweight' : 'normal';
+        case 'heightForAge':
+            return z < -3 ? 'severely-stunted' : z < -2 ? 'stunted' : 'normal';
+        default:
+            if (indicator === 'bmiForAge' && ageMonths > UNDER_FIVE_MONTHS) {
+                return z < -3 ? 'severely-thin' : z < -2 ? 'thin' : z > 2 ? 'obese' : z > 1 ? 'overweight' : 'normal';
+            }
+            return z < -3 ? 'severely-wasted' : z < -2 ? 'wasted'
+                : z > 3 ? 'obese' : z > 2 ? 'overweight' : z > 1 ? 'overweight-risk' : 'normal';
+    }
+}
+
+function score(
+    indicator: GrowthIndicator,
+    table: WhoGrowthTable,
+    sex: PatientSex,
+    x: number,
+    value: number,
+    ageMonths: number
+): GrowthScore | undefined {
+    const lms = lmsAt(table, sex, x);
+    if (!lms) return undefined;
+
+    const z = lmsZScore(value, lms, indicator !== 'heightForAge');
+    return {
+        zScore: Math.round(z * 100) / 100,
+        percentile: Math.round(normalCdf(z) * 1000) / 10,
+        status: growthStatus(indicator, z, ageMonths)
+    };
+}
+
+/**
+ * Weight-for-age, height-for-age, weight-for-height and BMI-for-age of a reading
+ * taken at `takenAt`, or undefined for patients of 19 or older. Under 2 years the
+ * height is taken as a recumbent length and the length tables are used.
+ */
+export function assessGrowth(
+    reading: { weight?: number; height?: number; bmi?: number },
+    birthdate: Date,
+    sex: PatientSex,
+    takenAt: Date
+): GrowthAssessment | undefined {
+    const ageMonths = ageInMonths(birthdate, takenAt);
+    if (ageMonths < 0 || ageMonths > MAX_AGE_MONTHS) return undefined;
+
+    const standing = ageMonths >= STANDING_AGE_MONTHS;
+    const { weight, height } = reading;
+    const bmi = reading.bmi ?? computeBmi(weight, height);
+
+    const scores: Partial<Record<GrowthIndicator, GrowthScore>> = {
+        ...(weight && { weightForAge: score('weightForAge', 'weightForAge', sex, ageMonths, weight, ageMonths) }),
+        ...(height && {
+            heightForAge: score('heightForAge', standing ? 'heightForAge' : 'lengthForAge', sex, ageMonths, height, ageMonths)
+        }),
+        ...(weight && height && ageMonths <= UNDER_FIVE_MONTHS && {
+            weightForHeight: score('weightForHeight', standing ? 'weightForHeight' : 'weightForLength', sex, height, weight, ageMonths)
+        }),
+        ...(bmi && { bmiForAge: score('bmiForAge', standing ? 'bmiForAge' : 'bmiForAgeLength', sex, ageMonths, bmi, ageMonths) })
+    };
+
+    return {
+        ageMonths: Math.round(ageMonths * 10) / 10,
+        sex,
+        ...Object.fromEntries(Object.entries(scores).filter(([, value]) => value))
+    };
+}
@@ -0,0 +1,129 @@
+import { readFileSync } from 'fs';
+import {
+    ImmunizationScheduleEntry,
+    ImmunizationDose,
+    ImmunizationDoseStatus,
+    PatientVaccination
+} from '../shared/types';
+import { vaccineCode } from './vaccinations';
+
+// A dose stays "due" this long after its recommended age before it counts as overdue
+const DUE_WINDOW_DAYS = 30;
+// Doses coming up within this many days are listed as "upcoming"
+const UPCOMING_DAYS = 30;
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Childhood schedule of the Ministry of Health's national immunization program
+ * (PNI, MSPAS). Catch-up doses stop at the usual limits: birth doses shortly
+ * after birth, rotavirus by 8 months, the rest before 5 years.
+ */
+export const PNI_SCHEDULE: ImmunizationScheduleEntry[] = [
+    { vaccine: 'BCG', dose: 1, ageMonths: 0, maxAgeMonths: 12 },
+    { vaccine: 'HepB', dose: 1, ageMonths: 0, maxAgeMonths: 1 },
+    { vaccine: 'Penta', dose: 1, ageMonths: 2, maxAgeMonths: 59 },
+    { vaccine: 'Polio', dose: 1, ageMonths: 2, maxAgeMonths: 59 },
+    { vaccine: 'Rotavirus', dose: 1, ageMonths: 2, maxAgeMonths: 4 },
+    { vaccine: 'Neumococo', dose: 1, ageMonths: 2, maxAgeMonths: 59 },
+    { vaccine: 'Penta', dose: 2, ageMonths: 4, maxAgeMonths: 59 },
+    { vaccine: 'Polio', dose: 2, ageMonths: 4, maxAgeMonths: 59 },
+    { vaccine: 'Rotavirus', dose: 2, ageMonths: 4, maxAgeMonths: 8 },
+    { vaccine: 'Neumococo', dose: 2, ageMonths: 4, maxAgeMonths: 59 },
+    { vaccine: 'Penta', dose: 3, ageMonths: 6, maxAgeMonths: 59 },
+    { vaccine: 'Polio', dose: 3, ageMonths: 6, maxAgeMonths: 59 },
+    { vaccine: 'Neumococo', dose: 3, ageMonths: 12, maxAgeMonths: 59 },
+    { vaccine: 'SPR', dose: 1, ageMonths: 12, maxAgeMonths: 59 },
+    { vaccine: 'SPR', dose: 2, ageMonths: 18, maxAgeMonths: 59 },
+    { vaccine: 'DPT', dose: 1, ageMonths: 18, maxAgeMonths: 59 },
+    { vaccine: 'Polio', dose: 4, ageMonths: 18, maxAgeMonths: 59 },
+    { vaccine: 'DPT', dose: 2, ageMonths: 48, maxAgeMonths: 83 },
+    { vaccine: 'Polio', dose: 5, ageMonths: 48, maxAgeMonths: 83 }
+];
+
+let cachedSchedule: ImmunizationScheduleEntry[] | null = null;
+
+function parseSchedule(data: unknown): ImmunizationScheduleEntry[] {
+    if (!Array.isArray(data)) {
+        throw new Error('Immunization schedule must be a JSON array');
+    }
+
+    return data.map((entry: any, index) => {
+        const valid = entry && typeof entry.vaccine === 'string' && entry.vaccine.trim()
+            && Number.isInteger(entry.dose) && entry.dose >= 1
+            && Number.isInteger(entry.ageMonths) && entry.ageMonths >= 0
+            && (entry.maxAgeMonths === undefined || (Number.isInteger(entry.maxAgeMonths) && entry.maxAgeMonths >= entry.ageMonths));
+
+        if (!valid) {
+            throw new Error(`Immunization schedule entry ${index} needs vaccine, dose >= 1, ageMonths >= 0 and maxAgeMonths >= ageMonths`);
+        }
+
+        return {
+            vaccine: vaccineCode(entry.vaccine),
+            dose: entry.dose,
+            ageMonths: entry.ageMonths,
+            ...(entry.maxAgeMonths !== undefined && { maxAgeMonths: entry.maxAgeMonths })
+        };
+    });
+}
+
+// IMMUNIZATION_SCHEDULE_FILE: JSON file replacing the PNI schedule, e.g. for a local campaign
+export function getImmunizationSchedule(): ImmunizationScheduleEntry[] {
+    if (!cachedSchedule) {
+        const file = process.env.IMMUNIZATION_SCHEDULE_FILE;
+        cachedSchedule = file ? parseSchedule(JSON.parse(readFileSync(file, 'utf8'))) : PNI_SCHEDULE;
+    }
+    return cachedSchedule;
+}
+
+// Oldest age, in months, at which the schedule still has doses to give
+export function scheduleMaxAgeMonths(schedule: ImmunizationScheduleEntry[]): number {
+    return Math.max(0, ...schedule.map(entry => entry.maxAgeMonths ?? entry.ageMonths));
+}
+
+export function addMonths(date: Date, months: number): Date {
+    const result = new Date(date);
+    result.setUTCMonth(result.getUTCMonth() + months);
+    return result;
+}
+
+function doseStatus(entry: ImmunizationScheduleEntry, birthdate: Date, now: Date): ImmunizationDoseStatus {
+    const dueDate = addMonths(birthdate, entry.ageMonths);
+
+    if (entry.maxAgeMonths !== undefined && now >= addMonths(birthdate, entry.maxAgeMonths + 1)) {
+        return 'missed';
+    }
+    if (now.getTime() > dueDate.getTime() + DUE_WINDOW_DAYS * DAY) {
+        return 'overdue';
+    }
+    if (now >= dueDate) {
+        return 'due';
+    }
+    return dueDate.getTime() - now.getTime() <= UPCOMING_DAYS * DAY ? 'upcoming' : 'scheduled';
+}
+
+/**
+ * Status of every dose of the schedule for a patient born on `birthdate`. A dose
+ * counts as given when a vaccination that is not voided records that dose
+ * number, or when there are at least that many vaccinations of the vaccine
+ * without a dose number (entries converted from the old list have none).
+ */
+export function computeImmunizations(
+    birthdate: Date,
+    vaccinations: PatientVaccination[],
+    schedule: ImmunizationScheduleEntry[] = getImmunizationSchedule(),
+    now: Date = new Date()
+): ImmunizationDose[] {
+    return schedule.map(entry => {
+        const received = vaccinations.filter(vaccination => !vaccination.voidedAt && vaccination.vaccine === entry.vaccine);
+        const undosed = received.filter(vaccination => vaccination.dose === undefined || vaccination.dose === null);
+        const given = received.find(vaccination => vaccination.dose === entry.dose)
+            ?? (undosed.length >= entry.dose ? undosed[entry.dose - 1] : undefined);
+
+        return {
+            ...entry,
+            dueDate: addMonths(birthdate, entry.ageMonths).toISOString(),
+            status: given ? 'given' : doseStatus(entry, birthdate, now),
+            ...(given?.administeredAt && { administeredAt: new Date(given.administeredAt).toISOString() })
+        };
+    });
+}
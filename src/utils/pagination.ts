@@ -0,0 +1,74 @@
+import { Types } from 'mongoose';
+
+export type SortSpec = Record<string, 1 | -1>;
+
+// Dates and ObjectIds are tagged so they survive the JSON round trip
+function encodeValue(value: any): any {
+    if (value instanceof Date) return { $d: value.toISOString() };
+    if (value instanceof Types.ObjectId) return { $o: value.toString() };
+    return value ?? null;
+}
+
+function decodeValue(value: any): any {
+    if (value && typeof value === 'object') {
+        if (typeof value.$d === 'string') return new Date(value.$d);
+        if (typeof value.$o === 'string' && Types.ObjectId.isValid(value.$o)) return new Types.ObjectId(value.$o);
+    }
+    return value;
+}
+
+/**
+ * Opaque cursor pointing just after `item` in a list ordered by `sort`. The
+ * sort itself is embedded so a cursor cannot be replayed against another order.
+ */
+export function encodeCursor(sort: SortSpec, item: Record<string, any>): string {
+    const payload = { s: sort, v: Object.keys(sort).map(field => encodeValue(item[field])) };
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+// Sort values stored in the cursor, or null if it is malformed or for another sort
+export function decodeCursor(cursor: string, sort: SortSpec): any[] | null {
+    try {
+        const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+
+        if (JSON.stringify(payload.s) !== JSON.stringify(sort) || !Array.isArray(payload.v)
+            || payload.v.length !== Object.keys(sort).length) {
+            return null;
+        }
+
+        return payload.v.map(decodeValue);
+    } catch {
+        return null;
+    }
+}
+
+// Condition for values of one field strictly after `value`; Mongo sorts nulls first
+function after(field: string, direction: 1 | -1, value: any): Record<string, any> | null {
+    if (value === null) {
+        return direction === 1 ? { [field]: { $ne: null } } : null;
+    }
+
+    return direction === 1
+        ? { [field]: { $gt: value } }
+        : { $or: [{ [field]: { $lt: value } }, { [field]: null }] };
+}
+
+/**
+ * Match stage condition for the items that come after the cursor values in
+ * `sort` order (keyset pagination). The last sort field must be unique, e.g. _id.
+ */
+export function keysetFilter(sort: SortSpec, values: any[]): Record<string, any> {
+    const fields = Object.keys(sort);
+    const branches: Record<string, any>[] = [];
+
+    fields.forEach((field, index) => {
+        const next = after(field, sort[field], values[index]);
+        if (!next) return;
+
+        const equal = fields.slice(0, index).map((previous, i) => ({ [previous]: values[i] }));
+        branches.push({ $and: [...equal, next] });
+    });
+
+    // Nothing can come after the last item in every field
+    return branches.length > 0 ? { $or: branches } : { _id: { $exists: false } };
+}
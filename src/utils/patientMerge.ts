@@ -0,0 +1,140 @@
+import { FastifyRequest } from 'fastify';
+import { Error as MongooseError } from 'mongoose';
+import { Patient, IPatientDocument } from '../models/Patient';
+import { DuplicateCandidate } from '../models/DuplicateCandidate';
+import { VitalSigns } from '../models/VitalSigns';
+import { AuditChange } from '../models/AuditLog';
+import { recordPatientVersion, toPatientSnapshot } from './patientVersions';
+import { diffFields } from './audit';
+import { CHART_LISTS, chartEntryKey } from './chart';
+
+// Demographic fields copied from the merged record when the surviving one has none
+const FILLABLE_FIELDS = ['address', 'birthdate', 'gender', 'sex', 'maritalStatus', 'occupation'] as const;
+
+/**
+ * Merges `source` into `target`: notes, vaccinations, chart lists and vital signs
+ * are moved and empty demographic fields filled in. The source stays behind as a
+ * tombstone pointing at the target so its id keeps resolving, and both histories
+ * get a 'merge' version.
+ */
+export async function mergePatients(
+    request: FastifyRequest,
+    target: IPatientDocument,
+    source: IPatientDocument
+): Promise<AuditChange[]> {
+    const targetId = target._id.toString();
+    const sourceId = source._id.toString();
+    const targetBefore = toPatientSnapshot(target);
+    const sourceBefore = toPatientSnapshot(source);
+
+    // Two different DPIs are two different people
+    if (target.dpi && source.dpi && target.dpi !== source.dpi) {
+        const error = new MongooseError.ValidationError();
+        error.addError('dpi', new MongooseError.ValidatorError({
+            message: 'The patients have different DPI numbers',
+            path: 'dpi',
+            value: source.dpi
+        }));
+        throw error;
+    }
+
+    for (const note of source.notes as any[]) {
+        if (!note.deletedAt) {
+            target.notes.push({ _id: note._id, title: note.title, content: note.content, date: note.date } as any);
+        }
+    }
+
+    // The same dose charted on both records is kept once
+    const vaccinationKey = (entry: any) => [entry.vaccine, entry.dose, entry.administeredAt?.toISOString(), !!entry.voidedAt].join('|');
+    const knownVaccinations = new Set(target.vaccinations.map(vaccinationKey));
+    for (const entry of source.vaccinations as any[]) {
+        if (!knownVaccinations.has(vaccinationKey(entry))) {
+            target.vaccinations.push(entry.toObject());
+            knownVaccinations.add(vaccinationKey(entry));
+        }
+    }
+
+    // Allergies, problems and medications the target already lists are not repeated
+    for (const list of CHART_LISTS) {
+        const entries = target.get(list.path);
+        const known = new Set(entries.map((entry: any) => chartEntryKey(list, entry)));
+        for (const entry of source.get(list.path) as any[]) {
+            if (!known.has(chartEntryKey(list, entry))) {
+                entries.push(entry.toObject());
+                known.add(chartEntryKey(list, entry));
+            }
+        }
+    }
+
+    // Source numbers are added after the target's, so the target keeps its primary phone
+    const knownPhones = new Set(target.phones.map(entry => entry.e164));
+    for (const entry of source.phones) {
+        if (!knownPhones.has(entry.e164)) {
+            target.phones.push({ label: entry.label, number: entry.number });
+            knownPhones.add(entry.e164);
+        }
+    }
+
+    for (const field of FILLABLE_FIELDS) {
+        if (!target.get(field) && source.get(field)) {
+            target.set(field, source.get(field));
+        }
+    }
+
+    const movedDpi = !target.dpi && source.dpi;
+    if (movedDpi) {
+        target.dpi = source.dpi;
+        target.guardian = undefined;
+    }
+    if (!target.dpi && !target.guardian?.dpi && source.guardian?.dpi) {
+        const { dpi, name, relationship } = source.guardian;
+        target.guardian = { dpi, name, relationship };
+    }
+
+    if (source.visitDate && (!target.visitDate || source.visitDate > target.visitDate)) {
+        target.visitDate = source.visitDate;
+    }
+
+    // Fail before touching the source if the combined record is invalid (e.g. too many notes)
+    await target.validate();
+
+    source.mergedInto = targetId;
+    source.mergedAt = new Date();
+    source.mergedBy = request.user!.id;
+    source.notes = (source.notes as any[]).filter(note => note.deletedAt) as any;
+    source.vaccinations = [];
+    for (const list of CHART_LISTS) {
+        source.set(list.path, []);
+    }
+    // Phones and a moved DPI now belong to the surviving record only
+    source.phones = [];
+    if (movedDpi) {
+        source.dpi = undefined;
+    }
+    await source.save();
+
+    try {
+        await target.save();
+    } catch (error) {
+        source.mergedInto = null;
+        source.mergedAt = undefined;
+        source.mergedBy = undefined;
+        source.set(sourceBefore);
+        await source.save();
+        throw error;
+    }
+
+    await recordPatientVersion(request, source, { action: 'merge', before: sourceBefore, mergedWith: targetId });
+    await recordPatientVersion(request, target, { action: 'merge', before: targetBefore, mergedWith: sourceId });
+
+    // Records previously merged into the source now point straight at the target
+    await Patient.updateMany({ mergedInto: sourceId }, { mergedInto: targetId });
+    await VitalSigns.updateMany({ patientId: sourceId }, { patientId: targetId });
+
+    await DuplicateCandidate.updateMany(
+        { patientIds: sourceId, status: 'pending' },
+        { status: 'merged', reviewedBy: request.user!.id, reviewedAt: new Date() }
+    );
+
+    return diffFields(targetBefore, toPatientSnapshot(target));
+}
@@ -0,0 +1,83 @@
+import { PatientResponse } from '../shared/types';
+
+function toISO(value: any): string | undefined {
+    return value ? new Date(value).toISOString() : undefined;
+}
+
+// Embedded list entries with their id exposed and dates as ISO strings
+function toEntries(entries: any[] | undefined, dateFields: string[]): any[] {
+    return (entries || []).map(entry => {
+        const { _id, ...rest } = entry;
+        const dates = dateFields.filter(field => entry[field]).map(field => [field, toISO(entry[field])]);
+        return { ...rest, id: (_id ?? entry.id)?.toString(), ...Object.fromEntries(dates) };
+    });
+}
+
+/**
+ * API shape of a patient, from either a document or a lean/aggregate result.
+ * Soft-deleted notes are left out unless explicitly requested (trash views).
+ */
+export function toPatientResponse(patient: any, options: { includeDeletedNotes?: boolean } = {}): PatientResponse {
+    // Read before toObject(), whose transform drops __v
+    const version = patient.__v ?? 0;
+    const data = typeof patient.toObject === 'function' ? patient.toObject() : { ...patient };
+    const id = String(data.id ?? data._id);
+    delete data._id;
+    delete data.__v;
+    delete data.searchKeys;
+
+    return {
+        ...data,
+        id,
+        version,
+        createdAt: toISO(data.createdAt)!,
+        updatedAt: toISO(data.updatedAt)!,
+        visitDate: toISO(data.visitDate),
+        ...(data.birthdate && { birthdate: toISO(data.birthdate) }),
+        ...(data.deletedAt && { deletedAt: toISO(data.deletedAt) }),
+        notes: (data.notes || [])
+            .filter((note: any) => options.includeDeletedNotes || !note.deletedAt)
+            .map((note: any) => {
+                const { _id, ...rest } = note;
+                return {
+                    ...rest,
+                    id: (_id ?? note.id)?.toString(),
+                    date: toISO(note.date),
+                    ...(note.deletedAt && { deletedAt: toISO(note.deletedAt) })
+                };
+            }),
+        // Voided vaccinations are kept so the record shows what was corrected
+        vaccinations: (data.vaccinations || []).map((vaccination: any) => {
+            const { _id, ...rest } = vaccination;
+            return {
+                ...rest,
+                id: (_id ?? vaccination.id)?.toString(),
+                ...(vaccination.administeredAt && { administeredAt: toISO(vaccination.administeredAt) }),
+                ...(vaccination.voidedAt && { voidedAt: toISO(vaccination.voidedAt) })
+            };
+        }),
+        allergies: toEntries(data.allergies, ['recordedAt']),
+        problems: toEntries(data.problems, ['onset', 'recordedAt']),
+        medications: toEntries(data.medications, ['startDate', 'endDate', 'recordedAt'])
+    };
+}
+
+// Patient fields with a unique index, and what to tell the client when a save collides on one
+const UNIQUE_FIELD_MESSAGES: Record<string, string> = {
+    dpi: 'Another patient already has this DPI'
+};
+
+// 409 body for a save rejected by a unique index, or null for any other error
+export function uniqueFieldConflict(error: any): { error: 'Conflict'; message: string; field: string } | null {
+    if (error?.code !== 11000) {
+        return null;
+    }
+
+    const field = Object.keys(error.keyPattern || error.keyValue || {})[0];
+
+    return {
+        error: 'Conflict',
+        message: UNIQUE_FIELD_MESSAGES[field] ?? 'The patient conflicts with an existing record',
+        field
+    };
+}
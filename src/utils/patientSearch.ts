@@ -0,0 +1,100 @@
+import { Types } from 'mongoose';
+import { Patient, ACTIVE_PATIENT } from '../models/Patient';
+import { phoneDigits, phoneticKey, similarity } from './text';
+import { MIN_PHONE_SUFFIX, MIN_PREFIX, queryKeys, searchWords } from './searchKeys';
+
+// Patients scored per search; enough for a clinic-sized list of plausible matches
+const MAX_CANDIDATES = 1000;
+const MAX_RESULTS = 200;
+const TYPO_SIMILARITY = 0.75;
+
+interface CandidateWords {
+    names: string[];
+    phonetics: string[];
+    address: string[];
+    digits: string[]; // digits of every phone
+}
+
+// How well one query word matches a patient, 0 when it does not match at all. A word
+// only scores when the patient has one of its query keys, so no match is left out
+function scoreWord(word: string, candidate: CandidateWords): number {
+    if (/^\d+$/.test(word)) {
+        const digits = phoneDigits(word);
+        return digits.length >= MIN_PHONE_SUFFIX && candidate.digits.some(number => number.endsWith(digits)) ? 0.9 : 0;
+    }
+
+    let best = 0;
+    const phonetic = phoneticKey(word);
+
+    candidate.names.forEach((name, index) => {
+        if (name === word) {
+            best = Math.max(best, 1);
+        } else if (name.startsWith(word)) {
+            best = Math.max(best, 0.6 + 0.3 * (word.length / name.length));
+        } else if (candidate.phonetics[index] === phonetic) {
+            best = Math.max(best, 0.7);
+        } else if (word.length >= 4 && name.startsWith(word.slice(0, 3))) {
+            const score = similarity(word, name);
+            if (score >= TYPO_SIMILARITY) {
+                best = Math.max(best, 0.6 * score);
+            }
+        }
+    });
+
+    if (best === 0 && candidate.address.includes(word)) {
+        best = 0.3;
+    }
+
+    return best;
+}
+
+/**
+ * Active patients matching every word of `query`, best match first. Words match
+ * regardless of accents and case, as name prefixes, by sound ("Gonsales") or
+ * with a small typo; address words and the last digits of phone numbers are
+ * matched too.
+ */
+export async function rankPatientSearch(query: string): Promise<Types.ObjectId[]> {
+    const words = searchWords(query);
+
+    if (words.length === 0) {
+        return [];
+    }
+
+    // Candidates must have a key for every word, except single letters that only
+    // the scoring can match; past the cap the most recently seen patients are kept
+    const required = words.filter(word => word.length >= MIN_PREFIX);
+    const candidates = await Patient.find({
+        ...ACTIVE_PATIENT,
+        ...(required.length > 0
+            ? { $and: required.map(word => ({ searchKeys: { $in: queryKeys(word) } })) }
+            : { searchKeys: { $in: words.flatMap(queryKeys) } })
+    })
+        .select('firstName lastName address phone phones')
+        .sort({ visitDate: -1 })
+        .limit(MAX_CANDIDATES)
+        .lean();
+
+    return candidates
+        .map((patient: any) => {
+            const names = searchWords(`${patient.firstName} ${patient.lastName}`);
+            const candidate: CandidateWords = {
+                names,
+                phonetics: names.map(phoneticKey),
+                address: searchWords(patient.address),
+                digits: [patient.phone, ...(patient.phones || []).map((entry: any) => entry.number)]
+                    .map(phoneDigits)
+                    .filter(Boolean)
+            };
+            const scores = words.map(word => scoreWord(word, candidate));
+
+            return {
+                id: patient._id as Types.ObjectId,
+                score: scores.includes(0) ? 0 : scores.reduce((sum, score) => sum + score, 0) / scores.length
+            };
+        })
+        .filter(result => result.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_RESULTS)
+        .map(result => result.id);
+}
@@ -0,0 +1,72 @@
+import { FastifyRequest } from 'fastify';
+import { IPatientDocument } from '../models/Patient';
+import { PatientVersion, IPatientVersion, PatientVersionAction } from '../models/PatientVersion';
+import { diffFields } from './audit';
+
+// Bookkeeping fields that are not part of the clinical record
+const UNVERSIONED_FIELDS = [
+    '_id', 'id', '__v', 'createdAt', 'updatedAt',
+    'deletedAt', 'deletedBy', 'deletionReason',
+    'mergedInto', 'mergedAt', 'mergedBy', 'searchKeys'
+];
+
+/**
+ * Plain copy of the versioned fields of a patient. Notes keep their _id so a
+ * restore brings back the same notes rather than new ones.
+ */
+export function toPatientSnapshot(patient: IPatientDocument): Record<string, any> {
+    const data = JSON.parse(JSON.stringify(patient.toObject({ transform: false })));
+
+    for (const field of UNVERSIONED_FIELDS) {
+        delete data[field];
+    }
+
+    return data;
+}
+
+// Top-level schema fields a restore may overwrite or clear
+export function versionedFields(patient: IPatientDocument): string[] {
+    return Object.keys(patient.schema.paths)
+        .map(path => path.split('.')[0])
+        .filter((field, index, fields) => fields.indexOf(field) === index)
+        .filter(field => !UNVERSIONED_FIELDS.includes(field));
+}
+
+/**
+ * Stores the current state of a patient as the next version. `before` is the
+ * state prior to the change; patients created before versioning existed get
+ * it stored as a baseline first so the original data can still be restored.
+ */
+export async function recordPatientVersion(
+    request: FastifyRequest,
+    patient: IPatientDocument,
+    options: { action: PatientVersionAction; before?: Record<string, any>; restoredFrom?: number; mergedWith?: string }
+): Promise<IPatientVersion> {
+    const patientId = patient._id.toString();
+    const changedBy = request.user ? { id: request.user.id, email: request.user.email } : undefined;
+
+    let latest = await PatientVersion.findOne({ patientId }).sort({ version: -1 });
+
+    if (!latest && options.before) {
+        latest = await PatientVersion.create({
+            patientId,
+            version: 1,
+            action: 'baseline',
+            snapshot: options.before,
+            changes: []
+        });
+    }
+
+    const snapshot = toPatientSnapshot(patient);
+
+    return PatientVersion.create({
+        patientId,
+        version: (latest?.version || 0) + 1,
+        action: options.action,
+        snapshot,
+        changes: diffFields(latest?.snapshot || {}, snapshot),
+        changedBy,
+        ...(options.restoredFrom && { restoredFrom: options.restoredFrom }),
+        ...(options.mergedWith && { mergedWith: options.mergedWith })
+    });
+}
@@ -0,0 +1,32 @@
+// Phone numbers are stored as entered for display plus a canonical E.164 form for lookups
+
+export const DEFAULT_COUNTRY_CODE = '502'; // Guatemala
+const LOCAL_LENGTH = 8;
+
+/**
+ * Canonical E.164 form ("+50255551234") of a number as typed by staff, or null
+ * when it cannot be a valid number. Local 8-digit numbers get +502; numbers
+ * with a + or 00 prefix keep their own country code.
+ */
+export function toE164(value: string | undefined | null, countryCode: string = DEFAULT_COUNTRY_CODE): string | null {
+    const raw = String(value || '').trim();
+    let digits = raw.replace(/\D/g, '');
+
+    if (raw.startsWith('+')) {
+        // already international
+    } else if (digits.startsWith('00')) {
+        digits = digits.slice(2);
+    } else if (digits.length === LOCAL_LENGTH) {
+        digits = countryCode + digits;
+    } else if (!(digits.startsWith(countryCode) && digits.length === countryCode.length + LOCAL_LENGTH)) {
+        return null;
+    }
+
+    // E.164 allows at most 15 digits; anything under 8 cannot be a full number
+    return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null;
+}
+
+// Display form with whitespace collapsed, as the phone field has always been stored
+export function cleanPhoneNumber(value: string): string {
+    return value.replace(/\s+/g, ' ').trim();
+}
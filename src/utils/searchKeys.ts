@@ -0,0 +1,65 @@
+import { normalizeText, phoneDigits, phoneticKey } from './text';
+
+// Shortest name prefix indexed, so "Ma" already finds "María"
+export const MIN_PREFIX = 2;
+// Shortest phone number ending indexed, so the last digits find the number
+export const MIN_PHONE_SUFFIX = 4;
+
+export interface SearchablePatient {
+    firstName?: string;
+    lastName?: string;
+    address?: string;
+    phone?: string;
+    phones?: { number: string }[];
+}
+
+export function searchWords(value: string | undefined | null): string[] {
+    return normalizeText(value).split(' ').filter(Boolean);
+}
+
+/**
+ * Keys stored on each patient for the search index: every prefix of each
+ * normalized name word, its phonetic key (~), address words (@) and every
+ * ending of the digits of each phone (#). Kept in one multikey field so a
+ * single index serves all of them.
+ */
+export function buildPatientSearchKeys(patient: SearchablePatient): string[] {
+    const keys = new Set<string>();
+
+    for (const word of searchWords(`${patient.firstName || ''} ${patient.lastName || ''}`)) {
+        for (let length = Math.min(MIN_PREFIX, word.length); length <= word.length; length++) {
+            keys.add(word.slice(0, length));
+        }
+        keys.add(`~${phoneticKey(word)}`);
+    }
+
+    for (const word of searchWords(patient.address)) {
+        keys.add(`@${word}`);
+    }
+
+    for (const phone of [patient.phone, ...(patient.phones || []).map(entry => entry.number)]) {
+        const digits = phoneDigits(phone);
+        if (!digits) {
+            continue;
+        }
+        for (let length = Math.min(MIN_PHONE_SUFFIX, digits.length); length <= digits.length; length++) {
+            keys.add(`#${digits.slice(-length)}`);
+        }
+    }
+
+    return Array.from(keys);
+}
+
+// Keys to look up for one word of a search query, including loose ones for typos
+export function queryKeys(word: string): string[] {
+    const keys = [word, `~${phoneticKey(word)}`, `@${word}`];
+
+    if (/^\d+$/.test(word)) {
+        keys.push(`#${phoneDigits(word)}`);
+    } else if (word.length >= 4) {
+        // Typos rarely fall in the first letters
+        keys.push(word.slice(0, 3));
+    }
+
+    return keys;
+}
@@ -0,0 +1,91 @@
+// Text helpers for matching names typed with inconsistent accents, case and spacing
+
+const ACCENT_VARIANTS: Record<string, string> = {
+    a: 'aáàäâ',
+    e: 'eéèëê',
+    i: 'iíìïî',
+    o: 'oóòöô',
+    u: 'uúùüû',
+    n: 'nñ'
+};
+
+// "  José  PÉREZ " -> "jose perez"
+export function normalizeText(value: string | undefined | null): string {
+    return String(value || '')
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9\s]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+export function levenshtein(a: string, b: string): number {
+    if (a === b) return 0;
+    if (!a.length) return b.length;
+    if (!b.length) return a.length;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+        }
+        previous = current;
+    }
+
+    return previous[b.length];
+}
+
+// 1 for identical strings (after normalization), 0 for completely different ones
+export function similarity(a: string, b: string): number {
+    const left = normalizeText(a);
+    const right = normalizeText(b);
+    const length = Math.max(left.length, right.length);
+
+    if (length === 0) return 0;
+    return 1 - levenshtein(left, right) / length;
+}
+
+/**
+ * Regex source that matches the normalized text regardless of accents and case,
+ * for querying fields that store the original spelling.
+ */
+export function accentInsensitivePattern(value: string): string {
+    return normalizeText(value)
+        .split('')
+        .map(char => {
+            if (ACCENT_VARIANTS[char]) return `[${ACCENT_VARIANTS[char]}]`;
+            return char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        })
+        .join('');
+}
+
+// Local Guatemalan numbers have 8 digits; the +502 country code is ignored
+export function phoneDigits(value: string | undefined | null): string {
+    const digits = String(value || '').replace(/\D/g, '');
+    return digits.length > 8 && digits.startsWith('502') ? digits.slice(3) : digits;
+}
+
+/**
+ * Rough Spanish pronunciation key so names spelled the way they sound still
+ * match: "Gonsales" and "González" both give "gonsales".
+ */
+export function phoneticKey(value: string): string {
+    return normalizeText(value)
+        .replace(/[^a-z]/g, '')
+        .replace(/ch/g, 'x')
+        .replace(/h/g, '')
+        .replace(/ll/g, 'y')
+        .replace(/y(?![aeiou])/g, 'i')
+        .replace(/qu([ei])/g, 'k$1')
+        .replace(/c([ei])/g, 's$1')
+        .replace(/g([ei])/g, 'j$1')
+        .replace(/gu([ei])/g, 'g$1')
+        .replace(/[cq]/g, 'k')
+        .replace(/z/g, 's')
+        .replace(/v/g, 'b')
+        .replace(/(.)\1+/g, '$1');
+}
@@ -0,0 +1,89 @@
+import { Patient } from '../models/Patient';
+import { PatientVersion } from '../models/PatientVersion';
+import { VitalSigns } from '../models/VitalSigns';
+import logger from './logger';
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const PURGE_INTERVAL = 1000 * 60 * 60 * 24; // daily
+
+export interface PurgeResult {
+    patientIds: string[];
+    notes: number;
+}
+
+// TRASH_RETENTION_DAYS: how long deleted patients and notes can still be restored
+export function getTrashRetentionDays(): number {
+    return parseInt(process.env.TRASH_RETENTION_DAYS || '') || DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+export function getPurgeDate(deletedAt: Date): Date {
+    return new Date(deletedAt.getTime() + getTrashRetentionDays() * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Permanently removes patients and notes that have been in the trash longer
+ * than the retention period, including their copies in the version history
+ * (snapshots and recorded changes) and the vital signs of purged patients.
+ */
+export async function purgeExpiredTrash(now: Date = new Date()): Promise<PurgeResult> {
+    const cutoff = new Date(now.getTime() - getTrashRetentionDays() * 24 * 60 * 60 * 1000);
+
+    const patients = await Patient.find({ deletedAt: { $ne: null, $lte: cutoff } }).select('_id').lean();
+    const patientIds = patients.map((patient: any) => patient._id.toString());
+
+    if (patientIds.length > 0) {
+        await Patient.deleteMany({ _id: { $in: patientIds } });
+        await PatientVersion.deleteMany({ patientId: { $in: patientIds } });
+        await VitalSigns.deleteMany({ patientId: { $in: patientIds } });
+    }
+
+    const expiredNotes = await Patient.aggregate([
+        { $match: { 'notes.deletedAt': { $ne: null, $lte: cutoff } } },
+        { $unwind: '$notes' },
+        { $match: { 'notes.deletedAt': { $ne: null, $lte: cutoff } } },
+        { $project: { noteId: '$notes._id' } }
+    ]);
+
+    if (expiredNotes.length > 0) {
+        const noteIds = expiredNotes.map(note => note.noteId);
+
+        await Patient.updateMany(
+            { 'notes._id': { $in: noteIds } },
+            { $pull: { notes: { _id: { $in: noteIds } } } }
+        );
+        // Snapshots store ids as strings
+        const ids = noteIds.map(String);
+        await PatientVersion.updateMany(
+            { 'snapshot.notes._id': { $in: ids } },
+            { $pull: { 'snapshot.notes': { _id: { $in: ids } } } }
+        );
+        // The recorded changes hold whole note lists before and after each change
+        for (const side of ['before', 'after']) {
+            await PatientVersion.updateMany(
+                { changes: { $elemMatch: { field: 'notes', [`${side}._id`]: { $in: ids } } } },
+                { $pull: { [`changes.$[change].${side}`]: { _id: { $in: ids } } } },
+                { arrayFilters: [{ 'change.field': 'notes', [`change.${side}`]: { $type: 'array' } }] }
+            );
+        }
+    }
+
+    return { patientIds, notes: expiredNotes.length };
+}
+
+// Long-running servers purge on their own; on Vercel a cron job calls GET /cron/trash-purge
+export function scheduleTrashPurge(): NodeJS.Timeout {
+    const timer = setInterval(async () => {
+        try {
+            const result = await purgeExpiredTrash();
+            if (result.patientIds.length > 0 || result.notes > 0) {
+                logger.info(`Papelera purgada: ${result.patientIds.length} pacientes, ${result.notes} notas`);
+            }
+        } catch (error) {
+            logger.error('Error al purgar la papelera');
+            console.error(error);
+        }
+    }, PURGE_INTERVAL);
+
+    timer.unref();
+    return timer;
+}
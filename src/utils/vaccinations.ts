@@ -0,0 +1,42 @@
+import { VACCINES, PatientVaccination } from '../shared/types';
+import { normalizeText } from './text';
+
+// Other names staff use, including those of the old free-text list, by vaccine code
+const VACCINE_ALIASES: Record<string, string[]> = {
+    HepB: ['Hep B'],
+    HepA: ['Hep A'],
+    Penta: ['Pentavalente'],
+    Polio: ['IPV', 'OPV', 'bOPV'],
+    Neumococo: ['Neumococica', 'PCV'],
+    SPR: ['MMR (Sarampión, Paperas, Rubéola)', 'MMR', 'Sarampion'],
+    Influenza: ['Flu', 'Gripe'],
+    'COVID-19': ['COVID'],
+    VPH: ['HPV (Virus del Papiloma Humano)', 'HPV']
+};
+
+const CODES_BY_NAME = new Map<string, string>();
+for (const [code, label] of Object.entries(VACCINES)) {
+    for (const name of [code, label, ...(VACCINE_ALIASES[code] || [])]) {
+        CODES_BY_NAME.set(normalizeText(name), code);
+    }
+}
+
+/**
+ * Catalog code for a vaccine typed by code, label or a common name ("MMR",
+ * "hepatitis b"); names outside the catalog are kept as typed.
+ */
+export function vaccineCode(value: string): string {
+    if (typeof value !== 'string') {
+        return value;
+    }
+
+    const name = value.trim();
+    return CODES_BY_NAME.get(normalizeText(name)) ?? name;
+}
+
+// Codes of the vaccinations that were not voided, each once, in charting order
+export function activeVaccineCodes(vaccinations: PatientVaccination[]): string[] {
+    return Array.from(new Set(
+        vaccinations.filter(entry => !entry.voidedAt && entry.vaccine).map(entry => entry.vaccine)
+    ));
+}
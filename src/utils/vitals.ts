@@ -0,0 +1,96 @@
+import { MeasuredVital, VitalMeasurementInput, VitalSeriesPoint, VitalType, VITAL_UNITS } from '../shared/types';
+
+export const MEASURED_VITALS: MeasuredVital[] = [
+    'weight', 'height', 'headCircumference', 'systolic', 'diastolic', 'temperature', 'heartRate', 'spo2'
+];
+export const VITAL_TYPES: VitalType[] = [...MEASURED_VITALS, 'bmi'];
+
+// Accepted units by vital, as converters to the stored unit; keys are lowercase without "°"
+const UNIT_CONVERSIONS: Record<MeasuredVital, Record<string, (value: number) => number>> = {
+    weight: { kg: value => value, g: value => value / 1000, lb: value => value * 0.45359237 },
+    height: { cm: value => value, m: value => value * 100, in: value => value * 2.54 },
+    headCircumference: { cm: value => value, in: value => value * 2.54 },
+    systolic: { mmhg: value => value },
+    diastolic: { mmhg: value => value },
+    temperature: { c: value => value, f: value => (value - 32) * 5 / 9 },
+    heartRate: { lpm: value => value, bpm: value => value },
+    spo2: { '%': value => value }
+};
+
+// Decimals kept once converted (grams, millimetres, tenths of a degree)
+const PRECISION: Record<MeasuredVital, number> = {
+    weight: 3,
+    height: 1,
+    headCircumference: 1,
+    systolic: 0,
+    diastolic: 0,
+    temperature: 1,
+    heartRate: 0,
+    spo2: 0
+};
+
+function round(value: number, decimals: number): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+}
+
+export interface ParsedVitals {
+    values: Partial<Record<MeasuredVital, number>>;
+    errors: { field: string; message: string }[];
+}
+
+/**
+ * Measurements of a request body in the stored units. Each one is a plain number
+ * in that unit or `{ value, unit }`, e.g. `{ value: 154, unit: 'lb' }`; plausible
+ * ranges are left to the model.
+ */
+export function parseVitals(body: Partial<Record<MeasuredVital, VitalMeasurementInput>>): ParsedVitals {
+    const result: ParsedVitals = { values: {}, errors: [] };
+
+    for (const type of MEASURED_VITALS) {
+        const input = body[type];
+        if (input === undefined || input === null) continue;
+
+        const value = typeof input === 'object' ? input.value : input;
+        const unit = typeof input === 'object' && input.unit !== undefined
+            ? String(input.unit).trim().toLowerCase().replace('°', '')
+            : VITAL_UNITS[type].toLowerCase().replace('°', '');
+        const convert = UNIT_CONVERSIONS[type][unit];
+
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+            result.errors.push({ field: type, message: `${type} must be a number` });
+        } else if (!convert) {
+            result.errors.push({
+                field: type,
+                message: `${type} unit must be one of: ${Object.keys(UNIT_CONVERSIONS[type]).join(', ')}`
+            });
+        } else {
+            result.values[type] = round(convert(value), PRECISION[type]);
+        }
+    }
+
+    return result;
+}
+
+// Body mass index in kg/m², to one decimal
+export function computeBmi(weight?: number, height?: number): number | undefined {
+    if (!weight || !height) return undefined;
+    return round(weight / (height / 100) ** 2, 1);
+}
+
+// One series per type, in the order of `readings`, skipping readings without that value
+export function toVitalSeries(
+    readings: { _id: any; takenAt: Date; [type: string]: any }[],
+    types: VitalType[]
+): Partial<Record<VitalType, VitalSeriesPoint[]>> {
+    return Object.fromEntries(types.map(type => [
+        type,
+        readings
+            .filter(reading => typeof reading[type] === 'number')
+            .map(reading => ({
+                takenAt: new Date(reading.takenAt).toISOString(),
+                value: reading[type],
+                vitalsId: reading._id.toString()
+            }))
+    ]));
+}
@@ -0,0 +1,457 @@
+import { GrowthIndicatorTable } from '../shared/types';
+
+// Generated from the WHO Child Growth Standards (2006) and the WHO Growth
+// Reference 2007 z-score tables (https://www.who.int/tools/child-growth-standards,
+// https://www.who.int/tools/growth-reference-data-for-5to19-years).
+// Rows are [x, L, M, S]; values between two rows are interpolated.
+
+export type WhoGrowthTable =
+    | 'weightForAge'
+    | 'lengthForAge'
+    | 'heightForAge'
+    | 'bmiForAgeLength'
+    | 'bmiForAge'
+    | 'weightForLength'
+    | 'weightForHeight';
+
+export const WHO_GROWTH_TABLES: Record<WhoGrowthTable, GrowthIndicatorTable> = {
+    // Weight (kg) for age in months, 0-60
+    weightForAge: {
+        female: [
+            [0, 0.3809, 3.2322, 0.14171], [1, 0.1714, 4.1873, 0.13724], [2, 0.0962, 5.1282, 0.13], [3, 0.0402, 5.8458, 0.12619],
+            [4, -0.005, 6.4237, 0.12402], [5, -0.043, 6.8985, 0.12274], [6, -0.0756, 7.297, 0.12204], [7, -0.1039, 7.6422, 0.12178],
+            [8, -0.1288, 7.9487, 0.12181], [9, -0.1507, 8.2254, 0.12199], [10, -0.17, 8.48, 0.12223], [11, -0.1872, 8.7192, 0.12247],
+            [12, -0.2024, 8.9481, 0.12268], [13, -0.2158, 9.1699, 0.12283], [14, -0.2278, 9.387, 0.12294], [15, -0.2384, 9.6008, 0.12299],
+            [16, -0.2478, 9.8124, 0.12303], [17, -0.2562, 10.0226, 0.12306], [18, -0.2637, 10.2315, 0.12309], [19, -0.2703, 10.4393, 0.12315],
+            [20, -0.2762, 10.6464, 0.12323], [21, -0.2815, 10.8534, 0.12335], [22, -0.2862, 11.0608, 0.1235], [23, -0.2903, 11.2688, 0.12369],
+            [24, -0.2941, 11.4775, 0.1239], [25, -0.2975, 11.6864, 0.12414], [26, -0.3005, 11.8947, 0.12441], [27, -0.3032, 12.1015, 0.12472],
+            [28, -0.3057, 12.3059, 0.12506], [29, -0.308, 12.5073, 0.12545], [30, -0.3101, 12.7055, 0.12587], [31, -0.312, 12.9006, 0.12633],
+            [32, -0.3138, 13.093, 0.12683], [33, -0.3155, 13.2837, 0.12737], [34, -0.3171, 13.4731, 0.12794], [35, -0.3186, 13.6618, 0.12855],
+            [36, -0.3201, 13.8503, 0.12919], [37, -0.3216, 14.0385, 0.12988], [38, -0.323, 14.2265, 0.13059], [39, -0.3243, 14.414, 0.13135],
+            [40, -0.3257, 14.601, 0.13213], [41, -0.327, 14.7873, 0.13293], [42, -0.3283, 14.9727, 0.13376], [43, -0.3296, 15.1573, 0.1346],
+            [44, -0.3309, 15.341, 0.13545], [45, -0.3322, 15.524, 0.1363], [46, -0.3335, 15.7064, 0.13716], [47, -0.3348, 15.8882, 0.138],
+            [48, -0.3361, 16.0697, 0.13884], [49, -0.3374, 16.2511, 0.13968], [50, -0.3387, 16.4322, 0.14051], [51, -0.34, 16.6133, 0.14132],
+            [52, -0.3414, 16.7942, 0.14213], [53, -0.3427, 16.9748, 0.14293], [54, -0.344, 17.1551, 0.14371], [55, -0.3453, 17.3347, 0.14448],
+            [56, -0.3466, 17.5136, 0.14525], [57, -0.3479, 17.6916, 0.146], [58, -0.3492, 17.8686, 0.14675], [59, -0.3505, 18.0445, 0.14748],
+            [60, -0.3518, 18.2193, 0.14821]
+        ],
+        male: [
+            [0, 0.3487, 3.3464, 0.14602], [1, 0.2297, 4.4709, 0.13395], [2, 0.197, 5.5675, 0.12385], [3, 0.1738, 6.3762, 0.11727],
+            [4, 0.1553, 7.0023, 0.11316], [5, 0.1395, 7.5105, 0.1108], [6, 0.1257, 7.934, 0.10958], [7, 0.1134, 8.297, 0.10902],
+            [8, 0.1021, 8.6151, 0.10882], [9, 0.0917, 8.9014, 0.10881], [10, 0.082, 9.1649, 0.10891], [11, 0.073, 9.4122, 0.10906],
+            [12, 0.0644, 9.6479, 0.10925], [13, 0.0563, 9.8749, 0.10949], [14, 0.0487, 10.0953, 0.10976], [15, 0.0413, 10.3108, 0.11007],
+            [16, 0.0343, 10.5228, 0.11041], [17, 0.0275, 10.7319, 0.11079], [18, 0.0211, 10.9385, 0.11119], [19, 0.0148, 11.143, 0.11164],
+            [20, 0.0087, 11.3462, 0.11211], [21, 0.0029, 11.5486, 0.11261], [22, -0.0028, 11.7504, 0.11314], [23, -0.0083, 11.9514, 0.11369],
+            [24, -0.0137, 12.1515, 0.11426], [25, -0.0189, 12.3502, 0.11485], [26, -0.024, 12.5466, 0.11544], [27, -0.0289, 12.7401, 0.11604],
+            [28, -0.0337, 12.9303, 0.11664], [29, -0.0385, 13.1169, 0.11723], [30, -0.0431, 13.3, 0.11781], [31, -0.0476, 13.4798, 0.11839],
+            [32, -0.052, 13.6567, 0.11896], [33, -0.0564, 13.8309, 0.11953], [34, -0.0606, 14.0031, 0.12008], [35, -0.0648, 14.1736, 0.12062],
+            [36, -0.0689, 14.3429, 0.12116], [37, -0.0729, 14.5113, 0.12168], [38, -0.0769, 14.6791, 0.1222], [39, -0.0808, 14.8466, 0.12271],
+            [40, -0.0846, 15.014, 0.12322], [41, -0.0883, 15.1813, 0.12373], [42, -0.092, 15.3486, 0.12425], [43, -0.0957, 15.5158, 0.12478],
+            [44, -0.0993, 15.6828, 0.12531], [45, -0.1028, 15.8497, 0.12586], [46, -0.1063, 16.0163, 0.12643], [47, -0.1097, 16.1827, 0.127],
+            [48, -0.1131, 16.3489, 0.12759], [49, -0.1165, 16.515, 0.12819], [50, -0.1198, 16.6811, 0.1288], [51, -0.123, 16.8471, 0.12943],
+            [52, -0.1262, 17.0132, 0.13005], [53, -0.1294, 17.1792, 0.13069], [54, -0.1325, 17.3452, 0.13133], [55, -0.1356, 17.5111, 0.13197],
+            [56, -0.1387, 17.6768, 0.13261], [57, -0.1417, 17.8422, 0.13325], [58, -0.1447, 18.0073, 0.13389], [59, -0.1477, 18.1722, 0.13453],
+            [60, -0.1506, 18.3366, 0.13517]
+        ]
+    },
+    // Recumbent length (cm) for age in months, 0-24
+    lengthForAge: {
+        female: [
+            [0, 1, 49.1477, 0.0379], [1, 1, 53.6872, 0.0364], [2, 1, 57.0673, 0.03568], [3, 1, 59.8029, 0.0352],
+            [4, 1, 62.0899, 0.03486], [5, 1, 64.0301, 0.03463], [6, 1, 65.7311, 0.03448], [7, 1, 67.2873, 0.03441],
+            [8, 1, 68.7498, 0.0344], [9, 1, 70.1435, 0.03444], [10, 1, 71.4818, 0.03452], [11, 1, 72.771, 0.03464],
+            [12, 1, 74.015, 0.03479], [13, 1, 75.2176, 0.03496], [14, 1, 76.3817, 0.03514], [15, 1, 77.5099, 0.03534],
+            [16, 1, 78.6055, 0.03555], [17, 1, 79.671, 0.03576], [18, 1, 80.7079, 0.03598], [19, 1, 81.7182, 0.0362],
+            [20, 1, 82.7036, 0.03643], [21, 1, 83.6654, 0.03666], [22, 1, 84.604, 0.03688], [23, 1, 85.5202, 0.03711],
+            [24, 1, 86.4153, 0.03734]
+        ],
+        male: [
+            [0, 1, 49.8842, 0.03795], [1, 1, 54.7244, 0.03557], [2, 1, 58.4249, 0.03424], [3, 1, 61.4292, 0.03328],
+            [4, 1, 63.886, 0.03257], [5, 1, 65.9026, 0.03204], [6, 1, 67.6236, 0.03165], [7, 1, 69.1645, 0.03139],
+            [8, 1, 70.5994, 0.03124], [9, 1, 71.9687, 0.03117], [10, 1, 73.2812, 0.03118], [11, 1, 74.5388, 0.03125],
+            [12, 1, 75.7488, 0.03137], [13, 1, 76.9186, 0.03154], [14, 1, 78.0497, 0.03174], [15, 1, 79.1458, 0.03197],
+            [16, 1, 80.2113, 0.03222], [17, 1, 81.2487, 0.0325], [18, 1, 82.2587, 0.03279], [19, 1, 83.2418, 0.0331],
+            [20, 1, 84.1996, 0.03342], [21, 1, 85.1348, 0.03376], [22, 1, 86.0477, 0.0341], [23, 1, 86.941, 0.03445],
+            [24, 1, 87.8161, 0.03479]
+        ]
+    },
+    // Standing height (cm) for age in months, 24-60, then the 2007 reference to 228
+    heightForAge: {
+        female: [
+            [24, 1, 85.7153, 0.03764], [25, 1, 86.5904, 0.03786], [26, 1, 87.4462, 0.03808], [27, 1, 88.283, 0.0383],
+            [28, 1, 89.1004, 0.03851], [29, 1, 89.8991, 0.03872], [30, 1, 90.6797, 0.03893], [31, 1, 91.443, 0.03913],
+            [32, 1, 92.1906, 0.03933], [33, 1, 92.9239, 0.03952], [34, 1, 93.6444, 0.03971], [35, 1, 94.3533, 0.03989],
+            [36, 1, 95.0515, 0.04006], [37, 1, 95.7399, 0.04024], [38, 1, 96.4187, 0.04041], [39, 1, 97.0885, 0.04057],
+            [40, 1, 97.7493, 0.04073], [41, 1, 98.4015, 0.04089], [42, 1, 99.0448, 0.04105], [43, 1, 99.6795, 0.0412],
+            [44, 1, 100.3058, 0.04135], [45, 1, 100.9238, 0.0415], [46, 1, 101.5337, 0.04164], [47, 1, 102.136, 0.04179],
+            [48, 1, 102.7312, 0.04193], [49, 1, 103.3197, 0.04206], [50, 1, 103.9021, 0.0422], [51, 1, 104.4786, 0.04233],
+            [52, 1, 105.0494, 0.04246], [53, 1, 105.6148, 0.04259], [54, 1, 106.1748, 0.04272], [55, 1, 106.7295, 0.04285],
+            [56, 1, 107.2788, 0.04298], [57, 1, 107.8227, 0.0431], [58, 1, 108.3613, 0.04322], [59, 1, 108.8948, 0.04334],
+            [60, 1, 109.4233, 0.04347], [61, 1, 109.6016, 0.04355], [62, 1, 110.1258, 0.04364], [63, 1, 110.6451, 0.04373],
+            [64, 1, 111.1596, 0.04382], [65, 1, 111.6696, 0.0439], [66, 1, 112.1753, 0.04399], [67, 1, 112.6767, 0.04407],
+            [68, 1, 113.174, 0.04415], [69, 1, 113.6672, 0.04423], [70, 1, 114.1565, 0.04431], [71, 1, 114.6421, 0.04439],
+            [72, 1, 115.1244, 0.04447], [73, 1, 115.6039, 0.04454], [74, 1, 116.0812, 0.04461], [75, 1, 116.5568, 0.04469],
+            [76, 1, 117.0311, 0.04475], [77, 1, 117.5044, 0.04482], [78, 1, 117.9769, 0.04489], [79, 1, 118.4489, 0.04495],
+            [80, 1, 118.9208, 0.04502], [81, 1, 119.3926, 0.04508], [82, 1, 119.8648, 0.04514], [83, 1, 120.3374, 0.0452],
+            [84, 1, 120.8105, 0.04525], [85, 1, 121.2843, 0.04531], [86, 1, 121.7587, 0.04536], [87, 1, 122.2338, 0.04542],
+            [88, 1, 122.7098, 0.04547], [89, 1, 123.1868, 0.04551], [90, 1, 123.6646, 0.04556], [91, 1, 124.1435, 0.04561],
+            [92, 1, 124.6234, 0.04565], [93, 1, 125.1045, 0.04569], [94, 1, 125.5869, 0.04573], [95, 1, 126.0706, 0.04577],
+            [96, 1, 126.5558, 0.04581], [97, 1, 127.0424, 0.04585], [98, 1, 127.5304, 0.04588], [99, 1, 128.0199, 0.04591],
+            [100, 1, 128.5109, 0.04594], [101, 1, 129.0035, 0.04597], [102, 1, 129.4975, 0.046], [103, 1, 129.9932, 0.04602],
+            [104, 1, 130.4904, 0.04604], [105, 1, 130.9891, 0.04607], [106, 1, 131.4895, 0.04608], [107, 1, 131.9912, 0.0461],
+            [108, 1, 132.4944, 0.04612], [109, 1, 132.9989, 0.04613], [110, 1, 133.5046, 0.04614], [111, 1, 134.0118, 0.04615],
+            [112, 1, 134.5202, 0.04616], [113, 1, 135.0299, 0.04616], [114, 1, 135.541, 0.04617], [115, 1, 136.0533, 0.04617],
+            [116, 1, 136.567, 0.04616], [117, 1, 137.0821, 0.04616], [118, 1, 137.5987, 0.04616], [119, 1, 138.1167, 0.04615],
+            [120, 1, 138.6363, 0.04614], [121, 1, 139.1575, 0.04612], [122, 1, 139.6803, 0.04611], [123, 1, 140.2049, 0.04609],
+            [124, 1, 140.7313, 0.04607], [125, 1, 141.2594, 0.04605], [126, 1, 141.7892, 0.04603], [127, 1, 142.3206, 0.046],
+            [128, 1, 142.8534, 0.04597], [129, 1, 143.3874, 0.04594], [130, 1, 143.9222, 0.04591], [131, 1, 144.4575, 0.04588],
+            [132, 1, 144.9929, 0.04584], [133, 1, 145.528, 0.0458], [134, 1, 146.0622, 0.04576], [135, 1, 146.5951, 0.04571],
+            [136, 1, 147.1262, 0.04567], [137, 1, 147.6548, 0.04562], [138, 1, 148.1804, 0.04557], [139, 1, 148.7023, 0.04552],
+            [140, 1, 149.2197, 0.04546], [141, 1, 149.7322, 0.04541], [142, 1, 150.239, 0.04535], [143, 1, 150.7394, 0.04529],
+            [144, 1, 151.2327, 0.04523], [145, 1, 151.7182, 0.04516], [146, 1, 152.1951, 0.0451], [147, 1, 152.6628, 0.04503],
+            [148, 1, 153.1206, 0.04497], [149, 1, 153.5678, 0.0449], [150, 1, 154.0041, 0.04483], [151, 1, 154.429, 0.04476],
+            [152, 1, 154.8423, 0.04468], [153, 1, 155.2437, 0.04461], [154, 1, 155.633, 0.04454], [155, 1, 156.0101, 0.04446],
+            [156, 1, 156.3748, 0.04439], [157, 1, 156.7269, 0.04431], [158, 1, 157.0666, 0.04423], [159, 1, 157.3936, 0.04415],
+            [160, 1, 157.7082, 0.04408], [161, 1, 158.0102, 0.044], [162, 1, 158.2997, 0.04392], [163, 1, 158.5771, 0.04384],
+            [164, 1, 158.8425, 0.04376], [165, 1, 159.0961, 0.04369], [166, 1, 159.3382, 0.04361], [167, 1, 159.5691, 0.04353],
+            [168, 1, 159.789, 0.04345], [169, 1, 159.9983, 0.04337], [170, 1, 160.1971, 0.0433], [171, 1, 160.3857, 0.04322],
+            [172, 1, 160.5643, 0.04314], [173, 1, 160.7332, 0.04307], [174, 1, 160.8927, 0.04299], [175, 1, 161.043, 0.04292],
+            [176, 1, 161.1845, 0.04284], [177, 1, 161.3176, 0.04277], [178, 1, 161.4425, 0.0427], [179, 1, 161.5596, 0.04263],
+            [180, 1, 161.6692, 0.04255], [181, 1, 161.7717, 0.04248], [182, 1, 161.8673, 0.04241], [183, 1, 161.9564, 0.04235],
+            [184, 1, 162.0393, 0.04228], [185, 1, 162.1164, 0.04221], [186, 1, 162.188, 0.04214], [187, 1, 162.2542, 0.04208],
+            [188, 1, 162.3154, 0.04201], [189, 1, 162.3719, 0.04195], [190, 1, 162.4239, 0.04189], [191, 1, 162.4717, 0.04182],
+            [192, 1, 162.5156, 0.04176], [193, 1, 162.556, 0.0417], [194, 1, 162.5933, 0.04164], [195, 1, 162.6276, 0.04158],
+            [196, 1, 162.6594, 0.04152], [197, 1, 162.689, 0.04147], [198, 1, 162.7165, 0.04141], [199, 1, 162.7425, 0.04136],
+            [200, 1, 162.767, 0.0413], [201, 1, 162.7904, 0.04125], [202, 1, 162.8126, 0.04119], [203, 1, 162.834, 0.04114],
+            [204, 1, 162.8545, 0.04109], [205, 1, 162.8743, 0.04104], [206, 1, 162.8935, 0.04099], [207, 1, 162.912, 0.04094],
+            [208, 1, 162.93, 0.04089], [209, 1, 162.9476, 0.04084], [210, 1, 162.9649, 0.0408], [211, 1, 162.9817, 0.04075],
+            [212, 1, 162.9983, 0.04071], [213, 1, 163.0144, 0.04066], [214, 1, 163.03, 0.04062], [215, 1, 163.0451, 0.04058],
+            [216, 1, 163.0595, 0.04053], [217, 1, 163.0733, 0.04049], [218, 1, 163.0862, 0.04045], [219, 1, 163.0982, 0.04041],
+            [220, 1, 163.1092, 0.04037], [221, 1, 163.1192, 0.04034], [222, 1, 163.1279, 0.0403], [223, 1, 163.1355, 0.04026],
+            [224, 1, 163.1418, 0.04023], [225, 1, 163.1469, 0.04019], [226, 1, 163.1508, 0.04016], [227, 1, 163.1534, 0.04012],
+            [228, 1, 163.1548, 0.04009]
+        ],
+        male: [
+            [24, 1, 87.1161, 0.03507], [25, 1, 87.972, 0.03542], [26, 1, 88.8065, 0.03576], [27, 1, 89.6197, 0.0361],
+            [28, 1, 90.412, 0.03642], [29, 1, 91.1828, 0.03674], [30, 1, 91.9327, 0.03704], [31, 1, 92.6631, 0.03733],
+            [32, 1, 93.3753, 0.03761], [33, 1, 94.0711, 0.03787], [34, 1, 94.7532, 0.03812], [35, 1, 95.4236, 0.03836],
+            [36, 1, 96.0835, 0.03858], [37, 1, 96.7337, 0.03879], [38, 1, 97.3749, 0.039], [39, 1, 98.0073, 0.03919],
+            [40, 1, 98.631, 0.03937], [41, 1, 99.2459, 0.03954], [42, 1, 99.8515, 0.03971], [43, 1, 100.4485, 0.03986],
+            [44, 1, 101.0374, 0.04002], [45, 1, 101.6186, 0.04016], [46, 1, 102.1933, 0.04031], [47, 1, 102.7625, 0.04045],
+            [48, 1, 103.3273, 0.04059], [49, 1, 103.8886, 0.04073], [50, 1, 104.4473, 0.04086], [51, 1, 105.0041, 0.041],
+            [52, 1, 105.5596, 0.04113], [53, 1, 106.1138, 0.04126], [54, 1, 106.6668, 0.04139], [55, 1, 107.2188, 0.04152],
+            [56, 1, 107.7697, 0.04165], [57, 1, 108.3198, 0.04177], [58, 1, 108.8689, 0.0419], [59, 1, 109.417, 0.04202],
+            [60, 1, 109.9638, 0.04214], [61, 1, 110.2647, 0.04164], [62, 1, 110.8006, 0.04172], [63, 1, 111.3338, 0.0418],
+            [64, 1, 111.8636, 0.04187], [65, 1, 112.3895, 0.04195], [66, 1, 112.911, 0.04203], [67, 1, 113.428, 0.04211],
+            [68, 1, 113.941, 0.04218], [69, 1, 114.45, 0.04226], [70, 1, 114.9547, 0.04234], [71, 1, 115.4549, 0.04241],
+            [72, 1, 115.9509, 0.04249], [73, 1, 116.4432, 0.04257], [74, 1, 116.9325, 0.04264], [75, 1, 117.4196, 0.04272],
+            [76, 1, 117.9046, 0.0428], [77, 1, 118.388, 0.04287], [78, 1, 118.87, 0.04295], [79, 1, 119.3508, 0.04303],
+            [80, 1, 119.8303, 0.04311], [81, 1, 120.3085, 0.04318], [82, 1, 120.7853, 0.04326], [83, 1, 121.2604, 0.04334],
+            [84, 1, 121.7338, 0.04342], [85, 1, 122.2053, 0.0435], [86, 1, 122.675, 0.04358], [87, 1, 123.1429, 0.04366],
+            [88, 1, 123.6092, 0.04374], [89, 1, 124.0736, 0.04382], [90, 1, 124.5361, 0.0439], [91, 1, 124.9964, 0.04398],
+            [92, 1, 125.4545, 0.04406], [93, 1, 125.9104, 0.04414], [94, 1, 126.364, 0.04422], [95, 1, 126.8156, 0.0443],
+            [96, 1, 127.2651, 0.04438], [97, 1, 127.7129, 0.04446], [98, 1, 128.159, 0.04454], [99, 1, 128.6034, 0.04462],
+            [100, 1, 129.0466, 0.0447], [101, 1, 129.4887, 0.04478], [102, 1, 129.93, 0.04487], [103, 1, 130.3705, 0.04495],
+            [104, 1, 130.8103, 0.04503], [105, 1, 131.2495, 0.04511], [106, 1, 131.6884, 0.04519], [107, 1, 132.1269, 0.04527],
+            [108, 1, 132.5652, 0.04535], [109, 1, 133.0031, 0.04543], [110, 1, 133.4404, 0.04551], [111, 1, 133.877, 0.04559],
+            [112, 1, 134.313, 0.04566], [113, 1, 134.7483, 0.04574], [114, 1, 135.1829, 0.04582], [115, 1, 135.6168, 0.04589],
+            [116, 1, 136.0501, 0.04597], [117, 1, 136.4829, 0.04604], [118, 1, 136.9153, 0.04612], [119, 1, 137.3474, 0.04619],
+            [120, 1, 137.7795, 0.04626], [121, 1, 138.2119, 0.04633], [122, 1, 138.6452, 0.0464], [123, 1, 139.0797, 0.04647],
+            [124, 1, 139.5158, 0.04654], [125, 1, 139.954, 0.04661], [126, 1, 140.3948, 0.04667], [127, 1, 140.8387, 0.04674],
+            [128, 1, 141.2859, 0.0468], [129, 1, 141.7368, 0.04686], [130, 1, 142.1916, 0.04692], [131, 1, 142.6501, 0.04698],
+            [132, 1, 143.1126, 0.04703], [133, 1, 143.5795, 0.04709], [134, 1, 144.0511, 0.04714], [135, 1, 144.5276, 0.04719],
+            [136, 1, 145.0093, 0.04723], [137, 1, 145.4964, 0.04728], [138, 1, 145.9891, 0.04732], [139, 1, 146.4878, 0.04736],
+            [140, 1, 146.9927, 0.0474], [141, 1, 147.5041, 0.04744], [142, 1, 148.0224, 0.04747], [143, 1, 148.5478, 0.0475],
+            [144, 1, 149.0807, 0.04753], [145, 1, 149.6212, 0.04755], [146, 1, 150.1694, 0.04758], [147, 1, 150.7256, 0.04759],
+            [148, 1, 151.2899, 0.04761], [149, 1, 151.8623, 0.04762], [150, 1, 152.4425, 0.04763], [151, 1, 153.0298, 0.04763],
+            [152, 1, 153.6234, 0.04764], [153, 1, 154.2223, 0.04763], [154, 1, 154.8258, 0.04763], [155, 1, 155.4329, 0.04762],
+            [156, 1, 156.0426, 0.0476], [157, 1, 156.6539, 0.04758], [158, 1, 157.266, 0.04756], [159, 1, 157.8775, 0.04754],
+            [160, 1, 158.4871, 0.04751], [161, 1, 159.0937, 0.04747], [162, 1, 159.6962, 0.04744], [163, 1, 160.2939, 0.0474],
+            [164, 1, 160.8861, 0.04735], [165, 1, 161.472, 0.0473], [166, 1, 162.0505, 0.04725], [167, 1, 162.6207, 0.0472],
+            [168, 1, 163.1816, 0.04714], [169, 1, 163.7321, 0.04707], [170, 1, 164.2717, 0.04701], [171, 1, 164.7994, 0.04694],
+            [172, 1, 165.3145, 0.04687], [173, 1, 165.8165, 0.04679], [174, 1, 166.305, 0.04671], [175, 1, 166.7799, 0.04663],
+            [176, 1, 167.2415, 0.04655], [177, 1, 167.6899, 0.04646], [178, 1, 168.1255, 0.04637], [179, 1, 168.5482, 0.04628],
+            [180, 1, 168.958, 0.04619], [181, 1, 169.3549, 0.04609], [182, 1, 169.7389, 0.04599], [183, 1, 170.1099, 0.04589],
+            [184, 1, 170.468, 0.04579], [185, 1, 170.8136, 0.04569], [186, 1, 171.1468, 0.04559], [187, 1, 171.468, 0.04548],
+            [188, 1, 171.7773, 0.04538], [189, 1, 172.0748, 0.04527], [190, 1, 172.3606, 0.04516], [191, 1, 172.6345, 0.04506],
+            [192, 1, 172.8967, 0.04495], [193, 1, 173.147, 0.04484], [194, 1, 173.3856, 0.04473], [195, 1, 173.6126, 0.04462],
+            [196, 1, 173.828, 0.04451], [197, 1, 174.0321, 0.0444], [198, 1, 174.2251, 0.04429], [199, 1, 174.4071, 0.04418],
+            [200, 1, 174.5784, 0.04407], [201, 1, 174.7392, 0.04396], [202, 1, 174.8896, 0.04385], [203, 1, 175.0301, 0.04375],
+            [204, 1, 175.1609, 0.04364], [205, 1, 175.2824, 0.04353], [206, 1, 175.3951, 0.04343], [207, 1, 175.4995, 0.04332],
+            [208, 1, 175.5959, 0.04322], [209, 1, 175.685, 0.04311], [210, 1, 175.7672, 0.04301], [211, 1, 175.8432, 0.04291],
+            [212, 1, 175.9133, 0.04281], [213, 1, 175.9781, 0.04271], [214, 1, 176.038, 0.04261], [215, 1, 176.0935, 0.04251],
+            [216, 1, 176.1449, 0.04241], [217, 1, 176.1925, 0.04232], [218, 1, 176.2368, 0.04222], [219, 1, 176.2779, 0.04213],
+            [220, 1, 176.3162, 0.04204], [221, 1, 176.3518, 0.04195], [222, 1, 176.3851, 0.04185], [223, 1, 176.4162, 0.04177],
+            [224, 1, 176.4453, 0.04168], [225, 1, 176.4724, 0.04159], [226, 1, 176.4976, 0.0415], [227, 1, 176.5211, 0.04142],
+            [228, 1, 176.5432, 0.04134]
+        ]
+    },
+    // BMI for age in months, 0-24, with BMI from recumbent length
+    bmiForAgeLength: {
+        female: [
+            [0, -0.0631, 13.3363, 0.09272], [1, 0.3448, 14.5679, 0.09556], [2, 0.1749, 15.7679, 0.09371], [3, 0.0643, 16.3574, 0.09254],
+            [4, -0.0191, 16.6703, 0.09166], [5, -0.0864, 16.8386, 0.09096], [6, -0.1429, 16.9083, 0.09036], [7, -0.1916, 16.902, 0.08984],
+            [8, -0.2344, 16.8404, 0.08939], [9, -0.2725, 16.7406, 0.08898], [10, -0.3068, 16.6184, 0.08861], [11, -0.3381, 16.4875, 0.08828],
+            [12, -0.3667, 16.3568, 0.08797], [13, -0.3932, 16.2311, 0.08768], [14, -0.4177, 16.1128, 0.08741], [15, -0.4407, 16.0028, 0.08716],
+            [16, -0.4623, 15.9017, 0.08693], [17, -0.4825, 15.8096, 0.08671], [18, -0.5017, 15.7263, 0.0865], [19, -0.5199, 15.6517, 0.0863],
+            [20, -0.5372, 15.5855, 0.08612], [21, -0.5537, 15.5278, 0.08594], [22, -0.5695, 15.4787, 0.08577], [23, -0.5846, 15.438, 0.0856],
+            [24, -0.5989, 15.4052, 0.08545]
+        ],
+        male: [
+            [0, -0.3053, 13.4069, 0.0956], [1, 0.2708, 14.9441, 0.09027], [2, 0.1118, 16.3195, 0.08677], [3, 0.0068, 16.8987, 0.08495],
+            [4, -0.0727, 17.1579, 0.08378], [5, -0.137, 17.2919, 0.08296], [6, -0.1913, 17.3422, 0.08234], [7, -0.2385, 17.3288, 0.08183],
+            [8, -0.2802, 17.2647, 0.0814], [9, -0.3176, 17.1662, 0.08102], [10, -0.3516, 17.0488, 0.08068], [11, -0.3828, 16.9239, 0.08037],
+            [12, -0.4115, 16.7981, 0.08009], [13, -0.4382, 16.6743, 0.07982], [14, -0.463, 16.5548, 0.07958], [15, -0.4863, 16.4409, 0.07935],
+            [16, -0.5082, 16.3335, 0.07913], [17, -0.5289, 16.2329, 0.07892], [18, -0.5484, 16.1392, 0.07873], [19, -0.5669, 16.0528, 0.07854],
+            [20, -0.5846, 15.9743, 0.07836], [21, -0.6014, 15.9039, 0.07818], [22, -0.6174, 15.8412, 0.07802], [23, -0.6328, 15.7852, 0.07786],
+            [24, -0.6473, 15.7356, 0.07771]
+        ]
+    },
+    // BMI for age in months, 24-60, then the 2007 reference to 228
+    bmiForAge: {
+        female: [
+            [24, -0.5684, 15.6881, 0.08454], [25, -0.5684, 15.659, 0.08452], [26, -0.5684, 15.6308, 0.08449], [27, -0.5684, 15.6037, 0.08446],
+            [28, -0.5684, 15.5777, 0.08444], [29, -0.5684, 15.5523, 0.08443], [30, -0.5684, 15.5276, 0.08444], [31, -0.5684, 15.5034, 0.08448],
+            [32, -0.5684, 15.4798, 0.08455], [33, -0.5684, 15.4572, 0.08467], [34, -0.5684, 15.4356, 0.08484], [35, -0.5684, 15.4155, 0.08506],
+            [36, -0.5684, 15.3968, 0.08535], [37, -0.5684, 15.3796, 0.08569], [38, -0.5684, 15.3638, 0.08609], [39, -0.5684, 15.3493, 0.08654],
+            [40, -0.5684, 15.3358, 0.08704], [41, -0.5684, 15.3233, 0.08757], [42, -0.5684, 15.3116, 0.08813], [43, -0.5684, 15.3007, 0.08872],
+            [44, -0.5684, 15.2905, 0.08931], [45, -0.5684, 15.2814, 0.08991], [46, -0.5684, 15.2732, 0.09051], [47, -0.5684, 15.2661, 0.0911],
+            [48, -0.5684, 15.2602, 0.09168], [49, -0.5684, 15.2556, 0.09227], [50, -0.5684, 15.2523, 0.09286], [51, -0.5684, 15.2503, 0.09345],
+            [52, -0.5684, 15.2496, 0.09403], [53, -0.5684, 15.2502, 0.0946], [54, -0.5684, 15.2519, 0.09515], [55, -0.5684, 15.2544, 0.09568],
+            [56, -0.5684, 15.2575, 0.09618], [57, -0.5684, 15.2612, 0.09665], [58, -0.5684, 15.2653, 0.09709], [59, -0.5684, 15.2698, 0.0975],
+            [60, -0.5684, 15.2747, 0.09789], [61, -0.8886, 15.2441, 0.09692], [62, -0.9068, 15.2434, 0.09738], [63, -0.9248, 15.2433, 0.09783],
+            [64, -0.9427, 15.2438, 0.09829], [65, -0.9605, 15.2448, 0.09875], [66, -0.978, 15.2464, 0.0992], [67, -0.9954, 15.2487, 0.09966],
+            [68, -1.0126, 15.2516, 0.10012], [69, -1.0296, 15.2551, 0.10058], [70, -1.0464, 15.2592, 0.10104], [71, -1.063, 15.2641, 0.10149],
+            [72, -1.0794, 15.2697, 0.10195], [73, -1.0956, 15.276, 0.10241], [74, -1.1115, 15.2831, 0.10287], [75, -1.1272, 15.2911, 0.10333],
+            [76, -1.1427, 15.2998, 0.10379], [77, -1.1579, 15.3095, 0.10425], [78, -1.1728, 15.32, 0.10471], [79, -1.1875, 15.3314, 0.10517],
+            [80, -1.2019, 15.3439, 0.10562], [81, -1.216, 15.3572, 0.10608], [82, -1.2298, 15.3717, 0.10654], [83, -1.2433, 15.3871, 0.107],
+            [84, -1.2565, 15.4036, 0.10746], [85, -1.2693, 15.4211, 0.10792], [86, -1.2819, 15.4397, 0.10837], [87, -1.2941, 15.4593, 0.10883],
+            [88, -1.306, 15.4798, 0.10929], [89, -1.3175, 15.5014, 0.10974], [90, -1.3287, 15.524, 0.1102], [91, -1.3395, 15.5476, 0.11065],
+            [92, -1.3499, 15.5723, 0.1111], [93, -1.36, 15.5979, 0.11156], [94, -1.3697, 15.6246, 0.11201], [95, -1.379, 15.6523, 0.11246],
+            [96, -1.388, 15.681, 0.11291], [97, -1.3966, 15.7107, 0.11335], [98, -1.4047, 15.7415, 0.1138], [99, -1.4125, 15.7732, 0.11424],
+            [100, -1.4199, 15.8058, 0.11469], [101, -1.427, 15.8394, 0.11513], [102, -1.4336, 15.8738, 0.11557], [103, -1.4398, 15.909, 0.11601],
+            [104, -1.4456, 15.9451, 0.11644], [105, -1.4511, 15.9818, 0.11688], [106, -1.4561, 16.0194, 0.11731], [107, -1.4607, 16.0575, 0.11774],
+            [108, -1.465, 16.0964, 0.11816], [109, -1.4688, 16.1358, 0.11859], [110, -1.4723, 16.1759, 0.11901], [111, -1.4753, 16.2166, 0.11943],
+            [112, -1.478, 16.258, 0.11985], [113, -1.4803, 16.2999, 0.12026], [114, -1.4823, 16.3425, 0.12067], [115, -1.4838, 16.3858, 0.12108],
+            [116, -1.485, 16.4298, 0.12148], [117, -1.4859, 16.4746, 0.12188], [118, -1.4864, 16.52, 0.12228], [119, -1.4866, 16.5663, 0.12268],
+            [120, -1.4864, 16.6133, 0.12307], [121, -1.4859, 16.6612, 0.12346], [122, -1.4851, 16.71, 0.12384], [123, -1.4839, 16.7595, 0.12422],
+            [124, -1.4825, 16.81, 0.1246], [125, -1.4807, 16.8614, 0.12497], [126, -1.4787, 16.9136, 0.12534], [127, -1.4763, 16.9667, 0.12571],
+            [128, -1.4737, 17.0208, 0.12607], [129, -1.4708, 17.0757, 0.12643], [130, -1.4677, 17.1316, 0.12678], [131, -1.4642, 17.1883, 0.12713],
+            [132, -1.4606, 17.2459, 0.12748], [133, -1.4567, 17.3044, 0.12782], [134, -1.4526, 17.3637, 0.12816], [135, -1.4482, 17.4238, 0.12849],
+            [136, -1.4436, 17.4847, 0.12882], [137, -1.4389, 17.5464, 0.12914], [138, -1.4339, 17.6088, 0.12946], [139, -1.4288, 17.6719, 0.12978],
+            [140, -1.4235, 17.7357, 0.13009], [141, -1.418, 17.8001, 0.1304], [142, -1.4123, 17.8651, 0.1307], [143, -1.4065, 17.9306, 0.13099],
+            [144, -1.4006, 17.9966, 0.13129], [145, -1.3945, 18.063, 0.13158], [146, -1.3883, 18.1297, 0.13186], [147, -1.3819, 18.1967, 0.13214],
+            [148, -1.3755, 18.2639, 0.13241], [149, -1.3689, 18.3312, 0.13268], [150, -1.3621, 18.3986, 0.13295], [151, -1.3553, 18.466, 0.13321],
+            [152, -1.3483, 18.5333, 0.13347], [153, -1.3413, 18.6006, 0.13372], [154, -1.3341, 18.6677, 0.13397], [155, -1.3269, 18.7346, 0.13421],
+            [156, -1.3195, 18.8012, 0.13445], [157, -1.3121, 18.8675, 0.13469], [158, -1.3046, 18.9335, 0.13492], [159, -1.297, 18.9991, 0.13514],
+            [160, -1.2894, 19.0642, 0.13537], [161, -1.2816, 19.1289, 0.13559], [162, -1.2739, 19.1931, 0.1358], [163, -1.2661, 19.2567, 0.13601],
+            [164, -1.2583, 19.3197, 0.13622], [165, -1.2504, 19.382, 0.13642], [166, -1.2425, 19.4437, 0.13662], [167, -1.2345, 19.5045, 0.13681],
+            [168, -1.2266, 19.5647, 0.137], [169, -1.2186, 19.624, 0.13719], [170, -1.2107, 19.6824, 0.13738], [171, -1.2027, 19.74, 0.13756],
+            [172, -1.1947, 19.7966, 0.13774], [173, -1.1867, 19.8523, 0.13791], [174, -1.1788, 19.907, 0.13808], [175, -1.1708, 19.9607, 0.13825],
+            [176, -1.1629, 20.0133, 0.13841], [177, -1.1549, 20.0648, 0.13858], [178, -1.147, 20.1152, 0.13873], [179, -1.139, 20.1644, 0.13889],
+            [180, -1.1311, 20.2125, 0.13904], [181, -1.1232, 20.2595, 0.1392], [182, -1.1153, 20.3053, 0.13934], [183, -1.1074, 20.3499, 0.13949],
+            [184, -1.0996, 20.3934, 0.13963], [185, -1.0917, 20.4357, 0.13977], [186, -1.0838, 20.4769, 0.13991], [187, -1.076, 20.517, 0.14005],
+            [188, -1.0681, 20.556, 0.14018], [189, -1.0603, 20.5938, 0.14031], [190, -1.0525, 20.6306, 0.14044], [191, -1.0447, 20.6663, 0.14057],
+            [192, -1.0368, 20.7008, 0.1407], [193, -1.029, 20.7344, 0.14082], [194, -1.0212, 20.7668, 0.14094], [195, -1.0134, 20.7982, 0.14106],
+            [196, -1.0055, 20.8286, 0.14118], [197, -0.9977, 20.858, 0.1413], [198, -0.9898, 20.8863, 0.14142], [199, -0.9819, 20.9137, 0.14153],
+            [200, -0.974, 20.9401, 0.14164], [201, -0.9661, 20.9656, 0.14176], [202, -0.9582, 20.9901, 0.14187], [203, -0.9503, 21.0138, 0.14198],
+            [204, -0.9423, 21.0367, 0.14208], [205, -0.9344, 21.0587, 0.14219], [206, -0.9264, 21.0801, 0.1423], [207, -0.9184, 21.1007, 0.1424],
+            [208, -0.9104, 21.1206, 0.1425], [209, -0.9024, 21.1399, 0.14261], [210, -0.8944, 21.1586, 0.14271], [211, -0.8863, 21.1768, 0.14281],
+            [212, -0.8783, 21.1944, 0.14291], [213, -0.8703, 21.2116, 0.14301], [214, -0.8623, 21.2282, 0.14311], [215, -0.8542, 21.2444, 0.1432],
+            [216, -0.8462, 21.2603, 0.1433], [217, -0.8382, 21.2757, 0.1434], [218, -0.8301, 21.2908, 0.14349], [219, -0.8221, 21.3055, 0.14359],
+            [220, -0.814, 21.32, 0.14368], [221, -0.806, 21.3341, 0.14377], [222, -0.798, 21.348, 0.14386], [223, -0.7899, 21.3617, 0.14396],
+            [224, -0.7819, 21.3752, 0.14405], [225, -0.7738, 21.3884, 0.14414], [226, -0.7658, 21.4014, 0.14423], [227, -0.7577, 21.4143, 0.14432],
+            [228, -0.7496, 21.4269, 0.14441]
+        ],
+        male: [
+            [24, -0.6187, 16.0189, 0.07785], [25, -0.584, 15.98, 0.07792], [26, -0.5497, 15.9414, 0.078], [27, -0.5166, 15.9036, 0.07808],
+            [28, -0.485, 15.8667, 0.07818], [29, -0.4552, 15.8306, 0.07829], [30, -0.4274, 15.7953, 0.07841], [31, -0.4016, 15.7606, 0.07854],
+            [32, -0.3782, 15.7267, 0.07867], [33, -0.3572, 15.6934, 0.07882], [34, -0.3388, 15.661, 0.07897], [35, -0.3231, 15.6294, 0.07914],
+            [36, -0.3101, 15.5988, 0.07931], [37, -0.3, 15.5693, 0.0795], [38, -0.2927, 15.541, 0.07969], [39, -0.2884, 15.514, 0.0799],
+            [40, -0.2869, 15.4885, 0.08012], [41, -0.2881, 15.4645, 0.08036], [42, -0.2919, 15.442, 0.08061], [43, -0.2981, 15.421, 0.08087],
+            [44, -0.3067, 15.4013, 0.08115], [45, -0.3174, 15.3827, 0.08144], [46, -0.3303, 15.3652, 0.08174], [47, -0.3452, 15.3485, 0.08205],
+            [48, -0.3622, 15.3326, 0.08238], [49, -0.3811, 15.3174, 0.08272], [50, -0.4019, 15.3029, 0.08307], [51, -0.4245, 15.2891, 0.08343],
+            [52, -0.4488, 15.2759, 0.0838], [53, -0.4747, 15.2633, 0.08418], [54, -0.5019, 15.2514, 0.08457], [55, -0.5303, 15.24, 0.08496],
+            [56, -0.5599, 15.2291, 0.08536], [57, -0.5905, 15.2188, 0.08577], [58, -0.6223, 15.2091, 0.08617], [59, -0.6552, 15.2, 0.08659],
+            [60, -0.6892, 15.1916, 0.087], [61, -0.7387, 15.2641, 0.0839], [62, -0.7621, 15.2616, 0.08414], [63, -0.7856, 15.2604, 0.08439],
+            [64, -0.8089, 15.2605, 0.08464], [65, -0.8322, 15.2619, 0.0849], [66, -0.8554, 15.2645, 0.08516], [67, -0.8785, 15.2684, 0.08543],
+            [68, -0.9015, 15.2737, 0.0857], [69, -0.9243, 15.2801, 0.08597], [70, -0.9471, 15.2877, 0.08625], [71, -0.9697, 15.2965, 0.08653],
+            [72, -0.9921, 15.3062, 0.08682], [73, -1.0144, 15.3169, 0.08711], [74, -1.0365, 15.3285, 0.08741], [75, -1.0584, 15.3408, 0.08771],
+            [76, -1.0801, 15.354, 0.08802], [77, -1.1017, 15.3679, 0.08833], [78, -1.123, 15.3825, 0.08865], [79, -1.1441, 15.3978, 0.08898],
+            [80, -1.1649, 15.4137, 0.08931], [81, -1.1856, 15.4302, 0.08964], [82, -1.206, 15.4473, 0.08998], [83, -1.2261, 15.465, 0.09033],
+            [84, -1.246, 15.4832, 0.09068], [85, -1.2656, 15.5019, 0.09103], [86, -1.2849, 15.521, 0.09139], [87, -1.304, 15.5407, 0.09176],
+            [88, -1.3228, 15.5608, 0.09213], [89, -1.3414, 15.5814, 0.09251], [90, -1.3596, 15.6023, 0.09289], [91, -1.3776, 15.6237, 0.09327],
+            [92, -1.3953, 15.6455, 0.09366], [93, -1.4126, 15.6677, 0.09406], [94, -1.4297, 15.6903, 0.09445], [95, -1.4464, 15.7133, 0.09486],
+            [96, -1.4629, 15.7368, 0.09526], [97, -1.479, 15.7606, 0.09567], [98, -1.4947, 15.7848, 0.09609], [99, -1.5101, 15.8094, 0.09651],
+            [100, -1.5252, 15.8344, 0.09693], [101, -1.5399, 15.8597, 0.09735], [102, -1.5542, 15.8855, 0.09778], [103, -1.5681, 15.9116, 0.09821],
+            [104, -1.5817, 15.9381, 0.09864], [105, -1.5948, 15.9651, 0.09907], [106, -1.6076, 15.9925, 0.09951], [107, -1.6199, 16.0205, 0.09994],
+            [108, -1.6318, 16.049, 0.10038], [109, -1.6433, 16.0781, 0.10082], [110, -1.6544, 16.1078, 0.10126], [111, -1.6651, 16.1381, 0.1017],
+            [112, -1.6753, 16.1692, 0.10214], [113, -1.6851, 16.2009, 0.10259], [114, -1.6944, 16.2333, 0.10303], [115, -1.7032, 16.2665, 0.10347],
+            [116, -1.7116, 16.3004, 0.10391], [117, -1.7196, 16.3351, 0.10435], [118, -1.7271, 16.3704, 0.10478], [119, -1.7341, 16.4065, 0.10522],
+            [120, -1.7407, 16.4433, 0.10566], [121, -1.7468, 16.4807, 0.10609], [122, -1.7525, 16.5189, 0.10652], [123, -1.7578, 16.5578, 0.10695],
+            [124, -1.7626, 16.5974, 0.10738], [125, -1.767, 16.6376, 0.1078], [126, -1.771, 16.6786, 0.10823], [127, -1.7745, 16.7203, 0.10865],
+            [128, -1.7777, 16.7628, 0.10906], [129, -1.7804, 16.8059, 0.10948], [130, -1.7828, 16.8497, 0.10989], [131, -1.7847, 16.8941, 0.1103],
+            [132, -1.7862, 16.9392, 0.1107], [133, -1.7873, 16.985, 0.1111], [134, -1.7881, 17.0314, 0.1115], [135, -1.7884, 17.0784, 0.11189],
+            [136, -1.7884, 17.1262, 0.11228], [137, -1.788, 17.1746, 0.11266], [138, -1.7873, 17.2236, 0.11304], [139, -1.7861, 17.2734, 0.11342],
+            [140, -1.7846, 17.324, 0.11379], [141, -1.7828, 17.3752, 0.11415], [142, -1.7806, 17.4272, 0.11451], [143, -1.778, 17.4799, 0.11487],
+            [144, -1.7751, 17.5334, 0.11522], [145, -1.7719, 17.5877, 0.11556], [146, -1.7684, 17.6427, 0.1159], [147, -1.7645, 17.6985, 0.11623],
+            [148, -1.7604, 17.7551, 0.11656], [149, -1.7559, 17.8124, 0.11688], [150, -1.7511, 17.8704, 0.1172], [151, -1.7461, 17.9292, 0.11751],
+            [152, -1.7408, 17.9887, 0.11781], [153, -1.7352, 18.0488, 0.11811], [154, -1.7293, 18.1096, 0.11841], [155, -1.7232, 18.171, 0.11869],
+            [156, -1.7168, 18.233, 0.11898], [157, -1.7102, 18.2955, 0.11925], [158, -1.7033, 18.3586, 0.11952], [159, -1.6962, 18.4221, 0.11979],
+            [160, -1.6888, 18.486, 0.12005], [161, -1.6811, 18.5502, 0.1203], [162, -1.6732, 18.6148, 0.12055], [163, -1.6651, 18.6795, 0.12079],
+            [164, -1.6568, 18.7445, 0.12102], [165, -1.6482, 18.8095, 0.12125], [166, -1.6394, 18.8746, 0.12148], [167, -1.6304, 18.9398, 0.1217],
+            [168, -1.6211, 19.005, 0.12191], [169, -1.6116, 19.0701, 0.12212], [170, -1.602, 19.1351, 0.12233], [171, -1.5921, 19.2, 0.12253],
+            [172, -1.5821, 19.2648, 0.12272], [173, -1.5719, 19.3294, 0.12291], [174, -1.5615, 19.3937, 0.1231], [175, -1.551, 19.4578, 0.12328],
+            [176, -1.5403, 19.5217, 0.12346], [177, -1.5294, 19.5853, 0.12363], [178, -1.5185, 19.6486, 0.1238], [179, -1.5074, 19.7117, 0.12396],
+            [180, -1.4961, 19.7744, 0.12412], [181, -1.4848, 19.8367, 0.12428], [182, -1.4733, 19.8987, 0.12443], [183, -1.4617, 19.9603, 0.12458],
+            [184, -1.45, 20.0215, 0.12473], [185, -1.4382, 20.0823, 0.12487], [186, -1.4263, 20.1427, 0.12501], [187, -1.4143, 20.2026, 0.12514],
+            [188, -1.4022, 20.2621, 0.12528], [189, -1.39, 20.3211, 0.12541], [190, -1.3777, 20.3796, 0.12554], [191, -1.3653, 20.4376, 0.12567],
+            [192, -1.3529, 20.4951, 0.12579], [193, -1.3403, 20.5521, 0.12591], [194, -1.3277, 20.6085, 0.12603], [195, -1.3149, 20.6644, 0.12615],
+            [196, -1.3021, 20.7197, 0.12627], [197, -1.2892, 20.7745, 0.12638], [198, -1.2762, 20.8287, 0.1265], [199, -1.2631, 20.8824, 0.12661],
+            [200, -1.2499, 20.9355, 0.12672], [201, -1.2366, 20.9881, 0.12683], [202, -1.2233, 21.04, 0.12694], [203, -1.2098, 21.0914, 0.12704],
+            [204, -1.1962, 21.1423, 0.12715], [205, -1.1826, 21.1925, 0.12726], [206, -1.1688, 21.2423, 0.12736], [207, -1.155, 21.2914, 0.12746],
+            [208, -1.141, 21.34, 0.12756], [209, -1.127, 21.388, 0.12767], [210, -1.1129, 21.4354, 0.12777], [211, -1.0986, 21.4822, 0.12787],
+            [212, -1.0843, 21.5285, 0.12797], [213, -1.0699, 21.5742, 0.12807], [214, -1.0553, 21.6193, 0.12816], [215, -1.0407, 21.6638, 0.12826],
+            [216, -1.026, 21.7077, 0.12836], [217, -1.0112, 21.751, 0.12845], [218, -0.9962, 21.7937, 0.12855], [219, -0.9812, 21.8358, 0.12864],
+            [220, -0.9661, 21.8773, 0.12874], [221, -0.9509, 21.9182, 0.12883], [222, -0.9356, 21.9585, 0.12893], [223, -0.9202, 21.9982, 0.12902],
+            [224, -0.9048, 22.0374, 0.12911], [225, -0.8892, 22.076, 0.1292], [226, -0.8735, 22.114, 0.1293], [227, -0.8578, 22.1514, 0.12939],
+            [228, -0.8419, 22.1883, 0.12948]
+        ]
+    },
+    // Weight (kg) for recumbent length in cm, 45-110, under 2 years
+    weightForLength: {
+        female: [
+            [45, -0.3833, 2.4607, 0.09029], [45.5, -0.3833, 2.5457, 0.09033], [46, -0.3833, 2.6306, 0.09037], [46.5, -0.3833, 2.7155, 0.0904],
+            [47, -0.3833, 2.8007, 0.09044], [47.5, -0.3833, 2.8867, 0.09048], [48, -0.3833, 2.9741, 0.09052], [48.5, -0.3833, 3.0636, 0.09056],
+            [49, -0.3833, 3.156, 0.0906], [49.5, -0.3833, 3.252, 0.09064], [50, -0.3833, 3.3518, 0.09068], [50.5, -0.3833, 3.4557, 0.09072],
+            [51, -0.3833, 3.5636, 0.09076], [51.5, -0.3833, 3.6754, 0.0908], [52, -0.3833, 3.7911, 0.09085], [52.5, -0.3833, 3.9105, 0.09089],
+            [53, -0.3833, 4.0332, 0.09093], [53.5, -0.3833, 4.1591, 0.09098], [54, -0.3833, 4.2875, 0.09102], [54.5, -0.3833, 4.4179, 0.09106],
+            [55, -0.3833, 4.5498, 0.0911], [55.5, -0.3833, 4.6827, 0.09114], [56, -0.3833, 4.8162, 0.09118], [56.5, -0.3833, 4.95, 0.09121],
+            [57, -0.3833, 5.0837, 0.09125], [57.5, -0.3833, 5.2173, 0.09128], [58, -0.3833, 5.3507, 0.0913], [58.5, -0.3833, 5.4834, 0.09132],
+            [59, -0.3833, 5.6151, 0.09134], [59.5, -0.3833, 5.7454, 0.09135], [60, -0.3833, 5.8742, 0.09136], [60.5, -0.3833, 6.0014, 0.09137],
+            [61, -0.3833, 6.127, 0.09137], [61.5, -0.3833, 6.2511, 0.09136], [62, -0.3833, 6.3738, 0.09135], [62.5, -0.3833, 6.4948, 0.09133],
+            [63, -0.3833, 6.6144, 0.09131], [63.5, -0.3833, 6.7328, 0.09129], [64, -0.3833, 6.8501, 0.09126], [64.5, -0.3833, 6.9662, 0.09123],
+            [65, -0.3833, 7.0812, 0.09119], [65.5, -0.3833, 7.195, 0.09115], [66, -0.3833, 7.3076, 0.0911], [66.5, -0.3833, 7.4189, 0.09106],
+            [67, -0.3833, 7.5288, 0.09101], [67.5, -0.3833, 7.6375, 0.09096], [68, -0.3833, 7.7448, 0.0909], [68.5, -0.3833, 7.8509, 0.09085],
+            [69, -0.3833, 7.9559, 0.09079], [69.5, -0.3833, 8.0599, 0.09074], [70, -0.3833, 8.163, 0.09068], [70.5, -0.3833, 8.2651, 0.09062],
+            [71, -0.3833, 8.3666, 0.09056], [71.5, -0.3833, 8.4676, 0.0905], [72, -0.3833, 8.5679, 0.09043], [72.5, -0.3833, 8.6674, 0.09037],
+            [73, -0.3833, 8.7661, 0.09031], [73.5, -0.3833, 8.8638, 0.09025], [74, -0.3833, 8.9601, 0.09018], [74.5, -0.3833, 9.0552, 0.09012],
+            [75, -0.3833, 9.149, 0.09005], [75.5, -0.3833, 9.2418, 0.08999], [76, -0.3833, 9.3337, 0.08992], [76.5, -0.3833, 9.4252, 0.08985],
+            [77, -0.3833, 9.5166, 0.08979], [77.5, -0.3833, 9.6086, 0.08972], [78, -0.3833, 9.7015, 0.08965], [78.5, -0.3833, 9.7957, 0.08959],
+            [79, -0.3833, 9.8915, 0.08952], [79.5, -0.3833, 9.9892, 0.08946], [80, -0.3833, 10.0891, 0.0894], [80.5, -0.3833, 10.1916, 0.08934],
+            [81, -0.3833, 10.2965, 0.08928], [81.5, -0.3833, 10.4041, 0.08923], [82, -0.3833, 10.514, 0.08918], [82.5, -0.3833, 10.6263, 0.08914],
+            [83, -0.3833, 10.741, 0.0891], [83.5, -0.3833, 10.8578, 0.08906], [84, -0.3833, 10.9767, 0.08903], [84.5, -0.3833, 11.0974, 0.089],
+            [85, -0.3833, 11.2198, 0.08898], [85.5, -0.3833, 11.3435, 0.08897], [86, -0.3833, 11.4684, 0.08895], [86.5, -0.3833, 11.594, 0.08895],
+            [87, -0.3833, 11.7201, 0.08895], [87.5, -0.3833, 11.8461, 0.08895], [88, -0.3833, 11.972, 0.08896], [88.5, -0.3833, 12.0976, 0.08898],
+            [89, -0.3833, 12.2229, 0.089], [89.5, -0.3833, 12.3477, 0.08903], [90, -0.3833, 12.4723, 0.08906], [90.5, -0.3833, 12.5965, 0.08909],
+            [91, -0.3833, 12.7205, 0.08913], [91.5, -0.3833, 12.8443, 0.08918], [92, -0.3833, 12.9681, 0.08923], [92.5, -0.3833, 13.092, 0.08928],
+            [93, -0.3833, 13.2158, 0.08934], [93.5, -0.3833, 13.3399, 0.08941], [94, -0.3833, 13.4643, 0.08948], [94.5, -0.3833, 13.5892, 0.08955],
+            [95, -0.3833, 13.7146, 0.08963], [95.5, -0.3833, 13.8408, 0.08972], [96, -0.3833, 13.9676, 0.08981], [96.5, -0.3833, 14.0953, 0.0899],
+            [97, -0.3833, 14.2239, 0.09], [97.5, -0.3833, 14.3537, 0.0901], [98, -0.3833, 14.4848, 0.09021], [98.5, -0.3833, 14.6174, 0.09033],
+            [99, -0.3833, 14.7519, 0.09044], [99.5, -0.3833, 14.8882, 0.09057], [100, -0.3833, 15.0267, 0.09069], [100.5, -0.3833, 15.1676, 0.09083],
+            [101, -0.3833, 15.3108, 0.09096], [101.5, -0.3833, 15.4564, 0.0911], [102, -0.3833, 15.6046, 0.09125], [102.5, -0.3833, 15.7553, 0.09139],
+            [103, -0.3833, 15.9087, 0.09155], [103.5, -0.3833, 16.0645, 0.0917], [104, -0.3833, 16.2229, 0.09186], [104.5, -0.3833, 16.3837, 0.09203],
+            [105, -0.3833, 16.547, 0.09219], [105.5, -0.3833, 16.7129, 0.09236], [106, -0.3833, 16.8814, 0.09254], [106.5, -0.3833, 17.0527, 0.09271],
+            [107, -0.3833, 17.2269, 0.09289], [107.5, -0.3833, 17.4039, 0.09307], [108, -0.3833, 17.5839, 0.09326], [108.5, -0.3833, 17.7668, 0.09344],
+            [109, -0.3833, 17.9526, 0.09363], [109.5, -0.3833, 18.1412, 0.09382], [110, -0.3833, 18.3324, 0.09401]
+        ],
+        male: [
+            [45, -0.3521, 2.441, 0.09182], [45.5, -0.3521, 2.5244, 0.09153], [46, -0.3521, 2.6077, 0.09124], [46.5, -0.3521, 2.6913, 0.09094],
+            [47, -0.3521, 2.7755, 0.09065], [47.5, -0.3521, 2.8609, 0.09036], [48, -0.3521, 2.948, 0.09007], [48.5, -0.3521, 3.0377, 0.08977],
+            [49, -0.3521, 3.1308, 0.08948], [49.5, -0.3521, 3.2276, 0.08919], [50, -0.3521, 3.3278, 0.0889], [50.5, -0.3521, 3.4311, 0.08861],
+            [51, -0.3521, 3.5376, 0.08831], [51.5, -0.3521, 3.6477, 0.08801], [52, -0.3521, 3.762, 0.08771], [52.5, -0.3521, 3.8814, 0.08741],
+            [53, -0.3521, 4.006, 0.08711], [53.5, -0.3521, 4.1354, 0.08681], [54, -0.3521, 4.2693, 0.08651], [54.5, -0.3521, 4.4066, 0.08621],
+            [55, -0.3521, 4.5467, 0.08592], [55.5, -0.3521, 4.6892, 0.08563], [56, -0.3521, 4.8338, 0.08535], [56.5, -0.3521, 4.9796, 0.08507],
+            [57, -0.3521, 5.1259, 0.08481], [57.5, -0.3521, 5.2721, 0.08455], [58, -0.3521, 5.418, 0.0843], [58.5, -0.3521, 5.5632, 0.08406],
+            [59, -0.3521, 5.7074, 0.08383], [59.5, -0.3521, 5.8501, 0.08362], [60, -0.3521, 5.9907, 0.08342], [60.5, -0.3521, 6.1284, 0.08324],
+            [61, -0.3521, 6.2632, 0.08308], [61.5, -0.3521, 6.3954, 0.08292], [62, -0.3521, 6.5251, 0.08279], [62.5, -0.3521, 6.6527, 0.08266],
+            [63, -0.3521, 6.7786, 0.08255], [63.5, -0.3521, 6.9028, 0.08245], [64, -0.3521, 7.0255, 0.08236], [64.5, -0.3521, 7.1467, 0.08229],
+            [65, -0.3521, 7.2666, 0.08223], [65.5, -0.3521, 7.3854, 0.08218], [66, -0.3521, 7.5034, 0.08215], [66.5, -0.3521, 7.6206, 0.08213],
+            [67, -0.3521, 7.737, 0.08212], [67.5, -0.3521, 7.8526, 0.08212], [68, -0.3521, 7.9674, 0.08214], [68.5, -0.3521, 8.0816, 0.08216],
+            [69, -0.3521, 8.1955, 0.08219], [69.5, -0.3521, 8.3092, 0.08224], [70, -0.3521, 8.4227, 0.08229], [70.5, -0.3521, 8.5358, 0.08235],
+            [71, -0.3521, 8.648, 0.08241], [71.5, -0.3521, 8.7594, 0.08248], [72, -0.3521, 8.8697, 0.08254], [72.5, -0.3521, 8.9788, 0.08262],
+            [73, -0.3521, 9.0865, 0.08269], [73.5, -0.3521, 9.1927, 0.08276], [74, -0.3521, 9.2974, 0.08283], [74.5, -0.3521, 9.401, 0.08289],
+            [75, -0.3521, 9.5032, 0.08295], [75.5, -0.3521, 9.6041, 0.08301], [76, -0.3521, 9.7033, 0.08307], [76.5, -0.3521, 9.8007, 0.08311],
+            [77, -0.3521, 9.8963, 0.08314], [77.5, -0.3521, 9.9902, 0.08317], [78, -0.3521, 10.0827, 0.08318], [78.5, -0.3521, 10.1741, 0.08318],
+            [79, -0.3521, 10.2649, 0.08316], [79.5, -0.3521, 10.3558, 0.08313], [80, -0.3521, 10.4475, 0.08308], [80.5, -0.3521, 10.5405, 0.08301],
+            [81, -0.3521, 10.6352, 0.08293], [81.5, -0.3521, 10.7322, 0.08284], [82, -0.3521, 10.8321, 0.08273], [82.5, -0.3521, 10.935, 0.0826],
+            [83, -0.3521, 11.0415, 0.08246], [83.5, -0.3521, 11.1516, 0.08231], [84, -0.3521, 11.2651, 0.08215], [84.5, -0.3521, 11.3817, 0.08198],
+            [85, -0.3521, 11.5007, 0.08181], [85.5, -0.3521, 11.6218, 0.08163], [86, -0.3521, 11.7444, 0.08145], [86.5, -0.3521, 11.8678, 0.08128],
+            [87, -0.3521, 11.9916, 0.08111], [87.5, -0.3521, 12.1152, 0.08096], [88, -0.3521, 12.2382, 0.08082], [88.5, -0.3521, 12.3603, 0.08069],
+            [89, -0.3521, 12.4815, 0.08058], [89.5, -0.3521, 12.6017, 0.08048], [90, -0.3521, 12.7209, 0.08041], [90.5, -0.3521, 12.8392, 0.08034],
+            [91, -0.3521, 12.9569, 0.0803], [91.5, -0.3521, 13.0742, 0.08026], [92, -0.3521, 13.191, 0.08025], [92.5, -0.3521, 13.3075, 0.08025],
+            [93, -0.3521, 13.4239, 0.08026], [93.5, -0.3521, 13.5404, 0.08029], [94, -0.3521, 13.6572, 0.08034], [94.5, -0.3521, 13.7746, 0.0804],
+            [95, -0.3521, 13.8928, 0.08047], [95.5, -0.3521, 14.012, 0.08056], [96, -0.3521, 14.1325, 0.08067], [96.5, -0.3521, 14.2544, 0.08078],
+            [97, -0.3521, 14.3782, 0.08092], [97.5, -0.3521, 14.5038, 0.08106], [98, -0.3521, 14.6316, 0.08122], [98.5, -0.3521, 14.7614, 0.08139],
+            [99, -0.3521, 14.8934, 0.08157], [99.5, -0.3521, 15.0275, 0.08177], [100, -0.3521, 15.1637, 0.08198], [100.5, -0.3521, 15.3018, 0.0822],
+            [101, -0.3521, 15.4419, 0.08243], [101.5, -0.3521, 15.5838, 0.08267], [102, -0.3521, 15.7276, 0.08292], [102.5, -0.3521, 15.8732, 0.08317],
+            [103, -0.3521, 16.0206, 0.08343], [103.5, -0.3521, 16.1697, 0.0837], [104, -0.3521, 16.3204, 0.08397], [104.5, -0.3521, 16.4728, 0.08425],
+            [105, -0.3521, 16.6268, 0.08453], [105.5, -0.3521, 16.7826, 0.08481], [106, -0.3521, 16.9401, 0.0851], [106.5, -0.3521, 17.0995, 0.08539],
+            [107, -0.3521, 17.2607, 0.08568], [107.5, -0.3521, 17.4237, 0.08599], [108, -0.3521, 17.5885, 0.08629], [108.5, -0.3521, 17.7553, 0.0866],
+            [109, -0.3521, 17.9242, 0.08691], [109.5, -0.3521, 18.0954, 0.08723], [110, -0.3521, 18.2689, 0.08755]
+        ]
+    },
+    // Weight (kg) for standing height in cm, 65-120, 2 to 5 years
+    weightForHeight: {
+        female: [
+            [65, -0.3833, 7.2402, 0.09113], [65.5, -0.3833, 7.3523, 0.09109], [66, -0.3833, 7.463, 0.09104], [66.5, -0.3833, 7.5724, 0.09099],
+            [67, -0.3833, 7.6806, 0.09094], [67.5, -0.3833, 7.7874, 0.09088], [68, -0.3833, 7.893, 0.09083], [68.5, -0.3833, 7.9976, 0.09077],
+            [69, -0.3833, 8.1012, 0.09071], [69.5, -0.3833, 8.2039, 0.09065], [70, -0.3833, 8.3058, 0.09059], [70.5, -0.3833, 8.4071, 0.09053],
+            [71, -0.3833, 8.5078, 0.09047], [71.5, -0.3833, 8.6078, 0.09041], [72, -0.3833, 8.707, 0.09035], [72.5, -0.3833, 8.8053, 0.09028],
+            [73, -0.3833, 8.9025, 0.09022], [73.5, -0.3833, 8.9983, 0.09016], [74, -0.3833, 9.0928, 0.09009], [74.5, -0.3833, 9.1862, 0.09003],
+            [75, -0.3833, 9.2786, 0.08996], [75.5, -0.3833, 9.3703, 0.08989], [76, -0.3833, 9.4617, 0.08983], [76.5, -0.3833, 9.5533, 0.08976],
+            [77, -0.3833, 9.6456, 0.08969], [77.5, -0.3833, 9.739, 0.08963], [78, -0.3833, 9.8338, 0.08956], [78.5, -0.3833, 9.9303, 0.0895],
+            [79, -0.3833, 10.0289, 0.08943], [79.5, -0.3833, 10.1298, 0.08937], [80, -0.3833, 10.2332, 0.08932], [80.5, -0.3833, 10.3393, 0.08926],
+            [81, -0.3833, 10.4477, 0.08921], [81.5, -0.3833, 10.5586, 0.08916], [82, -0.3833, 10.6719, 0.08912], [82.5, -0.3833, 10.7874, 0.08908],
+            [83, -0.3833, 10.9051, 0.08905], [83.5, -0.3833, 11.0248, 0.08902], [84, -0.3833, 11.1462, 0.08899], [84.5, -0.3833, 11.2691, 0.08897],
+            [85, -0.3833, 11.3934, 0.08896], [85.5, -0.3833, 11.5186, 0.08895], [86, -0.3833, 11.6444, 0.08895], [86.5, -0.3833, 11.7705, 0.08895],
+            [87, -0.3833, 11.8965, 0.08896], [87.5, -0.3833, 12.0223, 0.08897], [88, -0.3833, 12.1478, 0.08899], [88.5, -0.3833, 12.2729, 0.08901],
+            [89, -0.3833, 12.3976, 0.08904], [89.5, -0.3833, 12.522, 0.08907], [90, -0.3833, 12.6461, 0.08911], [90.5, -0.3833, 12.77, 0.08915],
+            [91, -0.3833, 12.8939, 0.0892], [91.5, -0.3833, 13.0177, 0.08925], [92, -0.3833, 13.1415, 0.08931], [92.5, -0.3833, 13.2654, 0.08937],
+            [93, -0.3833, 13.3896, 0.08944], [93.5, -0.3833, 13.5142, 0.08951], [94, -0.3833, 13.6393, 0.08959], [94.5, -0.3833, 13.765, 0.08967],
+            [95, -0.3833, 13.8914, 0.08975], [95.5, -0.3833, 14.0186, 0.08984], [96, -0.3833, 14.1466, 0.08994], [96.5, -0.3833, 14.2757, 0.09004],
+            [97, -0.3833, 14.4059, 0.09015], [97.5, -0.3833, 14.5376, 0.09026], [98, -0.3833, 14.671, 0.09037], [98.5, -0.3833, 14.8062, 0.09049],
+            [99, -0.3833, 14.9434, 0.09062], [99.5, -0.3833, 15.0828, 0.09075], [100, -0.3833, 15.2246, 0.09088], [100.5, -0.3833, 15.3687, 0.09102],
+            [101, -0.3833, 15.5154, 0.09116], [101.5, -0.3833, 15.6646, 0.09131], [102, -0.3833, 15.8164, 0.09146], [102.5, -0.3833, 15.9707, 0.09161],
+            [103, -0.3833, 16.1276, 0.09177], [103.5, -0.3833, 16.287, 0.09193], [104, -0.3833, 16.4488, 0.09209], [104.5, -0.3833, 16.6131, 0.09226],
+            [105, -0.3833, 16.78, 0.09243], [105.5, -0.3833, 16.9496, 0.09261], [106, -0.3833, 17.122, 0.09278], [106.5, -0.3833, 17.2973, 0.09296],
+            [107, -0.3833, 17.4755, 0.09315], [107.5, -0.3833, 17.6567, 0.09333], [108, -0.3833, 17.8407, 0.09352], [108.5, -0.3833, 18.0277, 0.09371],
+            [109, -0.3833, 18.2174, 0.0939], [109.5, -0.3833, 18.4096, 0.09409], [110, -0.3833, 18.6043, 0.09428], [110.5, -0.3833, 18.8015, 0.09448],
+            [111, -0.3833, 19.0009, 0.09467], [111.5, -0.3833, 19.2024, 0.09487], [112, -0.3833, 19.406, 0.09507], [112.5, -0.3833, 19.6116, 0.09527],
+            [113, -0.3833, 19.819, 0.09546], [113.5, -0.3833, 20.028, 0.09566], [114, -0.3833, 20.2385, 0.09586], [114.5, -0.3833, 20.4502, 0.09606],
+            [115, -0.3833, 20.6629, 0.09626], [115.5, -0.3833, 20.8766, 0.09646], [116, -0.3833, 21.0909, 0.09666], [116.5, -0.3833, 21.3059, 0.09686],
+            [117, -0.3833, 21.5213, 0.09707], [117.5, -0.3833, 21.737, 0.09727], [118, -0.3833, 21.9529, 0.09747], [118.5, -0.3833, 22.169, 0.09767],
+            [119, -0.3833, 22.3851, 0.09788], [119.5, -0.3833, 22.6012, 0.09808], [120, -0.3833, 22.8173, 0.09828]
+        ],
+        male: [
+            [65, -0.3521, 7.4327, 0.08217], [65.5, -0.3521, 7.5504, 0.08214], [66, -0.3521, 7.6673, 0.08212], [66.5, -0.3521, 7.7834, 0.08212],
+            [67, -0.3521, 7.8986, 0.08213], [67.5, -0.3521, 8.0132, 0.08214], [68, -0.3521, 8.1272, 0.08217], [68.5, -0.3521, 8.241, 0.08221],
+            [69, -0.3521, 8.3547, 0.08226], [69.5, -0.3521, 8.468, 0.08231], [70, -0.3521, 8.5808, 0.08237], [70.5, -0.3521, 8.6927, 0.08243],
+            [71, -0.3521, 8.8036, 0.0825], [71.5, -0.3521, 8.9135, 0.08257], [72, -0.3521, 9.0221, 0.08264], [72.5, -0.3521, 9.1292, 0.08272],
+            [73, -0.3521, 9.2347, 0.08278], [73.5, -0.3521, 9.339, 0.08285], [74, -0.3521, 9.442, 0.08292], [74.5, -0.3521, 9.5438, 0.08298],
+            [75, -0.3521, 9.644, 0.08303], [75.5, -0.3521, 9.7425, 0.08308], [76, -0.3521, 9.8392, 0.08312], [76.5, -0.3521, 9.9341, 0.08315],
+            [77, -0.3521, 10.0274, 0.08317], [77.5, -0.3521, 10.1194, 0.08318], [78, -0.3521, 10.2105, 0.08317], [78.5, -0.3521, 10.3012, 0.08315],
+            [79, -0.3521, 10.3923, 0.08311], [79.5, -0.3521, 10.4845, 0.08305], [80, -0.3521, 10.5781, 0.08298], [80.5, -0.3521, 10.6737, 0.0829],
+            [81, -0.3521, 10.7718, 0.08279], [81.5, -0.3521, 10.8728, 0.08268], [82, -0.3521, 10.9772, 0.08255], [82.5, -0.3521, 11.0851, 0.08241],
+            [83, -0.3521, 11.1966, 0.08225], [83.5, -0.3521, 11.3114, 0.08209], [84, -0.3521, 11.429, 0.08191], [84.5, -0.3521, 11.549, 0.08174],
+            [85, -0.3521, 11.6707, 0.08156], [85.5, -0.3521, 11.7937, 0.08138], [86, -0.3521, 11.9173, 0.08121], [86.5, -0.3521, 12.0411, 0.08105],
+            [87, -0.3521, 12.1645, 0.0809], [87.5, -0.3521, 12.2871, 0.08076], [88, -0.3521, 12.4089, 0.08064], [88.5, -0.3521, 12.5298, 0.08054],
+            [89, -0.3521, 12.6495, 0.08045], [89.5, -0.3521, 12.7683, 0.08038], [90, -0.3521, 12.8864, 0.08032], [90.5, -0.3521, 13.0038, 0.08028],
+            [91, -0.3521, 13.1209, 0.08025], [91.5, -0.3521, 13.2376, 0.08024], [92, -0.3521, 13.3541, 0.08025], [92.5, -0.3521, 13.4705, 0.08027],
+            [93, -0.3521, 13.587, 0.08031], [93.5, -0.3521, 13.7041, 0.08036], [94, -0.3521, 13.8217, 0.08043], [94.5, -0.3521, 13.9403, 0.08051],
+            [95, -0.3521, 14.06, 0.0806], [95.5, -0.3521, 14.1811, 0.08071], [96, -0.3521, 14.3037, 0.08083], [96.5, -0.3521, 14.4282, 0.08097],
+            [97, -0.3521, 14.5547, 0.08112], [97.5, -0.3521, 14.6832, 0.08129], [98, -0.3521, 14.814, 0.08146], [98.5, -0.3521, 14.9468, 0.08165],
+            [99, -0.3521, 15.0818, 0.08185], [99.5, -0.3521, 15.2187, 0.08206], [100, -0.3521, 15.3576, 0.08229], [100.5, -0.3521, 15.4985, 0.08252],
+            [101, -0.3521, 15.6412, 0.08277], [101.5, -0.3521, 15.7857, 0.08302], [102, -0.3521, 15.932, 0.08328], [102.5, -0.3521, 16.0801, 0.08354],
+            [103, -0.3521, 16.2298, 0.08381], [103.5, -0.3521, 16.3812, 0.08408], [104, -0.3521, 16.5342, 0.08436], [104.5, -0.3521, 16.6889, 0.08464],
+            [105, -0.3521, 16.8454, 0.08493], [105.5, -0.3521, 17.0036, 0.08521], [106, -0.3521, 17.1637, 0.08551], [106.5, -0.3521, 17.3256, 0.0858],
+            [107, -0.3521, 17.4894, 0.08611], [107.5, -0.3521, 17.655, 0.08641], [108, -0.3521, 17.8226, 0.08673], [108.5, -0.3521, 17.9924, 0.08704],
+            [109, -0.3521, 18.1645, 0.08736], [109.5, -0.3521, 18.339, 0.08768], [110, -0.3521, 18.5158, 0.088], [110.5, -0.3521, 18.6948, 0.08832],
+            [111, -0.3521, 18.8759, 0.08864], [111.5, -0.3521, 19.059, 0.08896], [112, -0.3521, 19.2439, 0.08928], [112.5, -0.3521, 19.4304, 0.0896],
+            [113, -0.3521, 19.6185, 0.08991], [113.5, -0.3521, 19.8081, 0.09022], [114, -0.3521, 19.999, 0.09054], [114.5, -0.3521, 20.1912, 0.09085],
+            [115, -0.3521, 20.3846, 0.09116], [115.5, -0.3521, 20.5789, 0.09147], [116, -0.3521, 20.7741, 0.09177], [116.5, -0.3521, 20.97, 0.09208],
+            [117, -0.3521, 21.1666, 0.09239], [117.5, -0.3521, 21.3636, 0.0927], [118, -0.3521, 21.5611, 0.093], [118.5, -0.3521, 21.7588, 0.09331],
+            [119, -0.3521, 21.9568, 0.09362], [119.5, -0.3521, 22.1549, 0.09393], [120, -0.3521, 22.353, 0.09424]
+        ]
+    }
+};